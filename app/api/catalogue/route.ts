@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadTrainingCatalogue } from '@/lib/catalogue-loader';
+import type { CatalogueSearchResult, CatalogueUnit, QualificationUnit } from '@/lib/training-catalogue';
+import { extractUnitCodes } from '@/lib/training-catalogue';
+
+/**
+ * Response body for GET /api/catalogue
+ */
+export interface CatalogueResponse {
+  /** Matches for `q` */
+  results: CatalogueSearchResult[];
+
+  /** Catalogue entries for the requested `codes` (unknown codes are omitted) */
+  units: CatalogueUnit[];
+
+  /** Packaged units for the requested `qualification` */
+  qualification_units: QualificationUnit[];
+}
+
+const MAX_LIMIT = 50;
+
+/**
+ * API Route: GET /api/catalogue
+ * Looks up the local training package catalogue
+ *
+ * Query parameters (all optional, combinable):
+ * - q, kind=qualification|unit, limit: autocomplete search
+ * - codes=HLTAID009,HLTAID010: exact unit lookup
+ * - qualification=BSB40120: units packaged in a qualification
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  try {
+    const catalogue = await loadTrainingCatalogue();
+
+    const kind = params.get('kind') === 'qualification' ? 'qualification' : 'unit';
+    const limit = Math.min(Number(params.get('limit')) || 20, MAX_LIMIT);
+
+    const body: CatalogueResponse = {
+      results: catalogue.search(params.get('q') || '', kind, limit),
+      units: extractUnitCodes(params.get('codes') || '')
+        .map((code) => catalogue.findUnit(code))
+        .filter((unit): unit is CatalogueUnit => !!unit),
+      qualification_units: catalogue.unitsForQualification(params.get('qualification') || undefined),
+    };
+
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('[API] Catalogue lookup failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Training catalogue unavailable',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
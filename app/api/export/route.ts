@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerPlanStore } from '@/lib/file-plan-store';
+import { isValidPlanId, validateStoredPlan } from '@/lib/plan-store';
+import { authorizePlanRequest } from '@/lib/plan-api-auth';
+import { migratePlan } from '@/lib/plan-migrations';
+import { ExportError, renderPlanExport, SERVER_EXPORT_FORMATS } from '@/lib/export-renderer';
+import { BrandingError, validateBranding } from '@/lib/branding';
+import { isPlanSheetId, PLAN_SHEETS } from '@/lib/plan-sheets';
+import { ExportFormat, ExportOptions, GeneratedPlan } from '@/types/unit-plan';
+
+/**
+ * Request body: a saved plan id or a plan (JSON export format), plus the
+ * export format, optional filename (without extension), for DOCX the
+ * organisation branding from settings, and for CSV the sheet
+ */
+export type ExportRequest = Pick<ExportOptions, 'format' | 'filename' | 'branding' | 'sheet'> & {
+  planId?: string;
+  plan?: unknown;
+};
+
+function badRequest(error: string, details?: unknown) {
+  return NextResponse.json({ error, ...(details !== undefined ? { details } : {}) }, { status: 400 });
+}
+
+/**
+ * Find the plan to export: a saved plan by id (which needs the plan API
+ * token, like /api/plans), or a plan sent in the body. Either is migrated
+ * to the current schema and validated, as on import: the file store returns
+ * entries as they were written.
+ */
+async function resolvePlan(
+  request: NextRequest,
+  body: ExportRequest
+): Promise<{ plan: GeneratedPlan } | { response: NextResponse }> {
+  if (body.planId !== undefined) {
+    const denied = authorizePlanRequest(request);
+    if (denied) return { response: denied };
+    if (!isValidPlanId(body.planId)) {
+      return { response: badRequest('Invalid plan id', body.planId) };
+    }
+    const entry = await getServerPlanStore().get(body.planId);
+    if (!entry) {
+      return {
+        response: NextResponse.json({ error: 'Plan not found', details: body.planId }, { status: 404 }),
+      };
+    }
+    const stored = validateStoredPlan(entry);
+    if ('error' in stored) {
+      return {
+        response: NextResponse.json(
+          { error: 'Saved plan cannot be exported', details: stored.error },
+          { status: 422 }
+        ),
+      };
+    }
+    return { plan: stored.entry.plan };
+  }
+
+  const migrated = migratePlan(body.plan);
+  return migrated.ok ? { plan: migrated.plan } : { response: badRequest('Invalid plan', migrated.error) };
+}
+
+/**
+ * API Route: POST /api/export
+ * Renders a plan as DOCX, PDF, Markdown, JSON, XLSX, CSV or iCalendar and returns the file
+ */
+export async function POST(request: NextRequest) {
+  let body: ExportRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return badRequest('Invalid request body. Expected JSON.');
+  }
+  if (!body || typeof body !== 'object') {
+    return badRequest('Invalid request body. Expected JSON.');
+  }
+
+  if (!SERVER_EXPORT_FORMATS.includes(body.format as ExportFormat)) {
+    return badRequest('Invalid export format', `format must be one of ${SERVER_EXPORT_FORMATS.join(', ')}`);
+  }
+  if (body.filename !== undefined && typeof body.filename !== 'string') {
+    return badRequest('Invalid filename', 'filename must be a string');
+  }
+  if (body.sheet !== undefined && !isPlanSheetId(body.sheet)) {
+    return badRequest('Invalid sheet', `sheet must be one of ${PLAN_SHEETS.map(({ id }) => id).join(', ')}`);
+  }
+  if ((body.planId === undefined) === (body.plan === undefined)) {
+    return badRequest('Invalid request body', 'Provide exactly one of planId or plan');
+  }
+
+  let branding: ExportOptions['branding'];
+  if (body.branding !== undefined) {
+    const checked = validateBranding(body.branding);
+    if ('error' in checked) return badRequest('Invalid branding', checked.error);
+    branding = checked.branding;
+  }
+
+  try {
+    const resolved = await resolvePlan(request, body);
+    if ('response' in resolved) return resolved.response;
+
+    const file = await renderPlanExport(resolved.plan, {
+      format: body.format,
+      filename: body.filename,
+      branding,
+      sheet: body.sheet,
+    });
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ExportError) {
+      return badRequest('Cannot export plan', error.message);
+    }
+    if (error instanceof BrandingError) {
+      return badRequest('Invalid branding', error.message);
+    }
+    console.error('[API] Export failed:', error);
+    return NextResponse.json(
+      {
+        error: 'Export failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
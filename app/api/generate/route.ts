@@ -1,15 +1,191 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateWithAPRV } from '@/lib/aprv';
-import { validateEnv } from '@/config/env';
+import { generateWithAPRV, APRVProgressEvent, APRVResult } from '@/lib/aprv';
+import { toAPRVIntake, applyOrganisationDefaults, applyIntakeToMeta } from '@/lib/plan-adapters';
+import { validateEnv, config } from '@/config/env';
 import { validatePlan } from '@/lib/schema-validator';
-import { IntakeFormData } from '@/types/unit-plan';
+import { IntakeFormData, APRVIntake, GeneratedPlan, OrganisationDefaults, ReflectionFinding } from '@/types/unit-plan';
 import { readFile } from 'fs/promises';
 import { join } from 'path';
-import Anthropic from '@anthropic-ai/sdk';
+import { createProvider, LLMProvider } from '@/lib/llm-provider';
+import { loadTrainingCatalogue } from '@/lib/catalogue-loader';
+import { TrainingCatalogue } from '@/lib/training-catalogue';
+import { loadClosures } from '@/lib/calendar-loader';
+import { applyCalendar, planCalendar, scheduleWeeks, Closure, PlanCalendar } from '@/lib/delivery-calendar';
+
+/**
+ * Events written to the response body in streaming mode (one JSON object per line)
+ */
+export type GenerateStreamEvent =
+  | APRVProgressEvent
+  | { type: 'result'; plan: GeneratedPlan; metadata: GenerateResultMetadata }
+  | { type: 'error'; error: string; details?: unknown; logs: unknown[] };
+
+/**
+ * Request body: the intake form data, plus the organisation defaults from settings
+ */
+export type GenerateRequest = IntakeFormData & { organisationDefaults?: OrganisationDefaults };
+
+/**
+ * Metadata returned alongside a generated plan
+ */
+export interface GenerateResultMetadata {
+  duration_ms: number;
+  logs: unknown[];
+  /** Reflection findings a reviewer should look at */
+  review_notes: ReflectionFinding[];
+}
+
+/**
+ * Whether the client asked for NDJSON progress streaming
+ * (`?stream=1` or `Accept: application/x-ndjson`)
+ */
+function wantsStream(request: NextRequest): boolean {
+  const param = request.nextUrl.searchParams.get('stream');
+  if (param === '1' || param === 'true') return true;
+  return (request.headers.get('accept') || '').includes('application/x-ndjson');
+}
+
+/**
+ * Turn an APRV result into the final response payload and HTTP status
+ *
+ * The intake's start date, venue, class size, trainers and level replace
+ * whatever the model wrote in `meta`, and the weeks are dated from the
+ * delivery calendar, before the final validation.
+ */
+function finalizeResult(
+  result: APRVResult,
+  intake: APRVIntake,
+  calendar: PlanCalendar | undefined,
+  duration: number
+): { status: number; body: Record<string, unknown> } {
+  const logs = result.phase_logs || [];
+
+  // Check if generation was successful
+  if (!result.success || !result.plan) {
+    return {
+      status: 500,
+      body: {
+        error: 'Generation failed',
+        details: result.error || 'Unknown error occurred during generation',
+        logs,
+      },
+    };
+  }
+
+  let plan = applyIntakeToMeta(result.plan, intake);
+  if (calendar) {
+    try {
+      plan = applyCalendar(plan, calendar);
+    } catch (error) {
+      console.warn('[API] Could not date the weekly plan:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Final validation with Zod
+  const validation = validatePlan(plan);
+  if (!validation.success) {
+    console.error('[API] Final validation failed:', validation.errors);
+    return {
+      status: 500,
+      body: {
+        error: 'Generated plan failed validation',
+        details: validation.errors,
+        logs,
+      },
+    };
+  }
+
+  // Success! Return the generated plan
+  return {
+    status: 200,
+    body: {
+      success: true,
+      plan: validation.data,
+      metadata: {
+        duration_ms: duration,
+        logs,
+        review_notes: result.review_notes || [],
+      },
+    },
+  };
+}
+
+/**
+ * Run the APRV loop and stream progress as newline-delimited JSON
+ */
+function streamGeneration(
+  intake: APRVIntake,
+  provider: LLMProvider,
+  schema: any,
+  catalogue: TrainingCatalogue,
+  calendar: PlanCalendar | undefined
+): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: GenerateStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          // Client disconnected - keep generating so the result is still logged
+          closed = true;
+        }
+      };
+
+      const startTime = Date.now();
+
+      try {
+        const result = await generateWithAPRV(intake, provider, schema, { onProgress: send, catalogue, calendar });
+        const duration = Date.now() - startTime;
+        console.log(`[API] Streamed generation completed in ${duration}ms`);
+
+        const { status, body: payload } = finalizeResult(result, intake, calendar, duration);
+        if (status === 200) {
+          send({
+            type: 'result',
+            plan: payload.plan as GeneratedPlan,
+            metadata: payload.metadata as GenerateResultMetadata,
+          });
+        } else {
+          send({
+            type: 'error',
+            error: payload.error as string,
+            details: payload.details,
+            logs: payload.logs as unknown[],
+          });
+        }
+      } catch (error) {
+        console.error('[API] Unexpected streaming error:', error);
+        send({
+          type: 'error',
+          error: 'Internal server error',
+          details: error instanceof Error ? error.message : 'Unknown error',
+          logs: [],
+        });
+      } finally {
+        if (!closed) controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
 
 /**
  * API Route: POST /api/generate
  * Generates a TAS unit plan from intake form data using APRV loop
+ *
+ * Streaming mode (`?stream=1` or `Accept: application/x-ndjson`) returns
+ * newline-delimited GenerateStreamEvent objects instead of a single JSON body.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -28,8 +204,9 @@ export async function POST(request: NextRequest) {
 
     // Parse and validate request body
     let intakeData: IntakeFormData;
+    let organisationDefaults: OrganisationDefaults | undefined;
     try {
-      intakeData = await request.json();
+      ({ organisationDefaults, ...intakeData } = (await request.json()) as GenerateRequest);
       console.log('[API] Received intake data:', JSON.stringify(intakeData, null, 2));
     } catch (error) {
       console.error('[API] Failed to parse request body:', error);
@@ -54,6 +231,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A malformed date would only fail the final validation, after generation
+    if (intakeData.startDate && !/^\d{4}-\d{2}-\d{2}$/.test(intakeData.startDate)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid start date',
+          details: 'startDate must be a date in YYYY-MM-DD format'
+        },
+        { status: 400 }
+      );
+    }
+
     // Load JSON schema
     let schema: any;
     try {
@@ -68,77 +256,61 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get Claude client (create raw Anthropic client for APRV)
-    const client = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-
-    // Adapt intake data to APRV format
-    const adaptedIntake = {
-      qualification: {
-        title: intakeData.qualification,
-        code: intakeData.qualificationCode,
-      },
-      duration: {
-        weeks: intakeData.durationWeeks,
-        total_hours: intakeData.totalHours,
-      },
-      delivery_mode: intakeData.deliveryMode as 'face_to_face' | 'online' | 'blended',
-      cohort_profile: intakeData.cohortProfile,
-      resources: intakeData.resources ? {
-        facilities: intakeData.resources.filter(r => ['Classroom/Training Room', 'Workshop/Practical Space'].includes(r)),
-        equipment: intakeData.resources.filter(r => r.includes('Equipment') || r === 'Computer Lab'),
-        technology: intakeData.resources.filter(r => r === 'Online Learning Platform (LMS)'),
-      } : undefined,
-      assessment_preferences: intakeData.assessmentPreferences,
-      unit_list: intakeData.unitList,
-    };
+    // Load the training catalogue - generation proceeds without it if unreadable
+    let catalogue: TrainingCatalogue;
+    try {
+      catalogue = await loadTrainingCatalogue();
+    } catch (error) {
+      console.error('[API] Failed to load training catalogue:', error);
+      catalogue = new TrainingCatalogue();
+    }
 
-    // Generate plan using APRV loop
-    console.log('[API] Starting APRV generation...');
-    const startTime = Date.now();
+    // Get the configured LLM provider (Anthropic, or the offline stub)
+    const provider = createProvider();
 
-    // @ts-expect-error - Type mismatch will be fixed in next iteration
-    const result = await generateWithAPRV(adaptedIntake, client, schema);
+    // Adapt intake data to APRV format, filling gaps from the organisation defaults
+    const adaptedIntake = applyOrganisationDefaults(toAPRVIntake(intakeData), organisationDefaults);
 
-    const duration = Date.now() - startTime;
-    console.log(`[API] Generation completed in ${duration}ms`);
+    // Closures are optional - without them weeks are dated around public holidays only
+    let closures: Closure[];
+    try {
+      closures = await loadClosures();
+    } catch (error) {
+      console.error('[API] Failed to load closure calendar:', error);
+      closures = [];
+    }
 
-    // Check if generation was successful
-    if (!result.success || !result.plan) {
+    // Date the weeks up front so an impossible schedule fails before generation
+    let calendar: PlanCalendar | undefined;
+    try {
+      calendar = planCalendar(adaptedIntake.start_date, adaptedIntake.delivery_schedule, closures);
+      if (calendar) scheduleWeeks(calendar, adaptedIntake.duration.weeks);
+    } catch (error) {
       return NextResponse.json(
         {
-          error: 'Generation failed',
-          details: result.error || 'Unknown error occurred during generation',
-          logs: (result as any).logs || [],
+          error: 'Invalid delivery schedule',
+          details: error instanceof Error ? error.message : 'Unknown error'
         },
-        { status: 500 }
+        { status: 400 }
       );
     }
 
-    // Final validation with Zod
-    const validation = validatePlan(result.plan);
-    if (!validation.success) {
-      console.error('[API] Final validation failed:', validation.errors);
-      return NextResponse.json(
-        {
-          error: 'Generated plan failed validation',
-          details: validation.errors,
-          logs: (result as any).logs || [],
-        },
-        { status: 500 }
-      );
+    if (wantsStream(request)) {
+      console.log('[API] Starting streamed APRV generation...');
+      return streamGeneration(adaptedIntake, provider, schema, catalogue, calendar);
     }
 
-    // Success! Return the generated plan
-    return NextResponse.json({
-      success: true,
-      plan: validation.data,
-      metadata: {
-        duration_ms: duration,
-        logs: (result as any).logs || [],
-      },
-    });
+    // Generate plan using APRV loop
+    console.log('[API] Starting APRV generation...');
+    const startTime = Date.now();
+
+    const result = await generateWithAPRV(adaptedIntake, provider, schema, { catalogue, calendar });
+
+    const duration = Date.now() - startTime;
+    console.log(`[API] Generation completed in ${duration}ms`);
+
+    const { status, body } = finalizeResult(result, adaptedIntake, calendar, duration);
+    return NextResponse.json(body, { status });
 
   } catch (error) {
     console.error('[API] Unexpected error:', error);
@@ -162,6 +334,7 @@ export async function GET() {
 
     return NextResponse.json({
       status: 'ready',
+      provider: config.llmProvider,
       model: process.env.NEXT_PUBLIC_API_MODEL || 'claude-3-5-sonnet-20241022',
       features: {
         auth: process.env.NEXT_PUBLIC_FEATURE_AUTH === 'true',
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerPlanStore } from '@/lib/file-plan-store';
+import { isValidPlanId, validateStoredPlan } from '@/lib/plan-store';
+import { authorizePlanRequest } from '@/lib/plan-api-auth';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function invalidId(id: string) {
+  return NextResponse.json({ error: 'Invalid plan id', details: id }, { status: 400 });
+}
+
+function notFound(id: string) {
+  return NextResponse.json({ error: 'Plan not found', details: id }, { status: 404 });
+}
+
+function storeError(action: string, error: unknown) {
+  console.error(`[API] Failed to ${action} plan:`, error);
+  return NextResponse.json(
+    {
+      error: `Failed to ${action} plan`,
+      details: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * API Route: GET /api/plans/:id
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const denied = authorizePlanRequest(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  if (!isValidPlanId(id)) return invalidId(id);
+
+  try {
+    const plan = await getServerPlanStore().get(id);
+    return plan ? NextResponse.json({ plan }) : notFound(id);
+  } catch (error) {
+    return storeError('read', error);
+  }
+}
+
+/**
+ * API Route: PUT /api/plans/:id
+ * Creates or replaces a saved plan; the body id must match the URL
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const denied = authorizePlanRequest(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  if (!isValidPlanId(id)) return invalidId(id);
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body. Expected JSON.' }, { status: 400 });
+  }
+
+  const result = validateStoredPlan(body);
+  if ('error' in result) {
+    return NextResponse.json({ error: 'Invalid plan', details: result.error }, { status: 400 });
+  }
+  if (result.entry.id !== id) {
+    return NextResponse.json(
+      { error: 'Plan id mismatch', details: `URL id ${id} does not match body id ${result.entry.id}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const plan = await getServerPlanStore().put(result.entry);
+    return NextResponse.json({ plan });
+  } catch (error) {
+    return storeError('save', error);
+  }
+}
+
+/**
+ * API Route: DELETE /api/plans/:id
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const denied = authorizePlanRequest(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  if (!isValidPlanId(id)) return invalidId(id);
+
+  try {
+    const deleted = await getServerPlanStore().delete(id);
+    return deleted ? NextResponse.json({ success: true }) : notFound(id);
+  } catch (error) {
+    return storeError('delete', error);
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerPlanStore } from '@/lib/file-plan-store';
+import { validateStoredPlan } from '@/lib/plan-store';
+import { authorizePlanRequest } from '@/lib/plan-api-auth';
+
+/**
+ * API Route: GET /api/plans
+ * Lists saved plans, newest first
+ */
+export async function GET(request: NextRequest) {
+  const denied = authorizePlanRequest(request);
+  if (denied) return denied;
+
+  try {
+    const plans = await getServerPlanStore().list();
+    return NextResponse.json({ plans });
+  } catch (error) {
+    console.error('[API] Failed to list plans:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list plans',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route: POST /api/plans
+ * Saves a new plan (a StoredPlan with a client-generated id)
+ */
+export async function POST(request: NextRequest) {
+  const denied = authorizePlanRequest(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body. Expected JSON.' }, { status: 400 });
+  }
+
+  const result = validateStoredPlan(body);
+  if ('error' in result) {
+    return NextResponse.json({ error: 'Invalid plan', details: result.error }, { status: 400 });
+  }
+
+  try {
+    const store = getServerPlanStore();
+    if (await store.get(result.entry.id)) {
+      return NextResponse.json(
+        { error: 'Plan already exists', details: `Use PUT /api/plans/${result.entry.id} to update it` },
+        { status: 409 }
+      );
+    }
+
+    const plan = await store.put(result.entry);
+    return NextResponse.json({ plan }, { status: 201 });
+  } catch (error) {
+    console.error('[API] Failed to save plan:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save plan',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refineWithAPRV, PlanChange } from '@/lib/aprv';
+import { toAPRVIntake, intakeFromPlan, toGeneratedPlan, applyOrganisationDefaults } from '@/lib/plan-adapters';
+import { validateEnv } from '@/config/env';
+import { validatePlan } from '@/lib/schema-validator';
+import { IntakeFormData, GeneratedPlan, OrganisationDefaults } from '@/types/unit-plan';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { createProvider } from '@/lib/llm-provider';
+import { loadTrainingCatalogue } from '@/lib/catalogue-loader';
+import { TrainingCatalogue } from '@/lib/training-catalogue';
+import { loadClosures } from '@/lib/calendar-loader';
+import { applyCalendar, planCalendar, Closure, PlanCalendar } from '@/lib/delivery-calendar';
+
+/**
+ * Request body for POST /api/refine
+ */
+export interface RefineRequest {
+  plan: GeneratedPlan;
+  instruction: string;
+  /** Original intake; without it the requirements are read from plan.meta */
+  intake?: IntakeFormData;
+  /** Organisation defaults from settings, merged into the intake */
+  organisationDefaults?: OrganisationDefaults;
+}
+
+/**
+ * Successful response body for POST /api/refine
+ */
+export interface RefineResponse {
+  success: true;
+  /** The refined plan (not saved; the client accepts or rejects it) */
+  plan: GeneratedPlan;
+  changes: PlanChange[];
+  summary: string;
+  metadata: {
+    duration_ms: number;
+    logs: unknown[];
+  };
+}
+
+const MAX_INSTRUCTION_LENGTH = 2000;
+
+/**
+ * API Route: POST /api/refine
+ * Applies a natural-language instruction to an existing plan using a
+ * constrained APRV pass and returns the proposed plan with its changes
+ */
+export async function POST(request: NextRequest) {
+  try {
+    try {
+      validateEnv();
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Server configuration error',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+      );
+    }
+
+    let body: RefineRequest;
+    try {
+      body = await request.json();
+    } catch (error) {
+      console.error('[API] Failed to parse refine request body:', error);
+      return NextResponse.json(
+        { error: 'Invalid request body. Expected JSON.' },
+        { status: 400 }
+      );
+    }
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Invalid request body. Expected JSON.' },
+        { status: 400 }
+      );
+    }
+
+    const instruction = typeof body.instruction === 'string' ? body.instruction.trim() : '';
+    if (!instruction || instruction.length > MAX_INSTRUCTION_LENGTH) {
+      return NextResponse.json(
+        {
+          error: 'Invalid instruction',
+          details: `instruction must be a non-empty string of at most ${MAX_INSTRUCTION_LENGTH} characters`
+        },
+        { status: 400 }
+      );
+    }
+
+    // Only a valid plan can be refined - the result is held to the same schema
+    const current = validatePlan(toGeneratedPlan(body.plan));
+    if (!current.success || !current.data) {
+      return NextResponse.json(
+        { error: 'Invalid plan', details: current.errors },
+        { status: 400 }
+      );
+    }
+    const plan = current.data;
+
+    let schema: any;
+    try {
+      const schemaContent = await readFile(join(process.cwd(), 'prompts', 'schema.json'), 'utf-8');
+      schema = JSON.parse(schemaContent);
+    } catch (error) {
+      console.error('Failed to load schema:', error);
+      return NextResponse.json(
+        { error: 'Failed to load validation schema' },
+        { status: 500 }
+      );
+    }
+
+    // Refinement proceeds without the catalogue if it is unreadable
+    let catalogue: TrainingCatalogue;
+    try {
+      catalogue = await loadTrainingCatalogue();
+    } catch (error) {
+      console.error('[API] Failed to load training catalogue:', error);
+      catalogue = new TrainingCatalogue();
+    }
+
+    const intake = applyOrganisationDefaults(
+      body.intake ? toAPRVIntake(body.intake) : intakeFromPlan(plan),
+      body.organisationDefaults
+    );
+
+    // Refined weeks are re-dated, so added or moved weeks get real dates too
+    let closures: Closure[];
+    try {
+      closures = await loadClosures();
+    } catch (error) {
+      console.error('[API] Failed to load closure calendar:', error);
+      closures = [];
+    }
+    let calendar: PlanCalendar | undefined;
+    try {
+      calendar = planCalendar(intake.start_date, intake.delivery_schedule, closures);
+    } catch (error) {
+      console.warn('[API] Refined plan will not be dated:', error instanceof Error ? error.message : error);
+    }
+
+    console.log(`[API] Refining plan: "${instruction}"`);
+    const startTime = Date.now();
+
+    const result = await refineWithAPRV(plan, instruction, intake, createProvider(), schema, { catalogue, calendar });
+
+    const duration = Date.now() - startTime;
+    const logs = result.phase_logs || [];
+    console.log(`[API] Refinement completed in ${duration}ms`);
+
+    if (!result.success || !result.plan) {
+      return NextResponse.json(
+        {
+          error: 'Refinement failed',
+          details: result.error || 'Unknown error occurred during refinement',
+          logs,
+        },
+        { status: 500 }
+      );
+    }
+
+    let refined = result.plan;
+    if (calendar) {
+      try {
+        refined = applyCalendar(refined, calendar);
+      } catch (error) {
+        console.warn('[API] Could not date the refined plan:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    // Final validation with Zod
+    const validation = validatePlan(refined);
+    if (!validation.success || !validation.data) {
+      console.error('[API] Refined plan failed validation:', validation.errors);
+      return NextResponse.json(
+        {
+          error: 'Refined plan failed validation',
+          details: validation.errors,
+          logs,
+        },
+        { status: 500 }
+      );
+    }
+
+    const response: RefineResponse = {
+      success: true,
+      plan: validation.data,
+      changes: result.changes || [],
+      summary: result.summary || '',
+      metadata: {
+        duration_ms: duration,
+        logs,
+      },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('[API] Unexpected refine error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { PlanLibrary } from '@/components/plan-library';
+import { ServerAccessSettings } from '@/components/server-access-settings';
+import { openSavedPlan, StoredPlan } from '@/lib/storage';
+import { config } from '@/config/env';
+
+export default function LibraryPage() {
+  const router = useRouter();
+  // Remounting the library reloads the plans with a new access token
+  const [libraryKey, setLibraryKey] = React.useState(0);
+
+  // The main page shows the current plan on mount
+  const handleOpen = async (stored: StoredPlan) => {
+    if (await openSavedPlan(stored.id)) {
+      router.push('/');
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-slate-900">
+                Plan Library
+              </h1>
+              <p className="mt-1 text-sm text-slate-600">
+                Every saved unit plan: search, filter, tag, duplicate and export
+              </p>
+            </div>
+            <Link
+              href="/"
+              className="inline-flex items-center gap-1 text-sm font-medium text-blue-700 hover:text-blue-900"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to TAS Assistant
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {config.storageBackend === 'server' && (
+          <ServerAccessSettings onChange={() => setLibraryKey((key) => key + 1)} />
+        )}
+        <PlanLibrary key={libraryKey} onOpen={handleOpen} />
+      </div>
+    </main>
+  );
+}
@@ -1,25 +1,76 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { IntakeForm } from '@/components/intake-form';
 import { ResultsView } from '@/components/results-view';
-import { IntakeFormData, GeneratedPlan } from '@/types/unit-plan';
-import { savePlan, getCurrentPlan, clearLastIntake } from '@/lib/storage';
-import { exportToDOCX, exportToPDF, exportToMarkdown } from '@/lib/export-handlers';
+import { VersionHistory } from '@/components/version-history';
+import { PhaseTimeline } from '@/components/phase-timeline';
+import { ImportPanel } from '@/components/import-panel';
+import { OrganisationSettings } from '@/components/organisation-settings';
+import { BrandingSettings } from '@/components/branding-settings';
+import { useGenerationStream } from '@/hooks/use-generation-stream';
+import {
+  IntakeFormData,
+  GeneratedPlan,
+  OrganisationBranding,
+  OrganisationDefaults,
+  PlanSheetId,
+  ReflectionFinding,
+} from '@/types/unit-plan';
+import {
+  savePlan,
+  updatePlan,
+  rollbackPlan,
+  getCurrentPlan,
+  clearLastIntake,
+  getSettings,
+  saveSettings,
+  getOrganisationBranding,
+  saveOrganisationBranding,
+  StoredPlan,
+} from '@/lib/storage';
+import {
+  exportToDOCX,
+  exportToPDF,
+  exportToMarkdown,
+  exportToXLSX,
+  exportToCSV,
+  exportToICS,
+} from '@/lib/export-handlers';
+import type { PhaseLog } from '@/lib/aprv';
 
 type AppState = 'intake' | 'generating' | 'results' | 'error';
 
+function saveErrorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : 'Unknown error';
+}
+
 export default function HomePage() {
   const [state, setState] = useState<AppState>('intake');
   const [generatedPlan, setGeneratedPlan] = useState<GeneratedPlan | null>(null);
+  // Saved entry for the plan on screen (null if localStorage is unavailable)
+  const [storedPlan, setStoredPlan] = useState<StoredPlan | null>(null);
+  const [reviewNotes, setReviewNotes] = useState<ReflectionFinding[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const [generationLogs, setGenerationLogs] = useState<any[]>([]);
+  // Why the plan on screen (or its latest change) is not saved
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [generationLogs, setGenerationLogs] = useState<PhaseLog[]>([]);
+  const [organisationDefaults, setOrganisationDefaults] = useState<OrganisationDefaults>({});
+  const [organisationBranding, setOrganisationBranding] = useState<OrganisationBranding>({});
+  const stream = useGenerationStream();
 
   // Check for existing plan on mount
   useEffect(() => {
+    const settings = getSettings();
+    setOrganisationDefaults(settings.organisationDefaults);
+    getOrganisationBranding().then(setOrganisationBranding);
+
     const existing = getCurrentPlan();
     if (existing && existing.plan) {
       setGeneratedPlan(existing.plan);
+      setStoredPlan(existing);
+      setReviewNotes(existing.reviewNotes || []);
       setState('results');
     }
   }, []);
@@ -30,34 +81,27 @@ export default function HomePage() {
     setGenerationLogs([]);
 
     try {
-      const response = await fetch('/api/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
-      });
+      const result = await stream.generate(data);
 
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || result.details || 'Generation failed');
+      // Save to localStorage; the plan is still shown if that fails
+      let planId: string | null = null;
+      try {
+        planId = await savePlan(result.plan, data, result.metadata.review_notes);
+        setSaveError(null);
+      } catch (err) {
+        console.error('Save error:', err);
+        setSaveError(`The plan was not saved: ${saveErrorMessage(err)}`);
       }
 
-      if (result.success && result.plan) {
-        // Save to localStorage
-        savePlan(result.plan, data);
-
-        // Update state
-        setGeneratedPlan(result.plan);
-        setGenerationLogs(result.metadata?.logs || []);
-        setState('results');
+      // Update state
+      setGeneratedPlan(result.plan);
+      setStoredPlan(planId ? getCurrentPlan() : null);
+      setReviewNotes(result.metadata.review_notes || []);
+      setGenerationLogs(result.metadata?.logs || []);
+      setState('results');
 
-        // Clear the saved intake form data
-        clearLastIntake();
-      } else {
-        throw new Error('Invalid response from server');
-      }
+      // Clear the saved intake form data
+      clearLastIntake();
     } catch (err) {
       console.error('Generation error:', err);
       setError(err instanceof Error ? err.message : 'An unknown error occurred');
@@ -65,20 +109,29 @@ export default function HomePage() {
     }
   };
 
-  const handleExport = (format: 'docx' | 'pdf' | 'markdown') => {
+  const handleExport = async (format: 'docx' | 'pdf' | 'markdown' | 'xlsx' | 'csv' | 'ics', sheet?: PlanSheetId) => {
     if (!generatedPlan) return;
 
     try {
       switch (format) {
         case 'docx':
-          exportToDOCX(generatedPlan);
+          await exportToDOCX(generatedPlan, undefined, organisationBranding);
           break;
         case 'pdf':
-          exportToPDF();
+          await exportToPDF(generatedPlan);
           break;
         case 'markdown':
           exportToMarkdown(generatedPlan);
           break;
+        case 'xlsx':
+          await exportToXLSX(generatedPlan);
+          break;
+        case 'csv':
+          await exportToCSV(generatedPlan, sheet);
+          break;
+        case 'ics':
+          await exportToICS(generatedPlan);
+          break;
       }
     } catch (err) {
       console.error('Export error:', err);
@@ -86,9 +139,68 @@ export default function HomePage() {
     }
   };
 
+  const handlePlanChange = async (plan: GeneratedPlan, source: 'edit' | 'refinement', note?: string) => {
+    setGeneratedPlan(plan);
+
+    // Changes stay in memory (without version history) if the plan could not be saved
+    if (!storedPlan) return;
+    try {
+      const updated = await updatePlan(storedPlan.id, plan, source, note);
+      if (updated) {
+        setStoredPlan(updated);
+        setSaveError(null);
+      } else {
+        setSaveError('This plan is no longer saved, so the change is only on screen. Export it to keep it.');
+      }
+    } catch (err) {
+      console.error('Save error:', err);
+      setSaveError(`The latest change was not saved: ${saveErrorMessage(err)}`);
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    if (!storedPlan) return;
+
+    try {
+      const updated = await rollbackPlan(storedPlan.id, version);
+      if (updated) {
+        setStoredPlan(updated);
+        setGeneratedPlan(updated.plan);
+        setSaveError(null);
+      }
+    } catch (err) {
+      console.error('Save error:', err);
+      setSaveError(`Version ${version} was not restored: ${saveErrorMessage(err)}`);
+    }
+  };
+
+  const handleSaveOrganisationDefaults = (defaults: OrganisationDefaults) => {
+    saveSettings({ organisationDefaults: defaults });
+    setOrganisationDefaults(defaults);
+  };
+
+  const handleSaveBranding = async (branding: OrganisationBranding) => {
+    if (!(await saveOrganisationBranding(branding))) return false;
+    setOrganisationBranding(branding);
+    return true;
+  };
+
+  const handleOpenPlan = (stored: StoredPlan) => {
+    setGeneratedPlan(stored.plan);
+    setStoredPlan(stored);
+    setSaveError(null);
+    setReviewNotes(stored.reviewNotes || []);
+    setGenerationLogs([]);
+    setError(null);
+    setState('results');
+  };
+
   const handleReset = () => {
     if (confirm('Are you sure you want to start over? This will clear the current plan.')) {
       setGeneratedPlan(null);
+      setStoredPlan(null);
+      setSaveError(null);
+      setReviewNotes([]);
       setError(null);
       setGenerationLogs([]);
       setState('intake');
@@ -109,9 +221,14 @@ export default function HomePage() {
                 AI-powered unit plan builder for Australian RTOs
               </p>
             </div>
-            <div className="text-right">
-              <div className="text-xs text-slate-500">Stage 0 MVP</div>
-              <div className="text-xs text-slate-400">No auth • Local storage</div>
+            <div className="flex items-center gap-6">
+              <Link href="/library" className="text-sm font-medium text-blue-700 hover:text-blue-900">
+                Plan Library
+              </Link>
+              <div className="text-right">
+                <div className="text-xs text-slate-500">Stage 0 MVP</div>
+                <div className="text-xs text-slate-400">No auth • Local storage</div>
+              </div>
             </div>
           </div>
         </div>
@@ -123,8 +240,13 @@ export default function HomePage() {
         {state === 'intake' && (
           <div className="space-y-6">
             <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
-              <IntakeForm onSubmit={handleSubmit} isLoading={false} />
+              <IntakeForm onSubmit={handleSubmit} isLoading={false} organisationDefaults={organisationDefaults} />
+            </div>
+            <div className="grid gap-6 lg:grid-cols-2 items-start">
+              <OrganisationSettings value={organisationDefaults} onSave={handleSaveOrganisationDefaults} />
+              <ImportPanel onOpenPlan={handleOpenPlan} />
             </div>
+            <BrandingSettings value={organisationBranding} onSave={handleSaveBranding} />
           </div>
         )}
 
@@ -166,6 +288,7 @@ export default function HomePage() {
                   Using APRV loop: Analyze → Plan → Reflect → Verify
                 </p>
               </div>
+              <PhaseTimeline logs={stream.logs} progress={stream.progress} active />
             </div>
           </div>
         )}
@@ -173,12 +296,29 @@ export default function HomePage() {
         {/* Results State */}
         {state === 'results' && generatedPlan && (
           <div className="space-y-6">
-            <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
-              <ResultsView
-                plan={generatedPlan as any}
-                onExport={handleExport}
-                onReset={handleReset}
-              />
+            {saveError && (
+              <div role="alert" className="no-print rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+                {saveError}
+              </div>
+            )}
+            <div className={storedPlan ? 'grid gap-6 xl:grid-cols-[minmax(0,1fr)_22rem] items-start' : ''}>
+              <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
+                <ResultsView
+                  plan={generatedPlan}
+                  reviewNotes={reviewNotes}
+                  onExport={handleExport}
+                  onReset={handleReset}
+                  onPlanChange={handlePlanChange}
+                  intake={storedPlan?.intake}
+                />
+              </div>
+
+              {/* Version History Sidebar */}
+              {storedPlan && (
+                <aside className="no-print xl:sticky xl:top-4">
+                  <VersionHistory versions={storedPlan.versions} onRollback={handleRollback} />
+                </aside>
+              )}
             </div>
 
             {/* Generation Logs (Developer Info) */}
@@ -200,8 +340,8 @@ export default function HomePage() {
                           {log.status}
                         </span>
                       </div>
-                      {log.duration && (
-                        <div className="text-slate-500 mt-1">Duration: {log.duration}ms</div>
+                      {log.duration_ms > 0 && (
+                        <div className="text-slate-500 mt-1">Duration: {log.duration_ms}ms</div>
                       )}
                       {log.details && (
                         <div className="text-slate-600 mt-1">{log.details}</div>
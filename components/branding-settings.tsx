@@ -0,0 +1,431 @@
+'use client';
+
+/**
+ * Organisation branding settings
+ *
+ * Logo, RTO name and number, colours, document control, version history,
+ * section order and an optional .docx template for DOCX exports. Saved with
+ * saveOrganisationBranding (the logo and template in IndexedDB, the rest in
+ * settings) and applied to every DOCX download (see lib/branding.ts).
+ */
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, Check, FileUp, Palette, Plus, Trash2, Upload } from 'lucide-react';
+import {
+  DEFAULT_BRAND_COLORS,
+  MAX_LOGO_BYTES,
+  TEMPLATE_PLACEHOLDERS,
+  readDocxTemplate,
+  resolveSectionOrder,
+  sectionTitle,
+} from '@/lib/branding';
+import type { BrandingLogo, DocumentControl, OrganisationBranding, VersionHistoryEntry } from '@/types/unit-plan';
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface BrandingSettingsProps {
+  value: OrganisationBranding;
+  /** Returns false if the settings could not be stored */
+  onSave: (branding: OrganisationBranding) => Promise<boolean>;
+}
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const CONTROL_FIELDS: { key: keyof DocumentControl; label: string; type?: 'date' }[] = [
+  { key: 'documentNumber', label: 'Document number' },
+  { key: 'version', label: 'Version' },
+  { key: 'owner', label: 'Document owner' },
+  { key: 'approvedBy', label: 'Approved by' },
+  { key: 'approvalDate', label: 'Approval date', type: 'date' },
+  { key: 'reviewDate', label: 'Next review date', type: 'date' },
+];
+
+/**
+ * Read a PNG or JPEG as a data: URL with its pixel size
+ */
+function readLogo(file: File): Promise<BrandingLogo> {
+  return new Promise((resolve, reject) => {
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      reject(new Error('Logo must be a PNG or JPEG image'));
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      reject(new Error(`Logo is too large (maximum ${MAX_LOGO_BYTES / 1024} KB)`));
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error('Could not read the logo'));
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      const image = new Image();
+      image.onerror = () => reject(new Error('Could not read the logo'));
+      image.onload = () => resolve({ dataUrl, width: image.naturalWidth, height: image.naturalHeight });
+      image.src = dataUrl;
+    };
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Drop empty fields and blank version rows so unset branding is not stored
+ */
+function compact(branding: OrganisationBranding): OrganisationBranding {
+  const control = Object.fromEntries(
+    Object.entries(branding.documentControl || {})
+      .map(([key, value]) => [key, value?.trim()])
+      .filter(([, value]) => value)
+  ) as DocumentControl;
+  const versionHistory = (branding.versionHistory || [])
+    .map((entry) => ({
+      version: entry.version.trim(),
+      date: entry.date,
+      changes: entry.changes.trim(),
+      ...(entry.author?.trim() ? { author: entry.author.trim() } : {}),
+    }))
+    .filter((entry) => entry.version || entry.changes);
+
+  return {
+    ...(branding.rtoName?.trim() ? { rtoName: branding.rtoName.trim() } : {}),
+    ...(branding.rtoNumber?.trim() ? { rtoNumber: branding.rtoNumber.trim() } : {}),
+    ...(branding.logo ? { logo: branding.logo } : {}),
+    ...(branding.primaryColor ? { primaryColor: branding.primaryColor } : {}),
+    ...(branding.accentColor ? { accentColor: branding.accentColor } : {}),
+    ...(Object.keys(control).length > 0 ? { documentControl: control } : {}),
+    ...(versionHistory.length > 0 ? { versionHistory } : {}),
+    ...(branding.sectionOrder ? { sectionOrder: branding.sectionOrder } : {}),
+    ...(branding.template ? { template: branding.template } : {}),
+  };
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function BrandingSettings({ value, onSave }: BrandingSettingsProps) {
+  const [draft, setDraft] = React.useState<OrganisationBranding>(value);
+  const [error, setError] = React.useState<string | null>(null);
+  const [saved, setSaved] = React.useState(false);
+  const logoInput = React.useRef<HTMLInputElement>(null);
+  const templateInput = React.useRef<HTMLInputElement>(null);
+
+  // Settings are loaded after mount; follow them until the trainer edits
+  React.useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const update = (changes: Partial<OrganisationBranding>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  const updateControl = (key: keyof DocumentControl, text: string) =>
+    update({ documentControl: { ...draft.documentControl, [key]: text } });
+
+  const history = draft.versionHistory || [];
+  const updateHistory = (idx: number, changes: Partial<VersionHistoryEntry>) =>
+    update({ versionHistory: history.map((entry, i) => (i === idx ? { ...entry, ...changes } : entry)) });
+
+  const order = resolveSectionOrder(draft.sectionOrder);
+  const moveSection = (idx: number, offset: number) => {
+    const next = [...order];
+    [next[idx], next[idx + offset]] = [next[idx + offset], next[idx]];
+    update({ sectionOrder: next });
+  };
+
+  const handleLogo = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      update({ logo: await readLogo(file) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the logo');
+    } finally {
+      if (logoInput.current) logoInput.current.value = '';
+    }
+  };
+
+  const handleTemplate = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      update({ template: await readDocxTemplate(file.name, new Uint8Array(await file.arrayBuffer())) });
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : 'Could not read the template'}`);
+    } finally {
+      if (templateInput.current) templateInput.current.value = '';
+    }
+  };
+
+  const handleSave = async () => {
+    const branding = compact(draft);
+    if (await onSave(branding)) {
+      setDraft(branding);
+      setSaved(true);
+      setError(null);
+    } else {
+      setError('Branding could not be saved. The browser storage may be full; try a smaller logo or template.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Palette className="w-5 h-5" />
+          Document Branding
+        </CardTitle>
+        <CardDescription>
+          Letterhead, document control and section order for DOCX exports. Upload a Word template to use your own
+          layout instead.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className="block">
+            <span className="block text-sm font-medium text-slate-700 mb-1">RTO name</span>
+            <input
+              value={draft.rtoName || ''}
+              onChange={(e) => update({ rtoName: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-sm font-medium text-slate-700 mb-1">RTO number</span>
+            <input
+              value={draft.rtoNumber || ''}
+              onChange={(e) => update({ rtoNumber: e.target.value })}
+              placeholder="e.g. 91234"
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <span className="block text-sm font-medium text-slate-700 mb-1">Logo (PNG or JPEG)</span>
+            <div className="flex items-center gap-3">
+              {draft.logo && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={draft.logo.dataUrl} alt="Organisation logo" className="h-10 max-w-[160px] object-contain" />
+              )}
+              <input
+                ref={logoInput}
+                type="file"
+                accept="image/png,image/jpeg"
+                className="hidden"
+                onChange={(e) => handleLogo(e.target.files?.[0])}
+              />
+              <Button variant="outline" size="sm" onClick={() => logoInput.current?.click()}>
+                <Upload className="w-4 h-4" />
+                {draft.logo ? 'Replace' : 'Upload'}
+              </Button>
+              {draft.logo && (
+                <Button variant="ghost" size="sm" onClick={() => update({ logo: undefined })}>
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-slate-700 mb-1">Colours</span>
+            <div className="flex items-center gap-4 text-sm text-slate-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={`#${draft.primaryColor || DEFAULT_BRAND_COLORS.primary}`}
+                  onChange={(e) => update({ primaryColor: e.target.value.slice(1).toUpperCase() })}
+                  className="h-8 w-10 rounded border border-slate-300"
+                />
+                Headings
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={`#${draft.accentColor || DEFAULT_BRAND_COLORS.accent}`}
+                  onChange={(e) => update({ accentColor: e.target.value.slice(1).toUpperCase() })}
+                  className="h-8 w-10 rounded border border-slate-300"
+                />
+                Accent
+              </label>
+              {(draft.primaryColor || draft.accentColor) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update({ primaryColor: undefined, accentColor: undefined })}
+                >
+                  Use defaults
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-slate-700 mb-2">Document control</legend>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {CONTROL_FIELDS.map(({ key, label, type }) => (
+              <label key={key} className="block">
+                <span className="block text-xs text-slate-500 mb-1">{label}</span>
+                <input
+                  type={type || 'text'}
+                  value={draft.documentControl?.[key] || ''}
+                  onChange={(e) => updateControl(key, e.target.value)}
+                  className={INPUT_CLASS}
+                />
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-slate-700 mb-2">Version history</legend>
+          <div className="space-y-2">
+            {history.map((entry, idx) => (
+              <div key={idx} className="grid gap-2 sm:grid-cols-[6rem_9rem_10rem_1fr_auto] items-center">
+                <input
+                  value={entry.version}
+                  onChange={(e) => updateHistory(idx, { version: e.target.value })}
+                  placeholder="Version"
+                  aria-label="Version"
+                  className={INPUT_CLASS}
+                />
+                <input
+                  type="date"
+                  value={entry.date}
+                  onChange={(e) => updateHistory(idx, { date: e.target.value })}
+                  aria-label="Date"
+                  className={INPUT_CLASS}
+                />
+                <input
+                  value={entry.author || ''}
+                  onChange={(e) => updateHistory(idx, { author: e.target.value })}
+                  placeholder="Author"
+                  aria-label="Author"
+                  className={INPUT_CLASS}
+                />
+                <input
+                  value={entry.changes}
+                  onChange={(e) => updateHistory(idx, { changes: e.target.value })}
+                  placeholder="Changes"
+                  aria-label="Changes"
+                  className={INPUT_CLASS}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update({ versionHistory: history.filter((_, i) => i !== idx) })}
+                  aria-label="Remove version"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                update({
+                  versionHistory: [
+                    ...history,
+                    { version: '', date: new Date().toISOString().split('T')[0], changes: '' },
+                  ],
+                })
+              }
+            >
+              <Plus className="w-4 h-4" />
+              Add version
+            </Button>
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-slate-700 mb-2">Section order</legend>
+          <ol className="space-y-1">
+            {order.map((id, idx) => (
+              <li key={id} className="flex items-center gap-2 text-sm text-slate-700">
+                <span className="w-6 text-slate-400">{idx + 1}.</span>
+                <span className="flex-1">{sectionTitle(id)}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveSection(idx, -1)}
+                  disabled={idx === 0}
+                  aria-label={`Move ${sectionTitle(id)} up`}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveSection(idx, 1)}
+                  disabled={idx === order.length - 1}
+                  aria-label={`Move ${sectionTitle(id)} down`}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        </fieldset>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-slate-700 mb-2">Word template</legend>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={templateInput}
+              type="file"
+              accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+              className="hidden"
+              onChange={(e) => handleTemplate(e.target.files?.[0])}
+            />
+            <Button variant="outline" size="sm" onClick={() => templateInput.current?.click()}>
+              <FileUp className="w-4 h-4" />
+              {draft.template ? 'Replace template' : 'Upload template'}
+            </Button>
+            {draft.template && (
+              <>
+                <span className="text-sm text-slate-700">{draft.template.name}</span>
+                <Button variant="ghost" size="sm" onClick={() => update({ template: undefined })}>
+                  Remove
+                </Button>
+              </>
+            )}
+          </div>
+          {draft.template && (
+            <p className="mt-2 text-xs text-slate-500">
+              Placeholders found: {draft.template.placeholders.map((name) => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+          <details className="mt-2 text-xs text-slate-500">
+            <summary className="cursor-pointer">Template placeholders</summary>
+            <ul className="mt-1 space-y-0.5">
+              {Object.entries(TEMPLATE_PLACEHOLDERS).map(([name, description]) => (
+                <li key={name}>
+                  <code>{`{{${name}}}`}</code> – {description}
+                </li>
+              ))}
+            </ul>
+          </details>
+        </fieldset>
+
+        {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-3">{error}</p>}
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave}>Save branding</Button>
+          {saved && (
+            <span className="flex items-center gap-1 text-sm text-green-700">
+              <Check className="w-4 h-4" />
+              Saved
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
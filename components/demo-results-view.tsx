@@ -13,12 +13,13 @@ import React, { useState } from 'react';
 import { ResultsView } from './results-view';
 import { mockPlans } from './mock-data';
 import type { GeneratedPlan } from '@/types/schema-types';
+import type { ExportFormat } from '@/types/unit-plan';
 import { Button } from './ui/button';
 
 export function DemoResultsView() {
   const [selectedPlan, setSelectedPlan] = useState<GeneratedPlan | null>(mockPlans.shortCourse);
 
-  const handleExport = (format: 'docx' | 'pdf' | 'markdown') => {
+  const handleExport = (format: ExportFormat) => {
     console.log(`Export requested: ${format}`);
     alert(`Export as ${format.toUpperCase()} - This is a demo. Implement export handler in production.`);
   };
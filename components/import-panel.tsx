@@ -0,0 +1,304 @@
+'use client';
+
+/**
+ * Import and backup panel
+ *
+ * Downloads a full backup, and imports a backup, a saved plan or an exported
+ * plan JSON file. The file is validated and previewed first (new plans, id
+ * conflicts, plans that cannot be read); the trainer chooses merge or replace
+ * and what to do with each conflict before anything is written.
+ */
+
+import React from 'react';
+import { saveAs } from 'file-saver';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Download, FileUp, Upload } from 'lucide-react';
+import { exportAllData, importData, loadAllPlans, openSavedPlan } from '@/lib/storage';
+import type { ImportConflictResolution, ImportMode, ImportResult, StoredPlan } from '@/lib/storage';
+import { describePlan, importModesFor, previewImport, readImportFile } from '@/lib/plan-import';
+import type { ImportFileKind, ImportPreview, ImportPreviewItem } from '@/lib/plan-import';
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface ImportPanelProps {
+  /** Show a plan after importing a single plan file */
+  onOpenPlan: (stored: StoredPlan) => void;
+}
+
+const KIND_LABELS: Record<ImportFileKind, string> = {
+  backup: 'Full backup',
+  'stored-plan': 'Saved plan',
+  plan: 'Exported plan',
+};
+
+const MODE_LABELS: Record<ImportMode, { label: string; description: string }> = {
+  merge: { label: 'Merge', description: 'Keep your saved plans and add these' },
+  replace: { label: 'Replace', description: 'Delete your saved plans and restore the backup, including settings' },
+};
+
+const RESOLUTION_LABELS: Record<ImportConflictResolution, string> = {
+  'keep-both': 'Keep both (import as a copy)',
+  overwrite: 'Overwrite saved plan',
+  skip: 'Skip (keep saved plan)',
+};
+
+// ============================================================================
+// Helper Components
+// ============================================================================
+
+const PreviewRow: React.FC<{
+  item: ImportPreviewItem;
+  mode: ImportMode;
+  resolution: ImportConflictResolution;
+  onResolve: (resolution: ImportConflictResolution) => void;
+}> = ({ item, mode, resolution, onResolve }) => (
+  <li className="rounded-lg border border-slate-200 p-3 text-sm">
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="font-medium text-slate-900">{describePlan(item.entry.plan)}</span>
+      {item.status === 'new' ? (
+        <Badge variant="success" className="text-xs">New</Badge>
+      ) : (
+        <Badge variant="warning" className="text-xs">
+          {mode === 'replace' ? 'Overwrites saved plan' : 'Same id as a saved plan'}
+        </Badge>
+      )}
+      {item.identical && <Badge variant="outline" className="text-xs">Same content</Badge>}
+      {item.migrated && <Badge variant="secondary" className="text-xs">Upgraded from older schema</Badge>}
+    </div>
+    <p className="text-xs text-slate-500 mt-1">
+      {item.entry.id} · {item.entry.versions.length} version{item.entry.versions.length === 1 ? '' : 's'} · saved{' '}
+      {new Date(item.entry.updatedAt).toLocaleDateString('en-AU')}
+    </p>
+    {item.status === 'conflict' && item.existing && mode === 'merge' && (
+      <label className="mt-2 flex items-center gap-2 text-xs text-slate-700">
+        <span>Saved copy last changed {new Date(item.existing.updatedAt).toLocaleDateString('en-AU')}:</span>
+        <select
+          value={resolution}
+          onChange={(e) => onResolve(e.target.value as ImportConflictResolution)}
+          className="px-2 py-1 border border-slate-300 rounded-md text-xs focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(RESOLUTION_LABELS) as ImportConflictResolution[]).map((value) => (
+            <option key={value} value={value}>
+              {RESOLUTION_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </label>
+    )}
+  </li>
+);
+
+function describeResult(result: ImportResult): string {
+  const parts = [`Imported ${result.imported} plan${result.imported === 1 ? '' : 's'}`];
+  if (result.migrated > 0) parts.push(`${result.migrated} upgraded`);
+  if (result.overwritten > 0) parts.push(`${result.overwritten} overwritten`);
+  if (result.skipped > 0) parts.push(`${result.skipped} skipped`);
+  if (result.failed.length > 0) parts.push(`${result.failed.length} could not be read`);
+  return parts.join(', ') + '.';
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function ImportPanel({ onOpenPlan }: ImportPanelProps) {
+  const fileInput = React.useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = React.useState<string | null>(null);
+  const [preview, setPreview] = React.useState<ImportPreview | null>(null);
+  const [mode, setMode] = React.useState<ImportMode>('merge');
+  const [conflicts, setConflicts] = React.useState<Record<string, ImportConflictResolution>>({});
+  const [error, setError] = React.useState<string | null>(null);
+  const [result, setResult] = React.useState<ImportResult | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  const reset = () => {
+    setFileName(null);
+    setPreview(null);
+    setMode('merge');
+    setConflicts({});
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setResult(null);
+    setPreview(null);
+    setFileName(file.name);
+
+    try {
+      const { kind, data } = readImportFile(await file.text());
+      const { plans } = await loadAllPlans();
+      setPreview(previewImport(kind, data, plans));
+      setMode('merge');
+      setConflicts({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    if (
+      mode === 'replace' &&
+      preview.removed.length > 0 &&
+      !confirm(`Replace will delete ${preview.removed.length} saved plan(s) that are not in this backup. Continue?`)
+    ) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const imported = await importData(preview.data, { mode, conflicts });
+      setResult(imported);
+      if (!imported.success) {
+        setError(imported.error || 'Import failed');
+        return;
+      }
+
+      reset();
+      if (preview.kind !== 'backup' && imported.importedIds.length === 1) {
+        const stored = await openSavedPlan(imported.importedIds[0]);
+        if (stored) onOpenPlan(stored);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    const backup = await exportAllData();
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    saveAs(blob, `tas-assistant-backup-${backup.exportedAt.slice(0, 10)}.json`);
+  };
+
+  const conflictCount = preview?.items.filter((item) => item.status === 'conflict').length || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileUp className="w-5 h-5" />
+          Import &amp; Backup
+        </CardTitle>
+        <CardDescription>
+          Import a backup, a saved plan or an exported plan (.json), or download a backup of everything saved here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={isBusy}>
+            <Upload className="w-4 h-4" />
+            Choose file…
+          </Button>
+          <Button variant="ghost" onClick={handleBackup} disabled={isBusy}>
+            <Download className="w-4 h-4" />
+            Download backup
+          </Button>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-3">
+            {fileName ? `${fileName}: ` : ''}
+            {error}
+          </p>
+        )}
+        {result?.success && (
+          <p className="text-sm text-green-800 bg-green-50 border border-green-200 rounded-md p-3">{describeResult(result)}</p>
+        )}
+
+        {preview && (
+          <div className="space-y-4 border-t border-slate-200 pt-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium text-slate-900">{fileName}</span>
+              <Badge variant="secondary">{KIND_LABELS[preview.kind]}</Badge>
+              <span className="text-slate-600">
+                {preview.items.length} valid plan{preview.items.length === 1 ? '' : 's'}
+                {conflictCount > 0 && `, ${conflictCount} with an id already saved`}
+              </span>
+            </div>
+
+            {importModesFor(preview.kind).length > 1 && (
+              <fieldset className="grid gap-2 sm:grid-cols-2">
+                {importModesFor(preview.kind).map((value) => (
+                  <label
+                    key={value}
+                    className={`flex gap-2 rounded-lg border p-3 text-sm cursor-pointer ${
+                      mode === value ? 'border-blue-300 bg-blue-50' : 'border-slate-200'
+                    }`}
+                  >
+                    <input type="radio" name="import-mode" checked={mode === value} onChange={() => setMode(value)} />
+                    <span>
+                      <span className="block font-medium text-slate-900">{MODE_LABELS[value].label}</span>
+                      <span className="block text-xs text-slate-600">{MODE_LABELS[value].description}</span>
+                    </span>
+                  </label>
+                ))}
+              </fieldset>
+            )}
+
+            {mode === 'replace' && (preview.removed.length > 0 || preview.hasSettings) && (
+              <p className="flex items-start gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-3">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>
+                  {preview.removed.length > 0 &&
+                    `${preview.removed.length} saved plan${preview.removed.length === 1 ? '' : 's'} not in this backup will be deleted. `}
+                  {preview.hasSettings && 'Settings, intake templates and the last intake will be restored from the backup.'}
+                </span>
+              </p>
+            )}
+
+            {preview.items.length > 0 && (
+              <ul className="space-y-2 max-h-[24rem] overflow-y-auto">
+                {preview.items.map((item) => (
+                  <PreviewRow
+                    key={item.entry.id}
+                    item={item}
+                    mode={mode}
+                    resolution={conflicts[item.entry.id] || 'keep-both'}
+                    onResolve={(resolution) => setConflicts((prev) => ({ ...prev, [item.entry.id]: resolution }))}
+                  />
+                ))}
+              </ul>
+            )}
+
+            {preview.failed.length > 0 && (
+              <div className="text-sm text-red-800 bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="font-medium">
+                  {preview.failed.length} plan{preview.failed.length === 1 ? '' : 's'} failed validation and will not be imported:
+                </p>
+                <ul className="mt-1 list-disc pl-5 space-y-1">
+                  {preview.failed.map((failure, idx) => (
+                    <li key={`${failure.id}-${idx}`}>
+                      {failure.id || 'Plan without id'}: {failure.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleImport} disabled={isBusy || (preview.items.length === 0 && mode === 'merge')}>
+                {mode === 'replace' ? 'Replace with backup' : `Import ${preview.items.length} plan${preview.items.length === 1 ? '' : 's'}`}
+              </Button>
+              <Button variant="ghost" onClick={reset} disabled={isBusy}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,8 @@
 // Main components
 export { ResultsView } from './results-view';
 export type { ResultsViewProps } from './results-view';
+export { PhaseTimeline } from './phase-timeline';
+export type { PhaseTimelineProps } from './phase-timeline';
 
 // UI components
 export { Tabs, TabsList, TabsTrigger, TabsContent } from './ui/tabs';
@@ -1,11 +1,33 @@
 'use client';
 
-import { useForm } from 'react-hook-form';
+import { useForm, type FieldErrors } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { IntakeFormData } from '@/types/unit-plan';
-import { useState } from 'react';
-import { Loader2, HelpCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { AustralianState, IntakeFormData, OrganisationDefaults } from '@/types/unit-plan';
+import { RESOURCE_OPTIONS, ASSESSMENT_OPTIONS, QUALIFICATION_LEVEL_OPTIONS } from '@/lib/intake-options';
+import { useCatalogueSearch } from '@/hooks/use-catalogue';
+import { AUSTRALIAN_STATES, DELIVERY_DAYS, isCalendarDate, isTimeOfDay } from '@/lib/delivery-calendar';
+import { deleteIntakeTemplate, getIntakeTemplates, saveIntakeTemplate, IntakeTemplate } from '@/lib/storage';
+import { useEffect, useState, type ChangeEvent } from 'react';
+import { Loader2, HelpCircle, ChevronDown, ChevronUp, Building2 } from 'lucide-react';
+
+const classSizeField = z
+  .number({ message: 'Class size must be a number' })
+  .int({ message: 'Class size must be a whole number' })
+  .min(1, { message: 'Class size must be at least 1' })
+  .max(500, { message: 'Class size cannot exceed 500' });
+
+/** Empty number inputs are left unset rather than NaN */
+const optionalNumber = (value: unknown) => (value === '' || value == null ? undefined : Number(value));
+
+/** Comma-separated names → list (template values arrive as a list already) */
+const nameList = (value: unknown) =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean)
+    : value;
 
 /**
  * Zod validation schema for intake form
@@ -53,39 +75,225 @@ const intakeSchema = z.object({
   assessmentPreferences: z.array(z.string()).optional(),
 
   unitList: z.string().optional(),
+
+  qualificationLevel: z.enum([...QUALIFICATION_LEVEL_OPTIONS, '']).optional(),
+
+  startDate: z
+    .string()
+    .optional()
+    .refine((val) => !val || isCalendarDate(val), { message: 'Start date must be a valid date (YYYY-MM-DD)' }),
+
+  venue: z.string().max(200, { message: 'Venue is too long' }).optional(),
+
+  classSize: z
+    .object({
+      min: classSizeField.optional(),
+      max: classSizeField.optional(),
+      target: classSizeField.optional(),
+    })
+    .optional()
+    .refine((size) => !size?.min || !size.max || size.min <= size.max, {
+      message: 'Minimum class size cannot be larger than the maximum',
+    })
+    .refine(
+      (size) =>
+        !size?.target || ((!size.min || size.target >= size.min) && (!size.max || size.target <= size.max)),
+      { message: 'Target class size must be between the minimum and maximum' }
+    ),
+
+  primaryTrainer: z.string().max(200, { message: 'Trainer name is too long' }).optional(),
+
+  additionalTrainers: z.array(z.string().max(200, { message: 'Trainer name is too long' })).optional(),
+
+  state: z.enum(Object.keys(AUSTRALIAN_STATES) as [AustralianState, ...AustralianState[]]).optional(),
+
+  deliveryDays: z.array(z.enum(DELIVERY_DAYS)).optional(),
+
+  sessionTimes: z
+    .object({ start: z.string(), end: z.string() })
+    .optional()
+    .refine((times) => !times?.start === !times?.end, { message: 'Enter both a start and an end time' })
+    .refine((times) => !times?.start || (isTimeOfDay(times.start) && isTimeOfDay(times.end)), {
+      message: 'Times must be HH:MM',
+    })
+    .refine((times) => !times?.start || times.end > times.start, {
+      message: 'Sessions must end after they start',
+    }),
 });
 
 interface IntakeFormProps {
   onSubmit: (data: IntakeFormData) => Promise<void>;
   isLoading?: boolean;
+  /** Shown as a reminder; they are merged into the intake on the server */
+  organisationDefaults?: OrganisationDefaults;
+}
+
+/** Fields inside the collapsible Advanced Options section */
+const ADVANCED_FIELDS: (keyof IntakeFormData)[] = [
+  'qualificationLevel',
+  'startDate',
+  'state',
+  'deliveryDays',
+  'sessionTimes',
+  'venue',
+  'classSize',
+  'primaryTrainer',
+  'additionalTrainers',
+  'resources',
+  'assessmentPreferences',
+  'unitList',
+];
+
+const DEFAULT_VALUES: Partial<IntakeFormData> = {
+  deliveryMode: 'face_to_face',
+  resources: [],
+  assessmentPreferences: [],
+  deliveryDays: [],
+};
+
+/**
+ * Whether any field in the Advanced Options section is filled in
+ */
+function hasAdvancedValues(values: Partial<IntakeFormData>): boolean {
+  return ADVANCED_FIELDS.some((field) => {
+    const value = values[field];
+    if (Array.isArray(value)) return value.length > 0;
+    if (value && typeof value === 'object') return Object.values(value).some(Boolean);
+    return !!value;
+  });
+}
+
+/**
+ * One-line summary of the organisation defaults that will be applied
+ */
+function describeOrganisationDefaults(defaults: OrganisationDefaults | undefined): string | null {
+  if (!defaults) return null;
+
+  const parts: string[] = [];
+  if (defaults.state) parts.push(`${defaults.state} public holidays`);
+  if (defaults.venue) parts.push(`venue ${defaults.venue}`);
+  if (defaults.primaryTrainer) parts.push(`trainer ${defaults.primaryTrainer}`);
+  if (defaults.additionalTrainers?.length) parts.push(`${defaults.additionalTrainers.length} additional trainer(s)`);
+  const { min, max, target } = defaults.classSize || {};
+  if (min || max || target) {
+    parts.push(`class size ${target ? `${target}` : ''}${min || max ? ` (${min || '?'}–${max || '?'})` : ''}`.trim());
+  }
+  if (defaults.resources?.length) parts.push(`${defaults.resources.length} standard resource(s)`);
+
+  return parts.length > 0 ? parts.join(', ') : null;
 }
 
 /**
  * Main intake form component for collecting unit plan requirements
  * Implements comprehensive validation and user-friendly UX
  */
-export function IntakeForm({ onSubmit, isLoading = false }: IntakeFormProps) {
+export function IntakeForm({ onSubmit, isLoading = false, organisationDefaults }: IntakeFormProps) {
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [hoursPerWeek, setHoursPerWeek] = useState<number | null>(null);
+  const [unitQuery, setUnitQuery] = useState('');
+  const [templates, setTemplates] = useState<IntakeTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
 
   const {
     register,
     handleSubmit,
     watch,
+    setValue,
+    getValues,
+    reset,
     formState: { errors },
   } = useForm<IntakeFormData>({
     resolver: zodResolver(intakeSchema),
-    defaultValues: {
-      deliveryMode: 'face_to_face',
-      resources: [],
-      assessmentPreferences: [],
-    },
+    defaultValues: DEFAULT_VALUES,
   });
 
+  // Templates live in localStorage, so load them after mount
+  useEffect(() => {
+    setTemplates(getIntakeTemplates());
+  }, []);
+
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+
+    const values = { ...DEFAULT_VALUES, ...template.intake };
+    reset(values);
+    setHoursPerWeek(
+      values.durationWeeks && values.totalHours ? Math.round((values.totalHours / values.durationWeeks) * 10) / 10 : null
+    );
+    if (hasAdvancedValues(values)) {
+      setShowAdvanced(true);
+    }
+  };
+
+  const handleSaveTemplate = () => {
+    const current = templates.find((t) => t.id === templateId);
+    const name = prompt('Template name (e.g. "Cert IV TAE evening cohort")', current?.name || '');
+    if (!name?.trim()) return;
+
+    const existing = templates.find((t) => t.name.toLowerCase() === name.trim().toLowerCase());
+    if (existing && !confirm(`Replace the template "${existing.name}"?`)) return;
+
+    const saved = saveIntakeTemplate(name, getValues());
+    if (saved) {
+      setTemplates(getIntakeTemplates());
+      setTemplateId(saved.id);
+    }
+  };
+
+  const handleDeleteTemplate = () => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template || !confirm(`Delete the template "${template.name}"?`)) return;
+
+    deleteIntakeTemplate(template.id);
+    setTemplates(getIntakeTemplates());
+    setTemplateId('');
+  };
+
+  // Errors in the collapsed Advanced Options would otherwise go unseen
+  const handleInvalid = (invalid: FieldErrors<IntakeFormData>) => {
+    if (ADVANCED_FIELDS.some((field) => invalid[field])) setShowAdvanced(true);
+  };
+
+  const defaultsSummary = describeOrganisationDefaults(organisationDefaults);
+
   // Watch fields for auto-calculation
   const durationWeeks = watch('durationWeeks');
   const totalHours = watch('totalHours');
 
+  // Training catalogue autocomplete
+  const qualificationSuggestions = useCatalogueSearch(watch('qualificationCode'), 'qualification');
+  const unitSuggestions = useCatalogueSearch(unitQuery, 'unit');
+
+  // Picking a catalogue qualification fills in its title if none was typed
+  const handleQualificationCodeChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const match = qualificationSuggestions.find(
+      (suggestion) => suggestion.code === event.target.value.trim().toUpperCase()
+    );
+    if (match && !getValues('qualification')) {
+      setValue('qualification', match.title, { shouldValidate: true });
+    }
+  };
+
+  // Picking a catalogue unit appends "CODE Title" to the unit list
+  const handleUnitQueryChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    const match = unitSuggestions.find((suggestion) => suggestion.code === value.trim().toUpperCase());
+
+    if (!match) {
+      setUnitQuery(value);
+      return;
+    }
+
+    const current = getValues('unitList') || '';
+    if (!current.toUpperCase().includes(match.code)) {
+      const line = `${match.code} ${match.title}`;
+      setValue('unitList', current.trim() ? `${current.trimEnd()}\n${line}` : line);
+    }
+    setUnitQuery('');
+  };
+
   // Auto-calculate hours per week
   useState(() => {
     if (durationWeeks && totalHours && durationWeeks > 0) {
@@ -108,7 +316,7 @@ export function IntakeForm({ onSubmit, isLoading = false }: IntakeFormProps) {
 
   return (
     <form
-      onSubmit={handleSubmit(onSubmit)}
+      onSubmit={handleSubmit(onSubmit, handleInvalid)}
       className="space-y-8 max-w-4xl mx-auto bg-white p-8 rounded-lg shadow-md"
     >
       {/* Header */}
@@ -121,6 +329,56 @@ export function IntakeForm({ onSubmit, isLoading = false }: IntakeFormProps) {
         </p>
       </div>
 
+      {/* Intake Templates */}
+      <div className="flex flex-wrap items-end gap-2 bg-gray-50 border border-gray-200 rounded-md p-4">
+        <div className="flex-1 min-w-[14rem]">
+          <label htmlFor="intakeTemplate" className="block text-sm font-medium text-gray-700 mb-1">
+            Start from a template
+          </label>
+          <select
+            id="intakeTemplate"
+            value={templateId}
+            onChange={(e) => applyTemplate(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+            disabled={isLoading}
+          >
+            <option value="">{templates.length > 0 ? 'Choose a template…' : 'No saved templates yet'}</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={handleSaveTemplate}
+          className="px-4 py-2 border border-gray-300 bg-white rounded-md text-sm font-medium text-gray-700 hover:bg-gray-100"
+          disabled={isLoading}
+        >
+          Save as template
+        </button>
+        {templateId && (
+          <button
+            type="button"
+            onClick={handleDeleteTemplate}
+            className="px-4 py-2 rounded-md text-sm font-medium text-red-700 hover:bg-red-50"
+            disabled={isLoading}
+          >
+            Delete template
+          </button>
+        )}
+      </div>
+
+      {defaultsSummary && (
+        <p className="flex items-start gap-2 text-sm text-gray-600">
+          <Building2 size={16} className="mt-0.5 shrink-0 text-gray-400" />
+          <span>
+            Organisation defaults will be added where this form leaves them blank: {defaultsSummary}.
+          </span>
+        </p>
+      )}
+
       {/* Qualification Details */}
       <div className="space-y-6">
         <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
@@ -160,11 +418,20 @@ export function IntakeForm({ onSubmit, isLoading = false }: IntakeFormProps) {
           <input
             id="qualificationCode"
             type="text"
-            {...register('qualificationCode')}
+            {...register('qualificationCode', { onChange: handleQualificationCodeChange })}
+            list="qualification-code-options"
+            autoComplete="off"
             placeholder="e.g., TAE40122"
             className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             disabled={isLoading}
           />
+          <datalist id="qualification-code-options">
+            {qualificationSuggestions.map((suggestion) => (
+              <option key={suggestion.code} value={suggestion.code}>
+                {suggestion.title}
+              </option>
+            ))}
+          </datalist>
           <p className="mt-1 text-xs text-gray-500">
             Format: 3 letters followed by 5 digits (e.g., TAE40122)
           </p>
@@ -307,20 +574,201 @@ export function IntakeForm({ onSubmit, isLoading = false }: IntakeFormProps) {
 
         {showAdvanced && (
           <div className="space-y-6 pl-6 border-l-2 border-gray-200">
+            {/* Qualification Level and Start Date */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="qualificationLevel" className="block text-sm font-medium text-gray-700 mb-1">
+                  Qualification Level
+                </label>
+                <select
+                  id="qualificationLevel"
+                  {...register('qualificationLevel')}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={isLoading}
+                >
+                  <option value="">Not specified</option>
+                  {QUALIFICATION_LEVEL_OPTIONS.map((level) => (
+                    <option key={level} value={level}>
+                      {level}
+                    </option>
+                  ))}
+                </select>
+                {errors.qualificationLevel && (
+                  <p className="mt-1 text-sm text-red-600">{errors.qualificationLevel.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="startDate" className="block text-sm font-medium text-gray-700 mb-1">
+                  Start Date
+                </label>
+                <input
+                  id="startDate"
+                  type="date"
+                  {...register('startDate')}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={isLoading}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Used to date every week of the plan instead of assumed dates
+                </p>
+                {errors.startDate && <p className="mt-1 text-sm text-red-600">{errors.startDate.message}</p>}
+              </div>
+            </div>
+
+            {/* State and Delivery Days */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="state" className="block text-sm font-medium text-gray-700 mb-1">
+                  State or Territory
+                </label>
+                <select
+                  id="state"
+                  {...register('state', { setValueAs: (value) => value || undefined })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={isLoading}
+                >
+                  <option value="">National holidays only</option>
+                  {(Object.keys(AUSTRALIAN_STATES) as AustralianState[]).map((code) => (
+                    <option key={code} value={code}>
+                      {AUSTRALIAN_STATES[code]}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">Public holidays to schedule around</p>
+              </div>
+
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">Delivery Days</span>
+                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                  {DELIVERY_DAYS.map((day) => (
+                    <label key={day} className="flex items-center gap-1 text-sm text-gray-700 capitalize">
+                      <input
+                        type="checkbox"
+                        value={day}
+                        {...register('deliveryDays')}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        disabled={isLoading}
+                      />
+                      {day.slice(0, 3)}
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  With a start date, each week is dated around holidays and closures (Monday to Friday if none ticked)
+                </p>
+              </div>
+            </div>
+
+            {/* Session Times */}
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-1">Session Times</legend>
+              <div className="grid grid-cols-2 gap-4 md:w-1/2">
+                {(['start', 'end'] as const).map((key) => (
+                  <div key={key}>
+                    <label htmlFor={`sessionTimes-${key}`} className="block text-xs text-gray-500 mb-1 capitalize">
+                      {key}
+                    </label>
+                    <input
+                      id={`sessionTimes-${key}`}
+                      type="time"
+                      {...register(`sessionTimes.${key}`)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      disabled={isLoading}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">Optional; used to time sessions in the calendar (.ics) export</p>
+              {errors.sessionTimes?.message && <p className="mt-1 text-sm text-red-600">{errors.sessionTimes.message}</p>}
+            </fieldset>
+
+            {/* Venue */}
+            <div>
+              <label htmlFor="venue" className="block text-sm font-medium text-gray-700 mb-1">
+                Venue
+              </label>
+              <input
+                id="venue"
+                type="text"
+                {...register('venue')}
+                placeholder="e.g., Melbourne CBD Campus, Room 3.02"
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isLoading}
+              />
+              {errors.venue && <p className="mt-1 text-sm text-red-600">{errors.venue.message}</p>}
+            </div>
+
+            {/* Class Size */}
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-1">Class Size</legend>
+              <div className="grid grid-cols-3 gap-4">
+                {(['min', 'target', 'max'] as const).map((key) => (
+                  <div key={key}>
+                    <label htmlFor={`classSize-${key}`} className="block text-xs text-gray-500 mb-1">
+                      {key === 'min' ? 'Minimum' : key === 'max' ? 'Maximum' : 'Target'}
+                    </label>
+                    <input
+                      id={`classSize-${key}`}
+                      type="number"
+                      {...register(`classSize.${key}`, { setValueAs: optionalNumber })}
+                      min="1"
+                      max="500"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      disabled={isLoading}
+                    />
+                    {errors.classSize?.[key] && (
+                      <p className="mt-1 text-sm text-red-600">{errors.classSize[key]?.message}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {errors.classSize?.message && <p className="mt-1 text-sm text-red-600">{errors.classSize.message}</p>}
+            </fieldset>
+
+            {/* Trainers */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="primaryTrainer" className="block text-sm font-medium text-gray-700 mb-1">
+                  Primary Trainer/Assessor
+                </label>
+                <input
+                  id="primaryTrainer"
+                  type="text"
+                  {...register('primaryTrainer')}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={isLoading}
+                />
+                {errors.primaryTrainer && (
+                  <p className="mt-1 text-sm text-red-600">{errors.primaryTrainer.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="additionalTrainers" className="block text-sm font-medium text-gray-700 mb-1">
+                  Additional Trainers
+                </label>
+                <input
+                  id="additionalTrainers"
+                  type="text"
+                  {...register('additionalTrainers', { setValueAs: nameList })}
+                  placeholder="Comma separated"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={isLoading}
+                />
+                {errors.additionalTrainers && (
+                  <p className="mt-1 text-sm text-red-600">Trainer names must be under 200 characters each</p>
+                )}
+              </div>
+            </div>
+
             {/* Resources/Facilities */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-3">
                 Available Resources & Facilities
               </label>
               <div className="space-y-2">
-                {[
-                  { value: 'classroom', label: 'Classroom/Training Room' },
-                  { value: 'computers', label: 'Computer Lab' },
-                  { value: 'workshop', label: 'Workshop/Practical Space' },
-                  { value: 'online_platform', label: 'Online Learning Platform (LMS)' },
-                  { value: 'library', label: 'Library/Resource Centre' },
-                  { value: 'other', label: 'Other Specialized Equipment' },
-                ].map((resource) => (
+                {RESOURCE_OPTIONS.map((resource) => (
                   <label key={resource.value} className="flex items-center gap-2">
                     <input
                       type="checkbox"
@@ -341,15 +789,7 @@ export function IntakeForm({ onSubmit, isLoading = false }: IntakeFormProps) {
                 Preferred Assessment Methods
               </label>
               <div className="space-y-2">
-                {[
-                  { value: 'written_tests', label: 'Written Tests/Exams' },
-                  { value: 'practical_demos', label: 'Practical Demonstrations' },
-                  { value: 'projects', label: 'Projects/Case Studies' },
-                  { value: 'portfolios', label: 'Portfolio Assessment' },
-                  { value: 'workplace_obs', label: 'Workplace Observation' },
-                  { value: 'presentations', label: 'Presentations/Role Plays' },
-                  { value: 'online_quizzes', label: 'Online Quizzes' },
-                ].map((assessment) => (
+                {ASSESSMENT_OPTIONS.map((assessment) => (
                   <label key={assessment.value} className="flex items-center gap-2">
                     <input
                       type="checkbox"
@@ -372,6 +812,23 @@ export function IntakeForm({ onSubmit, isLoading = false }: IntakeFormProps) {
               >
                 Unit List (Optional)
               </label>
+              <input
+                type="text"
+                value={unitQuery}
+                onChange={handleUnitQueryChange}
+                list="unit-code-options"
+                autoComplete="off"
+                placeholder="Search the training catalogue by unit code or title to add it"
+                className="w-full mb-2 px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                disabled={isLoading}
+              />
+              <datalist id="unit-code-options">
+                {unitSuggestions.map((suggestion) => (
+                  <option key={suggestion.code} value={suggestion.code}>
+                    {suggestion.title}
+                  </option>
+                ))}
+              </datalist>
               <textarea
                 id="unitList"
                 {...register('unitList')}
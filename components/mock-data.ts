@@ -33,17 +33,22 @@ export const mockPlanShortCourse: GeneratedPlan = {
     cohort_profile:
       'Adult learners aged 18-65, mixed backgrounds, no prerequisites. Mix of workplace requirement and personal interest. LLN levels 3-5.',
     start_date: '2025-02-03',
-    end_date: '2025-02-14',
+    end_date: '2025-02-13',
     venue: 'Melbourne CBD Training Center',
     class_size: {
       min: 8,
       max: 16,
       target: 12
+    },
+    delivery_schedule: {
+      state: 'VIC',
+      delivery_days: ['tuesday', 'thursday']
     }
   },
   weekly_plan: [
     {
       week_number: 1,
+      dates: { start: '2025-02-03', end: '2025-02-09', sessions: ['2025-02-04', '2025-02-06'] },
       week_theme: 'First Aid Fundamentals & CPR',
       units_covered: ['HLTAID009', 'HLTAID010'],
       activities: [
@@ -85,6 +90,7 @@ export const mockPlanShortCourse: GeneratedPlan = {
     },
     {
       week_number: 2,
+      dates: { start: '2025-02-10', end: '2025-02-16', sessions: ['2025-02-11', '2025-02-13'] },
       week_theme: 'Emergency Response & Certification',
       units_covered: ['HLTAID010'],
       activities: [
@@ -0,0 +1,194 @@
+'use client';
+
+/**
+ * Organisation defaults settings
+ *
+ * State, venue, trainers, class size and standard resources the organisation uses
+ * on most courses. They are saved in settings and merged into every intake
+ * (values entered on the intake form win; resources are combined).
+ */
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Building2, Check } from 'lucide-react';
+import { RESOURCE_OPTIONS } from '@/lib/intake-options';
+import { AUSTRALIAN_STATES } from '@/lib/delivery-calendar';
+import type { AustralianState, OrganisationDefaults } from '@/types/unit-plan';
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface OrganisationSettingsProps {
+  value: OrganisationDefaults;
+  onSave: (defaults: OrganisationDefaults) => void;
+}
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function toCount(value: string): number | undefined {
+  const parsed = parseInt(value, 10);
+  return parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Drop empty fields so unset defaults are not stored
+ */
+function compact(defaults: OrganisationDefaults): OrganisationDefaults {
+  const { min, max, target } = defaults.classSize || {};
+  const classSize = Object.fromEntries(
+    Object.entries({ min, max, target }).filter(([, value]) => value !== undefined)
+  );
+  const additionalTrainers = (defaults.additionalTrainers || []).map((t) => t.trim()).filter(Boolean);
+
+  return {
+    ...(defaults.state ? { state: defaults.state } : {}),
+    ...(defaults.venue?.trim() ? { venue: defaults.venue.trim() } : {}),
+    ...(defaults.primaryTrainer?.trim() ? { primaryTrainer: defaults.primaryTrainer.trim() } : {}),
+    ...(additionalTrainers.length > 0 ? { additionalTrainers } : {}),
+    ...(Object.keys(classSize).length > 0 ? { classSize } : {}),
+    ...(defaults.resources?.length ? { resources: defaults.resources } : {}),
+  };
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function OrganisationSettings({ value, onSave }: OrganisationSettingsProps) {
+  const [draft, setDraft] = React.useState<OrganisationDefaults>(value);
+  const [trainersText, setTrainersText] = React.useState((value.additionalTrainers || []).join(', '));
+  const [saved, setSaved] = React.useState(false);
+
+  // Settings are loaded after mount; follow them until the trainer edits
+  React.useEffect(() => {
+    setDraft(value);
+    setTrainersText((value.additionalTrainers || []).join(', '));
+  }, [value]);
+
+  const update = (changes: Partial<OrganisationDefaults>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  const updateClassSize = (key: 'min' | 'max' | 'target', text: string) =>
+    update({ classSize: { ...draft.classSize, [key]: toCount(text) } });
+
+  const toggleResource = (resource: string, checked: boolean) => {
+    const current = draft.resources || [];
+    update({ resources: checked ? [...current, resource] : current.filter((r) => r !== resource) });
+  };
+
+  const handleSave = () => {
+    onSave(compact({ ...draft, additionalTrainers: trainersText.split(',') }));
+    setSaved(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Building2 className="w-5 h-5" />
+          Organisation Defaults
+        </CardTitle>
+        <CardDescription>
+          Added to every intake where the form leaves them blank. Standard resources are added to those selected.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className="block">
+            <span className="block text-sm font-medium text-slate-700 mb-1">State or territory</span>
+            <select
+              value={draft.state || ''}
+              onChange={(e) => update({ state: (e.target.value || undefined) as AustralianState | undefined })}
+              className={INPUT_CLASS}
+            >
+              <option value="">Not set</option>
+              {(Object.keys(AUSTRALIAN_STATES) as AustralianState[]).map((code) => (
+                <option key={code} value={code}>
+                  {AUSTRALIAN_STATES[code]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-sm font-medium text-slate-700 mb-1">Venue</span>
+            <input
+              value={draft.venue || ''}
+              onChange={(e) => update({ venue: e.target.value })}
+              placeholder="e.g. Parramatta Campus, Room 4"
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-sm font-medium text-slate-700 mb-1">Primary trainer/assessor</span>
+            <input
+              value={draft.primaryTrainer || ''}
+              onChange={(e) => update({ primaryTrainer: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-sm font-medium text-slate-700 mb-1">Additional trainers (comma separated)</span>
+            <input
+              value={trainersText}
+              onChange={(e) => {
+                setTrainersText(e.target.value);
+                setSaved(false);
+              }}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-slate-700 mb-1">Class size</legend>
+          <div className="grid grid-cols-3 gap-2">
+            {(['min', 'target', 'max'] as const).map((key) => (
+              <label key={key} className="block">
+                <span className="block text-xs text-slate-500 mb-1 capitalize">{key}</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.classSize?.[key] ?? ''}
+                  onChange={(e) => updateClassSize(key, e.target.value)}
+                  className={INPUT_CLASS}
+                />
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-slate-700 mb-2">Standard resources</legend>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {RESOURCE_OPTIONS.map((resource) => (
+              <label key={resource.value} className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={draft.resources?.includes(resource.value) || false}
+                  onChange={(e) => toggleResource(resource.value, e.target.checked)}
+                  className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                />
+                {resource.label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave}>Save defaults</Button>
+          {saved && (
+            <span className="flex items-center gap-1 text-sm text-green-700">
+              <Check className="w-4 h-4" />
+              Saved
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
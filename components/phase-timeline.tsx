@@ -0,0 +1,94 @@
+'use client';
+
+import React from 'react';
+import { CheckCircle2, AlertTriangle, XCircle, Loader2 } from 'lucide-react';
+import type { PhaseLog } from '@/lib/aprv';
+import type { TokenProgress } from '@/hooks/use-generation-stream';
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface PhaseTimelineProps {
+  logs: PhaseLog[];
+  progress?: TokenProgress | null;
+  /** Show a pending row after the last log while generation is running */
+  active?: boolean;
+}
+
+// ============================================================================
+// Helper Components
+// ============================================================================
+
+const PHASE_LABELS: Record<PhaseLog['phase'], string> = {
+  analyze: 'Analyze',
+  plan: 'Plan',
+  reflect: 'Reflect',
+  verify: 'Verify',
+  repair: 'Repair',
+};
+
+const StatusIcon: React.FC<{ status: PhaseLog['status'] }> = ({ status }) => {
+  if (status === 'success') return <CheckCircle2 className="w-4 h-4 text-green-600" />;
+  if (status === 'warning') return <AlertTriangle className="w-4 h-4 text-yellow-600" />;
+  return <XCircle className="w-4 h-4 text-red-600" />;
+};
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+/**
+ * Live APRV phase timeline shown while a plan is generating
+ */
+export function PhaseTimeline({ logs, progress, active = false }: PhaseTimelineProps) {
+  const percent = progress
+    ? Math.min(100, Math.round((progress.estimated_tokens / progress.max_tokens) * 100))
+    : 0;
+
+  return (
+    <div className="w-full max-w-xl mx-auto text-left space-y-3">
+      <ol className="space-y-2">
+        {logs.map((log, idx) => (
+          <li
+            key={idx}
+            className="flex items-start gap-3 bg-white rounded border border-slate-200 p-3 text-sm"
+          >
+            <StatusIcon status={log.status} />
+            <div className="flex-1 min-w-0">
+              <div className="flex justify-between gap-2">
+                <span className="font-semibold text-slate-900">{PHASE_LABELS[log.phase]}</span>
+                <span className="text-xs text-slate-400">
+                  {new Date(log.timestamp).toLocaleTimeString('en-AU')}
+                </span>
+              </div>
+              <p className="text-slate-600 text-xs mt-1 break-words">{log.details}</p>
+            </div>
+          </li>
+        ))}
+
+        {active && (
+          <li className="flex items-center gap-3 rounded border border-dashed border-slate-300 p-3 text-sm text-slate-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Working...
+          </li>
+        )}
+      </ol>
+
+      {active && progress && (
+        <div>
+          <div className="flex justify-between text-xs text-slate-500 mb-1">
+            <span>Attempt {progress.attempt}: ~{progress.estimated_tokens.toLocaleString()} tokens received</span>
+            <span>{percent}% of budget</span>
+          </div>
+          <div className="w-full bg-slate-200 rounded-full h-2">
+            <div
+              className="h-2 rounded-full bg-blue-500 transition-all"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
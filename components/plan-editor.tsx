@@ -0,0 +1,642 @@
+'use client';
+
+/**
+ * Inline plan editors used by ResultsView in edit mode
+ *
+ * Each editor works on a draft GeneratedPlan and reports every change through
+ * onChange; validation happens in the parent so all tabs share one result.
+ * Fields whose JSON Pointer has a validation error are outlined in red.
+ */
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowUp, ArrowDown, Trash2, Plus } from 'lucide-react';
+import { GeneratedPlanSchema } from '@/lib/schema-validator';
+import type {
+  GeneratedPlan,
+  WeeklyPlanItem,
+  WeeklyActivityItem,
+  WeeklyAssessment,
+  UnitDetail,
+  Risk,
+  Assumption
+} from '@/types/schema-types';
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface PlanEditorProps {
+  plan: GeneratedPlan;
+  onChange: (plan: GeneratedPlan) => void;
+  /** JSON Pointers of fields that currently fail validation */
+  errorPointers: string[];
+}
+
+// ============================================================================
+// Enum options (read from the generated schema so they cannot drift)
+// ============================================================================
+
+const PLAN_SHAPE = GeneratedPlanSchema.shape;
+const WEEK_SHAPE = PLAN_SHAPE.weekly_plan.element.shape;
+
+const DELIVERY_METHODS = WEEK_SHAPE.activities.element.shape.delivery_method.options;
+const ASSESSMENT_TYPES = WEEK_SHAPE.assessments.unwrap().element.shape.type.options;
+const UNIT_TYPES = PLAN_SHAPE.units.element.shape.unit_type.unwrap().options;
+const RISK_CATEGORIES = PLAN_SHAPE.risks.unwrap().element.shape.category.unwrap().options;
+const RISK_LEVELS = PLAN_SHAPE.risks.unwrap().element.shape.likelihood.options;
+const ASSUMPTION_CATEGORIES = PLAN_SHAPE.assumptions.unwrap().element.shape.category.unwrap().options;
+
+// ============================================================================
+// List helpers
+// ============================================================================
+
+function replaceAt<T>(items: T[], index: number, item: T): T[] {
+  return items.map((existing, idx) => (idx === index ? item : existing));
+}
+
+function removeAt<T>(items: T[], index: number): T[] {
+  return items.filter((_, idx) => idx !== index);
+}
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+/**
+ * Week numbers follow list order, so reordering weeks renumbers them.
+ * Calendar dates belong to the week slot, not its content, so each slot keeps
+ * the dates it had before the edit (a week added at the end has none).
+ */
+function renumberWeeks(weeks: WeeklyPlanItem[], previous: WeeklyPlanItem[]): WeeklyPlanItem[] {
+  const datesBySlot = new Map(previous.map((week) => [week.week_number, week.dates]));
+  return weeks.map(({ dates: _dates, ...week }, idx) => {
+    const dates = datesBySlot.get(idx + 1);
+    return { ...week, week_number: idx + 1, ...(dates ? { dates } : {}) };
+  });
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function formatOption(value: string): string {
+  return value
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function hasErrorAt(errorPointers: string[], pointer: string): boolean {
+  return errorPointers.some((error) => error === pointer || error.startsWith(`${pointer}/`));
+}
+
+// ============================================================================
+// Field Components
+// ============================================================================
+
+const inputClass = (invalid: boolean) =>
+  `w-full px-3 py-1.5 border rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    invalid ? 'border-red-400 bg-red-50' : 'border-slate-300'
+  }`;
+
+interface FieldProps {
+  label: string;
+  invalid?: boolean;
+  className?: string;
+}
+
+const TextField: React.FC<FieldProps & { value?: string; onChange: (value: string) => void; multiline?: boolean }> = ({
+  label,
+  value,
+  onChange,
+  invalid = false,
+  multiline = false,
+  className = ''
+}) => (
+  <label className={`block ${className}`}>
+    <span className="block text-xs font-medium text-slate-600 mb-1">{label}</span>
+    {multiline ? (
+      <textarea
+        value={value || ''}
+        onChange={(e) => onChange(e.target.value)}
+        rows={2}
+        className={inputClass(invalid)}
+      />
+    ) : (
+      <input type="text" value={value || ''} onChange={(e) => onChange(e.target.value)} className={inputClass(invalid)} />
+    )}
+  </label>
+);
+
+const NumberField: React.FC<FieldProps & { value?: number; onChange: (value: number | undefined) => void }> = ({
+  label,
+  value,
+  onChange,
+  invalid = false,
+  className = ''
+}) => (
+  <label className={`block ${className}`}>
+    <span className="block text-xs font-medium text-slate-600 mb-1">{label}</span>
+    <input
+      type="number"
+      step="0.5"
+      min="0"
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      className={inputClass(invalid)}
+    />
+  </label>
+);
+
+function SelectField<T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+  allowEmpty = false,
+  invalid = false,
+  className = ''
+}: FieldProps & {
+  value?: T;
+  options: readonly T[];
+  onChange: (value: T | undefined) => void;
+  allowEmpty?: boolean;
+}) {
+  return (
+    <label className={`block ${className}`}>
+      <span className="block text-xs font-medium text-slate-600 mb-1">{label}</span>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange((e.target.value || undefined) as T | undefined)}
+        className={inputClass(invalid)}
+      >
+        {allowEmpty && <option value="">—</option>}
+        {options
+          .filter((option) => option !== '')
+          .map((option) => (
+            <option key={option} value={option}>
+              {formatOption(option)}
+            </option>
+          ))}
+      </select>
+    </label>
+  );
+}
+
+/** Comma-separated list input; edits locally and commits on blur */
+const ListField: React.FC<FieldProps & { value?: string[]; onChange: (value: string[]) => void }> = ({
+  label,
+  value,
+  onChange,
+  invalid = false,
+  className = ''
+}) => {
+  const joined = (value || []).join(', ');
+  const [text, setText] = React.useState(joined);
+
+  React.useEffect(() => setText(joined), [joined]);
+
+  return (
+    <label className={`block ${className}`}>
+      <span className="block text-xs font-medium text-slate-600 mb-1">{label}</span>
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => onChange(splitList(text))}
+        placeholder="Comma-separated"
+        className={inputClass(invalid)}
+      />
+    </label>
+  );
+};
+
+const ItemControls: React.FC<{
+  index: number;
+  count: number;
+  label: string;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+}> = ({ index, count, label, onMove, onRemove }) => (
+  <div className="flex items-center gap-1">
+    <Button type="button" variant="ghost" size="sm" onClick={() => onMove(index - 1)} disabled={index === 0} aria-label={`Move ${label} up`}>
+      <ArrowUp className="w-4 h-4" />
+    </Button>
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      onClick={() => onMove(index + 1)}
+      disabled={index === count - 1}
+      aria-label={`Move ${label} down`}
+    >
+      <ArrowDown className="w-4 h-4" />
+    </Button>
+    <Button type="button" variant="ghost" size="sm" onClick={onRemove} aria-label={`Remove ${label}`}>
+      <Trash2 className="w-4 h-4 text-red-600" />
+    </Button>
+  </div>
+);
+
+const AddButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => (
+  <Button type="button" variant="outline" size="sm" onClick={onClick}>
+    <Plus className="w-4 h-4" />
+    {label}
+  </Button>
+);
+
+// ============================================================================
+// Weekly Plan Editor
+// ============================================================================
+
+const NEW_ACTIVITY: WeeklyActivityItem = { title: 'New activity', duration_hours: 1, delivery_method: 'workshop' };
+
+export function WeeklyPlanEditor({ plan, onChange, errorPointers }: PlanEditorProps) {
+  const weeks = plan.weekly_plan;
+  const setWeeks = (next: WeeklyPlanItem[]) =>
+    onChange({ ...plan, weekly_plan: renumberWeeks(next, plan.weekly_plan) });
+  const setWeek = (idx: number, week: WeeklyPlanItem) => setWeeks(replaceAt(weeks, idx, week));
+
+  const newAssessment = (): WeeklyAssessment => ({
+    title: 'New assessment',
+    type: 'written',
+    units_assessed: plan.units[0] ? [plan.units[0].unit_code] : []
+  });
+
+  return (
+    <div className="space-y-4">
+      {weeks.map((week, weekIdx) => {
+        const base = `/weekly_plan/${weekIdx}`;
+        const activities = week.activities;
+        const assessments = week.assessments || [];
+        const setActivities = (next: WeeklyActivityItem[]) => setWeek(weekIdx, { ...week, activities: next });
+        const setAssessments = (next: WeeklyAssessment[]) => setWeek(weekIdx, { ...week, assessments: next });
+
+        return (
+          <Card key={weekIdx} className={hasErrorAt(errorPointers, base) ? 'border-red-300' : ''}>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="text-lg">Week {week.week_number}</CardTitle>
+                <ItemControls
+                  index={weekIdx}
+                  count={weeks.length}
+                  label={`week ${week.week_number}`}
+                  onMove={(to) => setWeeks(moveItem(weeks, weekIdx, to))}
+                  onRemove={() => setWeeks(removeAt(weeks, weekIdx))}
+                />
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-3 md:grid-cols-2">
+                <TextField
+                  label="Theme"
+                  value={week.week_theme}
+                  onChange={(value) => setWeek(weekIdx, { ...week, week_theme: value || undefined })}
+                  invalid={hasErrorAt(errorPointers, `${base}/week_theme`)}
+                />
+                <ListField
+                  label="Units covered"
+                  value={week.units_covered}
+                  onChange={(value) => setWeek(weekIdx, { ...week, units_covered: value.length ? value : undefined })}
+                  invalid={hasErrorAt(errorPointers, `${base}/units_covered`)}
+                />
+              </div>
+
+              {/* Activities */}
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-slate-700">Activities</h4>
+                {activities.map((activity, idx) => {
+                  const pointer = `${base}/activities/${idx}`;
+                  const setActivity = (patch: Partial<WeeklyActivityItem>) =>
+                    setActivities(replaceAt(activities, idx, { ...activity, ...patch }));
+
+                  return (
+                    <div key={idx} className="border border-slate-200 rounded-lg p-3 space-y-2">
+                      <div className="flex items-end gap-2">
+                        <TextField
+                          label="Title"
+                          value={activity.title}
+                          onChange={(value) => setActivity({ title: value })}
+                          invalid={hasErrorAt(errorPointers, `${pointer}/title`)}
+                          className="flex-1"
+                        />
+                        <NumberField
+                          label="Hours"
+                          value={activity.duration_hours}
+                          onChange={(value) => setActivity({ duration_hours: value as number })}
+                          invalid={hasErrorAt(errorPointers, `${pointer}/duration_hours`)}
+                          className="w-24"
+                        />
+                        <SelectField
+                          label="Method"
+                          value={activity.delivery_method}
+                          options={DELIVERY_METHODS}
+                          onChange={(value) => value && setActivity({ delivery_method: value })}
+                          className="w-44"
+                        />
+                        <ItemControls
+                          index={idx}
+                          count={activities.length}
+                          label={`activity ${idx + 1}`}
+                          onMove={(to) => setActivities(moveItem(activities, idx, to))}
+                          onRemove={() => setActivities(removeAt(activities, idx))}
+                        />
+                      </div>
+                      <TextField
+                        label="Description"
+                        value={activity.description}
+                        onChange={(value) => setActivity({ description: value || undefined })}
+                        invalid={hasErrorAt(errorPointers, `${pointer}/description`)}
+                        multiline
+                      />
+                    </div>
+                  );
+                })}
+                <AddButton label="Add activity" onClick={() => setActivities([...activities, { ...NEW_ACTIVITY }])} />
+              </div>
+
+              {/* Assessments */}
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-slate-700">Assessments</h4>
+                {assessments.map((assessment, idx) => {
+                  const pointer = `${base}/assessments/${idx}`;
+                  const setAssessment = (patch: Partial<WeeklyAssessment>) =>
+                    setAssessments(replaceAt(assessments, idx, { ...assessment, ...patch }));
+
+                  return (
+                    <div key={idx} className="border border-amber-200 bg-amber-50/40 rounded-lg p-3">
+                      <div className="flex flex-wrap items-end gap-2">
+                        <TextField
+                          label="Title"
+                          value={assessment.title}
+                          onChange={(value) => setAssessment({ title: value })}
+                          invalid={hasErrorAt(errorPointers, `${pointer}/title`)}
+                          className="flex-1 min-w-48"
+                        />
+                        <SelectField
+                          label="Type"
+                          value={assessment.type}
+                          options={ASSESSMENT_TYPES}
+                          onChange={(value) => value && setAssessment({ type: value })}
+                          className="w-36"
+                        />
+                        <ListField
+                          label="Units assessed"
+                          value={assessment.units_assessed}
+                          onChange={(value) => setAssessment({ units_assessed: value })}
+                          invalid={hasErrorAt(errorPointers, `${pointer}/units_assessed`)}
+                          className="w-48"
+                        />
+                        <TextField
+                          label="Due"
+                          value={assessment.due_date}
+                          onChange={(value) => setAssessment({ due_date: value || undefined })}
+                          className="w-32"
+                        />
+                        <NumberField
+                          label="Hours"
+                          value={assessment.duration_hours}
+                          onChange={(value) => setAssessment({ duration_hours: value })}
+                          invalid={hasErrorAt(errorPointers, `${pointer}/duration_hours`)}
+                          className="w-24"
+                        />
+                        <ItemControls
+                          index={idx}
+                          count={assessments.length}
+                          label={`assessment ${idx + 1}`}
+                          onMove={(to) => setAssessments(moveItem(assessments, idx, to))}
+                          onRemove={() => setAssessments(removeAt(assessments, idx))}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+                <AddButton label="Add assessment" onClick={() => setAssessments([...assessments, newAssessment()])} />
+              </div>
+
+              <TextField
+                label="Notes"
+                value={week.notes}
+                onChange={(value) => setWeek(weekIdx, { ...week, notes: value || undefined })}
+                invalid={hasErrorAt(errorPointers, `${base}/notes`)}
+                multiline
+              />
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <AddButton
+        label="Add week"
+        onClick={() =>
+          setWeeks([...weeks, { week_number: weeks.length + 1, activities: [{ ...NEW_ACTIVITY }] }])
+        }
+      />
+    </div>
+  );
+}
+
+// ============================================================================
+// Units Editor
+// ============================================================================
+
+export function UnitsEditor({ plan, onChange, errorPointers }: PlanEditorProps) {
+  const units = plan.units;
+  const setUnits = (next: UnitDetail[]) => onChange({ ...plan, units: next });
+
+  return (
+    <div className="space-y-3">
+      {units.map((unit, idx) => {
+        const pointer = `/units/${idx}`;
+        const setUnit = (patch: Partial<UnitDetail>) => setUnits(replaceAt(units, idx, { ...unit, ...patch }));
+
+        return (
+          <Card key={idx} className={hasErrorAt(errorPointers, pointer) ? 'border-red-300' : ''}>
+            <CardContent className="pt-6">
+              <div className="flex flex-wrap items-end gap-2">
+                <TextField
+                  label="Code"
+                  value={unit.unit_code}
+                  onChange={(value) => setUnit({ unit_code: value.toUpperCase() })}
+                  invalid={hasErrorAt(errorPointers, `${pointer}/unit_code`)}
+                  className="w-36"
+                />
+                <TextField
+                  label="Title"
+                  value={unit.unit_title}
+                  onChange={(value) => setUnit({ unit_title: value })}
+                  invalid={hasErrorAt(errorPointers, `${pointer}/unit_title`)}
+                  className="flex-1 min-w-64"
+                />
+                <NumberField
+                  label="Nominal hours"
+                  value={unit.nominal_hours}
+                  onChange={(value) => setUnit({ nominal_hours: value as number })}
+                  invalid={hasErrorAt(errorPointers, `${pointer}/nominal_hours`)}
+                  className="w-32"
+                />
+                <SelectField
+                  label="Type"
+                  value={unit.unit_type || undefined}
+                  options={UNIT_TYPES}
+                  onChange={(value) => setUnit({ unit_type: value })}
+                  allowEmpty
+                  className="w-36"
+                />
+                <ItemControls
+                  index={idx}
+                  count={units.length}
+                  label={unit.unit_code || `unit ${idx + 1}`}
+                  onMove={(to) => setUnits(moveItem(units, idx, to))}
+                  onRemove={() => setUnits(removeAt(units, idx))}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <AddButton
+        label="Add unit"
+        onClick={() => setUnits([...units, { unit_code: '', unit_title: '', nominal_hours: 0 }])}
+      />
+    </div>
+  );
+}
+
+// ============================================================================
+// Risks & Assumptions Editor
+// ============================================================================
+
+export function RisksAssumptionsEditor({ plan, onChange, errorPointers }: PlanEditorProps) {
+  const risks = plan.risks || [];
+  const assumptions = plan.assumptions || [];
+  const setRisks = (next: Risk[]) => onChange({ ...plan, risks: next });
+  const setAssumptions = (next: Assumption[]) => onChange({ ...plan, assumptions: next });
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-slate-900">Risks</h3>
+        {risks.map((risk, idx) => {
+          const pointer = `/risks/${idx}`;
+          const setRisk = (patch: Partial<Risk>) => setRisks(replaceAt(risks, idx, { ...risk, ...patch }));
+
+          return (
+            <div key={idx} className="border border-slate-200 rounded-lg p-3 space-y-2">
+              <div className="flex flex-wrap items-end gap-2">
+                <TextField
+                  label="Risk"
+                  value={risk.risk_description}
+                  onChange={(value) => setRisk({ risk_description: value })}
+                  invalid={hasErrorAt(errorPointers, `${pointer}/risk_description`)}
+                  className="flex-1 min-w-64"
+                />
+                <SelectField
+                  label="Category"
+                  value={risk.category}
+                  options={RISK_CATEGORIES}
+                  onChange={(value) => setRisk({ category: value })}
+                  allowEmpty
+                  className="w-36"
+                />
+                <SelectField
+                  label="Likelihood"
+                  value={risk.likelihood}
+                  options={RISK_LEVELS}
+                  onChange={(value) => value && setRisk({ likelihood: value })}
+                  className="w-28"
+                />
+                <SelectField
+                  label="Impact"
+                  value={risk.impact}
+                  options={RISK_LEVELS}
+                  onChange={(value) => value && setRisk({ impact: value })}
+                  className="w-28"
+                />
+                <ItemControls
+                  index={idx}
+                  count={risks.length}
+                  label={`risk ${idx + 1}`}
+                  onMove={(to) => setRisks(moveItem(risks, idx, to))}
+                  onRemove={() => setRisks(removeAt(risks, idx))}
+                />
+              </div>
+              <TextField
+                label="Mitigation"
+                value={risk.mitigation}
+                onChange={(value) => setRisk({ mitigation: value || undefined })}
+                invalid={hasErrorAt(errorPointers, `${pointer}/mitigation`)}
+                multiline
+              />
+            </div>
+          );
+        })}
+        <AddButton
+          label="Add risk"
+          onClick={() => setRisks([...risks, { risk_description: '', likelihood: 'medium', impact: 'medium' }])}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-slate-900">Assumptions</h3>
+        {assumptions.map((assumption, idx) => {
+          const pointer = `/assumptions/${idx}`;
+          const setAssumption = (patch: Partial<Assumption>) =>
+            setAssumptions(replaceAt(assumptions, idx, { ...assumption, ...patch }));
+
+          return (
+            <div key={idx} className="border border-slate-200 rounded-lg p-3">
+              <div className="flex flex-wrap items-end gap-2">
+                <TextField
+                  label="Assumption"
+                  value={assumption.assumption}
+                  onChange={(value) => setAssumption({ assumption: value })}
+                  invalid={hasErrorAt(errorPointers, `${pointer}/assumption`)}
+                  className="flex-1 min-w-64"
+                />
+                <SelectField
+                  label="Category"
+                  value={assumption.category}
+                  options={ASSUMPTION_CATEGORIES}
+                  onChange={(value) => setAssumption({ category: value })}
+                  allowEmpty
+                  className="w-48"
+                />
+                <label className="flex items-center gap-2 text-sm text-slate-700 pb-2">
+                  <input
+                    type="checkbox"
+                    checked={!!assumption.validation_required}
+                    onChange={(e) => setAssumption({ validation_required: e.target.checked })}
+                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Validation required
+                </label>
+                <ItemControls
+                  index={idx}
+                  count={assumptions.length}
+                  label={`assumption ${idx + 1}`}
+                  onMove={(to) => setAssumptions(moveItem(assumptions, idx, to))}
+                  onRemove={() => setAssumptions(removeAt(assumptions, idx))}
+                />
+              </div>
+            </div>
+          );
+        })}
+        <AddButton
+          label="Add assumption"
+          onClick={() => setAssumptions([...assumptions, { assumption: '', validation_required: false }])}
+        />
+      </div>
+    </div>
+  );
+}
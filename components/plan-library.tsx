@@ -0,0 +1,389 @@
+'use client';
+
+/**
+ * Plan library
+ *
+ * Lists every saved plan with search (qualification title/code, units, tags),
+ * filters by delivery mode, duration and confidence band, user-defined tags,
+ * duplicate-as-template, and bulk export/delete of the selected plans.
+ */
+
+import React from 'react';
+import { saveAs } from 'file-saver';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Copy, Download, FolderOpen, Search, Tag, Trash2, X } from 'lucide-react';
+import { deletePlan, duplicatePlan, exportPlans, loadAllPlans, setPlanTags } from '@/lib/storage';
+import type { StoredPlan } from '@/lib/storage';
+import {
+  CONFIDENCE_BANDS,
+  DEFAULT_LIBRARY_FILTERS,
+  DELIVERY_MODE_LABELS,
+  DURATION_BANDS,
+  collectTags,
+  confidenceBand,
+  filterPlans,
+} from '@/lib/plan-library';
+import type { ConfidenceBand, DurationBand, LibraryFilters, LibrarySort } from '@/lib/plan-library';
+import type { PlanDeliveryMode } from '@/types/unit-plan';
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface PlanLibraryProps {
+  /** Open a plan on the main page */
+  onOpen: (stored: StoredPlan) => void;
+}
+
+const CONFIDENCE_BADGES: Record<ConfidenceBand, 'success' | 'warning' | 'danger'> = {
+  high: 'success',
+  medium: 'warning',
+  low: 'danger',
+};
+
+const SELECT_CLASS =
+  'px-2 py-1.5 border border-slate-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-blue-500';
+
+// ============================================================================
+// Helper Components
+// ============================================================================
+
+const TagEditor: React.FC<{ tags: string[]; onChange: (tags: string[]) => void }> = ({ tags, onChange }) => {
+  const [draft, setDraft] = React.useState('');
+
+  const add = () => {
+    if (!draft.trim()) return;
+    onChange([...tags, draft]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {tags.map((tag) => (
+        <Badge key={tag} variant="secondary" className="gap-1 text-xs">
+          {tag}
+          <button
+            type="button"
+            aria-label={`Remove tag ${tag}`}
+            onClick={() => onChange(tags.filter((t) => t !== tag))}
+            className="hover:text-red-700"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            add();
+          }
+        }}
+        onBlur={add}
+        placeholder="Add tag"
+        className="w-24 px-1.5 py-0.5 border border-dashed border-slate-300 rounded text-xs focus:ring-1 focus:ring-blue-500"
+      />
+    </div>
+  );
+};
+
+const PlanCard: React.FC<{
+  stored: StoredPlan;
+  selected: boolean;
+  onSelect: (selected: boolean) => void;
+  onOpen: () => void;
+  onDuplicate: () => void;
+  onTagsChange: (tags: string[]) => void;
+}> = ({ stored, selected, onSelect, onOpen, onDuplicate, onTagsChange }) => {
+  const { meta, confidence_score, units } = stored.plan;
+  const band = confidenceBand(confidence_score);
+
+  return (
+    <li className={`rounded-lg border p-4 ${selected ? 'border-blue-300 bg-blue-50' : 'border-slate-200 bg-white'}`}>
+      <div className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={(e) => onSelect(e.target.checked)}
+          aria-label={`Select ${meta.qualification.title}`}
+          className="mt-1"
+        />
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <h3 className="font-semibold text-slate-900">
+                {meta.qualification.code && <span className="text-slate-500 mr-2">{meta.qualification.code}</span>}
+                {meta.qualification.title}
+              </h3>
+              <p className="text-xs text-slate-500">
+                Updated {new Date(stored.updatedAt).toLocaleString('en-AU')} · {stored.versions.length} version
+                {stored.versions.length === 1 ? '' : 's'}
+              </p>
+            </div>
+            <div className="flex gap-1">
+              <Button size="sm" onClick={onOpen}>
+                <FolderOpen className="w-4 h-4" />
+                Open
+              </Button>
+              <Button size="sm" variant="outline" onClick={onDuplicate} title="Copy this plan as the start of a new one">
+                <Copy className="w-4 h-4" />
+                Duplicate
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-1.5 text-xs">
+            <Badge variant="outline">{DELIVERY_MODE_LABELS[meta.delivery_mode]}</Badge>
+            <Badge variant="outline">
+              {meta.duration.weeks} weeks · {meta.duration.total_hours}h
+            </Badge>
+            <Badge variant="outline">
+              {units.length} unit{units.length === 1 ? '' : 's'}
+            </Badge>
+            <Badge variant={CONFIDENCE_BADGES[band]}>{Math.round(confidence_score * 100)}% confidence</Badge>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Tag className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+            <TagEditor tags={stored.tags || []} onChange={onTagsChange} />
+          </div>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function PlanLibrary({ onOpen }: PlanLibraryProps) {
+  const [plans, setPlans] = React.useState<StoredPlan[] | null>(null);
+  const [unreadable, setUnreadable] = React.useState(0);
+  const [loadError, setLoadError] = React.useState<string | undefined>();
+  const [filters, setFilters] = React.useState<LibraryFilters>(DEFAULT_LIBRARY_FILTERS);
+  const [sort, setSort] = React.useState<LibrarySort>('updated');
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+
+  const reload = React.useCallback(async () => {
+    const result = await loadAllPlans();
+    setPlans(result.plans);
+    setUnreadable(result.failed.length);
+    setLoadError(result.error);
+    setSelected((prev) => new Set([...prev].filter((id) => result.plans.some((p) => p.id === id))));
+  }, []);
+
+  React.useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const allTags = React.useMemo(() => collectTags(plans || []), [plans]);
+  const visible = React.useMemo(() => filterPlans(plans || [], filters, sort), [plans, filters, sort]);
+  const visibleSelected = visible.filter((stored) => selected.has(stored.id));
+
+  const updateFilter = <K extends keyof LibraryFilters>(key: K, value: LibraryFilters[K]) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const toggleTagFilter = (tag: string) =>
+    updateFilter(
+      'tags',
+      filters.tags.includes(tag) ? filters.tags.filter((t) => t !== tag) : [...filters.tags, tag]
+    );
+
+  const toggleSelected = (id: string, isSelected: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (isSelected) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const handleTagsChange = async (id: string, tags: string[]) => {
+    const updated = await setPlanTags(id, tags);
+    if (updated) setPlans((prev) => (prev || []).map((p) => (p.id === id ? updated : p)));
+  };
+
+  const handleDuplicate = async (id: string) => {
+    const copy = await duplicatePlan(id);
+    if (copy) onOpen(copy);
+  };
+
+  const handleExportSelected = async () => {
+    const backup = await exportPlans(visibleSelected.map((stored) => stored.id));
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    saveAs(blob, `tas-assistant-plans-${backup.exportedAt.slice(0, 10)}.json`);
+  };
+
+  const handleDeleteSelected = async () => {
+    const count = visibleSelected.length;
+    if (!confirm(`Delete ${count} saved plan${count === 1 ? '' : 's'}? This cannot be undone.`)) return;
+
+    for (const stored of visibleSelected) {
+      await deletePlan(stored.id);
+    }
+    await reload();
+  };
+
+  if (!plans) {
+    return <p className="text-sm text-slate-500">Loading saved plans…</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-6 space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+            <input
+              type="search"
+              value={filters.query}
+              onChange={(e) => updateFilter('query', e.target.value)}
+              placeholder="Search by qualification title or code, unit or tag"
+              className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={filters.deliveryMode}
+              onChange={(e) => updateFilter('deliveryMode', e.target.value as PlanDeliveryMode | 'any')}
+              className={SELECT_CLASS}
+              aria-label="Delivery mode"
+            >
+              <option value="any">Any delivery mode</option>
+              {(Object.keys(DELIVERY_MODE_LABELS) as PlanDeliveryMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {DELIVERY_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.duration}
+              onChange={(e) => updateFilter('duration', e.target.value as DurationBand | 'any')}
+              className={SELECT_CLASS}
+              aria-label="Duration"
+            >
+              <option value="any">Any duration</option>
+              {(Object.keys(DURATION_BANDS) as DurationBand[]).map((band) => (
+                <option key={band} value={band}>
+                  {DURATION_BANDS[band].label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.confidence}
+              onChange={(e) => updateFilter('confidence', e.target.value as ConfidenceBand | 'any')}
+              className={SELECT_CLASS}
+              aria-label="Confidence"
+            >
+              <option value="any">Any confidence</option>
+              {(Object.keys(CONFIDENCE_BANDS) as ConfidenceBand[]).map((band) => (
+                <option key={band} value={band}>
+                  {CONFIDENCE_BANDS[band]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as LibrarySort)}
+              className={SELECT_CLASS}
+              aria-label="Sort"
+            >
+              <option value="updated">Recently updated</option>
+              <option value="created">Recently created</option>
+              <option value="title">Qualification A–Z</option>
+            </select>
+            {(filters !== DEFAULT_LIBRARY_FILTERS || sort !== 'updated') && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setFilters(DEFAULT_LIBRARY_FILTERS);
+                  setSort('updated');
+                }}
+              >
+                Clear filters
+              </Button>
+            )}
+          </div>
+
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-xs text-slate-500 mr-1">Tags:</span>
+              {allTags.map((tag) => (
+                <button key={tag} type="button" onClick={() => toggleTagFilter(tag)}>
+                  <Badge variant={filters.tags.includes(tag) ? 'default' : 'outline'} className="text-xs cursor-pointer">
+                    {tag}
+                  </Badge>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={visible.length > 0 && visibleSelected.length === visible.length}
+            onChange={(e) =>
+              setSelected(e.target.checked ? new Set(visible.map((stored) => stored.id)) : new Set())
+            }
+          />
+          {visible.length} of {plans.length} plan{plans.length === 1 ? '' : 's'}
+          {visibleSelected.length > 0 && ` · ${visibleSelected.length} selected`}
+        </label>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleExportSelected} disabled={visibleSelected.length === 0}>
+            <Download className="w-4 h-4" />
+            Export selected
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleDeleteSelected} disabled={visibleSelected.length === 0}>
+            <Trash2 className="w-4 h-4" />
+            Delete selected
+          </Button>
+        </div>
+      </div>
+
+      {loadError && (
+        <p role="alert" className="text-sm text-red-800 bg-red-50 border border-red-200 rounded-md p-3">
+          {loadError}
+        </p>
+      )}
+
+      {unreadable > 0 && (
+        <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-3">
+          {unreadable} saved plan{unreadable === 1 ? '' : 's'} could not be upgraded to the current schema and
+          {unreadable === 1 ? ' is' : ' are'} not shown.
+        </p>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-12">
+          {plans.length === 0
+            ? 'No saved plans yet. Generate or import one from the main page.'
+            : 'No plans match these filters.'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {visible.map((stored) => (
+            <PlanCard
+              key={stored.id}
+              stored={stored}
+              selected={selected.has(stored.id)}
+              onSelect={(isSelected) => toggleSelected(stored.id, isSelected)}
+              onOpen={() => onOpen(stored)}
+              onDuplicate={() => handleDuplicate(stored.id)}
+              onTagsChange={(tags) => handleTagsChange(stored.id, tags)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
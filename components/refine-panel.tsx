@@ -0,0 +1,278 @@
+'use client';
+
+/**
+ * Chat panel for conversational plan refinement
+ *
+ * Each instruction is sent to POST /api/refine; the proposed section changes
+ * are shown as a before/after diff the trainer can accept or reject.
+ */
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, Loader2, Send, Sparkles, X } from 'lucide-react';
+import { usePlanRefinement } from '@/hooks/use-plan-refinement';
+import type { RefineResponse } from '@/app/api/refine/route';
+import type { PlanChange } from '@/lib/aprv';
+import type { GeneratedPlan, IntakeFormData, UnitDetail, WeeklyPlanItem } from '@/types/unit-plan';
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface RefinePanelProps {
+  plan: GeneratedPlan;
+  /** Original intake, quoted to the model so changes stay within it */
+  intake?: IntakeFormData;
+  /** Apply an accepted proposal; receives the instruction that produced it */
+  onAccept: (plan: GeneratedPlan, instruction: string) => void;
+  /** Block new instructions and accepting proposals (e.g. while the plan is being edited) */
+  disabled?: boolean;
+}
+
+type RefineMessage =
+  | { role: 'trainer'; text: string }
+  | { role: 'error'; text: string }
+  | {
+      role: 'proposal';
+      instruction: string;
+      /** Plan the proposal was made against; stale once the plan changes */
+      base: GeneratedPlan;
+      response: RefineResponse;
+      status: 'pending' | 'accepted' | 'rejected';
+    };
+
+const EXAMPLE_INSTRUCTIONS = [
+  'Make weeks 3-5 more practical',
+  'Add a risk for trainer availability',
+  'Move the final assessment to the last week',
+];
+
+// ============================================================================
+// Change descriptions
+// ============================================================================
+
+function sectionLabel(pointer: string): string {
+  const [, top, index] = pointer.split('/');
+  if (top === 'weekly_plan' && index !== undefined) return `Week ${Number(index) + 1}`;
+  if (top === 'units' && index !== undefined) return `Unit ${Number(index) + 1}`;
+  return top
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function truncate(text: string, length = 240): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+/**
+ * One-line summary of a section value for the diff view
+ */
+function describeSection(pointer: string, value: unknown): string {
+  if (value === undefined) return '(none)';
+
+  // The pointer names the section; the plan has passed schema validation
+  if (/^\/weekly_plan\/\d+$/.test(pointer) && value && typeof value === 'object') {
+    const week = value as WeeklyPlanItem;
+    const activities = (week.activities || [])
+      .map((activity) => `${activity.title} (${activity.delivery_method}, ${activity.duration_hours}h)`)
+      .join('; ');
+    const assessments = (week.assessments || []).map((assessment) => assessment.title).join('; ');
+    return truncate(
+      `${week.week_theme ? `${week.week_theme}: ` : ''}${activities}${assessments ? ` | Assessments: ${assessments}` : ''}`
+    );
+  }
+
+  if (/^\/units\/\d+$/.test(pointer) && value && typeof value === 'object') {
+    const unit = value as UnitDetail;
+    return `${unit.unit_code} ${unit.unit_title} (${unit.nominal_hours}h)`;
+  }
+
+  if (Array.isArray(value)) return `${value.length} item(s)`;
+  if (typeof value === 'string') return truncate(value);
+  return truncate(JSON.stringify(value));
+}
+
+const ChangeRow: React.FC<{ change: PlanChange }> = ({ change }) => {
+  const kind = change.before === undefined ? 'added' : change.after === undefined ? 'removed' : 'changed';
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-3 text-sm space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-slate-900">{sectionLabel(change.pointer)}</span>
+        <Badge variant={kind === 'added' ? 'success' : kind === 'removed' ? 'danger' : 'warning'} className="text-xs capitalize">
+          {kind}
+        </Badge>
+        <code className="text-xs text-slate-500 font-mono">{change.pointer}</code>
+      </div>
+      {kind !== 'added' && (
+        <p className="text-red-700 bg-red-50 rounded px-2 py-1">
+          <span className="font-mono mr-1">−</span>
+          {describeSection(change.pointer, change.before)}
+        </p>
+      )}
+      {kind !== 'removed' && (
+        <p className="text-green-700 bg-green-50 rounded px-2 py-1">
+          <span className="font-mono mr-1">+</span>
+          {describeSection(change.pointer, change.after)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function RefinePanel({ plan, intake, onAccept, disabled = false }: RefinePanelProps) {
+  const [messages, setMessages] = React.useState<RefineMessage[]>([]);
+  const [instruction, setInstruction] = React.useState('');
+  const { isRefining, refine } = usePlanRefinement();
+
+  const setStatus = (index: number, status: 'accepted' | 'rejected') =>
+    setMessages((current) =>
+      current.map((message, idx) => (idx === index && message.role === 'proposal' ? { ...message, status } : message))
+    );
+
+  const handleSend = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const text = instruction.trim();
+    if (!text || isRefining || disabled) return;
+
+    setInstruction('');
+    setMessages((current) => [...current, { role: 'trainer', text }]);
+
+    try {
+      const response = await refine(plan, text, intake);
+      setMessages((current) => [...current, { role: 'proposal', instruction: text, base: plan, response, status: 'pending' }]);
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') return;
+      setMessages((current) => [
+        ...current,
+        { role: 'error', text: err instanceof Error ? err.message : 'Refinement failed' },
+      ]);
+    }
+  };
+
+  const handleAccept = (index: number, instruction: string, proposal: RefineResponse) => {
+    onAccept(proposal.plan, instruction);
+    setStatus(index, 'accepted');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-blue-600" />
+          Refine Plan
+        </CardTitle>
+        <CardDescription>
+          Describe a change in plain language. Only the affected weeks, units or sections are regenerated, and
+          nothing changes until you accept the proposal.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {messages.length === 0 && (
+          <div className="flex flex-wrap gap-2">
+            {EXAMPLE_INSTRUCTIONS.map((example) => (
+              <Button key={example} type="button" variant="outline" size="sm" onClick={() => setInstruction(example)}>
+                {example}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {messages.map((message, idx) => {
+            if (message.role === 'trainer') {
+              return (
+                <div key={idx} className="flex justify-end">
+                  <p className="max-w-[80%] bg-blue-600 text-white rounded-lg px-4 py-2 text-sm">{message.text}</p>
+                </div>
+              );
+            }
+
+            if (message.role === 'error') {
+              return (
+                <p key={idx} className="bg-red-50 border border-red-200 text-red-800 rounded-lg px-4 py-2 text-sm">
+                  {message.text}
+                </p>
+              );
+            }
+
+            const { response, status } = message;
+            const stale = status === 'pending' && message.base !== plan;
+
+            return (
+              <div key={idx} className="bg-slate-50 border border-slate-200 rounded-lg p-4 space-y-3">
+                <p className="text-sm text-slate-900">
+                  {response.summary || 'Proposed changes:'}
+                </p>
+
+                {response.changes.length === 0 ? (
+                  <p className="text-sm text-slate-500">No sections were changed.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {response.changes.map((change) => (
+                      <ChangeRow key={change.pointer} change={change} />
+                    ))}
+                  </div>
+                )}
+
+                {status === 'pending' && response.changes.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Button size="sm" onClick={() => handleAccept(idx, message.instruction, response)} disabled={stale || disabled}>
+                      <Check className="w-4 h-4" />
+                      Accept
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setStatus(idx, 'rejected')}>
+                      <X className="w-4 h-4" />
+                      Reject
+                    </Button>
+                    {stale && (
+                      <span className="text-xs text-slate-500">The plan has changed since this proposal.</span>
+                    )}
+                  </div>
+                )}
+                {status !== 'pending' && (
+                  <Badge variant={status === 'accepted' ? 'success' : 'secondary'} className="capitalize">
+                    {status}
+                  </Badge>
+                )}
+              </div>
+            );
+          })}
+
+          {isRefining && (
+            <p className="flex items-center gap-2 text-sm text-slate-500">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Refining plan…
+            </p>
+          )}
+        </div>
+
+        {disabled && (
+          <p className="text-sm text-slate-500">Save or cancel your edits before refining the plan.</p>
+        )}
+
+        <form onSubmit={handleSend} className="flex gap-2">
+          <input
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder="e.g. Make weeks 3-5 more practical"
+            disabled={isRefining || disabled}
+            className="flex-1 px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <Button type="submit" disabled={isRefining || disabled || !instruction.trim()}>
+            <Send className="w-4 h-4" />
+            Send
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
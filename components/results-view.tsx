@@ -7,10 +7,11 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
   FileDown,
+  FileSpreadsheet,
   FileText,
-  Printer,
   RotateCcw,
   Calendar,
+  CalendarPlus,
   Clock,
   Users,
   BookOpen,
@@ -21,7 +22,13 @@ import {
   MapPin,
   Award,
   Target,
-  Shield
+  Shield,
+  MessageSquare,
+  Calculator,
+  Scale,
+  Pencil,
+  Save,
+  X
 } from 'lucide-react';
 import type {
   GeneratedPlan,
@@ -31,12 +38,30 @@ import type {
   Risk,
   Assumption
 } from '@/types/schema-types';
+import type { ReflectionFinding, IntakeFormData, PlanSheetId } from '@/types/unit-plan';
+import { PLAN_SHEETS } from '@/lib/plan-sheets';
+import { hasCalendarDates } from '@/lib/ical-export';
+import { checkPlanConsistency } from '@/lib/consistency-checker';
+import { TrainingCatalogue } from '@/lib/training-catalogue';
+import { useCatalogueUnits } from '@/hooks/use-catalogue';
+import { analyzeVolumeOfLearning, formatVolumeStatus } from '@/lib/aqf-compliance';
+import type { VolumeStatus } from '@/lib/aqf-compliance';
+import { validateWithDetails } from '@/lib/schema-validator';
+import { WeeklyPlanEditor, UnitsEditor, RisksAssumptionsEditor } from '@/components/plan-editor';
+import { RefinePanel } from '@/components/refine-panel';
 import {
   getConfidenceIndicator,
-  calculateWeekDateRange,
   getTotalUnits,
   getHoursPerWeek
 } from '@/types/schema-types';
+import {
+  describeDeliveryDays,
+  formatClosures,
+  formatSessionDates,
+  formatSessionTimes,
+  formatWeekRange,
+  isShortWeek
+} from '@/lib/delivery-calendar';
 
 // ============================================================================
 // Props Interface
@@ -44,8 +69,15 @@ import {
 
 export interface ResultsViewProps {
   plan: GeneratedPlan;
-  onExport: (format: 'docx' | 'pdf' | 'markdown') => void;
+  /** Non-blocking reflection findings to show as reviewer notes */
+  reviewNotes?: ReflectionFinding[];
+  /** sheet is set for CSV exports */
+  onExport: (format: 'docx' | 'pdf' | 'markdown' | 'xlsx' | 'csv' | 'ics', sheet?: PlanSheetId) => void;
   onReset: () => void;
+  /** Persist an edited or refined plan as a new version; the Edit button and Refine tab are only shown when provided */
+  onPlanChange?: (plan: GeneratedPlan, source: 'edit' | 'refinement', note?: string) => void;
+  /** Original intake, used to keep refinements within the requested scope */
+  intake?: IntakeFormData;
 }
 
 // ============================================================================
@@ -103,17 +135,79 @@ const RiskIndicator: React.FC<{ level: string }> = ({ level }) => {
   );
 };
 
+const SEVERITY_BADGES: Record<ReflectionFinding['severity'], 'danger' | 'warning' | 'secondary'> = {
+  blocking: 'danger',
+  warning: 'warning',
+  info: 'secondary'
+};
+
+const VOLUME_STATUS_BADGES: Record<VolumeStatus, 'success' | 'danger' | 'warning' | 'secondary'> = {
+  within_range: 'success',
+  shortfall: 'danger',
+  excess: 'warning',
+  not_assessed: 'secondary'
+};
+
+const ReviewNote: React.FC<{ finding: ReflectionFinding }> = ({ finding }) => (
+  <div className="border-l-4 border-slate-300 bg-slate-50 rounded-r-lg p-4">
+    <div className="flex flex-wrap items-center gap-2 mb-2">
+      <Badge variant={SEVERITY_BADGES[finding.severity]} className="text-xs capitalize">
+        {finding.severity}
+      </Badge>
+      <Badge variant="outline" className="text-xs capitalize">
+        {finding.category}
+      </Badge>
+      {finding.path && (
+        <code className="text-xs text-slate-500 font-mono">{finding.path}</code>
+      )}
+    </div>
+    <p className="text-sm text-slate-900">{finding.message}</p>
+    {finding.suggested_fix && (
+      <p className="text-sm mt-2">
+        <span className="font-semibold text-slate-700">Suggested fix: </span>
+        <span className="text-slate-600">{finding.suggested_fix}</span>
+      </p>
+    )}
+  </div>
+);
+
 // ============================================================================
 // Main Component
 // ============================================================================
 
-export function ResultsView({ plan, onExport, onReset }: ResultsViewProps) {
-  const handlePrint = () => {
-    window.print();
-  };
+export function ResultsView({
+  plan: savedPlan,
+  reviewNotes = [],
+  onExport,
+  onReset,
+  onPlanChange,
+  intake
+}: ResultsViewProps) {
+  // While editing, every tab renders the draft so edits are reflected everywhere
+  const [draft, setDraft] = React.useState<GeneratedPlan | null>(null);
+  const plan = draft ?? savedPlan;
 
   const totalUnits = getTotalUnits(plan);
   const hoursPerWeek = getHoursPerWeek(plan);
+  const catalogueUnits = useCatalogueUnits(plan.units.map((unit) => unit.unit_code));
+  const consistency = React.useMemo(
+    () =>
+      checkPlanConsistency(plan, {
+        catalogue: catalogueUnits ? new TrainingCatalogue({ qualifications: [], units: catalogueUnits }) : undefined,
+      }),
+    [plan, catalogueUnits]
+  );
+  const volumeAnalysis = React.useMemo(() => analyzeVolumeOfLearning(plan), [plan]);
+  const shortWeeks = plan.weekly_plan.filter((week) => isShortWeek(week.dates)).length;
+  const validation = React.useMemo(() => (draft ? validateWithDetails(draft) : null), [draft]);
+  const errorPointers = validation ? validation.errors.map((error) => error.pointer) : [];
+  const blockingIssues = consistency.issues.filter((issue) => issue.severity === 'blocking');
+
+  const handleSave = () => {
+    if (!draft || !validation?.success || !onPlanChange) return;
+    onPlanChange(draft, 'edit');
+    setDraft(null);
+  };
 
   return (
     <div className="space-y-4 max-w-7xl mx-auto">
@@ -126,18 +220,67 @@ export function ResultsView({ plan, onExport, onReset }: ResultsViewProps) {
           </p>
         </div>
         <div className="flex gap-2 flex-wrap justify-end">
-          <Button variant="outline" size="sm" onClick={() => onExport('docx')}>
+          {draft ? (
+            <>
+              <Button size="sm" onClick={handleSave} disabled={!validation?.success}>
+                <Save className="w-4 h-4" />
+                Save Changes
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                <X className="w-4 h-4" />
+                Cancel
+              </Button>
+            </>
+          ) : (
+            onPlanChange && (
+              <Button variant="outline" size="sm" onClick={() => setDraft(savedPlan)}>
+                <Pencil className="w-4 h-4" />
+                Edit
+              </Button>
+            )
+          )}
+          <Button variant="outline" size="sm" onClick={() => onExport('docx')} disabled={!!draft}>
             <FileDown className="w-4 h-4" />
             DOCX
           </Button>
-          <Button variant="outline" size="sm" onClick={handlePrint}>
-            <Printer className="w-4 h-4" />
+          <Button variant="outline" size="sm" onClick={() => onExport('pdf')} disabled={!!draft}>
+            <FileDown className="w-4 h-4" />
             PDF
           </Button>
-          <Button variant="outline" size="sm" onClick={() => onExport('markdown')}>
+          <Button variant="outline" size="sm" onClick={() => onExport('markdown')} disabled={!!draft}>
             <FileText className="w-4 h-4" />
             Markdown
           </Button>
+          <Button variant="outline" size="sm" onClick={() => onExport('xlsx')} disabled={!!draft}>
+            <FileSpreadsheet className="w-4 h-4" />
+            Excel
+          </Button>
+          <select
+            value=""
+            onChange={(e) => onExport('csv', e.target.value as PlanSheetId)}
+            disabled={!!draft}
+            aria-label="Download a sheet as CSV"
+            className="h-9 rounded-md border border-slate-200 bg-white px-3 text-sm font-medium hover:bg-slate-100 disabled:opacity-50"
+          >
+            <option value="" disabled>
+              CSV…
+            </option>
+            {PLAN_SHEETS.map(({ id, name }) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onExport('ics')}
+            disabled={!!draft || !hasCalendarDates(plan)}
+            title={hasCalendarDates(plan) ? undefined : 'Generate the plan with a start date to export a calendar'}
+          >
+            <CalendarPlus className="w-4 h-4" />
+            Calendar
+          </Button>
           <Button variant="ghost" size="sm" onClick={onReset}>
             <RotateCcw className="w-4 h-4" />
             Start Over
@@ -145,6 +288,36 @@ export function ResultsView({ plan, onExport, onReset }: ResultsViewProps) {
         </div>
       </div>
 
+      {/* Live validation of the draft while editing */}
+      {draft && validation && (
+        <Card className={`no-print ${validation.success && blockingIssues.length === 0 ? 'border-green-200' : 'border-red-200'}`}>
+          <CardContent className="pt-6 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant={validation.success ? 'success' : 'danger'}>
+                {validation.success ? 'Schema valid' : `${validation.errors.length} schema error(s)`}
+              </Badge>
+              <Badge variant={blockingIssues.length === 0 ? 'success' : 'warning'}>
+                {blockingIssues.length === 0
+                  ? 'No blocking consistency issues'
+                  : `${blockingIssues.length} blocking consistency issue(s)`}
+              </Badge>
+              <span className="text-sm text-slate-500">
+                {validation.success ? 'Changes can be saved.' : 'Fix the highlighted fields before saving.'}
+              </span>
+            </div>
+            {validation.errors.length > 0 && (
+              <ul className="text-sm text-red-700 space-y-1">
+                {validation.errors.slice(0, 8).map((error, idx) => (
+                  <li key={idx}>
+                    <code className="text-xs font-mono">{error.pointer}</code> {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Tabbed Content */}
       <Tabs defaultValue="overview" className="w-full">
         <TabsList className="w-full justify-start">
@@ -152,7 +325,8 @@ export function ResultsView({ plan, onExport, onReset }: ResultsViewProps) {
           <TabsTrigger value="weekly">Weekly Plan</TabsTrigger>
           <TabsTrigger value="units">Units</TabsTrigger>
           <TabsTrigger value="risks">Risks & Assumptions</TabsTrigger>
-          {plan.compliance_notes && <TabsTrigger value="compliance">Compliance</TabsTrigger>}
+          <TabsTrigger value="compliance">Compliance</TabsTrigger>
+          {onPlanChange && <TabsTrigger value="refine">Refine</TabsTrigger>}
         </TabsList>
 
         {/* OVERVIEW TAB */}
@@ -280,6 +454,72 @@ export function ResultsView({ plan, onExport, onReset }: ResultsViewProps) {
             </Card>
           </div>
 
+          {/* Reviewer Notes */}
+          {reviewNotes.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="w-5 h-5" />
+                  Reviewer Notes
+                </CardTitle>
+                <CardDescription>
+                  Points raised by the automated review that a trainer should check before use
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {reviewNotes.map((finding, idx) => (
+                    <ReviewNote key={idx} finding={finding} />
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Consistency */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calculator className="w-5 h-5" />
+                Consistency
+                <Badge
+                  variant={!consistency.passed ? 'danger' : consistency.issues.length > 0 ? 'warning' : 'success'}
+                  className="ml-auto"
+                >
+                  {consistency.issues.length === 0
+                    ? 'All checks passed'
+                    : `${consistency.issues.length} issue${consistency.issues.length === 1 ? '' : 's'}`}
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                Automatic checks of hours, weeks, unit coverage and training catalogue data
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-slate-500">Scheduled Hours</p>
+                  <p className="font-semibold text-slate-900">
+                    {consistency.totals.scheduled_hours} of {consistency.totals.planned_hours}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-slate-500">Scheduled Weeks</p>
+                  <p className="font-semibold text-slate-900">
+                    {consistency.totals.scheduled_weeks} of {consistency.totals.planned_weeks}
+                  </p>
+                </div>
+              </div>
+              {consistency.issues.length > 0 && (
+                <div className="space-y-3">
+                  {consistency.issues.map((issue, idx) => (
+                    <ReviewNote key={idx} finding={issue} />
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Cohort Profile */}
           <Card>
             <CardHeader>
@@ -359,6 +599,25 @@ export function ResultsView({ plan, onExport, onReset }: ResultsViewProps) {
                       <p className="font-semibold">{plan.meta.venue}</p>
                     </div>
                   )}
+                  {plan.meta.delivery_schedule && (
+                    <div>
+                      <p className="text-sm text-slate-500">Delivery Days</p>
+                      <p className="font-semibold">
+                        {describeDeliveryDays(plan.meta.delivery_schedule.delivery_days)}
+                      </p>
+                      {plan.meta.delivery_schedule.session_times && (
+                        <p className="text-sm text-slate-700">
+                          {formatSessionTimes(plan.meta.delivery_schedule.session_times)}
+                        </p>
+                      )}
+                      <p className="text-xs text-slate-500">
+                        {plan.meta.delivery_schedule.state
+                          ? `${plan.meta.delivery_schedule.state} public holidays`
+                          : 'National public holidays'}
+                        {shortWeeks > 0 && `, ${shortWeeks} short week${shortWeeks === 1 ? '' : 's'}`}
+                      </p>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -367,276 +626,236 @@ export function ResultsView({ plan, onExport, onReset }: ResultsViewProps) {
 
         {/* WEEKLY PLAN TAB */}
         <TabsContent value="weekly" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Weekly Delivery Schedule</CardTitle>
-              <CardDescription>
-                {plan.meta.duration.weeks} weeks of planned delivery activities and assessments
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {plan.weekly_plan.map((week: WeeklyPlanItem) => (
-                <div
-                  key={week.week_number}
-                  className="border border-slate-200 rounded-lg p-4 hover:border-slate-300 transition-colors"
-                >
-                  <div className="flex items-start justify-between mb-3">
-                    <div>
-                      <h3 className="font-semibold text-lg">Week {week.week_number}</h3>
-                      <p className="text-sm text-slate-500">
-                        {calculateWeekDateRange(plan.meta.start_date, week.week_number)}
-                      </p>
-                    </div>
-                    {week.week_theme && (
-                      <Badge variant="secondary" className="max-w-xs">
-                        {week.week_theme}
-                      </Badge>
-                    )}
-                  </div>
-
-                  {week.units_covered && week.units_covered.length > 0 && (
-                    <div className="mb-3">
-                      <p className="text-xs font-medium text-slate-500 mb-1">Units Covered:</p>
-                      <div className="flex flex-wrap gap-1">
-                        {week.units_covered.map((code) => (
-                          <Badge key={code} variant="outline" className="text-xs">
-                            {code}
-                          </Badge>
-                        ))}
+          {draft ? (
+            <WeeklyPlanEditor plan={draft} onChange={setDraft} errorPointers={errorPointers} />
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle>Weekly Delivery Schedule</CardTitle>
+                <CardDescription>
+                  {plan.meta.duration.weeks} weeks of planned delivery activities and assessments
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {plan.weekly_plan.map((week: WeeklyPlanItem) => (
+                  <div
+                    key={week.week_number}
+                    className="border border-slate-200 rounded-lg p-4 hover:border-slate-300 transition-colors"
+                  >
+                    <div className="flex items-start justify-between mb-3">
+                      <div>
+                        <h3 className="font-semibold text-lg">Week {week.week_number}</h3>
+                        <p className="text-sm text-slate-500">
+                          {formatWeekRange(week, plan.meta.start_date)}
+                        </p>
+                        {week.dates && (
+                          <p className="text-xs text-slate-500 mt-1">
+                            Sessions: {formatSessionDates(week.dates)}
+                          </p>
+                        )}
+                        {week.dates && isShortWeek(week.dates) && (
+                          <p className="text-xs text-amber-700 mt-1 flex items-center gap-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            Short week: {formatClosures(week.dates)}
+                          </p>
+                        )}
                       </div>
+                      {week.week_theme && (
+                        <Badge variant="secondary" className="max-w-xs">
+                          {week.week_theme}
+                        </Badge>
+                      )}
                     </div>
-                  )}
 
-                  {/* Activities */}
-                  {week.activities && week.activities.length > 0 && (
-                    <div className="mb-3">
-                      <h4 className="text-sm font-semibold mb-2 flex items-center gap-1">
-                        <Target className="w-4 h-4" />
-                        Activities
-                      </h4>
-                      <div className="space-y-2">
-                        {week.activities.map((activity, idx) => (
-                          <div key={idx} className="bg-slate-50 rounded p-3 text-sm">
-                            <div className="flex items-start justify-between gap-2">
-                              <div className="flex-1">
-                                <p className="font-medium">{activity.title}</p>
-                                {activity.description && (
-                                  <p className="text-slate-600 text-xs mt-1">{activity.description}</p>
-                                )}
-                              </div>
-                              <div className="text-right flex-shrink-0">
-                                <p className="font-semibold text-slate-900">{activity.duration_hours}h</p>
-                                <p className="text-xs text-slate-500 capitalize">
-                                  {activity.delivery_method.replace('_', ' ')}
-                                </p>
-                              </div>
-                            </div>
-                            {activity.resources && activity.resources.length > 0 && (
-                              <div className="mt-2 pt-2 border-t border-slate-200">
-                                <p className="text-xs text-slate-500">
-                                  Resources: {activity.resources.join(', ')}
-                                </p>
-                              </div>
-                            )}
-                          </div>
-                        ))}
+                    {week.units_covered && week.units_covered.length > 0 && (
+                      <div className="mb-3">
+                        <p className="text-xs font-medium text-slate-500 mb-1">Units Covered:</p>
+                        <div className="flex flex-wrap gap-1">
+                          {week.units_covered.map((code) => (
+                            <Badge key={code} variant="outline" className="text-xs">
+                              {code}
+                            </Badge>
+                          ))}
+                        </div>
                       </div>
-                    </div>
-                  )}
+                    )}
 
-                  {/* Assessments */}
-                  {week.assessments && week.assessments.length > 0 && (
-                    <div className="mb-3">
-                      <h4 className="text-sm font-semibold mb-2 flex items-center gap-1">
-                        <CheckCircle2 className="w-4 h-4" />
-                        Assessments
-                      </h4>
-                      <div className="space-y-2">
-                        {week.assessments.map((assessment, idx) => (
-                          <div key={idx} className="bg-blue-50 rounded p-3 text-sm border border-blue-100">
-                            <div className="flex items-start justify-between gap-2">
-                              <div className="flex-1">
-                                <p className="font-medium text-blue-900">{assessment.title}</p>
-                                {assessment.description && (
-                                  <p className="text-blue-700 text-xs mt-1">{assessment.description}</p>
-                                )}
-                                <div className="flex gap-2 mt-2 flex-wrap">
-                                  <Badge variant="outline" className="text-xs bg-white">
-                                    {assessment.type}
-                                  </Badge>
-                                  {assessment.weighting && (
-                                    <Badge variant="secondary" className="text-xs">
-                                      {assessment.weighting}
-                                    </Badge>
+                    {/* Activities */}
+                    {week.activities && week.activities.length > 0 && (
+                      <div className="mb-3">
+                        <h4 className="text-sm font-semibold mb-2 flex items-center gap-1">
+                          <Target className="w-4 h-4" />
+                          Activities
+                        </h4>
+                        <div className="space-y-2">
+                          {week.activities.map((activity, idx) => (
+                            <div key={idx} className="bg-slate-50 rounded p-3 text-sm">
+                              <div className="flex items-start justify-between gap-2">
+                                <div className="flex-1">
+                                  <p className="font-medium">{activity.title}</p>
+                                  {activity.description && (
+                                    <p className="text-slate-600 text-xs mt-1">{activity.description}</p>
                                   )}
                                 </div>
-                              </div>
-                              {assessment.due_date && (
                                 <div className="text-right flex-shrink-0">
-                                  <p className="text-xs text-blue-600">Due: {assessment.due_date}</p>
+                                  <p className="font-semibold text-slate-900">{activity.duration_hours}h</p>
+                                  <p className="text-xs text-slate-500 capitalize">
+                                    {activity.delivery_method.replace('_', ' ')}
+                                  </p>
+                                </div>
+                              </div>
+                              {activity.resources && activity.resources.length > 0 && (
+                                <div className="mt-2 pt-2 border-t border-slate-200">
+                                  <p className="text-xs text-slate-500">
+                                    Resources: {activity.resources.join(', ')}
+                                  </p>
                                 </div>
                               )}
                             </div>
-                            <div className="mt-2 pt-2 border-t border-blue-200">
-                              <p className="text-xs text-blue-700">
-                                Units: {assessment.units_assessed.join(', ')}
-                              </p>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Notes */}
-                  {week.notes && (
-                    <div className="bg-yellow-50 border border-yellow-200 rounded p-2 text-xs text-yellow-800">
-                      <Info className="w-3 h-3 inline mr-1" />
-                      {week.notes}
-                    </div>
-                  )}
-                </div>
-              ))}
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        {/* UNITS TAB */}
-        <TabsContent value="units" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Units of Competency</CardTitle>
-              <CardDescription>
-                Detailed breakdown of all {totalUnits} units in this qualification
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {plan.units.map((unit: UnitDetail) => (
-                  <div
-                    key={unit.unit_code}
-                    className="border border-slate-200 rounded-lg p-4 hover:border-slate-300 transition-colors"
-                  >
-                    <div className="flex items-start justify-between gap-4 mb-2">
-                      <div className="flex-1">
-                        <div className="flex items-start gap-2 mb-1">
-                          <Badge variant="outline" className="font-mono text-xs">
-                            {unit.unit_code}
-                          </Badge>
-                          {unit.unit_type && (
-                            <Badge
-                              variant={unit.unit_type === 'core' ? 'default' : 'secondary'}
-                              className="text-xs"
-                            >
-                              {unit.unit_type}
-                            </Badge>
-                          )}
+                          ))}
                         </div>
-                        <h3 className="font-semibold text-slate-900">{unit.unit_title}</h3>
-                      </div>
-                      <div className="text-right flex-shrink-0">
-                        <p className="text-2xl font-bold text-slate-900">{unit.nominal_hours}</p>
-                        <p className="text-xs text-slate-500">hours</p>
                       </div>
-                    </div>
-
-                    <div className="grid gap-3 md:grid-cols-2 mt-3 pt-3 border-t border-slate-100">
-                      {unit.delivery_methods && unit.delivery_methods.length > 0 && (
-                        <div>
-                          <p className="text-xs font-medium text-slate-500 mb-1">Delivery Methods:</p>
-                          <div className="flex flex-wrap gap-1">
-                            {unit.delivery_methods.map((method) => (
-                              <Badge key={method} variant="secondary" className="text-xs capitalize">
-                                {method.replace('_', ' ')}
-                              </Badge>
-                            ))}
-                          </div>
-                        </div>
-                      )}
+                    )}
 
-                      {unit.assessment_methods && unit.assessment_methods.length > 0 && (
-                        <div>
-                          <p className="text-xs font-medium text-slate-500 mb-1">Assessment Methods:</p>
-                          <div className="flex flex-wrap gap-1">
-                            {unit.assessment_methods.map((method) => (
-                              <Badge key={method} variant="outline" className="text-xs capitalize">
-                                {method.replace('_', ' ')}
-                              </Badge>
-                            ))}
-                          </div>
+                    {/* Assessments */}
+                    {week.assessments && week.assessments.length > 0 && (
+                      <div className="mb-3">
+                        <h4 className="text-sm font-semibold mb-2 flex items-center gap-1">
+                          <CheckCircle2 className="w-4 h-4" />
+                          Assessments
+                        </h4>
+                        <div className="space-y-2">
+                          {week.assessments.map((assessment, idx) => (
+                            <div key={idx} className="bg-blue-50 rounded p-3 text-sm border border-blue-100">
+                              <div className="flex items-start justify-between gap-2">
+                                <div className="flex-1">
+                                  <p className="font-medium text-blue-900">{assessment.title}</p>
+                                  {assessment.description && (
+                                    <p className="text-blue-700 text-xs mt-1">{assessment.description}</p>
+                                  )}
+                                  <div className="flex gap-2 mt-2 flex-wrap">
+                                    <Badge variant="outline" className="text-xs bg-white">
+                                      {assessment.type}
+                                    </Badge>
+                                    {assessment.weighting && (
+                                      <Badge variant="secondary" className="text-xs">
+                                        {assessment.weighting}
+                                      </Badge>
+                                    )}
+                                  </div>
+                                </div>
+                                {assessment.due_date && (
+                                  <div className="text-right flex-shrink-0">
+                                    <p className="text-xs text-blue-600">Due: {assessment.due_date}</p>
+                                  </div>
+                                )}
+                              </div>
+                              <div className="mt-2 pt-2 border-t border-blue-200">
+                                <p className="text-xs text-blue-700">
+                                  Units: {assessment.units_assessed.join(', ')}
+                                </p>
+                              </div>
+                            </div>
+                          ))}
                         </div>
-                      )}
-                    </div>
-
-                    {unit.weeks_scheduled && unit.weeks_scheduled.length > 0 && (
-                      <div className="mt-3 text-sm text-slate-600">
-                        <span className="font-medium">Scheduled:</span> Weeks{' '}
-                        {unit.weeks_scheduled.join(', ')}
                       </div>
                     )}
 
-                    {unit.prerequisites && unit.prerequisites.length > 0 && (
-                      <div className="mt-2 text-sm">
-                        <span className="font-medium text-slate-700">Prerequisites:</span>{' '}
-                        <span className="text-slate-600">{unit.prerequisites.join(', ')}</span>
+                    {/* Notes */}
+                    {week.notes && (
+                      <div className="bg-yellow-50 border border-yellow-200 rounded p-2 text-xs text-yellow-800">
+                        <Info className="w-3 h-3 inline mr-1" />
+                        {week.notes}
                       </div>
                     )}
                   </div>
                 ))}
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
-        {/* RISKS & ASSUMPTIONS TAB */}
-        <TabsContent value="risks" className="space-y-4">
-          {/* Risks */}
-          {plan.risks && plan.risks.length > 0 && (
+        {/* UNITS TAB */}
+        <TabsContent value="units" className="space-y-4">
+          {draft ? (
+            <UnitsEditor plan={draft} onChange={setDraft} errorPointers={errorPointers} />
+          ) : (
             <Card>
               <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <AlertTriangle className="w-5 h-5 text-yellow-600" />
-                  Identified Risks
-                </CardTitle>
+                <CardTitle>Units of Competency</CardTitle>
                 <CardDescription>
-                  Potential risks and mitigation strategies for this delivery plan
+                  Detailed breakdown of all {totalUnits} units in this qualification
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-3">
-                  {plan.risks.map((risk: Risk, idx: number) => (
+                <div className="space-y-4">
+                  {plan.units.map((unit: UnitDetail) => (
                     <div
-                      key={idx}
-                      className="border-l-4 border-yellow-400 bg-yellow-50 rounded-r-lg p-4"
+                      key={unit.unit_code}
+                      className="border border-slate-200 rounded-lg p-4 hover:border-slate-300 transition-colors"
                     >
                       <div className="flex items-start justify-between gap-4 mb-2">
                         <div className="flex-1">
-                          <p className="font-medium text-slate-900">{risk.risk_description}</p>
-                          {risk.category && (
-                            <Badge variant="outline" className="mt-2 text-xs capitalize">
-                              {risk.category}
+                          <div className="flex items-start gap-2 mb-1">
+                            <Badge variant="outline" className="font-mono text-xs">
+                              {unit.unit_code}
                             </Badge>
-                          )}
+                            {unit.unit_type && (
+                              <Badge
+                                variant={unit.unit_type === 'core' ? 'default' : 'secondary'}
+                                className="text-xs"
+                              >
+                                {unit.unit_type}
+                              </Badge>
+                            )}
+                          </div>
+                          <h3 className="font-semibold text-slate-900">{unit.unit_title}</h3>
                         </div>
                         <div className="text-right flex-shrink-0">
-                          <div className="space-y-1">
-                            <div className="text-xs">
-                              <span className="text-slate-500">Likelihood: </span>
-                              <RiskIndicator level={risk.likelihood} />
+                          <p className="text-2xl font-bold text-slate-900">{unit.nominal_hours}</p>
+                          <p className="text-xs text-slate-500">hours</p>
+                        </div>
+                      </div>
+
+                      <div className="grid gap-3 md:grid-cols-2 mt-3 pt-3 border-t border-slate-100">
+                        {unit.delivery_methods && unit.delivery_methods.length > 0 && (
+                          <div>
+                            <p className="text-xs font-medium text-slate-500 mb-1">Delivery Methods:</p>
+                            <div className="flex flex-wrap gap-1">
+                              {unit.delivery_methods.map((method) => (
+                                <Badge key={method} variant="secondary" className="text-xs capitalize">
+                                  {method.replace('_', ' ')}
+                                </Badge>
+                              ))}
                             </div>
-                            <div className="text-xs">
-                              <span className="text-slate-500">Impact: </span>
-                              <RiskIndicator level={risk.impact} />
+                          </div>
+                        )}
+
+                        {unit.assessment_methods && unit.assessment_methods.length > 0 && (
+                          <div>
+                            <p className="text-xs font-medium text-slate-500 mb-1">Assessment Methods:</p>
+                            <div className="flex flex-wrap gap-1">
+                              {unit.assessment_methods.map((method) => (
+                                <Badge key={method} variant="outline" className="text-xs capitalize">
+                                  {method.replace('_', ' ')}
+                                </Badge>
+                              ))}
                             </div>
                           </div>
-                        </div>
+                        )}
                       </div>
-                      {risk.mitigation && (
-                        <div className="mt-3 pt-3 border-t border-yellow-200">
-                          <p className="text-sm">
-                            <span className="font-semibold text-slate-700">Mitigation: </span>
-                            <span className="text-slate-600">{risk.mitigation}</span>
-                          </p>
+
+                      {unit.weeks_scheduled && unit.weeks_scheduled.length > 0 && (
+                        <div className="mt-3 text-sm text-slate-600">
+                          <span className="font-medium">Scheduled:</span> Weeks{' '}
+                          {unit.weeks_scheduled.join(', ')}
+                        </div>
+                      )}
+
+                      {unit.prerequisites && unit.prerequisites.length > 0 && (
+                        <div className="mt-2 text-sm">
+                          <span className="font-medium text-slate-700">Prerequisites:</span>{' '}
+                          <span className="text-slate-600">{unit.prerequisites.join(', ')}</span>
                         </div>
                       )}
                     </div>
@@ -645,54 +864,167 @@ export function ResultsView({ plan, onExport, onReset }: ResultsViewProps) {
               </CardContent>
             </Card>
           )}
+        </TabsContent>
 
-          {/* Assumptions */}
-          {plan.assumptions && plan.assumptions.length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Info className="w-5 h-5 text-blue-600" />
-                  Planning Assumptions
-                </CardTitle>
-                <CardDescription>
-                  Assumptions made during plan generation that may need validation
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-3">
-                  {plan.assumptions.map((assumption: Assumption, idx: number) => (
-                    <div
-                      key={idx}
-                      className="border-l-4 border-blue-400 bg-blue-50 rounded-r-lg p-4"
-                    >
-                      <div className="flex items-start justify-between gap-4">
-                        <div className="flex-1">
-                          <p className="text-slate-900">{assumption.assumption}</p>
-                          <div className="flex gap-2 mt-2">
-                            {assumption.category && (
-                              <Badge variant="secondary" className="text-xs capitalize">
-                                {assumption.category.replace('_', ' ')}
-                              </Badge>
-                            )}
-                            {assumption.validation_required && (
-                              <Badge variant="warning" className="text-xs">
-                                Validation Required
-                              </Badge>
-                            )}
+        {/* RISKS & ASSUMPTIONS TAB */}
+        <TabsContent value="risks" className="space-y-4">
+          {draft ? (
+            <RisksAssumptionsEditor plan={draft} onChange={setDraft} errorPointers={errorPointers} />
+          ) : (
+            <>
+              {/* Risks */}
+              {plan.risks && plan.risks.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <AlertTriangle className="w-5 h-5 text-yellow-600" />
+                      Identified Risks
+                    </CardTitle>
+                    <CardDescription>
+                      Potential risks and mitigation strategies for this delivery plan
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {plan.risks.map((risk: Risk, idx: number) => (
+                        <div
+                          key={idx}
+                          className="border-l-4 border-yellow-400 bg-yellow-50 rounded-r-lg p-4"
+                        >
+                          <div className="flex items-start justify-between gap-4 mb-2">
+                            <div className="flex-1">
+                              <p className="font-medium text-slate-900">{risk.risk_description}</p>
+                              {risk.category && (
+                                <Badge variant="outline" className="mt-2 text-xs capitalize">
+                                  {risk.category}
+                                </Badge>
+                              )}
+                            </div>
+                            <div className="text-right flex-shrink-0">
+                              <div className="space-y-1">
+                                <div className="text-xs">
+                                  <span className="text-slate-500">Likelihood: </span>
+                                  <RiskIndicator level={risk.likelihood} />
+                                </div>
+                                <div className="text-xs">
+                                  <span className="text-slate-500">Impact: </span>
+                                  <RiskIndicator level={risk.impact} />
+                                </div>
+                              </div>
+                            </div>
                           </div>
+                          {risk.mitigation && (
+                            <div className="mt-3 pt-3 border-t border-yellow-200">
+                              <p className="text-sm">
+                                <span className="font-semibold text-slate-700">Mitigation: </span>
+                                <span className="text-slate-600">{risk.mitigation}</span>
+                              </p>
+                            </div>
+                          )}
                         </div>
-                      </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Assumptions */}
+              {plan.assumptions && plan.assumptions.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Info className="w-5 h-5 text-blue-600" />
+                      Planning Assumptions
+                    </CardTitle>
+                    <CardDescription>
+                      Assumptions made during plan generation that may need validation
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {plan.assumptions.map((assumption: Assumption, idx: number) => (
+                        <div
+                          key={idx}
+                          className="border-l-4 border-blue-400 bg-blue-50 rounded-r-lg p-4"
+                        >
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="flex-1">
+                              <p className="text-slate-900">{assumption.assumption}</p>
+                              <div className="flex gap-2 mt-2">
+                                {assumption.category && (
+                                  <Badge variant="secondary" className="text-xs capitalize">
+                                    {assumption.category.replace('_', ' ')}
+                                  </Badge>
+                                )}
+                                {assumption.validation_required && (
+                                  <Badge variant="warning" className="text-xs">
+                                    Validation Required
+                                  </Badge>
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </>
           )}
         </TabsContent>
 
         {/* COMPLIANCE TAB */}
-        {plan.compliance_notes && (
-          <TabsContent value="compliance" className="space-y-4">
+        <TabsContent value="compliance" className="space-y-4">
+          {/* Volume of Learning Analysis */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Scale className="w-5 h-5" />
+                Volume of Learning Analysis
+                <Badge variant={VOLUME_STATUS_BADGES[volumeAnalysis.status]} className="ml-auto">
+                  {formatVolumeStatus(volumeAnalysis.status)}
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                Planned hours compared with the AQF volume of learning
+                {volumeAnalysis.level ? ` for a ${volumeAnalysis.level}` : ''} and the units&apos; nominal hours
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-slate-500">Planned Hours</p>
+                  <p className="font-semibold text-slate-900">{volumeAnalysis.planned_hours}</p>
+                </div>
+                <div>
+                  <p className="text-slate-500">Nominal Hours</p>
+                  <p className="font-semibold text-slate-900">{volumeAnalysis.nominal_hours}</p>
+                </div>
+                <div>
+                  <p className="text-slate-500">AQF Range</p>
+                  <p className="font-semibold text-slate-900">
+                    {volumeAnalysis.range
+                      ? `${volumeAnalysis.range.min_hours}-${volumeAnalysis.range.max_hours} hours`
+                      : 'N/A'}
+                  </p>
+                </div>
+              </div>
+              {volumeAnalysis.checks.map((check) => (
+                <div key={check.label} className="border-l-4 border-slate-300 bg-slate-50 rounded-r-lg p-4">
+                  <div className="flex items-center gap-2 mb-2">
+                    <h4 className="font-semibold text-slate-900">{check.label}</h4>
+                    <Badge variant={VOLUME_STATUS_BADGES[check.status]} className="text-xs">
+                      {formatVolumeStatus(check.status)}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-slate-700">{check.explanation}</p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {plan.compliance_notes && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -741,6 +1073,18 @@ export function ResultsView({ plan, onExport, onReset }: ResultsViewProps) {
                 )}
               </CardContent>
             </Card>
+          )}
+        </TabsContent>
+
+        {/* REFINE TAB - kept mounted so the conversation survives tab switches */}
+        {onPlanChange && (
+          <TabsContent value="refine" forceMount className="space-y-4 data-[state=inactive]:hidden">
+            <RefinePanel
+              plan={savedPlan}
+              intake={intake}
+              onAccept={(plan, instruction) => onPlanChange(plan, 'refinement', instruction)}
+              disabled={!!draft}
+            />
           </TabsContent>
         )}
       </Tabs>
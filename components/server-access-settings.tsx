@@ -0,0 +1,82 @@
+'use client';
+
+/**
+ * Plan server access settings
+ *
+ * With the server backend, /api/plans only answers requests that carry the
+ * server's PLAN_API_TOKEN. The trainer enters it once; it stays in this
+ * browser and is never included in exported backups.
+ */
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Check, KeyRound } from 'lucide-react';
+import { getPlanServerToken, setPlanServerToken } from '@/lib/storage';
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface ServerAccessSettingsProps {
+  /** Called after the token changes, so saved plans can be reloaded */
+  onChange: () => void;
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function ServerAccessSettings({ onChange }: ServerAccessSettingsProps) {
+  const [token, setToken] = React.useState('');
+  const [saved, setSaved] = React.useState(false);
+
+  // localStorage is only available after mount
+  React.useEffect(() => {
+    setToken(getPlanServerToken());
+  }, []);
+
+  const handleSave = () => {
+    if (setPlanServerToken(token)) {
+      setSaved(true);
+      onChange();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <KeyRound className="w-5 h-5" />
+          Plan Server Access
+        </CardTitle>
+        <CardDescription>
+          Saved plans are kept on the server. Enter the access token your administrator set as PLAN_API_TOKEN.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center gap-2">
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => {
+            setToken(e.target.value);
+            setSaved(false);
+          }}
+          placeholder="Access token"
+          autoComplete="off"
+          aria-label="Plan server access token"
+          className="flex-1 min-w-[16rem] px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <Button size="sm" onClick={handleSave}>
+          Save token
+        </Button>
+        {saved && (
+          <span className="inline-flex items-center gap-1 text-sm text-green-700">
+            <Check className="w-4 h-4" />
+            Saved
+          </span>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+/**
+ * Version history sidebar
+ *
+ * Lists every saved version of the current plan (generation, refinements,
+ * edits, rollbacks), shows a structural diff between any two versions, and
+ * restores an earlier version as a new one.
+ */
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { History, RotateCcw } from 'lucide-react';
+import { diffPlans } from '@/lib/plan-diff';
+import type { DiffKind, PlanDiffEntry } from '@/lib/plan-diff';
+import type { PlanVersion, PlanVersionSource } from '@/lib/storage';
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface VersionHistoryProps {
+  /** Versions, oldest first */
+  versions: PlanVersion[];
+  onRollback: (version: number) => void;
+}
+
+const SOURCE_LABELS: Record<PlanVersionSource, string> = {
+  generation: 'Generated',
+  refinement: 'Refined',
+  edit: 'Edited',
+  rollback: 'Rollback',
+};
+
+const KIND_BADGES: Record<DiffKind, 'success' | 'danger' | 'warning'> = {
+  added: 'success',
+  removed: 'danger',
+  changed: 'warning',
+};
+
+// ============================================================================
+// Helper Components
+// ============================================================================
+
+const DiffEntryRow: React.FC<{ entry: PlanDiffEntry }> = ({ entry }) => (
+  <li className="text-sm border-l-2 border-slate-200 pl-3 py-1">
+    <div className="flex items-center gap-2">
+      <Badge variant={KIND_BADGES[entry.kind]} className="text-xs capitalize">
+        {entry.kind}
+      </Badge>
+      <span className="font-medium text-slate-900">{entry.label}</span>
+    </div>
+    {entry.before !== undefined && <p className="text-red-700 mt-1">− {entry.before}</p>}
+    {entry.after !== undefined && <p className="text-green-700 mt-1">+ {entry.after}</p>}
+  </li>
+);
+
+const VersionSelect: React.FC<{
+  label: string;
+  value: number;
+  versions: PlanVersion[];
+  onChange: (version: number) => void;
+}> = ({ label, value, versions, onChange }) => (
+  <label className="block flex-1">
+    <span className="block text-xs font-medium text-slate-600 mb-1">{label}</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500"
+    >
+      {versions.map((version) => (
+        <option key={version.version} value={version.version}>
+          v{version.version} · {SOURCE_LABELS[version.source]}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function VersionHistory({ versions, onRollback }: VersionHistoryProps) {
+  const latest = versions[versions.length - 1];
+  const previous = versions[versions.length - 2] || latest;
+
+  const [fromVersion, setFromVersion] = React.useState(previous?.version);
+  const [toVersion, setToVersion] = React.useState(latest?.version);
+
+  // Follow the newest pair whenever a version is added
+  React.useEffect(() => {
+    setFromVersion(previous?.version);
+    setToVersion(latest?.version);
+  }, [previous?.version, latest?.version]);
+
+  const from = versions.find((version) => version.version === fromVersion);
+  const to = versions.find((version) => version.version === toVersion);
+  const diff = React.useMemo(() => (from && to ? diffPlans(from.plan, to.plan) : null), [from, to]);
+
+  if (!latest) return null;
+
+  const handleRollback = (version: number) => {
+    if (confirm(`Restore version ${version}? It will be saved as a new version; nothing is deleted.`)) {
+      onRollback(version);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="w-5 h-5" />
+          Version History
+        </CardTitle>
+        <CardDescription>
+          {versions.length} version{versions.length === 1 ? '' : 's'} of this plan
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ol className="space-y-2">
+          {[...versions].reverse().map((version) => (
+            <li
+              key={version.version}
+              className={`rounded-lg border p-3 ${
+                version.version === toVersion ? 'border-blue-300 bg-blue-50' : 'border-slate-200'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  type="button"
+                  className="flex items-center gap-2 text-left"
+                  onClick={() => {
+                    setToVersion(version.version);
+                    const before = versions[versions.indexOf(version) - 1];
+                    setFromVersion(before ? before.version : version.version);
+                  }}
+                >
+                  <span className="font-semibold text-slate-900">v{version.version}</span>
+                  <Badge variant="secondary" className="text-xs">
+                    {SOURCE_LABELS[version.source]}
+                  </Badge>
+                </button>
+                {version.version !== latest.version && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRollback(version.version)}>
+                    <RotateCcw className="w-4 h-4" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-slate-500 mt-1">{new Date(version.createdAt).toLocaleString('en-AU')}</p>
+              {version.note && <p className="text-sm text-slate-700 mt-1">{version.note}</p>}
+            </li>
+          ))}
+        </ol>
+
+        {versions.length > 1 && from && to && diff && (
+          <div className="space-y-3 border-t border-slate-200 pt-4">
+            <div className="flex gap-2">
+              <VersionSelect label="From" value={from.version} versions={versions} onChange={setFromVersion} />
+              <VersionSelect label="To" value={to.version} versions={versions} onChange={setToVersion} />
+            </div>
+
+            {diff.identical ? (
+              <p className="text-sm text-slate-500">No structural differences.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {diff.summary.weeks_added > 0 && <Badge variant="success">+{diff.summary.weeks_added} week(s)</Badge>}
+                  {diff.summary.weeks_removed > 0 && <Badge variant="danger">−{diff.summary.weeks_removed} week(s)</Badge>}
+                  {diff.summary.activities_changed > 0 && (
+                    <Badge variant="warning">{diff.summary.activities_changed} activity change(s)</Badge>
+                  )}
+                  {(diff.summary.units_added > 0 || diff.summary.units_removed > 0) && (
+                    <Badge variant="warning">
+                      Units +{diff.summary.units_added} / −{diff.summary.units_removed}
+                    </Badge>
+                  )}
+                  <Badge variant="outline">
+                    {diff.summary.hours_before}h → {diff.summary.hours_after}h
+                  </Badge>
+                </div>
+                <ul className="space-y-2 max-h-[32rem] overflow-y-auto">
+                  {diff.entries.map((entry, idx) => (
+                    <DiffEntryRow key={`${entry.pointer}-${idx}`} entry={entry} />
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -26,6 +26,30 @@ export interface AppConfig {
   /** Claude model identifier */
   model: string;
 
+  /** LLM backend: 'anthropic' (default) or 'stub' for offline fixture replay */
+  llmProvider: 'anthropic' | 'stub';
+
+  /** Fixture scenario replayed by the stub provider (fixtures/llm/<name>.json) */
+  stubScenario: string;
+
+  /** Training package catalogue file (.json or .csv), relative to the project root */
+  catalogueFile: string;
+
+  /** RTO closure calendar (term breaks, shutdowns) used to date plans, relative to the project root */
+  closureCalendarFile: string;
+
+  /** Where saved plans live: 'local' (browser localStorage, default) or 'server' (/api/plans) */
+  storageBackend: 'local' | 'server';
+
+  /** Directory for server-side plan files, relative to the project root */
+  planStoreDir: string;
+
+  /**
+   * Bearer token required by /api/plans and by /api/export for saved plan ids
+   * (server only); without it those routes are disabled
+   */
+  planApiToken: string;
+
   /** Feature flags */
   features: FeatureFlags;
 
@@ -74,6 +98,14 @@ function getBooleanEnvVar(key: string, defaultValue: boolean = false): boolean {
 export const config: AppConfig = {
   anthropicApiKey: getEnvVar('ANTHROPIC_API_KEY', ''),
   model: getEnvVar('NEXT_PUBLIC_API_MODEL', 'claude-3-5-sonnet-20241022'),
+  llmProvider: getEnvVar('LLM_PROVIDER', 'anthropic') === 'stub' ? 'stub' : 'anthropic',
+  stubScenario: getEnvVar('LLM_STUB_SCENARIO', 'happy-path'),
+  catalogueFile: getEnvVar('TRAINING_CATALOGUE_FILE', 'data/training-catalogue.json'),
+  closureCalendarFile: getEnvVar('CLOSURE_CALENDAR_FILE', 'data/closure-calendar.json'),
+  // Read literally so Next.js inlines it into the client bundle, where lib/storage.ts uses it
+  storageBackend: process.env.NEXT_PUBLIC_STORAGE_BACKEND === 'server' ? 'server' : 'local',
+  planStoreDir: getEnvVar('PLAN_STORE_DIR', 'data/plans'),
+  planApiToken: getEnvVar('PLAN_API_TOKEN', ''),
   features: {
     auth: getBooleanEnvVar('NEXT_PUBLIC_FEATURE_AUTH', false),
     telemetry: getBooleanEnvVar('NEXT_PUBLIC_FEATURE_TELEMETRY', true),
@@ -91,6 +123,11 @@ export const config: AppConfig = {
 export function validateEnv(): void {
   const errors: string[] = [];
 
+  // The stub provider replays fixtures and needs no credentials
+  if (config.llmProvider === 'stub') {
+    return;
+  }
+
   // Check required variables
   if (!config.anthropicApiKey) {
     errors.push(
@@ -183,6 +220,11 @@ export function logConfig(): void {
   console.log('=== TAS Assistant Configuration ===');
   console.log(`Environment: ${config.environment}`);
   console.log(`Model: ${config.model}`);
+  console.log(`LLM Provider: ${config.llmProvider}`);
+  console.log(`Training Catalogue: ${config.catalogueFile}`);
+  console.log(`Closure Calendar: ${config.closureCalendarFile}`);
+  console.log(`Plan Storage: ${config.storageBackend}${config.storageBackend === 'server' ? ` (${config.planStoreDir})` : ''}`);
+  console.log(`Plan API Token: ${config.planApiToken ? 'set' : 'NOT SET (/api/plans disabled)'}`);
   console.log(
     `API Key: ${config.anthropicApiKey ? '***' + config.anthropicApiKey.slice(-4) : 'NOT SET'}`
   );
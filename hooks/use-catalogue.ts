@@ -0,0 +1,82 @@
+'use client';
+
+/**
+ * Client hooks for the local training package catalogue (GET /api/catalogue)
+ *
+ * - useCatalogueSearch: debounced autocomplete for qualification and unit codes
+ * - useCatalogueUnits: catalogue entries for a fixed set of unit codes
+ */
+
+import { useEffect, useState } from 'react';
+import type { CatalogueResponse } from '@/app/api/catalogue/route';
+import type { CatalogueSearchResult, CatalogueUnit } from '@/lib/training-catalogue';
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+async function fetchCatalogue(params: Record<string, string>, signal: AbortSignal): Promise<CatalogueResponse> {
+  const response = await fetch(`/api/catalogue?${new URLSearchParams(params)}`, { signal });
+  if (!response.ok) {
+    throw new Error(`Catalogue lookup failed (${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * Autocomplete suggestions for a partially typed code or title
+ */
+export function useCatalogueSearch(
+  query: string | undefined,
+  kind: CatalogueSearchResult['kind']
+): CatalogueSearchResult[] {
+  const [results, setResults] = useState<CatalogueSearchResult[]>([]);
+
+  useEffect(() => {
+    const q = (query || '').trim();
+    if (q.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetchCatalogue({ q, kind }, controller.signal)
+        .then((body) => setResults(body.results))
+        .catch(() => {
+          // Autocomplete is a convenience; lookup failures leave the field free-text
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, kind]);
+
+  return results;
+}
+
+/**
+ * Catalogue entries for the given unit codes
+ *
+ * @returns The matching units, or null until the lookup completes (or if it fails)
+ */
+export function useCatalogueUnits(codes: string[]): CatalogueUnit[] | null {
+  const [units, setUnits] = useState<CatalogueUnit[] | null>(null);
+  const key = codes.join(',');
+
+  useEffect(() => {
+    setUnits(null);
+    if (!key) return;
+
+    const controller = new AbortController();
+    fetchCatalogue({ codes: key }, controller.signal)
+      .then((body) => setUnits(body.units))
+      .catch(() => {
+        // Without the catalogue the plan is simply not cross-checked
+      });
+
+    return () => controller.abort();
+  }, [key]);
+
+  return units;
+}
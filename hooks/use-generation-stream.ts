@@ -0,0 +1,140 @@
+'use client';
+
+/**
+ * Client hook for streamed plan generation
+ *
+ * Calls POST /api/generate in NDJSON streaming mode and exposes the phase
+ * timeline and token progress as React state while the APRV loop runs.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import type { PhaseLog } from '@/lib/aprv';
+import type { GenerateStreamEvent } from '@/app/api/generate/route';
+import type { GeneratedPlan, IntakeFormData, ReflectionFinding } from '@/types/unit-plan';
+import { getSettings } from '@/lib/storage';
+
+export interface TokenProgress {
+  attempt: number;
+  characters: number;
+  estimated_tokens: number;
+  max_tokens: number;
+}
+
+export interface GenerationStreamResult {
+  plan: GeneratedPlan;
+  metadata: { duration_ms: number; logs: PhaseLog[]; review_notes: ReflectionFinding[] };
+}
+
+export interface UseGenerationStream {
+  /** Phase logs received so far, in order */
+  logs: PhaseLog[];
+  /** Latest partial-output progress from the plan phase */
+  progress: TokenProgress | null;
+  /** Whether a generation request is in flight */
+  isStreaming: boolean;
+  /** Start a generation; resolves with the validated plan or rejects with an Error */
+  generate: (data: IntakeFormData) => Promise<GenerationStreamResult>;
+  /** Abort the in-flight request (if any) */
+  cancel: () => void;
+}
+
+export function useGenerationStream(): UseGenerationStream {
+  const [logs, setLogs] = useState<PhaseLog[]>([]);
+  const [progress, setProgress] = useState<TokenProgress | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  const generate = useCallback(async (data: IntakeFormData) => {
+    cancel();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLogs([]);
+    setProgress(null);
+    setIsStreaming(true);
+
+    try {
+      const response = await fetch('/api/generate?stream=1', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/x-ndjson',
+        },
+        // Organisation defaults from settings are merged into the intake on the server
+        body: JSON.stringify({ ...data, organisationDefaults: getSettings().organisationDefaults }),
+        signal: controller.signal,
+      });
+
+      // Validation/config errors are returned as plain JSON before streaming starts
+      if (!response.ok || !response.body) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || result.details || 'Generation failed');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let final: GenerationStreamResult | null = null;
+
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+
+        const event = JSON.parse(line) as GenerateStreamEvent;
+        switch (event.type) {
+          case 'phase':
+            setLogs((prev) => [...prev, event.log]);
+            break;
+          case 'tokens':
+            setProgress({
+              attempt: event.attempt,
+              characters: event.characters,
+              estimated_tokens: event.estimated_tokens,
+              max_tokens: event.max_tokens,
+            });
+            break;
+          case 'result':
+            final = {
+              plan: event.plan,
+              metadata: event.metadata as GenerationStreamResult['metadata'],
+            };
+            break;
+          case 'error': {
+            const details = Array.isArray(event.details)
+              ? event.details.slice(0, 3).join('; ')
+              : event.details;
+            throw new Error(details ? `${event.error}: ${details}` : event.error);
+          }
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+      handleLine(buffer + decoder.decode());
+
+      if (!final) {
+        throw new Error('Generation stream ended without a result');
+      }
+
+      return final;
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      setIsStreaming(false);
+    }
+  }, [cancel]);
+
+  return { logs, progress, isStreaming, generate, cancel };
+}
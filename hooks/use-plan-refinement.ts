@@ -0,0 +1,69 @@
+'use client';
+
+/**
+ * Client hook for conversational plan refinement (POST /api/refine)
+ *
+ * Returns the proposed plan and its section changes; nothing is applied or
+ * saved until the caller accepts the proposal.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import type { RefineResponse } from '@/app/api/refine/route';
+import type { GeneratedPlan, IntakeFormData } from '@/types/unit-plan';
+import { getSettings } from '@/lib/storage';
+
+export interface UsePlanRefinement {
+  /** Whether a refinement request is in flight */
+  isRefining: boolean;
+  /** Request a refinement; resolves with the proposal or rejects with an Error */
+  refine: (plan: GeneratedPlan, instruction: string, intake?: IntakeFormData) => Promise<RefineResponse>;
+  /** Abort the in-flight request (if any) */
+  cancel: () => void;
+}
+
+export function usePlanRefinement(): UsePlanRefinement {
+  const [isRefining, setIsRefining] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  const refine = useCallback(
+    async (plan: GeneratedPlan, instruction: string, intake?: IntakeFormData) => {
+      cancel();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setIsRefining(true);
+
+      try {
+        const response = await fetch('/api/refine', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            plan,
+            instruction,
+            intake,
+            organisationDefaults: getSettings().organisationDefaults,
+          }),
+          signal: controller.signal,
+        });
+
+        const body = await response.json().catch(() => null);
+        if (!response.ok || !body?.success) {
+          const details = typeof body?.details === 'string' ? `: ${body.details}` : '';
+          throw new Error(`${body?.error || `Refinement failed (${response.status})`}${details}`);
+        }
+
+        return body as RefineResponse;
+      } finally {
+        if (abortRef.current === controller) abortRef.current = null;
+        setIsRefining(false);
+      }
+    },
+    [cancel]
+  );
+
+  return { isRefining, refine, cancel };
+}
@@ -7,59 +7,84 @@
  * Phases:
  * 1. Analyze: Internal reasoning about requirements (prompt engineering)
  * 2. Plan: Generate the full JSON response
- * 3. Reflect: Self-check completeness and quality
- * 4. Verify: Schema validation with automated repair
+ * 3. Reflect: Structured self-review; only blocking findings trigger a retry
+ * 4. Verify: JSON Schema validation with targeted repair, then deterministic
+ *    consistency checks (hours, weeks, unit coverage)
+ *
+ * When verification fails in a few self-contained sections (a week, a unit,
+ * the risk register), only those sections are regenerated and spliced back
+ * into the plan; anything broader falls back to full regeneration.
+ *
+ * refineWithAPRV runs a constrained pass over an existing plan: the model
+ * returns replacements for only the sections a trainer's instruction
+ * concerns, which are spliced in and held to the same verification.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import { z } from 'zod';
+import { LLMProvider, AnthropicProvider } from '@/lib/llm-provider';
+import { fromModelOutput, toGeneratedPlan } from '@/lib/plan-adapters';
+import {
+  validateJSONSchema,
+  formatFragment,
+  getAtPointer,
+  setAtPointer,
+  getSchemaAtPointer,
+  SchemaError,
+  SchemaValidationResult,
+} from '@/lib/json-schema-validator';
+import { checkPlanConsistency, ConsistencyIssue, ConsistencyReport } from '@/lib/consistency-checker';
+import { TrainingCatalogue, extractUnitCodes } from '@/lib/training-catalogue';
+import { addDays, describeDeliveryDays, scheduleWeeks } from '@/lib/delivery-calendar';
+import type { PlanCalendar } from '@/lib/delivery-calendar';
+import type {
+  APRVIntake,
+  GeneratedPlan,
+  ReflectionFinding,
+  FindingSeverity,
+  FindingCategory,
+  WeekDates,
+} from '@/types/unit-plan';
 import { readFile } from 'fs/promises';
 import { join } from 'path';
 
 // Type definitions
-export interface IntakeFormData {
-  qualification: {
-    title: string;
-    code?: string;
-    level?: string;
-  };
-  duration: {
-    weeks: number;
-    total_hours: number;
-  };
-  delivery_mode: 'face_to_face' | 'online' | 'blended' | 'workplace' | 'mixed';
-  cohort_profile: string;
-  resources?: {
-    facilities?: string[];
-    equipment?: string[];
-    materials?: string[];
-    technology?: string[];
-  };
-  assessment_preferences?: string[];
-  unit_list?: string;
-  trainer_details?: {
-    primary_trainer?: string;
-    additional_trainers?: string[];
-  };
-  start_date?: string;
-  venue?: string;
-  class_size?: {
-    min?: number;
-    max?: number;
-    target?: number;
-  };
-}
+export type { APRVIntake, ReflectionFinding } from '@/types/unit-plan';
 
-export interface GeneratedPlan {
+export interface APRVResult {
   success: boolean;
-  plan?: any;
+  plan?: GeneratedPlan;
   error?: string;
   validation_errors?: z.ZodError;
   attempts?: number;
   phase_logs?: PhaseLog[];
+  /** Reflection findings on the accepted plan, for reviewer attention */
+  review_notes?: ReflectionFinding[];
+}
+
+/**
+ * A plan section replaced by refinement (a week, a unit, or a top-level key)
+ */
+export interface PlanChange {
+  pointer: string;
+  /** Previous value (undefined for an appended week or unit) */
+  before: unknown;
+  /** New value (undefined for a removed week or unit) */
+  after: unknown;
+}
+
+export interface RefineResult {
+  success: boolean;
+  plan?: GeneratedPlan;
+  /** Sections that differ from the submitted plan */
+  changes?: PlanChange[];
+  /** The model's description of what it changed */
+  summary?: string;
+  error?: string;
+  attempts?: number;
+  phase_logs?: PhaseLog[];
 }
 
-interface PhaseLog {
+export interface PhaseLog {
   phase: 'analyze' | 'plan' | 'reflect' | 'verify' | 'repair';
   timestamp: string;
   duration_ms: number;
@@ -67,32 +92,109 @@ interface PhaseLog {
   details: string;
 }
 
+/**
+ * Progress events emitted while the APRV loop runs
+ * - phase: a PhaseLog entry was recorded
+ * - tokens: partial output received from the plan stream
+ */
+export type APRVProgressEvent =
+  | { type: 'phase'; log: PhaseLog }
+  | { type: 'tokens'; attempt: number; characters: number; estimated_tokens: number; max_tokens: number };
+
+export interface APRVOptions {
+  /** Called for every phase transition and streamed token batch */
+  onProgress?: (event: APRVProgressEvent) => void;
+
+  /** Training package catalogue used for prompt unit data and verification */
+  catalogue?: TrainingCatalogue;
+
+  /** Delivery calendar; short weeks and breaks are described in the prompt */
+  calendar?: PlanCalendar;
+}
+
 interface APRVContext {
-  intake: IntakeFormData;
+  intake: APRVIntake;
   systemPrompt: string;
   schema: any;
   logs: PhaseLog[];
   attempts: number;
   maxAttempts: number;
+  onProgress?: (event: APRVProgressEvent) => void;
+  /** Findings from the most recent reflection */
+  findings: ReflectionFinding[];
+  catalogue: TrainingCatalogue;
+  calendar?: PlanCalendar;
+}
+
+/**
+ * Raised when reflection reports blocking findings
+ *
+ * The findings are quoted back to the model on the next attempt.
+ */
+export class ReflectionError extends Error {
+  constructor(public readonly findings: ReflectionFinding[]) {
+    super(`Reflection found ${findings.length} blocking issue(s): ${findings.map((f) => f.message).join('; ')}`);
+    this.name = 'ReflectionError';
+  }
+}
+
+/**
+ * Raised when a generated plan fails JSON Schema validation
+ *
+ * Carries the pointer-addressed errors and the failing plan so the next
+ * attempt's prompt can quote exactly what needs fixing.
+ */
+export class SchemaValidationError extends Error {
+  constructor(
+    public readonly errors: SchemaError[],
+    public readonly plan: unknown
+  ) {
+    super(`Schema validation errors: ${formatValidationErrors(errors)}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * Raised when a schema-valid plan fails blocking consistency rules
+ * (hours that do not add up, missing weeks, unassessed units)
+ */
+export class ConsistencyError extends Error {
+  constructor(public readonly issues: ConsistencyIssue[]) {
+    super(`Consistency check found ${issues.length} blocking issue(s): ${issues.map((i) => i.message).join('; ')}`);
+    this.name = 'ConsistencyError';
+  }
 }
 
 // Constants
 const MAX_REPAIR_ATTEMPTS = 2;
+const MAX_REPAIR_ERRORS = 15;
+const MAX_REPAIR_SECTIONS = 6;
+const REPAIR_MAX_TOKENS = 8000;
+const REFINE_MAX_TOKENS = 16000;
+const MAX_CATALOGUE_UNITS = 60;
+// Array sections repaired item-by-item; other top-level keys are repaired whole
+const ITEMIZED_SECTIONS = ['weekly_plan', 'units'];
+const FINDING_SEVERITIES: FindingSeverity[] = ['blocking', 'warning', 'info'];
+const FINDING_CATEGORIES: FindingCategory[] = ['completeness', 'consistency', 'practicality', 'compliance', 'other'];
+const PLAN_MAX_TOKENS = 32000;
+const TOKEN_PROGRESS_INTERVAL_CHARS = 2000;
 const ANTHROPIC_MODEL = process.env.NEXT_PUBLIC_API_MODEL || 'claude-haiku-4-5';
 
 /**
  * Main APRV orchestration function
  *
  * @param intake - User's intake form data
- * @param claudeClient - Initialized Anthropic client
+ * @param provider - LLM provider (Anthropic, or the stub for offline runs)
  * @param schema - JSON schema for validation
+ * @param options - Optional progress listener for streaming callers
  * @returns Generated plan with success/error information
  */
 export async function generateWithAPRV(
-  intake: IntakeFormData,
-  claudeClient: Anthropic,
-  schema: any
-): Promise<GeneratedPlan> {
+  intake: APRVIntake,
+  provider: LLMProvider,
+  schema: any,
+  options: APRVOptions = {}
+): Promise<APRVResult> {
   const context: APRVContext = {
     intake,
     systemPrompt: '',
@@ -100,6 +202,10 @@ export async function generateWithAPRV(
     logs: [],
     attempts: 0,
     maxAttempts: MAX_REPAIR_ATTEMPTS,
+    onProgress: options.onProgress,
+    findings: [],
+    catalogue: options.catalogue || new TrainingCatalogue(),
+    calendar: options.calendar,
   };
 
   try {
@@ -108,13 +214,14 @@ export async function generateWithAPRV(
     logPhase(context, 'analyze', 'success', 'System prompt loaded successfully');
 
     // Execute APRV loop
-    const result = await executeAPRVLoop(claudeClient, context);
+    const result = await executeAPRVLoop(provider, context);
 
     return {
       success: true,
-      plan: result,
+      plan: fromModelOutput(result),
       attempts: context.attempts,
       phase_logs: context.logs,
+      review_notes: context.findings,
     };
   } catch (error: any) {
     console.error('[APRV] Fatal error:', error);
@@ -132,7 +239,7 @@ export async function generateWithAPRV(
  * Execute the complete APRV loop with retry logic
  */
 async function executeAPRVLoop(
-  client: Anthropic,
+  provider: LLMProvider,
   context: APRVContext
 ): Promise<any> {
   let lastError: Error | null = null;
@@ -142,18 +249,28 @@ async function executeAPRVLoop(
     context.attempts = attempt + 1;
 
     try {
+      // Schema failures confined to a few sections are repaired in place
+      const repairedPlan: any =
+        lastError instanceof SchemaValidationError
+          ? await repairSectionsPhase(provider, context, lastError)
+          : null;
+
       // Phase 1 & 2: Analyze + Plan (combined in single API call)
-      const planResult = await analyzePlanPhase(client, context, lastError);
+      const planResult: any = repairedPlan ?? (await analyzePlanPhase(provider, context, lastError));
       lastPlan = planResult;
 
-      // Phase 3: Reflect (self-assessment)
-      const reflectResult = await reflectPhase(client, context, planResult);
-
-      // If reflection identified issues and we have attempts left, continue to repair
-      if (reflectResult.hasIssues && attempt < context.maxAttempts) {
-        logPhase(context, 'reflect', 'warning', `Issues identified: ${reflectResult.issues.join(', ')}`);
-        lastError = new Error(`Reflection issues: ${reflectResult.issues.join('; ')}`);
-        continue;
+      // Phase 3: Reflect (self-assessment) - already done for a spliced plan's content
+      if (!repairedPlan) {
+        const findings = await reflectPhase(provider, context, planResult);
+        const blocking = findings.filter((finding) => finding.severity === 'blocking');
+        context.findings = findings;
+
+        // Only blocking findings are worth a regeneration; the rest become reviewer notes
+        if (blocking.length > 0 && attempt < context.maxAttempts) {
+          logPhase(context, 'reflect', 'warning', `${blocking.length} blocking finding(s); regenerating`);
+          lastError = new ReflectionError(blocking);
+          continue;
+        }
       }
 
       // Phase 4: Verify (schema validation)
@@ -161,6 +278,21 @@ async function executeAPRVLoop(
 
       if (validationResult.valid) {
         logPhase(context, 'verify', 'success', 'Schema validation passed');
+
+        const consistency = consistencyPhase(context, planResult);
+        if (consistency.passed) {
+          return planResult;
+        }
+
+        const blocking = consistency.issues.filter((issue) => issue.severity === 'blocking');
+        if (attempt < context.maxAttempts) {
+          logPhase(context, 'verify', 'warning', `${blocking.length} blocking consistency issue(s); regenerating`);
+          lastError = new ConsistencyError(blocking);
+          continue;
+        }
+
+        // The plan is schema-valid; hand it over and let the trainer fix the arithmetic
+        logPhase(context, 'verify', 'warning', `Accepting plan with ${blocking.length} unresolved consistency issue(s)`);
         return planResult;
       }
 
@@ -172,7 +304,7 @@ async function executeAPRVLoop(
           'warning',
           `Schema validation failed: ${validationResult.errors.length} errors. Attempting repair...`
         );
-        lastError = new Error(`Schema validation errors: ${formatValidationErrors(validationResult.errors)}`);
+        lastError = new SchemaValidationError(validationResult.errors, planResult);
       } else {
         // No more attempts - fail with validation errors
         logPhase(context, 'verify', 'failure', 'Schema validation failed after max repair attempts');
@@ -194,6 +326,254 @@ async function executeAPRVLoop(
   throw lastError || new Error('APRV loop failed after maximum attempts');
 }
 
+/**
+ * Refine an existing plan from a natural-language instruction
+ *
+ * The model proposes replacements for whole sections only; they are spliced
+ * into the plan and verified like a generated plan. Reflection is skipped,
+ * and consistency issues the submitted plan already had do not block.
+ *
+ * @param plan - The plan to refine (unchanged on failure)
+ * @param instruction - Trainer's request, e.g. "make weeks 3-5 more practical"
+ * @param intake - Original requirements, quoted so changes stay within them
+ * @returns The refined plan and the sections that changed
+ */
+export async function refineWithAPRV(
+  plan: GeneratedPlan,
+  instruction: string,
+  intake: APRVIntake,
+  provider: LLMProvider,
+  schema: any,
+  options: APRVOptions = {}
+): Promise<RefineResult> {
+  const context: APRVContext = {
+    intake,
+    systemPrompt: '',
+    schema,
+    logs: [],
+    attempts: 0,
+    maxAttempts: MAX_REPAIR_ATTEMPTS,
+    onProgress: options.onProgress,
+    findings: [],
+    catalogue: options.catalogue || new TrainingCatalogue(),
+    calendar: options.calendar,
+  };
+
+  try {
+    context.systemPrompt = await loadSystemPrompt();
+    logPhase(context, 'analyze', 'success', 'System prompt loaded successfully');
+
+    const { plan: refined, summary } = await executeRefineLoop(provider, context, plan, instruction);
+    const refinedPlan = fromModelOutput(refined);
+
+    return {
+      success: true,
+      plan: refinedPlan,
+      changes: diffSections(plan, refinedPlan),
+      summary,
+      attempts: context.attempts,
+      phase_logs: context.logs,
+    };
+  } catch (error: any) {
+    console.error('[APRV] Refinement failed:', error);
+
+    return {
+      success: false,
+      error: formatUserError(error),
+      attempts: context.attempts,
+      phase_logs: context.logs,
+    };
+  }
+}
+
+/**
+ * Refine → Verify loop with the same repair paths as generation
+ */
+async function executeRefineLoop(
+  provider: LLMProvider,
+  context: APRVContext,
+  plan: GeneratedPlan,
+  instruction: string
+): Promise<{ plan: any; summary: string }> {
+  // Issues the trainer already accepted are not the refinement's to fix
+  const issueKey = (issue: ConsistencyIssue) => `${issue.rule}:${issue.path}`;
+  const existingIssues = new Set(
+    checkPlanConsistency(plan, { catalogue: context.catalogue }).issues.map(issueKey)
+  );
+
+  let lastError: Error | null = null;
+  let summary = '';
+
+  for (let attempt = 0; attempt <= context.maxAttempts; attempt++) {
+    context.attempts = attempt + 1;
+
+    try {
+      const repairedPlan: any =
+        lastError instanceof SchemaValidationError
+          ? await repairSectionsPhase(provider, context, lastError)
+          : null;
+
+      let candidate: any = repairedPlan;
+      if (!candidate) {
+        const proposal = await refinePhase(provider, context, plan, instruction, lastError);
+        candidate = proposal.plan;
+        summary = proposal.summary;
+      }
+
+      const validationResult = await verifyPhase(context, candidate);
+
+      if (validationResult.valid) {
+        const consistency = consistencyPhase(context, candidate);
+        const introduced = consistency.issues.filter(
+          (issue) => issue.severity === 'blocking' && !existingIssues.has(issueKey(issue))
+        );
+
+        if (introduced.length === 0) {
+          return { plan: candidate, summary };
+        }
+
+        if (attempt < context.maxAttempts) {
+          logPhase(context, 'verify', 'warning', `Refinement introduced ${introduced.length} blocking consistency issue(s); retrying`);
+          lastError = new ConsistencyError(introduced);
+          continue;
+        }
+
+        logPhase(context, 'verify', 'warning', `Accepting refinement with ${introduced.length} unresolved consistency issue(s)`);
+        return { plan: candidate, summary };
+      }
+
+      if (attempt < context.maxAttempts) {
+        logPhase(
+          context,
+          'verify',
+          'warning',
+          `Refined plan failed schema validation: ${validationResult.errors.length} errors. Attempting repair...`
+        );
+        lastError = new SchemaValidationError(validationResult.errors, candidate);
+      } else {
+        logPhase(context, 'verify', 'failure', 'Schema validation failed after max repair attempts');
+        throw new Error(`Schema validation failed: ${formatValidationErrors(validationResult.errors)}`);
+      }
+    } catch (error: any) {
+      lastError = error;
+
+      if (attempt >= context.maxAttempts) {
+        throw error;
+      }
+
+      logPhase(context, 'repair', 'warning', `Attempt ${attempt + 1} failed: ${error.message}. Retrying...`);
+    }
+  }
+
+  throw lastError || new Error('Refinement failed after maximum attempts');
+}
+
+/**
+ * Refine phase
+ *
+ * Asks for replacement sections only and splices them into the submitted plan.
+ */
+async function refinePhase(
+  provider: LLMProvider,
+  context: APRVContext,
+  plan: GeneratedPlan,
+  instruction: string,
+  previousError: Error | null
+): Promise<{ plan: any; summary: string }> {
+  const startTime = Date.now();
+
+  try {
+    logPhase(context, 'plan', 'success', `Refining plan with ${provider.name} provider`);
+
+    const response = await provider.complete({
+      model: ANTHROPIC_MODEL,
+      maxTokens: REFINE_MAX_TOKENS,
+      temperature: 0.5,
+      system: context.systemPrompt,
+      prompt: buildRefinePrompt(context, plan, instruction, previousError),
+      purpose: 'refine',
+    });
+
+    const proposal = extractJSON(response.text);
+    const changes = proposal?.changes;
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      throw new Error('Failed to extract section JSON from refinement response');
+    }
+
+    const pointers = Object.keys(changes).filter((pointer) => isSectionPointer(context, plan, pointer));
+    const ignored = Object.keys(changes).length - pointers.length;
+    if (ignored > 0) {
+      logPhase(context, 'plan', 'warning', `Ignored ${ignored} change(s) outside whole plan sections`);
+    }
+
+    const refined = pointers.reduce((current, pointer) => setAtPointer(current, pointer, changes[pointer]), plan);
+
+    const duration = Date.now() - startTime;
+    logPhase(context, 'plan', 'success', `Replaced ${pointers.length} section(s) in ${duration}ms`);
+
+    return {
+      plan: refined,
+      summary: typeof proposal.summary === 'string' ? proposal.summary.trim() : '',
+    };
+  } catch (error: any) {
+    const duration = Date.now() - startTime;
+    logPhase(context, 'plan', 'failure', `Refinement failed after ${duration}ms: ${error.message}`);
+    throw error;
+  }
+}
+
+/**
+ * Whether a refinement may replace the value at this pointer
+ *
+ * Allowed: a top-level schema property (/risks, /weekly_plan), or one week
+ * or unit by index, including the next index to append one.
+ */
+function isSectionPointer(context: APRVContext, plan: GeneratedPlan, pointer: string): boolean {
+  const match = pointer.match(/^\/([a-z_]+)(?:\/(\d+))?$/);
+  if (!match) return false;
+
+  const [, top, index] = match;
+  if (!context.schema?.properties?.[top]) return false;
+  if (index === undefined) return true;
+
+  // A shallow copy: the GeneratedPlan interface has no index signature
+  const sections: Record<string, unknown> = { ...plan };
+  const items = sections[top];
+  return ITEMIZED_SECTIONS.includes(top) && Array.isArray(items) && Number(index) <= items.length;
+}
+
+/**
+ * Section-level differences between two plans
+ *
+ * Weeks and units are compared item by item; other top-level keys whole.
+ */
+function diffSections(before: GeneratedPlan, after: GeneratedPlan): PlanChange[] {
+  const changes: PlanChange[] = [];
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+  const beforeSections: Record<string, unknown> = { ...before };
+  const afterSections: Record<string, unknown> = { ...after };
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(
+    (key) => key !== 'metadata'
+  );
+
+  for (const key of keys) {
+    const previous = beforeSections[key];
+    const next = afterSections[key];
+
+    if (ITEMIZED_SECTIONS.includes(key) && Array.isArray(previous) && Array.isArray(next)) {
+      for (let idx = 0; idx < Math.max(previous.length, next.length); idx++) {
+        if (!same(previous[idx], next[idx])) {
+          changes.push({ pointer: `/${key}/${idx}`, before: previous[idx], after: next[idx] });
+        }
+      }
+    } else if (!same(previous, next)) {
+      changes.push({ pointer: `/${key}`, before: previous, after: next });
+    }
+  }
+
+  return changes;
+}
+
 /**
  * Phase 1 & 2: Analyze and Plan
  *
@@ -201,7 +581,7 @@ async function executeAPRVLoop(
  * This is done in a single API call using the system prompt.
  */
 async function analyzePlanPhase(
-  client: Anthropic,
+  provider: LLMProvider,
   context: APRVContext,
   previousError: Error | null
 ): Promise<any> {
@@ -209,30 +589,35 @@ async function analyzePlanPhase(
 
   try {
     // Build user prompt from intake data
-    const userPrompt = buildUserPrompt(context.intake, previousError);
-
-    logPhase(context, 'analyze', 'success', 'Starting generation with Claude API');
-
-    // Call Claude API with streaming enabled for long responses
-    const stream = await client.messages.stream({
-      model: ANTHROPIC_MODEL,
-      max_tokens: 32000,  // Increased for Haiku 4.5 to avoid truncation
-      temperature: 0.7,
-      system: context.systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: userPrompt,
-        },
-      ],
-    });
-
-    // Collect the complete response from the stream
-    let responseText = '';
-    for await (const chunk of stream) {
-      if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-        responseText += chunk.delta.text;
+    const userPrompt = buildUserPrompt(context.intake, previousError, context.catalogue, context.calendar);
+
+    logPhase(context, 'analyze', 'success', `Starting generation with ${provider.name} provider`);
+
+    // Stream the response - plans are long and progress is reported as it arrives
+    let received = 0;
+    let lastReported = 0;
+    const response = await provider.stream(
+      {
+        model: ANTHROPIC_MODEL,
+        maxTokens: PLAN_MAX_TOKENS,  // Increased for Haiku 4.5 to avoid truncation
+        temperature: 0.7,
+        system: context.systemPrompt,
+        prompt: userPrompt,
+        purpose: 'plan',
+      },
+      (delta) => {
+        received += delta.length;
+        if (received - lastReported >= TOKEN_PROGRESS_INTERVAL_CHARS) {
+          lastReported = received;
+          reportTokens(context, received);
+        }
       }
+    );
+    const responseText = response.text;
+    reportTokens(context, responseText.length);
+
+    if (response.stopReason === 'max_tokens') {
+      logPhase(context, 'plan', 'warning', `Output hit the ${PLAN_MAX_TOKENS} token limit and may be truncated`);
     }
 
     const duration = Date.now() - startTime;
@@ -259,77 +644,232 @@ async function analyzePlanPhase(
   }
 }
 
+/**
+ * Section repair
+ *
+ * Regenerates only the sections containing schema errors and splices the
+ * replacements into the previous plan.
+ *
+ * @returns The spliced plan, or null when the errors are not confined to
+ *          repairable sections or the repair call fails (caller regenerates)
+ */
+async function repairSectionsPhase(
+  provider: LLMProvider,
+  context: APRVContext,
+  failure: SchemaValidationError
+): Promise<any | null> {
+  const sections = groupErrorsBySection(failure.errors);
+
+  if (!sections || sections.size > MAX_REPAIR_SECTIONS) {
+    logPhase(context, 'repair', 'warning', 'Errors span the whole plan; regenerating in full');
+    return null;
+  }
+
+  const startTime = Date.now();
+  const pointers = Array.from(sections.keys());
+
+  try {
+    logPhase(context, 'repair', 'success', `Regenerating ${pointers.length} section(s): ${pointers.join(', ')}`);
+
+    const response = await provider.complete({
+      model: ANTHROPIC_MODEL,
+      maxTokens: REPAIR_MAX_TOKENS,
+      temperature: 0.3,
+      system: context.systemPrompt,
+      prompt: buildSectionRepairPrompt(context, failure.plan, sections),
+      purpose: 'repair',
+    });
+
+    const replacements = extractJSON(response.text);
+    if (!replacements || typeof replacements !== 'object' || Array.isArray(replacements)) {
+      throw new Error('Failed to extract section JSON from repair response');
+    }
+
+    const repaired = pointers.filter((pointer) => pointer in replacements);
+    if (repaired.length === 0) {
+      throw new Error('Repair response contained none of the requested sections');
+    }
+
+    const plan = repaired.reduce(
+      (current, pointer) => setAtPointer(current, pointer, replacements[pointer]),
+      failure.plan
+    );
+
+    const duration = Date.now() - startTime;
+    logPhase(context, 'repair', 'success', `Spliced ${repaired.length} of ${pointers.length} section(s) in ${duration}ms`);
+
+    return plan;
+  } catch (error: any) {
+    const duration = Date.now() - startTime;
+    logPhase(context, 'repair', 'warning', `Section repair failed after ${duration}ms: ${error.message}. Regenerating in full...`);
+    return null;
+  }
+}
+
+/**
+ * Map each schema error to the section that contains it
+ *
+ * - /weekly_plan/3/... and /units/1/... map to that week or unit
+ * - any other top-level key (/risks, /meta, /confidence_score...) maps to itself
+ *
+ * @returns Errors keyed by section pointer, or null if any error can only be
+ *          fixed by regenerating the whole plan (root, or an entire weekly_plan/units array)
+ */
+function groupErrorsBySection(errors: SchemaError[]): Map<string, SchemaError[]> | null {
+  const sections = new Map<string, SchemaError[]>();
+
+  for (const error of errors) {
+    const tokens = error.pointer.split('/').slice(1).filter(Boolean);
+    const [top, index] = tokens;
+
+    if (!top) return null;
+    if (ITEMIZED_SECTIONS.includes(top) && (index === undefined || !/^\d+$/.test(index))) return null;
+    if (tokens.length === 1 && error.keyword === 'additionalProperties') return null;
+
+    const section = ITEMIZED_SECTIONS.includes(top) ? `/${top}/${index}` : `/${top}`;
+    sections.set(section, [...(sections.get(section) || []), error]);
+  }
+
+  return sections;
+}
+
+/**
+ * Build the prompt for regenerating individual plan sections
+ */
+function buildSectionRepairPrompt(
+  context: APRVContext,
+  plan: any,
+  sections: Map<string, SchemaError[]>
+): string {
+  const { intake } = context;
+  const unitCodes = Array.isArray(plan?.units)
+    ? plan.units.map((unit: any) => unit?.unit_code).filter(Boolean)
+    : [];
+
+  const blocks = Array.from(sections.entries()).map(([pointer, errors]) => {
+    const current = getAtPointer(plan, pointer);
+    const sectionSchema = getSchemaAtPointer(context.schema, pointer);
+
+    return `SECTION ${pointer}
+Errors:
+${errors.map((err) => `- ${err.pointer} ${err.message}`).join('\n')}
+Current value:
+${current === undefined ? '(missing)' : JSON.stringify(current)}
+Schema:
+${JSON.stringify(sectionSchema)}`;
+  });
+
+  return `A generated unit plan failed schema validation in the sections below. Regenerate ONLY these sections; the rest of the plan is kept as-is.
+
+PLAN CONTEXT
+Qualification: ${intake.qualification.title}${intake.qualification.code ? ` (${intake.qualification.code})` : ''}
+Duration: ${intake.duration.weeks} weeks, ${intake.duration.total_hours} hours
+Delivery Mode: ${intake.delivery_mode}
+Unit codes in plan: ${unitCodes.join(', ') || 'none'}
+
+${blocks.join('\n\n')}
+
+Respond with ONLY a JSON object mapping each section path to its corrected value, for example:
+{"${Array.from(sections.keys())[0]}": <corrected value>}
+
+Each value must satisfy its schema and keep the same meaning as the current value where possible.`;
+}
+
 /**
  * Phase 3: Reflect
  *
- * Ask Claude to self-assess the generated plan for completeness and quality.
+ * Ask Claude to self-assess the generated plan and return structured findings.
  */
 async function reflectPhase(
-  client: Anthropic,
+  provider: LLMProvider,
   context: APRVContext,
   plan: any
-): Promise<{ hasIssues: boolean; issues: string[] }> {
+): Promise<ReflectionFinding[]> {
   const startTime = Date.now();
 
   try {
     const reflectionPrompt = buildReflectionPrompt(context.intake, plan);
 
-    const message = await client.messages.create({
+    const message = await provider.complete({
       model: ANTHROPIC_MODEL,
-      max_tokens: 2000,
+      maxTokens: 2000,
       temperature: 0.3,
       system: 'You are a quality assurance expert for Australian RTO training plans. Your job is to review generated plans and identify any gaps, inconsistencies, or areas that need improvement.',
-      messages: [
-        {
-          role: 'user',
-          content: reflectionPrompt,
-        },
-      ],
+      prompt: reflectionPrompt,
+      purpose: 'reflect',
     });
 
     const duration = Date.now() - startTime;
-    const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
+    const responseText = message.text;
 
     // Parse reflection response
-    const hasIssues = responseText.toLowerCase().includes('issue') ||
-                      responseText.toLowerCase().includes('gap') ||
-                      responseText.toLowerCase().includes('missing') ||
-                      responseText.toLowerCase().includes('incomplete');
+    const findings = parseFindings(responseText);
 
-    const issues = hasIssues ? [responseText.slice(0, 200)] : [];
+    if (!findings) {
+      logPhase(context, 'reflect', 'warning', `Reflection returned no structured findings in ${duration}ms. Continuing...`);
+      return [];
+    }
 
+    const blocking = findings.filter((finding) => finding.severity === 'blocking').length;
     logPhase(
       context,
       'reflect',
-      hasIssues ? 'warning' : 'success',
-      hasIssues ? `Issues found in ${duration}ms` : `No issues found in ${duration}ms`
+      findings.length > 0 ? 'warning' : 'success',
+      findings.length > 0
+        ? `${findings.length} finding(s), ${blocking} blocking, in ${duration}ms`
+        : `No issues found in ${duration}ms`
     );
 
-    return { hasIssues, issues };
+    return findings;
   } catch (error: any) {
     const duration = Date.now() - startTime;
     logPhase(context, 'reflect', 'warning', `Reflection failed after ${duration}ms: ${error.message}. Continuing...`);
 
     // Non-critical failure - continue without reflection
-    return { hasIssues: false, issues: [] };
+    return [];
   }
 }
 
+/**
+ * Parse the reflection reply into findings
+ *
+ * Accepts `{ "findings": [...] }` or a bare array. Unknown severities are
+ * downgraded to 'warning' so a malformed finding can never force a retry.
+ *
+ * @returns Findings, or null when the reply contains no usable JSON
+ */
+function parseFindings(text: string): ReflectionFinding[] | null {
+  const parsed = extractJSON(text) ?? extractJSONArray(text);
+  const raw = Array.isArray(parsed) ? parsed : parsed?.findings;
+
+  if (!Array.isArray(raw)) return null;
+
+  return raw
+    .filter((item: any) => item && typeof item.message === 'string' && item.message.trim())
+    .map((item: any) => ({
+      severity: FINDING_SEVERITIES.includes(item.severity) ? item.severity : 'warning',
+      category: FINDING_CATEGORIES.includes(item.category) ? item.category : 'other',
+      path: typeof item.path === 'string' && (item.path === '' || item.path.startsWith('/')) ? item.path : '',
+      message: item.message.trim(),
+      ...(typeof item.suggested_fix === 'string' && item.suggested_fix.trim()
+        ? { suggested_fix: item.suggested_fix.trim() }
+        : {}),
+    }));
+}
+
 /**
  * Phase 4: Verify
  *
- * Validate the generated plan against the JSON schema using Zod.
+ * Validate the generated plan against the full JSON schema (prompts/schema.json).
  */
 async function verifyPhase(
   context: APRVContext,
   plan: any
-): Promise<{ valid: boolean; errors: any[] }> {
+): Promise<SchemaValidationResult> {
   const startTime = Date.now();
 
   try {
-    // Convert JSON Schema to Zod schema (simplified validation)
-    // For production, you'd use a full JSON Schema validator
-    const validationResult = validateAgainstSchema(plan, context.schema);
+    const validationResult = validateJSONSchema(plan, context.schema);
 
     const duration = Date.now() - startTime;
 
@@ -351,18 +891,105 @@ async function verifyPhase(
 
     return {
       valid: false,
-      errors: [{ path: 'root', message: error.message }],
+      errors: [{ pointer: '/', keyword: 'error', message: error.message }],
     };
   }
 }
 
+/**
+ * Phase 4b: Consistency
+ *
+ * Deterministic checks of the plan's arithmetic and cross-references, run
+ * once the plan is schema-valid.
+ */
+function consistencyPhase(context: APRVContext, plan: any): ConsistencyReport {
+  const startTime = Date.now();
+  const report = checkPlanConsistency(toGeneratedPlan(plan), { catalogue: context.catalogue });
+  const duration = Date.now() - startTime;
+
+  if (report.issues.length === 0) {
+    logPhase(context, 'verify', 'success', `Consistency checks passed in ${duration}ms`);
+  } else {
+    const blocking = report.issues.filter((issue) => issue.severity === 'blocking').length;
+    logPhase(
+      context,
+      'verify',
+      report.passed ? 'success' : 'failure',
+      `Consistency checks found ${report.issues.length} issue(s), ${blocking} blocking, in ${duration}ms`
+    );
+  }
+
+  return report;
+}
+
 /**
  * Build user prompt from intake data
  */
-function buildUserPrompt(intake: IntakeFormData, previousError: Error | null): string {
+function buildUserPrompt(
+  intake: APRVIntake,
+  previousError: Error | null,
+  catalogue: TrainingCatalogue = new TrainingCatalogue(),
+  calendar?: PlanCalendar
+): string {
   let prompt = `Generate a comprehensive unit plan for the following Australian RTO training program:
 
-QUALIFICATION
+${buildIntakeSection(intake, catalogue, calendar)}`;
+
+  // Add repair context if this is a retry
+  prompt += buildRetrySection(previousError);
+
+  prompt += `\n\nPlease generate a complete, audit-ready unit plan following the APRV process:
+1. Analyze the requirements carefully
+2. Plan a comprehensive delivery schedule
+3. Ensure all elements are realistic and practical
+4. Output valid JSON matching the required schema
+
+Return ONLY the JSON response, no additional text or markdown.`;
+
+  return prompt;
+}
+
+/**
+ * Build the refinement prompt: instruction, original requirements, current plan
+ */
+function buildRefinePrompt(
+  context: APRVContext,
+  plan: GeneratedPlan,
+  instruction: string,
+  previousError: Error | null
+): string {
+  const example = plan.weekly_plan.length > 0 ? '/weekly_plan/0' : '/risks';
+
+  return `Refine an existing unit plan for an Australian RTO training program. Apply the trainer's instruction, changing ONLY the sections it concerns.
+
+TRAINER INSTRUCTION
+${instruction}
+
+ORIGINAL REQUIREMENTS
+${buildIntakeSection(context.intake, context.catalogue, context.calendar)}
+
+CURRENT PLAN
+${JSON.stringify(plan)}${buildRetrySection(previousError)}
+
+Respond with ONLY a JSON object in this format:
+{
+  "summary": "One or two sentences describing what you changed",
+  "changes": {"${example}": <complete replacement value>}
+}
+
+Rules:
+- Keys are JSON Pointers to whole sections: one week (/weekly_plan/N), one unit (/units/N), or a top-level key such as /risks or /assessment_strategy
+- Use the next index (e.g. /weekly_plan/${plan.weekly_plan.length}) to add a week; to remove or reorder weeks or units, replace the whole array
+- Each value replaces its section entirely and must match the schema
+- Keep total hours, week count and summative assessment of every unit unchanged unless the instruction asks otherwise
+- Leave out every section you do not change`;
+}
+
+/**
+ * Build the requirements block shared by generation and refinement prompts
+ */
+function buildIntakeSection(intake: APRVIntake, catalogue: TrainingCatalogue, calendar?: PlanCalendar): string {
+  let prompt = `QUALIFICATION
 Title: ${intake.qualification.title}
 ${intake.qualification.code ? `Code: ${intake.qualification.code}` : ''}
 ${intake.qualification.level ? `Level: ${intake.qualification.level}` : ''}
@@ -396,6 +1023,10 @@ ${intake.cohort_profile}
     prompt += `\nPRIMARY TRAINER: ${intake.trainer_details.primary_trainer}`;
   }
 
+  if (intake.trainer_details?.additional_trainers?.length) {
+    prompt += `\nADDITIONAL TRAINERS: ${intake.trainer_details.additional_trainers.join(', ')}`;
+  }
+
   if (intake.resources) {
     prompt += '\n\nAVAILABLE RESOURCES:';
     if (intake.resources.facilities?.length) {
@@ -417,29 +1048,181 @@ ${intake.cohort_profile}
     prompt += `\n\nUNIT LIST (if provided):\n${intake.unit_list}`;
   }
 
-  // Add repair context if this is a retry
+  prompt += buildCalendarSection(intake, calendar);
+  prompt += buildCatalogueSection(intake, catalogue);
+
+  return prompt;
+}
+
+/**
+ * Describe the delivery calendar: session days, short weeks and breaks
+ *
+ * Weeks are dated by the application after generation; the model only needs
+ * to know which weeks have fewer sessions so it can plan lighter content.
+ */
+function buildCalendarSection(intake: APRVIntake, calendar: PlanCalendar | undefined): string {
+  if (!calendar) return '';
+
+  let weeks: WeekDates[];
+  try {
+    weeks = scheduleWeeks(calendar, intake.duration.weeks);
+  } catch (error) {
+    console.warn('[APRV] Delivery calendar not described:', error instanceof Error ? error.message : error);
+    return '';
+  }
+
+  const { state, delivery_days } = calendar.schedule;
+  const last = weeks[weeks.length - 1];
+  const lines = [
+    `Sessions on ${describeDeliveryDays(delivery_days)}${state ? `, ${state} public holidays observed` : ', national public holidays observed'}`,
+    `Week 1 starts ${calendar.start_date}; final session ${last.sessions[last.sessions.length - 1]}`,
+  ];
+
+  weeks.forEach((week, index) => {
+    const previous = weeks[index - 1];
+    if (previous && week.start !== addDays(previous.start, 7)) {
+      lines.push(`Break before week ${index + 1} (no sessions ${addDays(previous.end, 1)} to ${addDays(week.start, -1)})`);
+    }
+    if (week.closures?.length) {
+      const lost = week.closures.map((closure) => `${closure.name} ${closure.date}`).join(', ');
+      lines.push(
+        `Week ${index + 1} is a SHORT WEEK: ${week.sessions.length} of ${week.sessions.length + week.closures.length} sessions (${lost})`
+      );
+    }
+  });
+
+  return `\n\nDELIVERY CALENDAR\n${lines.join('\n')}
+Plan fewer contact hours and no assessments on lost days in short weeks, keeping total hours unchanged. Do not add a "dates" field to weeks; the application fills in the calendar dates.`;
+}
+
+/**
+ * Build the repair context for a retry (empty on the first attempt)
+ */
+function buildRetrySection(previousError: Error | null): string {
+  if (previousError instanceof SchemaValidationError) {
+    return buildSchemaRepairSection(previousError);
+  }
+  if (previousError instanceof ReflectionError) {
+    return buildReflectionRepairSection(previousError);
+  }
+  if (previousError instanceof ConsistencyError) {
+    return buildConsistencyRepairSection(previousError);
+  }
   if (previousError) {
-    prompt += `\n\n⚠️ PREVIOUS GENERATION FAILED - PLEASE FIX:
+    return `\n\n⚠️ PREVIOUS GENERATION FAILED - PLEASE FIX:
 ${previousError.message}
 
 Please address the above issues and generate a corrected plan.`;
   }
+  return '';
+}
 
-  prompt += `\n\nPlease generate a complete, audit-ready unit plan following the APRV process:
-1. Analyze the requirements carefully
-2. Plan a comprehensive delivery schedule
-3. Ensure all elements are realistic and practical
-4. Output valid JSON matching the required schema
+/**
+ * Build the authoritative unit data section from the training catalogue
+ *
+ * Uses the units named in the intake unit list; without a list, the units
+ * packaged in the requested qualification. Empty when nothing matches. A
+ * sample catalogue is not presented as authoritative.
+ */
+function buildCatalogueSection(intake: APRVIntake, catalogue: TrainingCatalogue): string {
+  const qualification = catalogue.findQualification(intake.qualification.code);
+  const listed = extractUnitCodes(intake.unit_list)
+    .map((code) => catalogue.findUnit(code))
+    .filter((unit) => unit !== undefined);
+
+  const units =
+    listed.length > 0
+      ? listed.map((unit) => ({ ...unit, usage: undefined }))
+      : catalogue.unitsForQualification(qualification?.code).slice(0, MAX_CATALOGUE_UNITS);
+
+  if (!qualification && units.length === 0) return '';
+
+  const lines = units.map(
+    (unit) =>
+      `- ${unit.code} ${unit.title}` +
+      (unit.nominal_hours !== undefined ? ` (${unit.nominal_hours} nominal hours)` : '') +
+      (unit.usage ? ` [${unit.usage}]` : '') +
+      (unit.prerequisites?.length ? ` - prerequisites: ${unit.prerequisites.join(', ')}` : '')
+  );
+
+  const heading = catalogue.isSample
+    ? 'SAMPLE TRAINING PACKAGE DATA (incomplete; prefer these codes and titles, but core units and nominal hours may be missing):'
+    : 'AUTHORITATIVE TRAINING PACKAGE DATA (use these codes, titles and nominal hours exactly; do not invent units):';
+
+  return `\n\n${heading}${
+    qualification
+      ? `\nQualification: ${qualification.code} ${qualification.title}${qualification.level ? ` (${qualification.level})` : ''}`
+      : ''
+  }${lines.length ? `\nUnits:\n${lines.join('\n')}` : ''}${
+    listed.length === 0 && qualification
+      ? '\nSelect electives from this list to meet the packaging rules and the requested hours.'
+      : ''
+  }`;
+}
 
-Return ONLY the JSON response, no additional text or markdown.`;
+/**
+ * Build the repair section for a plan that failed schema validation
+ *
+ * Only the failing JSON Pointer paths and their current values are quoted,
+ * so the model corrects those fields rather than rewriting the whole plan.
+ */
+function buildSchemaRepairSection(error: SchemaValidationError): string {
+  const shown = error.errors.slice(0, MAX_REPAIR_ERRORS);
+  const hidden = error.errors.length - shown.length;
 
-  return prompt;
+  const lines = shown.map(
+    (err, idx) =>
+      `${idx + 1}. ${err.pointer} ${err.message}\n   ${
+        err.keyword === 'required' ? 'Parent object' : 'Current value'
+      }: ${formatFragment(error.plan, err)}`
+  );
+
+  return `\n\n⚠️ PREVIOUS GENERATION FAILED SCHEMA VALIDATION - FIX ONLY THESE ERRORS:
+Paths are JSON Pointers into your previous JSON output.
+
+${lines.join('\n')}${hidden > 0 ? `\n(and ${hidden} more errors of the same kind)` : ''}
+
+Keep the rest of the plan the same, correcting only the values at these paths so the output matches the schema exactly.`;
+}
+
+/**
+ * Build the repair section for blocking reflection findings
+ */
+function buildReflectionRepairSection(error: ReflectionError): string {
+  return `\n\n⚠️ PREVIOUS GENERATION HAD BLOCKING REVIEW FINDINGS - PLEASE FIX:
+Paths are JSON Pointers into the plan.
+
+${formatFindingList(error.findings)}
+
+Address each finding while keeping the rest of the plan consistent with the request.`;
+}
+
+/**
+ * Build the repair section for blocking consistency issues
+ */
+function buildConsistencyRepairSection(error: ConsistencyError): string {
+  return `\n\n⚠️ PREVIOUS GENERATION FAILED CONSISTENCY CHECKS - PLEASE FIX:
+Paths are JSON Pointers into the plan.
+
+${formatFindingList(error.issues)}
+
+Make the weekly hours, week count, unit references and unit titles agree with the requested duration, unit list and training package data.`;
+}
+
+function formatFindingList(findings: ReflectionFinding[]): string {
+  return findings
+    .map(
+      (finding, idx) =>
+        `${idx + 1}. [${finding.category}] ${finding.path || '(whole plan)'}: ${finding.message}` +
+        (finding.suggested_fix ? `\n   Suggested fix: ${finding.suggested_fix}` : '')
+    )
+    .join('\n');
 }
 
 /**
  * Build reflection prompt for self-assessment
  */
-function buildReflectionPrompt(intake: IntakeFormData, plan: any): string {
+function buildReflectionPrompt(intake: APRVIntake, plan: any): string {
   return `Review this generated unit plan and identify any issues, gaps, or improvements needed:
 
 ORIGINAL REQUEST:
@@ -456,7 +1239,22 @@ Check for:
 3. Practicality: Is this plan actually deliverable by a real RTO?
 4. Compliance: Does it align with Australian VET sector requirements?
 
-If you find any issues, list them clearly. If the plan looks good, say "No issues found."`;
+Respond with ONLY a JSON object in this format:
+{
+  "findings": [
+    {
+      "severity": "blocking" | "warning" | "info",
+      "category": "completeness" | "consistency" | "practicality" | "compliance" | "other",
+      "path": "JSON Pointer to the affected part of the plan, e.g. /weekly_plan/2/activities",
+      "message": "What is wrong",
+      "suggested_fix": "How to fix it"
+    }
+  ]
+}
+
+Use "blocking" only for problems that make the plan unusable or non-compliant as delivered.
+Use "warning" for things a trainer should review, and "info" for optional improvements.
+If the plan looks good, return {"findings": []}.`;
 }
 
 /**
@@ -492,80 +1290,17 @@ function extractJSON(text: string): any | null {
 }
 
 /**
- * Validate plan against JSON schema
- * This is a simplified validation - for production, use a full JSON Schema validator
+ * Extract a top-level JSON array from a response (e.g. a bare findings list)
  */
-function validateAgainstSchema(plan: any, schema: any): { valid: boolean; errors: any[] } {
-  const errors: any[] = [];
+function extractJSONArray(text: string): any[] | null {
+  const arrayMatch = text.match(/\[[\s\S]*\]/);
+  if (!arrayMatch) return null;
 
   try {
-    // Check required top-level fields
-    const required = schema.required || [];
-    for (const field of required) {
-      if (!(field in plan)) {
-        errors.push({
-          path: field,
-          message: `Required field '${field}' is missing`,
-        });
-      }
-    }
-
-    // Check metadata
-    if (plan.metadata) {
-      if (!plan.metadata.schema_version) {
-        errors.push({ path: 'metadata.schema_version', message: 'Missing schema version' });
-      }
-      if (!plan.metadata.project_type) {
-        errors.push({ path: 'metadata.project_type', message: 'Missing project type' });
-      }
-      if (!plan.metadata.generated_at) {
-        errors.push({ path: 'metadata.generated_at', message: 'Missing generated_at timestamp' });
-      }
-    }
-
-    // Check meta
-    if (plan.meta) {
-      if (!plan.meta.qualification?.title) {
-        errors.push({ path: 'meta.qualification.title', message: 'Missing qualification title' });
-      }
-      if (!plan.meta.duration?.weeks) {
-        errors.push({ path: 'meta.duration.weeks', message: 'Missing duration weeks' });
-      }
-      if (!plan.meta.duration?.total_hours) {
-        errors.push({ path: 'meta.duration.total_hours', message: 'Missing total hours' });
-      }
-      if (!plan.meta.delivery_mode) {
-        errors.push({ path: 'meta.delivery_mode', message: 'Missing delivery mode' });
-      }
-      if (!plan.meta.cohort_profile) {
-        errors.push({ path: 'meta.cohort_profile', message: 'Missing cohort profile' });
-      }
-    }
-
-    // Check weekly_plan
-    if (!Array.isArray(plan.weekly_plan) || plan.weekly_plan.length === 0) {
-      errors.push({ path: 'weekly_plan', message: 'Weekly plan must be a non-empty array' });
-    }
-
-    // Check units
-    if (!Array.isArray(plan.units) || plan.units.length === 0) {
-      errors.push({ path: 'units', message: 'Units must be a non-empty array' });
-    }
-
-    // Check confidence_score
-    if (typeof plan.confidence_score !== 'number' || plan.confidence_score < 0 || plan.confidence_score > 1) {
-      errors.push({ path: 'confidence_score', message: 'Confidence score must be a number between 0 and 1' });
-    }
-
-    return {
-      valid: errors.length === 0,
-      errors,
-    };
-  } catch (error: any) {
-    return {
-      valid: false,
-      errors: [{ path: 'root', message: `Validation error: ${error.message}` }],
-    };
+    const parsed = JSON.parse(arrayMatch[0]);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
   }
 }
 
@@ -602,17 +1337,44 @@ function logPhase(
 
   context.logs.push(log);
   console.log(`[APRV:${phase.toUpperCase()}] ${status.toUpperCase()}: ${details}`);
+  emitProgress(context, { type: 'phase', log });
+}
+
+/**
+ * Report partial plan output (token count is estimated at ~4 chars/token)
+ */
+function reportTokens(context: APRVContext, characters: number): void {
+  emitProgress(context, {
+    type: 'tokens',
+    attempt: context.attempts,
+    characters,
+    estimated_tokens: Math.round(characters / 4),
+    max_tokens: PLAN_MAX_TOKENS,
+  });
+}
+
+/**
+ * Forward a progress event to the listener, never letting it break the loop
+ */
+function emitProgress(context: APRVContext, event: APRVProgressEvent): void {
+  if (!context.onProgress) return;
+
+  try {
+    context.onProgress(event);
+  } catch (error) {
+    console.error('[APRV] Progress listener failed:', error);
+  }
 }
 
 /**
  * Format validation errors for display
  */
-function formatValidationErrors(errors: any[]): string {
+function formatValidationErrors(errors: SchemaError[]): string {
   if (errors.length === 0) return 'No errors';
 
   return errors
     .slice(0, 5)
-    .map((err) => `${err.path}: ${err.message}`)
+    .map((err) => `${err.pointer}: ${err.message}`)
     .join('; ');
 }
 
@@ -639,10 +1401,8 @@ function formatUserError(error: any): string {
 }
 
 /**
- * Export helper function to create Anthropic client
+ * Export helper function to create the Claude provider
  */
-export function createClaudeClient(apiKey: string): Anthropic {
-  return new Anthropic({
-    apiKey,
-  });
+export function createClaudeClient(apiKey: string): LLMProvider {
+  return new AnthropicProvider(apiKey, ANTHROPIC_MODEL);
 }
@@ -0,0 +1,251 @@
+/**
+ * AQF Volume-of-Learning Compliance Analysis
+ *
+ * Compares a plan's amount of training against:
+ * 1. The AQF volume of learning for the qualification level
+ *    (AQF Second Edition, 2013), converted to hours at 1200 hours per
+ *    full-time year
+ * 2. The sum of the units' nominal hours
+ *
+ * Each check carries an explanation written for an ASQA audit trail, so it
+ * can be pasted into a TAS as the amount-of-training rationale.
+ */
+
+import type { GeneratedPlan, QualificationLevel } from '@/types/schema-types';
+
+/**
+ * Outcome of a volume check
+ * - within_range: planned hours fall inside the expected range
+ * - shortfall: fewer hours than expected (amount-of-training risk)
+ * - excess: more hours than expected (learner burden / funding risk)
+ * - not_assessed: no benchmark applies (e.g. short courses, no nominal hours)
+ */
+export type VolumeStatus = 'within_range' | 'shortfall' | 'excess' | 'not_assessed';
+
+export interface VolumeCheck {
+  /** What the planned hours were compared against */
+  label: string;
+
+  status: VolumeStatus;
+
+  /** Planned hours used for the comparison */
+  actual_hours: number;
+
+  /** Expected range in hours (absent when not_assessed) */
+  min_hours?: number;
+  max_hours?: number;
+
+  /** Audit-ready rationale for the result */
+  explanation: string;
+}
+
+export interface VolumeOfLearningAnalysis {
+  /** Qualification level the benchmark was taken from */
+  level?: QualificationLevel;
+
+  /** AQF range for the level, in years and hours */
+  range?: { min_years: number; max_years: number; min_hours: number; max_hours: number };
+
+  /** meta.duration.total_hours */
+  planned_hours: number;
+
+  /** Sum of units[].nominal_hours */
+  nominal_hours: number;
+
+  /** Calendar duration in years (weeks / 52) */
+  duration_years: number;
+
+  checks: VolumeCheck[];
+
+  /** Most serious status across all checks */
+  status: VolumeStatus;
+}
+
+/** Hours in one full-time year of learning, as used by ASQA */
+export const HOURS_PER_FULL_TIME_YEAR = 1200;
+
+/**
+ * AQF volume of learning, in full-time years, for each VET qualification level
+ *
+ * Short courses and skill sets are not AQF qualifications and have no range.
+ */
+export const AQF_VOLUME_OF_LEARNING: Partial<Record<QualificationLevel, { min_years: number; max_years: number }>> = {
+  'Certificate I': { min_years: 0.5, max_years: 1 },
+  'Certificate II': { min_years: 0.5, max_years: 1 },
+  'Certificate III': { min_years: 1, max_years: 2 },
+  'Certificate IV': { min_years: 0.5, max_years: 2 },
+  'Diploma': { min_years: 1, max_years: 2 },
+  'Advanced Diploma': { min_years: 1.5, max_years: 2 },
+};
+
+/** Planned hours above this multiple of the nominal hours are reported as excess */
+const NOMINAL_EXCESS_RATIO = 1.5;
+
+/** Differences smaller than this are rounding, not a shortfall */
+const HOURS_EPSILON = 0.5;
+
+const STATUS_ORDER: Record<VolumeStatus, number> = {
+  shortfall: 0,
+  excess: 1,
+  within_range: 2,
+  not_assessed: 3,
+};
+
+/**
+ * Analyse a plan's amount of training against AQF and nominal-hour benchmarks
+ */
+export function analyzeVolumeOfLearning(plan: GeneratedPlan): VolumeOfLearningAnalysis {
+  const { qualification, duration } = plan.meta;
+  const level = qualification.level || undefined;
+  const aqf = level ? AQF_VOLUME_OF_LEARNING[level] : undefined;
+  const range = aqf && {
+    ...aqf,
+    min_hours: aqf.min_years * HOURS_PER_FULL_TIME_YEAR,
+    max_hours: aqf.max_years * HOURS_PER_FULL_TIME_YEAR,
+  };
+
+  const nominalHours = plan.units.reduce((sum, unit) => sum + (unit.nominal_hours || 0), 0);
+  const durationYears = Math.round((duration.weeks / 52) * 100) / 100;
+
+  const checks = [
+    checkAQFVolume(plan, level, range, durationYears),
+    checkNominalHours(plan, nominalHours),
+  ];
+
+  return {
+    level,
+    range,
+    planned_hours: duration.total_hours,
+    nominal_hours: nominalHours,
+    duration_years: durationYears,
+    checks,
+    status: checks.reduce<VolumeStatus>(
+      (worst, check) => (STATUS_ORDER[check.status] < STATUS_ORDER[worst] ? check.status : worst),
+      'not_assessed'
+    ),
+  };
+}
+
+/**
+ * Human-readable label for a volume status
+ */
+export function formatVolumeStatus(status: VolumeStatus): string {
+  switch (status) {
+    case 'within_range':
+      return 'Within range';
+    case 'shortfall':
+      return 'Shortfall';
+    case 'excess':
+      return 'Excess';
+    case 'not_assessed':
+      return 'Not assessed';
+  }
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function checkAQFVolume(
+  plan: GeneratedPlan,
+  level: QualificationLevel | undefined,
+  range: VolumeOfLearningAnalysis['range'],
+  durationYears: number
+): VolumeCheck {
+  const { total_hours, weeks } = plan.meta.duration;
+  const label = 'AQF volume of learning';
+
+  if (!level || !range) {
+    return {
+      label,
+      status: 'not_assessed',
+      actual_hours: total_hours,
+      explanation: level
+        ? `${level} programs are not AQF qualifications, so no AQF volume of learning applies. The amount of training should instead be justified against the units' nominal hours and learner needs.`
+        : 'No qualification level is recorded for this plan, so it cannot be compared against the AQF volume of learning. Record the AQF level to enable this check.',
+    };
+  }
+
+  const rangeText = `${formatYears(range.min_years)} to ${formatYears(range.max_years)} (about ${range.min_hours}-${range.max_hours} hours)`;
+  const scheduleText = `${total_hours} hours over ${weeks} weeks (${formatYears(durationYears)})`;
+
+  if (total_hours < range.min_hours) {
+    const gap = range.min_hours - total_hours;
+    return {
+      label,
+      status: 'shortfall',
+      actual_hours: total_hours,
+      min_hours: range.min_hours,
+      max_hours: range.max_hours,
+      explanation: `This plan schedules ${scheduleText}. The AQF volume of learning for a ${level} is ${rangeText}, leaving ${gap} hours unaccounted for. ASQA treats durations below the AQF range as a risk of insufficient amount of training. Document how the remaining volume is met (structured self-study, workplace learning, assessment, or recognition of prior learning for experienced cohorts), or state that this plan covers only part of the qualification.`,
+    };
+  }
+
+  if (total_hours > range.max_hours) {
+    return {
+      label,
+      status: 'excess',
+      actual_hours: total_hours,
+      min_hours: range.min_hours,
+      max_hours: range.max_hours,
+      explanation: `This plan schedules ${scheduleText}, above the AQF volume of learning for a ${level} of ${rangeText}. Confirm the additional hours are justified by the cohort (e.g. foundation skills support or a part-time workload) and do not impose an unnecessary burden on learners.`,
+    };
+  }
+
+  return {
+    label,
+    status: 'within_range',
+    actual_hours: total_hours,
+    min_hours: range.min_hours,
+    max_hours: range.max_hours,
+    explanation: `This plan schedules ${scheduleText}, within the AQF volume of learning for a ${level} of ${rangeText}.`,
+  };
+}
+
+function checkNominalHours(plan: GeneratedPlan, nominalHours: number): VolumeCheck {
+  const { total_hours } = plan.meta.duration;
+  const label = 'Unit nominal hours';
+  const unitCount = plan.units.length;
+
+  if (nominalHours <= 0) {
+    return {
+      label,
+      status: 'not_assessed',
+      actual_hours: total_hours,
+      explanation: 'No nominal hours are recorded for the units in this plan. Add nominal hours from the state purchasing guide to compare them with the planned delivery hours.',
+    };
+  }
+
+  const maxHours = Math.round(nominalHours * NOMINAL_EXCESS_RATIO);
+  const base = { label, actual_hours: total_hours, min_hours: nominalHours, max_hours: maxHours };
+
+  if (total_hours < nominalHours - HOURS_EPSILON) {
+    return {
+      ...base,
+      status: 'shortfall',
+      explanation: `The ${unitCount} unit(s) in this plan carry ${nominalHours} nominal hours, but only ${total_hours} hours are scheduled (${nominalHours - total_hours} fewer). Nominal hours are the benchmark funding bodies and auditors use for supervised delivery; record the rationale for the reduced hours, such as the cohort's prior experience or credit transfer.`,
+    };
+  }
+
+  if (total_hours > maxHours) {
+    return {
+      ...base,
+      status: 'excess',
+      explanation: `${total_hours} hours are scheduled against ${nominalHours} nominal hours for the ${unitCount} unit(s) in this plan, more than ${NOMINAL_EXCESS_RATIO} times the nominal hours. Confirm the additional delivery time is needed by this cohort.`,
+    };
+  }
+
+  return {
+    ...base,
+    status: 'within_range',
+    explanation: `${total_hours} hours are scheduled against ${nominalHours} nominal hours for the ${unitCount} unit(s) in this plan.`,
+  };
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+function formatYears(years: number): string {
+  return `${years} year${years === 1 ? '' : 's'}`;
+}
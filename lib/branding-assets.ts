@@ -0,0 +1,104 @@
+/**
+ * Branding Asset Store (browser)
+ *
+ * The organisation logo and .docx template are stored as base64 and can run
+ * to hundreds of KB. They are kept in IndexedDB instead of the settings key,
+ * so reading settings never parses them and they do not take up the
+ * localStorage quota that saved plans need. The rest of the branding stays
+ * in settings (see getOrganisationBranding in lib/storage.ts).
+ */
+
+import type { OrganisationBranding } from '@/types/unit-plan';
+
+/**
+ * The parts of the branding kept outside settings
+ */
+export type BrandingAssets = Pick<OrganisationBranding, 'logo' | 'template'>;
+
+const DB_NAME = 'tas_assistant';
+const DB_VERSION = 1;
+const STORE_NAME = 'branding_assets';
+/** One organisation per browser, so a single record */
+const RECORD_KEY = 'organisation';
+
+/**
+ * Split branding into what goes in settings and the assets
+ */
+export function splitBrandingAssets(branding: OrganisationBranding): {
+  settings: Omit<OrganisationBranding, keyof BrandingAssets>;
+  assets: BrandingAssets;
+} {
+  const { logo, template, ...settings } = branding;
+  return {
+    settings,
+    assets: { ...(logo ? { logo } : {}), ...(template ? { template } : {}) },
+  };
+}
+
+function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!isIndexedDBAvailable()) {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run one request against the asset store and close the database
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error || request.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Branding asset write was aborted'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * The stored logo and template (an empty object when none are stored)
+ */
+export async function readBrandingAssets(): Promise<BrandingAssets> {
+  if (!isIndexedDBAvailable()) return {};
+  const record = await withStore<BrandingAssets | undefined>('readonly', (store) => store.get(RECORD_KEY));
+  return record || {};
+}
+
+/**
+ * Replace the stored logo and template; with neither, the record is deleted
+ *
+ * Where IndexedDB is missing or cannot be opened (some private modes) there
+ * is no record to delete, so branding without a logo or template still saves.
+ *
+ * @throws Error if a logo or template cannot be stored (no IndexedDB, quota)
+ */
+export async function writeBrandingAssets(assets: BrandingAssets): Promise<void> {
+  if (!assets.logo && !assets.template) {
+    if (!isIndexedDBAvailable()) return;
+    try {
+      await withStore('readwrite', (store) => store.delete(RECORD_KEY));
+    } catch (error) {
+      console.warn('Failed to clear branding assets:', error);
+    }
+    return;
+  }
+  await withStore('readwrite', (store) => store.put(assets, RECORD_KEY));
+}
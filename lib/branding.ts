@@ -0,0 +1,270 @@
+/**
+ * Organisation Branding for DOCX Exports
+ *
+ * Settings an RTO uses to put plans on its own letterhead: logo, RTO name
+ * and number, colours, document-control fields, version history, section
+ * order and an optional uploaded .docx template.
+ *
+ * Templates are ordinary Word documents with {{placeholders}}. The plan is
+ * rendered into {{tas_content}} (required); the other placeholders in
+ * TEMPLATE_PLACEHOLDERS are filled with branding and plan details, in the
+ * body, headers and footers. lib/export-handlers.ts does the rendering.
+ */
+
+import { patchDetector } from 'docx';
+import type {
+  BrandingLogo,
+  DocxSectionId,
+  DocxTemplateFile,
+  GeneratedPlan,
+  OrganisationBranding,
+  VersionHistoryEntry,
+} from '@/types/unit-plan';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Content sections in their default order, with their DOCX heading text */
+export const DOCX_SECTIONS: { id: DocxSectionId; title: string }[] = [
+  { id: 'overview', title: 'Overview' },
+  { id: 'cohort', title: 'Cohort Profile' },
+  { id: 'weekly_plan', title: 'Weekly Delivery Plan' },
+  { id: 'units', title: 'Units of Competency' },
+  { id: 'resources', title: 'Resources & Facilities' },
+  { id: 'risks', title: 'Risks & Assumptions' },
+  { id: 'compliance', title: 'Compliance Notes' },
+];
+
+/** Colours used when the organisation has not chosen its own */
+export const DEFAULT_BRAND_COLORS = { primary: '1F3864', accent: '2E74B5' };
+
+/** Placeholder the plan content is rendered into */
+export const CONTENT_PLACEHOLDER = 'tas_content';
+
+/** Placeholders a template may use, with what they are replaced by */
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  [CONTENT_PLACEHOLDER]: 'The plan: contents, then every section (required)',
+  rto_name: 'RTO name',
+  rto_number: 'RTO number',
+  qualification_title: 'Qualification title',
+  qualification_code: 'Qualification code',
+  document_number: 'Document number',
+  version: 'Document version',
+  owner: 'Document owner',
+  approved_by: 'Approved by',
+  approval_date: 'Approval date',
+  review_date: 'Next review date',
+  generated_date: 'Date the plan was generated',
+};
+
+/**
+ * Upload limits: the logo and template go in every backup and are sent with
+ * server DOCX exports (they are stored in IndexedDB, see lib/branding-assets.ts)
+ */
+export const MAX_LOGO_BYTES = 256 * 1024;
+export const MAX_TEMPLATE_BYTES = 1024 * 1024;
+
+const LOGO_DATA_URL_PATTERN = /^data:image\/(png|jpeg);base64,([A-Za-z0-9+/]+=*)$/;
+const HEX_COLOR_PATTERN = /^#?([0-9a-fA-F]{6})$/;
+
+/**
+ * Raised when a logo, template or branding value cannot be used
+ */
+export class BrandingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BrandingError';
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * "#1f3864" or "1F3864" → "1F3864"; undefined if not a 6-digit hex colour
+ */
+export function normaliseColor(value: string | undefined): string | undefined {
+  const match = value?.trim().match(HEX_COLOR_PATTERN);
+  return match ? match[1].toUpperCase() : undefined;
+}
+
+/**
+ * The organisation's section order, dropping unknown or repeated ids and
+ * appending any sections it leaves out in their default position
+ */
+export function resolveSectionOrder(order: DocxSectionId[] | undefined): DocxSectionId[] {
+  const known = DOCX_SECTIONS.map(({ id }) => id);
+  const chosen = (order || []).filter((id, idx, all) => known.includes(id) && all.indexOf(id) === idx);
+  return [...chosen, ...known.filter((id) => !chosen.includes(id))];
+}
+
+export function sectionTitle(id: DocxSectionId): string {
+  return DOCX_SECTIONS.find((section) => section.id === id)?.title || id;
+}
+
+export function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Image type and bytes of a logo, for docx ImageRun
+ */
+export function decodeLogo(logo: BrandingLogo): { type: 'png' | 'jpg'; data: Uint8Array } {
+  const match = logo.dataUrl.match(LOGO_DATA_URL_PATTERN);
+  if (!match) throw new BrandingError('Logo must be a PNG or JPEG image');
+  return { type: match[1] === 'png' ? 'png' : 'jpg', data: decodeBase64(match[2]) };
+}
+
+/**
+ * Scale a logo to fit within a box (in pixels), keeping its aspect ratio
+ */
+export function fitLogo(logo: BrandingLogo, maxWidth: number, maxHeight: number): { width: number; height: number } {
+  const scale = Math.min(maxWidth / logo.width, maxHeight / logo.height, 1);
+  return { width: Math.round(logo.width * scale), height: Math.round(logo.height * scale) };
+}
+
+/**
+ * Values for the template's text placeholders (empty string when unset, so
+ * an unused field does not leave "{{...}}" in the document)
+ */
+export function templateValues(plan: GeneratedPlan, branding: OrganisationBranding): Record<string, string> {
+  const control = branding.documentControl || {};
+  return {
+    rto_name: branding.rtoName || '',
+    rto_number: branding.rtoNumber || '',
+    qualification_title: plan.meta.qualification.title,
+    qualification_code: plan.meta.qualification.code || '',
+    document_number: control.documentNumber || '',
+    version: control.version || '',
+    owner: control.owner || '',
+    approved_by: control.approvedBy || '',
+    approval_date: control.approvalDate || '',
+    review_date: control.reviewDate || '',
+    generated_date: plan.metadata.generated_at.split('T')[0],
+  };
+}
+
+// ============================================================================
+// Template upload
+// ============================================================================
+
+/**
+ * Check an uploaded .docx and record its placeholders
+ *
+ * @throws BrandingError if the file is too large, not a Word document, or
+ * has no {{tas_content}} placeholder
+ */
+export async function readDocxTemplate(name: string, bytes: Uint8Array): Promise<DocxTemplateFile> {
+  if (bytes.length > MAX_TEMPLATE_BYTES) {
+    throw new BrandingError(`Template is too large (maximum ${MAX_TEMPLATE_BYTES / 1024} KB)`);
+  }
+
+  let placeholders: readonly string[];
+  try {
+    placeholders = await patchDetector({ data: bytes });
+  } catch {
+    throw new BrandingError('Template could not be read. Upload a Word .docx file.');
+  }
+
+  if (!placeholders.includes(CONTENT_PLACEHOLDER)) {
+    throw new BrandingError(
+      `Template has no {{${CONTENT_PLACEHOLDER}}} placeholder. Add it on its own line where the plan should go.`
+    );
+  }
+
+  return { name, data: encodeBase64(bytes), placeholders: [...new Set(placeholders)] };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+function isVersionEntry(value: unknown): value is VersionHistoryEntry {
+  const entry = value as VersionHistoryEntry;
+  return (
+    !!entry &&
+    typeof entry.version === 'string' &&
+    typeof entry.date === 'string' &&
+    typeof entry.changes === 'string' &&
+    isOptionalString(entry.author)
+  );
+}
+
+/**
+ * Check branding received by the server (POST /api/export)
+ *
+ * @returns The branding with colours normalised, or an error message
+ */
+export function validateBranding(value: unknown): { branding: OrganisationBranding } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return { error: 'Expected a branding object' };
+
+  const branding = value as OrganisationBranding;
+  if (!isOptionalString(branding.rtoName) || !isOptionalString(branding.rtoNumber)) {
+    return { error: 'rtoName and rtoNumber must be strings' };
+  }
+  for (const key of ['primaryColor', 'accentColor'] as const) {
+    if (branding[key] !== undefined && !normaliseColor(branding[key])) {
+      return { error: `${key} must be a 6-digit hex colour` };
+    }
+  }
+  if (branding.logo !== undefined) {
+    const { logo } = branding;
+    if (!logo || !LOGO_DATA_URL_PATTERN.test(logo.dataUrl) || !(logo.width > 0) || !(logo.height > 0)) {
+      return { error: 'logo must be a PNG or JPEG data URL with its width and height' };
+    }
+    if (logo.dataUrl.length > (MAX_LOGO_BYTES * 4) / 3 + 100) {
+      return { error: `logo must be at most ${MAX_LOGO_BYTES / 1024} KB` };
+    }
+  }
+  if (branding.documentControl !== undefined) {
+    const control = branding.documentControl;
+    if (!control || typeof control !== 'object' || !Object.values(control).every(isOptionalString)) {
+      return { error: 'documentControl fields must be strings' };
+    }
+  }
+  if (branding.versionHistory !== undefined) {
+    if (!Array.isArray(branding.versionHistory) || !branding.versionHistory.every(isVersionEntry)) {
+      return { error: 'versionHistory entries need version, date and changes' };
+    }
+  }
+  if (branding.sectionOrder !== undefined && !Array.isArray(branding.sectionOrder)) {
+    return { error: 'sectionOrder must be an array of section ids' };
+  }
+  if (branding.template !== undefined) {
+    const { template } = branding;
+    if (!template || typeof template.data !== 'string' || typeof template.name !== 'string') {
+      return { error: 'template must include name and base64 data' };
+    }
+    if (template.data.length > (MAX_TEMPLATE_BYTES * 4) / 3 + 100) {
+      return { error: `template must be at most ${MAX_TEMPLATE_BYTES / 1024} KB` };
+    }
+  }
+
+  return {
+    branding: {
+      ...branding,
+      ...(branding.primaryColor ? { primaryColor: normaliseColor(branding.primaryColor) } : {}),
+      ...(branding.accentColor ? { accentColor: normaliseColor(branding.accentColor) } : {}),
+      ...(branding.sectionOrder ? { sectionOrder: resolveSectionOrder(branding.sectionOrder) } : {}),
+    },
+  };
+}
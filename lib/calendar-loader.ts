@@ -0,0 +1,44 @@
+/**
+ * Closure Calendar Loader (server only)
+ *
+ * Reads the closure calendar configured by CLOSURE_CALENDAR_FILE (see
+ * lib/delivery-calendar.ts for the format) and caches it until the file
+ * changes. A missing file means no closures: plans are still dated around
+ * public holidays.
+ */
+
+import { readFile, stat } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+import { config } from '@/config/env';
+import { parseClosureCalendar } from '@/lib/delivery-calendar';
+import type { Closure } from '@/lib/delivery-calendar';
+
+let cached: { path: string; mtimeMs: number; closures: Closure[] } | null = null;
+
+/**
+ * Load the configured closure calendar
+ *
+ * @param file - Override for the configured calendar file
+ * @throws {CalendarError} If the file exists but cannot be parsed
+ */
+export async function loadClosures(file: string = config.closureCalendarFile): Promise<Closure[]> {
+  const path = isAbsolute(file) ? file : join(process.cwd(), file);
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(path)).mtimeMs;
+  } catch {
+    console.warn(`[CALENDAR] No closure calendar at ${path}; only public holidays are skipped`);
+    return [];
+  }
+
+  if (cached && cached.path === path && cached.mtimeMs === mtimeMs) {
+    return cached.closures;
+  }
+
+  const { closures } = parseClosureCalendar(await readFile(path, 'utf-8'));
+  console.log(`[CALENDAR] Loaded ${closures.length} closures from ${file}`);
+  cached = { path, mtimeMs, closures };
+
+  return closures;
+}
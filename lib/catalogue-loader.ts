@@ -0,0 +1,51 @@
+/**
+ * Training Catalogue Loader (server only)
+ *
+ * Reads the catalogue file configured by TRAINING_CATALOGUE_FILE (JSON or
+ * CSV, see lib/training-catalogue.ts) and caches the parsed catalogue until
+ * the file changes. A missing file yields an empty catalogue so generation
+ * still works without one.
+ */
+
+import { readFile, stat } from 'fs/promises';
+import { extname, isAbsolute, join } from 'path';
+import { config } from '@/config/env';
+import { TrainingCatalogue, parseCatalogueCSV, parseCatalogueJSON } from '@/lib/training-catalogue';
+
+let cached: { path: string; mtimeMs: number; catalogue: TrainingCatalogue } | null = null;
+
+/**
+ * Load the configured training catalogue
+ *
+ * @param file - Override for the configured catalogue file
+ * @throws {CatalogueError} If the file exists but cannot be parsed
+ */
+export async function loadTrainingCatalogue(file: string = config.catalogueFile): Promise<TrainingCatalogue> {
+  const path = isAbsolute(file) ? file : join(process.cwd(), file);
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(path)).mtimeMs;
+  } catch {
+    console.warn(`[CATALOGUE] No training catalogue at ${path}; unit lookups are disabled`);
+    return new TrainingCatalogue();
+  }
+
+  if (cached && cached.path === path && cached.mtimeMs === mtimeMs) {
+    return cached.catalogue;
+  }
+
+  const text = await readFile(path, 'utf-8');
+  const data = extname(path).toLowerCase() === '.csv' ? parseCatalogueCSV(text) : parseCatalogueJSON(text);
+  const catalogue = new TrainingCatalogue(data);
+
+  console.log(
+    `[CATALOGUE] Loaded ${data.qualifications.length} qualifications and ${data.units.length} units from ${file}`
+  );
+  if (catalogue.isSample) {
+    console.warn(`[CATALOGUE] ${file} is sample data; unit checks against it are advisory only`);
+  }
+  cached = { path, mtimeMs, catalogue };
+
+  return catalogue;
+}
@@ -7,6 +7,7 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { config } from '@/config/env';
+import { LLMProvider, AnthropicProvider, createProvider } from '@/lib/llm-provider';
 
 /**
  * Options for generation requests
@@ -63,6 +64,9 @@ export interface ClientConfig {
 
   /** Enable debug logging */
   debug?: boolean;
+
+  /** LLM provider to call (defaults to an AnthropicProvider for apiKey) */
+  provider?: LLMProvider;
 }
 
 /**
@@ -97,7 +101,7 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
  * with built-in retry logic, error handling, and logging.
  */
 export class ClaudeClient {
-  private client: Anthropic;
+  private provider: LLMProvider;
   private model: string;
   private retryConfig: RetryConfig;
   private debug: boolean;
@@ -105,7 +109,7 @@ export class ClaudeClient {
   /**
    * Creates a new Claude API client
    *
-   * @param apiKey - Anthropic API key
+   * @param apiKey - Anthropic API key (unused when clientConfig.provider is given)
    * @param model - Model identifier (defaults to config value)
    */
   constructor(
@@ -113,23 +117,14 @@ export class ClaudeClient {
     model?: string,
     clientConfig?: Partial<ClientConfig>
   ) {
-    if (!apiKey) {
-      throw new ClaudeAPIError(
-        'API key is required. Please set ANTHROPIC_API_KEY environment variable.'
-      );
-    }
+    this.model = model || config.model || 'claude-3-5-sonnet-20241022';
 
-    if (apiKey === 'your-key-here' || apiKey === 'your_api_key_here') {
-      throw new ClaudeAPIError(
-        'Invalid API key. Please replace the placeholder with a valid Anthropic API key.'
-      );
+    if (clientConfig?.provider) {
+      this.provider = clientConfig.provider;
+    } else {
+      this.provider = ClaudeClient.createAnthropicProvider(apiKey, this.model);
     }
 
-    this.client = new Anthropic({
-      apiKey,
-    });
-
-    this.model = model || config.model || 'claude-3-5-sonnet-20241022';
     this.retryConfig = {
       ...DEFAULT_RETRY_CONFIG,
       ...clientConfig?.retry,
@@ -137,11 +132,31 @@ export class ClaudeClient {
     this.debug = clientConfig?.debug || config.isDevelopment;
 
     this.log('Claude client initialized', {
+      provider: this.provider.name,
       model: this.model,
       retryConfig: this.retryConfig,
     });
   }
 
+  /**
+   * Validate the API key and build the default Anthropic provider
+   */
+  private static createAnthropicProvider(apiKey: string, model: string): LLMProvider {
+    if (!apiKey) {
+      throw new ClaudeAPIError(
+        'API key is required. Please set ANTHROPIC_API_KEY environment variable.'
+      );
+    }
+
+    if (apiKey === 'your-key-here' || apiKey === 'your_api_key_here') {
+      throw new ClaudeAPIError(
+        'Invalid API key. Please replace the placeholder with a valid Anthropic API key.'
+      );
+    }
+
+    return new AnthropicProvider(apiKey, model);
+  }
+
   /**
    * Internal logging method
    */
@@ -300,20 +315,15 @@ export class ClaudeClient {
 
     const response = await this.executeWithRetry(
       async () => {
-        return await this.client.messages.create({
+        return await this.provider.complete({
           model: this.model,
-          max_tokens: options.maxTokens || 4096,
+          maxTokens: options.maxTokens || 4096,
           temperature: options.temperature ?? 1.0,
-          top_p: options.topP,
-          top_k: options.topK,
-          stop_sequences: options.stopSequences,
+          topP: options.topP,
+          topK: options.topK,
+          stopSequences: options.stopSequences,
           system: systemPrompt,
-          messages: [
-            {
-              role: 'user',
-              content: userPrompt,
-            },
-          ],
+          prompt: userPrompt,
         });
       },
       'generate'
@@ -323,18 +333,12 @@ export class ClaudeClient {
 
     this.log('Generation complete', {
       duration_ms: duration,
-      input_tokens: response.usage.input_tokens,
-      output_tokens: response.usage.output_tokens,
-      stop_reason: response.stop_reason,
+      input_tokens: response.usage?.input_tokens,
+      output_tokens: response.usage?.output_tokens,
+      stop_reason: response.stopReason,
     });
 
-    // Extract text content
-    const textContent = response.content
-      .filter((block) => block.type === 'text')
-      .map((block) => ('text' in block ? block.text : ''))
-      .join('\n');
-
-    return textContent;
+    return response.text;
   }
 
   /**
@@ -421,6 +425,13 @@ Respond with JSON only, no other text.`;
     }
   }
 
+  /**
+   * Get the underlying LLM provider
+   */
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
   /**
    * Get the current model identifier
    */
@@ -451,6 +462,13 @@ Respond with JSON only, no other text.`;
  * @throws {ClaudeAPIError} If API key is not configured
  */
 export function createDefaultClient(): ClaudeClient {
+  if (config.llmProvider === 'stub') {
+    return new ClaudeClient('', config.model, {
+      debug: config.isDevelopment,
+      provider: createProvider('stub'),
+    });
+  }
+
   if (!config.anthropicApiKey) {
     throw new ClaudeAPIError(
       'ANTHROPIC_API_KEY is not configured. Please set it in your .env.local file.'
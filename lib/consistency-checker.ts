@@ -0,0 +1,332 @@
+/**
+ * Deterministic Plan Consistency Checker
+ *
+ * Rules engine, independent of the LLM, that checks a plan's internal
+ * arithmetic and cross-references:
+ * - weekly_plan has one entry per week, numbered 1..N
+ * - scheduled hours (activities plus timed assessments) match
+ *   meta.duration.total_hours overall and hours_per_week for each week
+ * - every unit code referenced by a week or assessment exists in units[]
+ * - every unit is covered by at least one scheduled (summative) assessment
+ * - with a training catalogue: unit codes exist, and titles and nominal
+ *   hours match the authoritative data
+ *
+ * Issues use the same shape as reflection findings (category "consistency"),
+ * so blocking issues can drive an APRV retry and the rest can be shown to
+ * the trainer alongside reviewer notes.
+ */
+
+import type { GeneratedPlan } from '@/types/schema-types';
+import type { ReflectionFinding } from '@/types/unit-plan';
+import { getHoursPerWeek, getWeekHours } from '@/types/schema-types';
+import { TrainingCatalogue, titlesMatch } from '@/lib/training-catalogue';
+
+export type ConsistencyRule =
+  | 'week_count'
+  | 'week_numbering'
+  | 'total_hours'
+  | 'weekly_hours'
+  | 'hours_per_week'
+  | 'unknown_unit'
+  | 'unit_not_assessed'
+  | 'catalogue_unknown_unit'
+  | 'catalogue_title_mismatch'
+  | 'catalogue_nominal_hours';
+
+export interface ConsistencyIssue extends ReflectionFinding {
+  category: 'consistency';
+
+  /** Rule that produced the issue */
+  rule: ConsistencyRule;
+}
+
+export interface ConsistencyReport {
+  /** True when there are no blocking issues */
+  passed: boolean;
+
+  issues: ConsistencyIssue[];
+
+  totals: {
+    /** Sum of activity and assessment hours across all weeks */
+    scheduled_hours: number;
+
+    /** meta.duration.total_hours */
+    planned_hours: number;
+
+    /** weekly_plan.length */
+    scheduled_weeks: number;
+
+    /** meta.duration.weeks */
+    planned_weeks: number;
+  };
+}
+
+export interface ConsistencyOptions {
+  /** Authoritative unit data; an empty catalogue disables the catalogue rules */
+  catalogue?: TrainingCatalogue;
+}
+
+/** Total-hours drift (as a fraction of planned hours) that makes a plan unusable */
+const TOTAL_HOURS_BLOCKING_RATIO = 0.1;
+
+/** Per-week drift from hours_per_week worth a warning */
+const WEEKLY_HOURS_WARNING_RATIO = 0.25;
+
+/** Differences smaller than this are rounding, not inconsistency */
+const HOURS_EPSILON = 0.5;
+
+/**
+ * Run every consistency rule against a plan
+ *
+ * @param plan - Schema-valid plan
+ * @param options - Optional training catalogue to check units against
+ * @returns Issues (blocking first) and the totals they were computed from
+ */
+export function checkPlanConsistency(plan: GeneratedPlan, options: ConsistencyOptions = {}): ConsistencyReport {
+  const weekHours = plan.weekly_plan.map(getWeekHours);
+  const totals = {
+    scheduled_hours: roundHours(weekHours.reduce((sum, hours) => sum + hours, 0)),
+    planned_hours: plan.meta.duration.total_hours,
+    scheduled_weeks: plan.weekly_plan.length,
+    planned_weeks: plan.meta.duration.weeks,
+  };
+
+  const issues = [
+    ...checkWeeks(plan),
+    ...checkHours(plan, weekHours, totals.scheduled_hours),
+    ...checkUnitReferences(plan),
+    ...checkUnitAssessment(plan),
+    ...(options.catalogue?.size ? checkCatalogue(plan, options.catalogue) : []),
+  ].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  return {
+    passed: !issues.some((issue) => issue.severity === 'blocking'),
+    issues,
+    totals,
+  };
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+function checkWeeks(plan: GeneratedPlan): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const { weeks } = plan.meta.duration;
+
+  if (plan.weekly_plan.length !== weeks) {
+    issues.push(
+      issue(
+        'week_count',
+        'blocking',
+        '/weekly_plan',
+        `Plan has ${plan.weekly_plan.length} weekly entries but the duration is ${weeks} weeks`,
+        `Provide exactly one weekly_plan entry per week (1 to ${weeks})`
+      )
+    );
+  }
+
+  plan.weekly_plan.forEach((week, idx) => {
+    if (week.week_number !== idx + 1) {
+      issues.push(
+        issue(
+          'week_numbering',
+          'warning',
+          `/weekly_plan/${idx}/week_number`,
+          `Entry ${idx + 1} is numbered week ${week.week_number}`,
+          'Number weeks sequentially from 1'
+        )
+      );
+    }
+  });
+
+  return issues;
+}
+
+function checkHours(plan: GeneratedPlan, weekHours: number[], scheduledHours: number): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const { total_hours, weeks, hours_per_week } = plan.meta.duration;
+
+  const totalDrift = Math.abs(scheduledHours - total_hours);
+  if (totalDrift > HOURS_EPSILON) {
+    issues.push(
+      issue(
+        'total_hours',
+        totalDrift > total_hours * TOTAL_HOURS_BLOCKING_RATIO ? 'blocking' : 'warning',
+        '/meta/duration/total_hours',
+        `Scheduled activities and assessments add up to ${scheduledHours} hours but the plan specifies ${total_hours} total hours`,
+        'Adjust activity and assessment durations so the weekly totals sum to the total hours'
+      )
+    );
+  }
+
+  if (hours_per_week !== undefined && Math.abs(hours_per_week * weeks - total_hours) > HOURS_EPSILON) {
+    issues.push(
+      issue(
+        'hours_per_week',
+        'warning',
+        '/meta/duration/hours_per_week',
+        `${hours_per_week} hours per week over ${weeks} weeks is ${roundHours(hours_per_week * weeks)} hours, not ${total_hours}`,
+        `Set hours_per_week to ${getHoursPerWeek(plan)}`
+      )
+    );
+  }
+
+  const expected = hours_per_week ?? getHoursPerWeek(plan);
+  weekHours.forEach((hours, idx) => {
+    const drift = Math.abs(hours - expected);
+    if (drift > HOURS_EPSILON && drift > expected * WEEKLY_HOURS_WARNING_RATIO) {
+      issues.push(
+        issue(
+          'weekly_hours',
+          'warning',
+          `/weekly_plan/${idx}/activities`,
+          `Week ${plan.weekly_plan[idx].week_number} schedules ${roundHours(hours)} hours against ${expected} hours per week`,
+          'Rebalance activities across weeks or confirm the uneven load is intended'
+        )
+      );
+    }
+  });
+
+  return issues;
+}
+
+function checkUnitReferences(plan: GeneratedPlan): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const known = new Set(plan.units.map((unit) => unit.unit_code));
+
+  plan.weekly_plan.forEach((week, weekIdx) => {
+    (week.units_covered || []).forEach((code, codeIdx) => {
+      if (!known.has(code)) {
+        issues.push(
+          issue(
+            'unknown_unit',
+            'warning',
+            `/weekly_plan/${weekIdx}/units_covered/${codeIdx}`,
+            `Week ${week.week_number} covers ${code}, which is not in the unit list`,
+            `Add ${code} to units or remove it from the week`
+          )
+        );
+      }
+    });
+
+    (week.assessments || []).forEach((assessment, assessmentIdx) => {
+      assessment.units_assessed.forEach((code, codeIdx) => {
+        if (!known.has(code)) {
+          issues.push(
+            issue(
+              'unknown_unit',
+              'blocking',
+              `/weekly_plan/${weekIdx}/assessments/${assessmentIdx}/units_assessed/${codeIdx}`,
+              `"${assessment.title}" assesses ${code}, which is not in the unit list`,
+              `Add ${code} to units or assess a listed unit instead`
+            )
+          );
+        }
+      });
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Every unit needs at least one scheduled assessment. Assessments in
+ * weekly_plan are the summative tasks learners are actually given; a unit's
+ * assessment_tasks only describe intent.
+ */
+function checkUnitAssessment(plan: GeneratedPlan): ConsistencyIssue[] {
+  const assessed = new Set(
+    plan.weekly_plan.flatMap((week) => (week.assessments || []).flatMap((assessment) => assessment.units_assessed))
+  );
+
+  return plan.units
+    .map((unit, idx) => ({ unit, idx }))
+    .filter(({ unit }) => !assessed.has(unit.unit_code))
+    .map(({ unit, idx }) =>
+      issue(
+        'unit_not_assessed',
+        'blocking',
+        `/units/${idx}`,
+        `${unit.unit_code} ${unit.unit_title} has no scheduled summative assessment`,
+        `Schedule an assessment in weekly_plan whose units_assessed includes ${unit.unit_code}`
+      )
+    );
+}
+
+/**
+ * Units must exist in the catalogue with their catalogue title; a wrong
+ * title means the model invented or misremembered the unit. Against a
+ * sample catalogue a wrong title is only a warning.
+ */
+function checkCatalogue(plan: GeneratedPlan, catalogue: TrainingCatalogue): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const titleSeverity = catalogue.isSample ? 'warning' : 'blocking';
+
+  plan.units.forEach((unit, idx) => {
+    const entry = catalogue.findUnit(unit.unit_code);
+
+    if (!entry) {
+      issues.push(
+        issue(
+          'catalogue_unknown_unit',
+          'warning',
+          `/units/${idx}/unit_code`,
+          `${unit.unit_code} is not in the training package catalogue`,
+          'Check the code on training.gov.au; it may be superseded or mistyped'
+        )
+      );
+      return;
+    }
+
+    if (!titlesMatch(unit.unit_title, entry.title)) {
+      issues.push(
+        issue(
+          'catalogue_title_mismatch',
+          titleSeverity,
+          `/units/${idx}/unit_title`,
+          `${unit.unit_code} is titled "${unit.unit_title}" but the catalogue title is "${entry.title}"`,
+          `Use the catalogue title "${entry.title}"`
+        )
+      );
+    }
+
+    if (entry.nominal_hours !== undefined && unit.nominal_hours !== entry.nominal_hours) {
+      issues.push(
+        issue(
+          'catalogue_nominal_hours',
+          'warning',
+          `/units/${idx}/nominal_hours`,
+          `${unit.unit_code} has ${unit.nominal_hours} nominal hours but the catalogue lists ${entry.nominal_hours}`,
+          `Set nominal_hours to ${entry.nominal_hours}`
+        )
+      );
+    }
+  });
+
+  return issues;
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+const SEVERITY_ORDER: Record<ConsistencyIssue['severity'], number> = {
+  blocking: 0,
+  warning: 1,
+  info: 2,
+};
+
+function issue(
+  rule: ConsistencyRule,
+  severity: ConsistencyIssue['severity'],
+  path: string,
+  message: string,
+  suggested_fix: string
+): ConsistencyIssue {
+  return { rule, severity, category: 'consistency', path, message, suggested_fix };
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 10) / 10;
+}
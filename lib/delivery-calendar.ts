@@ -0,0 +1,484 @@
+/**
+ * Delivery Calendar
+ *
+ * Works out the real session dates for each week of a plan from its start
+ * date, the delivery days, the state or territory's public holidays and the
+ * RTO's closure calendar (term breaks, shutdowns, show days):
+ * - Week 1 is the seven days from the start date; each week follows on.
+ * - A delivery day that falls on a public holiday or closure is lost, and the
+ *   week is a short week.
+ * - A week that loses every session (a term break) is not a teaching week;
+ *   the plan week moves to the next week with at least one session.
+ *
+ * Public holidays come from each jurisdiction's standing rules, so any year
+ * is covered. Days proclaimed year by year (WA King's Birthday, the AFL Grand
+ * Final Friday, regional show days) belong in the closure calendar. The
+ * server loads that file in lib/calendar-loader.ts; everything here is pure.
+ */
+
+import type {
+  AustralianState,
+  DeliveryDay,
+  DeliverySchedule,
+  GeneratedPlan,
+  SessionTimes,
+  WeekClosure,
+  WeekDates,
+  WeeklyPlanItem,
+} from '@/types/schema-types';
+import { calculateWeekDateRange } from '@/types/schema-types';
+
+export const AUSTRALIAN_STATES: Record<AustralianState, string> = {
+  ACT: 'Australian Capital Territory',
+  NSW: 'New South Wales',
+  NT: 'Northern Territory',
+  QLD: 'Queensland',
+  SA: 'South Australia',
+  TAS: 'Tasmania',
+  VIC: 'Victoria',
+  WA: 'Western Australia',
+};
+
+/** In week order, Monday first */
+export const DELIVERY_DAYS: DeliveryDay[] = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+];
+
+/** Used when the intake gives a start date but no delivery days */
+export const DEFAULT_DELIVERY_DAYS: DeliveryDay[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+
+/** Consecutive weeks without a session before scheduling gives up */
+const MAX_EMPTY_WEEKS = 26;
+
+/**
+ * A closure from the calendar file: one day, or `start` to `end` inclusive
+ */
+export interface Closure {
+  name: string;
+  start: string;
+  end?: string;
+  /** Limit the closure to campuses in these states (all states if omitted) */
+  states?: AustralianState[];
+}
+
+export interface ClosureCalendar {
+  closures: Closure[];
+}
+
+/**
+ * Everything needed to date a plan's weeks
+ */
+export interface PlanCalendar {
+  start_date: string;
+  schedule: DeliverySchedule;
+  closures: Closure[];
+}
+
+export interface Holiday {
+  date: string;
+  name: string;
+}
+
+/**
+ * Raised for a malformed closure calendar or a schedule that cannot be met
+ */
+export class CalendarError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarError';
+  }
+}
+
+// ============================================================================
+// Dates (YYYY-MM-DD strings, arithmetic in UTC so there is no DST drift)
+// ============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isCalendarDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function toDate(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * 24-hour "HH:MM"
+ */
+export function isTimeOfDay(value: unknown): value is string {
+  return typeof value === 'string' && TIME_PATTERN.test(value);
+}
+
+export function addDays(value: string, days: number): string {
+  const date = toDate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toISODate(date);
+}
+
+function ymd(year: number, month: number, day: number): string {
+  return toISODate(new Date(Date.UTC(year, month - 1, day)));
+}
+
+function dayOfWeek(value: string): DeliveryDay {
+  return DELIVERY_DAYS[(toDate(value).getUTCDay() + 6) % 7];
+}
+
+function isWeekend(value: string): boolean {
+  const day = dayOfWeek(value);
+  return day === 'saturday' || day === 'sunday';
+}
+
+/**
+ * The nth given weekday of a month
+ */
+function nthWeekday(year: number, month: number, weekday: DeliveryDay, n: number): string {
+  const target = (DELIVERY_DAYS.indexOf(weekday) + 1) % 7;
+  const first = new Date(Date.UTC(year, month - 1, 1));
+  const offset = (target - first.getUTCDay() + 7) % 7;
+  return ymd(year, month, 1 + offset + (n - 1) * 7);
+}
+
+/**
+ * The first given weekday after a date
+ */
+function nextWeekday(value: string, weekday: DeliveryDay): string {
+  let date = addDays(value, 1);
+  while (dayOfWeek(date) !== weekday) date = addDays(date, 1);
+  return date;
+}
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return ymd(year, month, day);
+}
+
+// ============================================================================
+// Public Holidays
+// ============================================================================
+
+/**
+ * Public holidays for a year, national ones only if no state is given
+ *
+ * New Year's Day, Australia Day, Christmas and Boxing Day falling on a
+ * weekend are also observed on the following weekday(s).
+ */
+export function getPublicHolidays(year: number, state?: AustralianState): Holiday[] {
+  const easter = easterSunday(year);
+  const holidays: Holiday[] = [
+    { date: addDays(easter, -2), name: 'Good Friday' },
+    { date: addDays(easter, 1), name: 'Easter Monday' },
+    { date: ymd(year, 4, 25), name: 'Anzac Day' },
+  ];
+  const add = (states: AustralianState[], date: string, name: string) => {
+    if (state && states.includes(state)) holidays.push({ date, name });
+  };
+
+  add(['ACT', 'NSW', 'NT', 'QLD', 'SA', 'VIC'], addDays(easter, -1), 'Easter Saturday');
+  add(['ACT', 'NSW', 'QLD', 'VIC', 'WA'], easter, 'Easter Sunday');
+
+  // Labour Day (Eight Hours Day in Tasmania, May Day in the NT)
+  add(['WA'], nthWeekday(year, 3, 'monday', 1), 'Labour Day');
+  add(['VIC'], nthWeekday(year, 3, 'monday', 2), 'Labour Day');
+  add(['TAS'], nthWeekday(year, 3, 'monday', 2), 'Eight Hours Day');
+  add(['QLD'], nthWeekday(year, 5, 'monday', 1), 'Labour Day');
+  add(['NT'], nthWeekday(year, 5, 'monday', 1), 'May Day');
+  add(['ACT', 'NSW', 'SA'], nthWeekday(year, 10, 'monday', 1), 'Labour Day');
+
+  // King's Birthday (WA's is proclaimed each year)
+  add(['ACT', 'NSW', 'NT', 'SA', 'TAS', 'VIC'], nthWeekday(year, 6, 'monday', 2), "King's Birthday");
+  add(['QLD'], nthWeekday(year, 10, 'monday', 1), "King's Birthday");
+
+  add(['ACT'], nthWeekday(year, 3, 'monday', 2), 'Canberra Day');
+  add(['ACT'], nextWeekday(ymd(year, 5, 26), 'monday'), 'Reconciliation Day');
+  add(['SA'], nthWeekday(year, 3, 'monday', 2), 'Adelaide Cup Day');
+  add(['WA'], nthWeekday(year, 6, 'monday', 1), 'Western Australia Day');
+  add(['NT'], nthWeekday(year, 8, 'monday', 1), 'Picnic Day');
+  add(['VIC'], nthWeekday(year, 11, 'tuesday', 1), 'Melbourne Cup Day');
+
+  // Fixed dates, in order, so a weekend Christmas and Boxing Day take the next free weekdays
+  const fixed: Holiday[] = [
+    { date: ymd(year, 1, 1), name: "New Year's Day" },
+    { date: ymd(year, 1, 26), name: 'Australia Day' },
+    { date: ymd(year, 12, 25), name: 'Christmas Day' },
+    { date: ymd(year, 12, 26), name: state === 'SA' ? 'Proclamation Day' : 'Boxing Day' },
+  ];
+  const taken = new Set(fixed.map((holiday) => holiday.date));
+  for (const holiday of fixed) {
+    holidays.push(holiday);
+    if (!isWeekend(holiday.date)) continue;
+
+    let observed = addDays(holiday.date, 1);
+    while (isWeekend(observed) || taken.has(observed)) observed = addDays(observed, 1);
+    taken.add(observed);
+    holidays.push({ date: observed, name: `${holiday.name} (observed)` });
+  }
+
+  // WA also moves a weekend Anzac Day to the Monday
+  const anzac = ymd(year, 4, 25);
+  if (state === 'WA' && isWeekend(anzac)) {
+    holidays.push({ date: nextWeekday(anzac, 'monday'), name: 'Anzac Day (observed)' });
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ============================================================================
+// Closure Calendar
+// ============================================================================
+
+/**
+ * Parse and check a closure calendar file
+ *
+ * @throws CalendarError naming the first malformed closure
+ */
+export function parseClosureCalendar(text: string): ClosureCalendar {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new CalendarError(`Closure calendar is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const list = Array.isArray(parsed) ? parsed : parsed?.closures;
+  if (!Array.isArray(list)) {
+    throw new CalendarError('Closure calendar must be an array of closures or { "closures": [...] }');
+  }
+
+  const closures = list.map((raw: any, index: number): Closure => {
+    const where = `Closure ${index + 1}${typeof raw?.name === 'string' ? ` (${raw.name})` : ''}`;
+    if (!raw || typeof raw.name !== 'string' || !raw.name.trim()) {
+      throw new CalendarError(`${where}: name is required`);
+    }
+    if (!isCalendarDate(raw.start)) {
+      throw new CalendarError(`${where}: start must be a YYYY-MM-DD date`);
+    }
+    if (raw.end !== undefined && (!isCalendarDate(raw.end) || raw.end < raw.start)) {
+      throw new CalendarError(`${where}: end must be a YYYY-MM-DD date on or after start`);
+    }
+    if (
+      raw.states !== undefined &&
+      (!Array.isArray(raw.states) || raw.states.some((s: unknown) => !(typeof s === 'string' && s in AUSTRALIAN_STATES)))
+    ) {
+      throw new CalendarError(`${where}: states must list codes from ${Object.keys(AUSTRALIAN_STATES).join(', ')}`);
+    }
+
+    return {
+      name: raw.name.trim(),
+      start: raw.start,
+      ...(raw.end ? { end: raw.end } : {}),
+      ...(raw.states ? { states: raw.states } : {}),
+    };
+  });
+
+  return { closures };
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Build the calendar for a plan, or undefined without a start date
+ *
+ * @throws CalendarError for an invalid start date or session times
+ */
+export function planCalendar(
+  startDate: string | undefined,
+  schedule: Partial<DeliverySchedule> | undefined,
+  closures: Closure[]
+): PlanCalendar | undefined {
+  if (!startDate) return undefined;
+  if (!isCalendarDate(startDate)) {
+    throw new CalendarError(`Start date ${startDate} is not a valid YYYY-MM-DD date`);
+  }
+
+  const times = schedule?.session_times;
+  if (times && (!isTimeOfDay(times.start) || !isTimeOfDay(times.end) || times.end <= times.start)) {
+    throw new CalendarError('Session times must be HH:MM with the end after the start');
+  }
+
+  const days = DELIVERY_DAYS.filter((day) => schedule?.delivery_days?.includes(day));
+  return {
+    start_date: startDate,
+    schedule: {
+      ...(schedule?.state ? { state: schedule.state } : {}),
+      delivery_days: days.length > 0 ? days : DEFAULT_DELIVERY_DAYS,
+      ...(times ? { session_times: { start: times.start, end: times.end } } : {}),
+    },
+    closures,
+  };
+}
+
+/**
+ * Dates for the first `count` teaching weeks
+ *
+ * @throws CalendarError if the closures leave no sessions for half a year
+ */
+export function scheduleWeeks(calendar: PlanCalendar, count: number): WeekDates[] {
+  const { state, delivery_days } = calendar.schedule;
+  const closures = calendar.closures.filter((closure) => !closure.states || (state && closure.states.includes(state)));
+
+  const holidaysByYear = new Map<number, Map<string, string>>();
+  const closedFor = (date: string): string | undefined => {
+    const year = Number(date.slice(0, 4));
+    if (!holidaysByYear.has(year)) {
+      holidaysByYear.set(year, new Map(getPublicHolidays(year, state).map((h) => [h.date, h.name])));
+    }
+    const holiday = holidaysByYear.get(year)!.get(date);
+    if (holiday) return holiday;
+    return closures.find((closure) => date >= closure.start && date <= (closure.end || closure.start))?.name;
+  };
+
+  const weeks: WeekDates[] = [];
+  let start = calendar.start_date;
+  let emptyWeeks = 0;
+
+  while (weeks.length < count) {
+    const sessions: string[] = [];
+    const lost: WeekClosure[] = [];
+
+    for (let offset = 0; offset < 7; offset++) {
+      const date = addDays(start, offset);
+      if (!delivery_days.includes(dayOfWeek(date))) continue;
+      const reason = closedFor(date);
+      if (reason) lost.push({ date, name: reason });
+      else sessions.push(date);
+    }
+
+    if (sessions.length > 0) {
+      weeks.push({ start, end: addDays(start, 6), sessions, ...(lost.length > 0 ? { closures: lost } : {}) });
+      emptyWeeks = 0;
+    } else if (++emptyWeeks >= MAX_EMPTY_WEEKS) {
+      throw new CalendarError(
+        `No delivery days are available for ${MAX_EMPTY_WEEKS} weeks from ${addDays(start, -7 * (MAX_EMPTY_WEEKS - 1))}; check the delivery days and closure calendar`
+      );
+    }
+
+    start = addDays(start, 7);
+  }
+
+  return weeks;
+}
+
+/**
+ * Date every week of a plan and record the schedule in its meta
+ *
+ * The end date becomes the last session. Weeks are matched by week_number,
+ * so a plan with more or fewer weeks than the intake is still fully dated.
+ */
+export function applyCalendar(plan: GeneratedPlan, calendar: PlanCalendar): GeneratedPlan {
+  const count = Math.max(0, ...plan.weekly_plan.map((week) => week.week_number));
+  if (count === 0) return plan;
+
+  const weeks = scheduleWeeks(calendar, count);
+  const lastWeek = weeks[weeks.length - 1];
+
+  return {
+    ...plan,
+    meta: {
+      ...plan.meta,
+      start_date: calendar.start_date,
+      end_date: lastWeek.sessions[lastWeek.sessions.length - 1],
+      delivery_schedule: calendar.schedule,
+    },
+    weekly_plan: plan.weekly_plan.map((week) => ({ ...week, dates: weeks[week.week_number - 1] })),
+  };
+}
+
+/**
+ * Whether a dated week lost any sessions
+ */
+export function isShortWeek(dates: WeekDates | undefined): boolean {
+  return !!dates?.closures?.length;
+}
+
+// ============================================================================
+// Display
+// ============================================================================
+
+function formatDay(value: string, withWeekday = false): string {
+  return toDate(value).toLocaleDateString('en-AU', {
+    ...(withWeekday ? { weekday: 'short' } : {}),
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * "3 Feb - 9 Feb" from the week's dates, or the 7-day estimate for undated plans
+ */
+export function formatWeekRange(week: WeeklyPlanItem, startDate?: string): string {
+  if (!week.dates) return calculateWeekDateRange(startDate, week.week_number);
+  return `${formatDay(week.dates.start)} - ${formatDay(week.dates.end)}`;
+}
+
+/**
+ * "Tue 3 Feb, Thu 5 Feb"
+ */
+export function formatSessionDates(dates: WeekDates): string {
+  return dates.sessions.map((date) => formatDay(date, true)).join(', ');
+}
+
+/**
+ * "Good Friday (3 Apr), Easter Monday (6 Apr)"
+ */
+export function formatClosures(dates: WeekDates): string {
+  return (dates.closures || []).map((closure) => `${closure.name} (${formatDay(closure.date)})`).join(', ');
+}
+
+/**
+ * "9:00 am to 3:30 pm"
+ */
+export function formatSessionTimes(times: SessionTimes): string {
+  const format = (value: string) => {
+    const [hours, minutes] = value.split(':').map(Number);
+    return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${hours < 12 ? 'am' : 'pm'}`;
+  };
+  return `${format(times.start)} to ${format(times.end)}`;
+}
+
+/**
+ * "Tuesday and Thursday" / "Monday to Friday"
+ */
+export function describeDeliveryDays(days: DeliveryDay[]): string {
+  const ordered = DELIVERY_DAYS.filter((day) => days.includes(day));
+  const names = ordered.map((day) => day[0].toUpperCase() + day.slice(1));
+  const indexes = ordered.map((day) => DELIVERY_DAYS.indexOf(day));
+  const consecutive = indexes.every((index, i) => i === 0 || index === indexes[i - 1] + 1);
+
+  if (names.length >= 3 && consecutive) return `${names[0]} to ${names[names.length - 1]}`;
+  if (names.length <= 1) return names[0] || '';
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
@@ -40,13 +40,12 @@ export function ExampleDOCXExport({ plan }: { plan: GeneratedPlan }) {
 }
 
 // Example: Export to PDF from a React component
-export function ExamplePDFExport() {
+export function ExamplePDFExport({ plan }: { plan: GeneratedPlan }) {
   const handleExportPDF = async () => {
     try {
-      // This will trigger the browser's print dialog
-      // Make sure your plan is rendered in the DOM before calling this
-      await exportToPDF();
-      console.log('PDF export dialog opened');
+      // Rendered by POST /api/export, then downloaded
+      await exportToPDF(plan);
+      console.log('PDF export completed successfully');
     } catch (error) {
       console.error('PDF export failed:', error);
     }
@@ -104,7 +103,7 @@ export function ExportControls({ plan }: { plan: GeneratedPlan }) {
           await exportToDOCX(plan);
           break;
         case 'pdf':
-          await exportToPDF();
+          await exportToPDF(plan);
           break;
         case 'markdown':
           exportToMarkdown(plan);
@@ -160,87 +159,88 @@ export const mockPlan: GeneratedPlan = {
     generated_at: new Date().toISOString(),
   },
   meta: {
-    qualification: 'Certificate IV in Training and Assessment',
-    qualification_code: 'TAE40122',
-    duration_weeks: 8,
-    total_hours: 240,
+    qualification: {
+      title: 'Certificate IV in Training and Assessment',
+      code: 'TAE40122',
+      level: 'Certificate IV',
+    },
+    duration: {
+      weeks: 8,
+      total_hours: 240,
+      hours_per_week: 30,
+    },
     delivery_mode: 'blended',
     cohort_profile:
       'Adult learners with industry experience seeking to become qualified trainers. Mixed LLN levels, primarily intermediate to advanced.',
-    resources: [
-      'Computer lab with 20 workstations',
-      'Projector and whiteboard',
-      'LMS access (Moodle)',
-      'Assessment templates and exemplars',
-    ],
-    assessment_preferences: [
-      'Practical demonstrations',
-      'Written assessments',
-      'Portfolio development',
-    ],
   },
   weekly_plan: [
     {
-      week: 1,
-      topics: ['Introduction to TAE', 'Principles of training'],
+      week_number: 1,
+      week_theme: 'Introduction to TAE',
+      units_covered: ['TAEDES401'],
       activities: [
-        'Icebreaker activities (2 hours, face-to-face)',
-        'Review TAE framework (4 hours, face-to-face)',
+        { title: 'Icebreaker activities', duration_hours: 2, delivery_method: 'workshop' },
+        { title: 'Review TAE framework', duration_hours: 4, delivery_method: 'lecture' },
       ],
-      hours: 30,
       assessments: [],
     },
     {
-      week: 2,
-      topics: ['Planning training sessions', 'Session plan development'],
+      week_number: 2,
+      week_theme: 'Planning training sessions',
+      units_covered: ['TAEDES401', 'TAEDES402'],
       activities: [
-        'Develop session plans (6 hours, online)',
-        'Peer review activities (4 hours, face-to-face)',
+        { title: 'Develop session plans', duration_hours: 6, delivery_method: 'online_module' },
+        { title: 'Peer review activities', duration_hours: 4, delivery_method: 'group_work' },
       ],
-      hours: 30,
       assessments: [
         {
-          id: 'ASS001',
           title: 'Session Plan Submission',
           type: 'project',
-          units: ['TAEDES401'],
-          dueWeek: 2,
+          units_assessed: ['TAEDES401'],
+          due_date: 'Week 2',
         },
       ],
     },
   ],
   units: [
     {
-      code: 'TAEDES401',
-      title: 'Design and develop learning programs',
-      hours: 50,
-      deliveryMethod: 'blended',
-      assessmentMethods: ['Project', 'Portfolio'],
-      weekRange: [1, 4],
+      unit_code: 'TAEDES401',
+      unit_title: 'Design and develop learning programs',
+      nominal_hours: 50,
+      delivery_methods: ['blended'],
+      assessment_methods: ['project', 'portfolio'],
+      weeks_scheduled: [1, 2, 3, 4],
     },
     {
-      code: 'TAEDES402',
-      title: 'Use training packages and accredited courses',
-      hours: 40,
-      deliveryMethod: 'blended',
-      assessmentMethods: ['Written assessment', 'Practical demonstration'],
-      weekRange: [2, 5],
+      unit_code: 'TAEDES402',
+      unit_title: 'Use training packages and accredited courses',
+      nominal_hours: 40,
+      delivery_methods: ['blended'],
+      assessment_methods: ['written', 'practical'],
+      weeks_scheduled: [2, 3, 4, 5],
     },
   ],
+  resources: {
+    facilities: ['Computer lab with 20 workstations'],
+    equipment: ['Projector and whiteboard'],
+    technology: ['LMS access (Moodle)'],
+    materials: ['Assessment templates and exemplars'],
+  },
   risks: [
     {
-      category: 'risk',
-      description: 'LLN levels may vary significantly across cohort',
-      mitigation: 'Conduct pre-assessment and provide additional support',
+      risk_description: 'LLN levels may vary significantly across cohort',
+      category: 'learner',
+      likelihood: 'medium',
       impact: 'medium',
+      mitigation: 'Conduct pre-assessment and provide additional support',
     },
   ],
   assumptions: [
     {
-      category: 'assumption',
-      description: 'All learners have access to reliable internet',
-      mitigation: 'Confirm with pre-course survey',
+      assumption: 'All learners have access to reliable internet',
+      category: 'resource_availability',
+      validation_required: true,
     },
   ],
-  confidence: 0.85,
+  confidence_score: 0.85,
 };
@@ -3,11 +3,14 @@
  *
  * Provides functions to export generated unit plans in multiple formats:
  * - DOCX: Editable Word documents with professional formatting
- * - PDF: Browser-based print to PDF with optimized styles
+ * - PDF: Paginated PDF rendered on the server (lib/pdf-export.ts)
  * - Markdown: Clean, git-friendly text format
+ * - XLSX / CSV: Spreadsheet sheets rendered on the server (lib/plan-sheets.ts)
+ * - ICS: Calendar of sessions and assessment due dates (lib/ical-export.ts)
  *
  * All exports include comprehensive plan details formatted appropriately
- * for each output type.
+ * for each output type. The exportTo* functions download in the browser;
+ * lib/export-renderer.ts builds the same files on the server (POST /api/export).
  */
 
 import {
@@ -27,9 +30,43 @@ import {
   Header,
   PageNumber,
   NumberFormat,
+  ImageRun,
+  ShadingType,
+  PatchType,
+  patchDocument,
 } from 'docx';
+import type { FileChild, IStylesOptions, OutputByType } from 'docx';
 import { saveAs } from 'file-saver';
-import { GeneratedPlan, DeliveryMode } from '@/types/unit-plan';
+import {
+  GeneratedPlan,
+  DeliverySchedule,
+  BrandingLogo,
+  DocxSectionId,
+  ExportOptions,
+  OrganisationBranding,
+  PlanSheetId,
+} from '@/types/unit-plan';
+import { getWeekHours } from '@/types/schema-types';
+import {
+  describeDeliveryDays,
+  formatClosures,
+  formatSessionDates,
+  formatSessionTimes,
+  isShortWeek,
+} from '@/lib/delivery-calendar';
+import { analyzeVolumeOfLearning, formatVolumeStatus } from '@/lib/aqf-compliance';
+import {
+  BrandingError,
+  CONTENT_PLACEHOLDER,
+  DEFAULT_BRAND_COLORS,
+  decodeBase64,
+  decodeLogo,
+  fitLogo,
+  normaliseColor,
+  resolveSectionOrder,
+  sectionTitle,
+  templateValues,
+} from '@/lib/branding';
 
 // ============================================================================
 // Utility Functions
@@ -38,28 +75,63 @@ import { GeneratedPlan, DeliveryMode } from '@/types/unit-plan';
 /**
  * Generates a safe filename from plan metadata
  */
-function generateFilename(plan: GeneratedPlan, extension: string): string {
-  const qualCode = plan.meta.qualification_code || 'PLAN';
+export function generateFilename(plan: GeneratedPlan, extension: string): string {
+  const qualCode = plan.meta.qualification.code || 'PLAN';
   const date = new Date(plan.metadata.generated_at).toISOString().split('T')[0];
   return `TAS-Plan-${qualCode}-${date}.${extension}`;
 }
 
 /**
- * Formats delivery mode for display
+ * Formats delivery mode/method for display
  */
-function formatDeliveryMode(mode: DeliveryMode): string {
-  const modes = {
+export function formatDeliveryMode(mode: string): string {
+  const modes: Record<string, string> = {
     face_to_face: 'Face-to-Face',
     online: 'Online',
     blended: 'Blended',
+    workplace: 'Workplace',
+    mixed: 'Mixed Mode',
+    simulation: 'Simulation',
+    self_paced: 'Self-Paced',
   };
-  return modes[mode] || mode;
+  return modes[mode] || formatLabel(mode);
+}
+
+/**
+ * Formats a snake_case enum value for display (e.g. "case_study" → "Case Study")
+ */
+export function formatLabel(value: string): string {
+  return value
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
 }
 
+/**
+ * Resource groups in display order
+ */
+export const RESOURCE_GROUPS: { key: keyof NonNullable<GeneratedPlan['resources']>; label: string }[] = [
+  { key: 'facilities', label: 'Facilities' },
+  { key: 'equipment', label: 'Equipment' },
+  { key: 'materials', label: 'Materials' },
+  { key: 'technology', label: 'Technology' },
+  { key: 'external', label: 'External Resources' },
+];
+
+/**
+ * Compliance note fields in display order
+ */
+export const COMPLIANCE_FIELDS: { key: keyof NonNullable<GeneratedPlan['compliance_notes']>; label: string }[] = [
+  { key: 'volume_of_learning', label: 'Volume of Learning' },
+  { key: 'training_packaging_compliance', label: 'Training Package Compliance' },
+  { key: 'assessment_validation', label: 'Assessment Validation' },
+  { key: 'trainer_assessor_requirements', label: 'Trainer/Assessor Requirements' },
+];
+
 /**
  * Formats date for display
  */
-function formatDate(dateString: string): string {
+export function formatDate(dateString: string): string {
   return new Date(dateString).toLocaleDateString('en-AU', {
     year: 'numeric',
     month: 'long',
@@ -67,6 +139,14 @@ function formatDate(dateString: string): string {
   });
 }
 
+/**
+ * "Tuesday and Thursday, 9:00 am to 3:30 pm (VIC public holidays observed)"
+ */
+export function formatDeliverySchedule(schedule: DeliverySchedule): string {
+  const times = schedule.session_times ? `, ${formatSessionTimes(schedule.session_times)}` : '';
+  return `${describeDeliveryDays(schedule.delivery_days)}${times} (${schedule.state || 'national'} public holidays observed)`;
+}
+
 // ============================================================================
 // DOCX Export
 // ============================================================================
@@ -77,9 +157,59 @@ function formatDate(dateString: string): string {
  */
 export async function exportToDOCX(
   plan: GeneratedPlan,
-  filename?: string
+  filename?: string,
+  branding?: OrganisationBranding
 ): Promise<void> {
-  const doc = new Document({
+  const blob = await renderDOCX(plan, branding, 'blob');
+  const fileName = filename || generateFilename(plan, 'docx');
+  saveAs(blob, fileName);
+}
+
+/**
+ * Renders the DOCX file, into the organisation's template when it has one
+ * (shared by browser and server export)
+ *
+ * @throws BrandingError if the template cannot be filled
+ */
+export async function renderDOCX<T extends 'blob' | 'uint8array'>(
+  plan: GeneratedPlan,
+  branding: OrganisationBranding = {},
+  outputType: T
+): Promise<OutputByType[T]> {
+  if (!branding.template) {
+    return Packer.pack(createPlanDocument(plan, branding), outputType);
+  }
+
+  const textPatches = Object.entries(templateValues(plan, branding)).map(([key, value]) => [
+    key,
+    { type: PatchType.PARAGRAPH, children: [new TextRun(value)] },
+  ]);
+  try {
+    return await patchDocument({
+      outputType,
+      data: decodeBase64(branding.template.data),
+      keepOriginalStyles: true,
+      patches: {
+        ...Object.fromEntries(textPatches),
+        [CONTENT_PLACEHOLDER]: { type: PatchType.DOCUMENT, children: createPlanBody(plan, branding) },
+      },
+    });
+  } catch (error) {
+    throw new BrandingError(
+      `Template "${branding.template.name}" could not be filled: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Builds the DOCX document for a plan: title page, then the plan body,
+ * with the organisation's header, footer and heading colours
+ */
+export function createPlanDocument(plan: GeneratedPlan, branding: OrganisationBranding = {}): Document {
+  return new Document({
+    creator: branding.rtoName || 'TAS Assistant',
+    title: `TAS Unit Plan - ${plan.meta.qualification.title}`,
+    styles: createBrandStyles(branding),
     sections: [
       {
         properties: {
@@ -92,122 +222,296 @@ export async function exportToDOCX(
         },
         headers: {
           default: new Header({
-            children: [
-              new Paragraph({
-                text: 'TAS Unit Plan',
-                alignment: AlignmentType.RIGHT,
-                style: 'header',
-              }),
-            ],
+            children: [createPageHeader(branding)],
           }),
         },
         footers: {
           default: new Footer({
-            children: [
-              new Paragraph({
-                alignment: AlignmentType.CENTER,
-                children: [
-                  new TextRun({
-                    text: 'Generated by TAS Assistant - Review and customize before use | Page ',
-                    size: 18,
-                  }),
-                  new TextRun({
-                    children: [PageNumber.CURRENT],
-                    size: 18,
-                  }),
-                ],
-              }),
-            ],
+            children: createPageFooter(branding),
           }),
         },
-        children: [
-          // Title Page
-          ...createTitlePage(plan),
+        children: [...createTitlePage(plan, branding), ...createPlanBody(plan, branding)],
+      },
+    ],
+  });
+}
 
-          // Table of Contents
-          new Paragraph({
-            text: 'TABLE OF CONTENTS',
-            heading: HeadingLevel.HEADING_1,
-            pageBreakBefore: true,
-          }),
-          new TableOfContents('Table of Contents', {
-            hyperlink: true,
-            headingStyleRange: '1-3',
-          }),
+const SECTION_BUILDERS: Record<DocxSectionId, (plan: GeneratedPlan, branding: OrganisationBranding) => FileChild[]> = {
+  overview: createOverviewSection,
+  cohort: createCohortSection,
+  weekly_plan: createWeeklyPlanSection,
+  units: createUnitsSection,
+  resources: createResourcesSection,
+  risks: createRisksAssumptionsSection,
+  compliance: createComplianceSection,
+};
 
-          // Overview Section
-          new Paragraph({
-            text: '1. Overview',
-            heading: HeadingLevel.HEADING_1,
-            pageBreakBefore: true,
-          }),
-          ...createOverviewSection(plan),
+/**
+ * Document control, table of contents, then the sections in the
+ * organisation's order, numbered by position
+ */
+function createPlanBody(plan: GeneratedPlan, branding: OrganisationBranding): FileChild[] {
+  return [
+    ...createDocumentControlSection(branding),
 
-          // Cohort Profile Section
-          new Paragraph({
-            text: '2. Cohort Profile',
-            heading: HeadingLevel.HEADING_1,
-            pageBreakBefore: true,
-          }),
-          ...createCohortSection(plan),
+    // Table of Contents
+    new Paragraph({
+      text: 'TABLE OF CONTENTS',
+      heading: HeadingLevel.HEADING_1,
+      pageBreakBefore: true,
+    }),
+    new TableOfContents('Table of Contents', {
+      hyperlink: true,
+      headingStyleRange: '1-3',
+    }),
 
-          // Weekly Plan Section
-          new Paragraph({
-            text: '3. Weekly Delivery Plan',
-            heading: HeadingLevel.HEADING_1,
-            pageBreakBefore: true,
-          }),
-          ...createWeeklyPlanSection(plan),
+    ...resolveSectionOrder(branding.sectionOrder).flatMap((id, idx) => [
+      new Paragraph({
+        text: `${idx + 1}. ${sectionTitle(id)}`,
+        heading: HeadingLevel.HEADING_1,
+        pageBreakBefore: true,
+      }),
+      ...SECTION_BUILDERS[id](plan, branding),
+    ]),
+  ];
+}
 
-          // Units Section
-          new Paragraph({
-            text: '4. Units of Competency',
-            heading: HeadingLevel.HEADING_1,
-            pageBreakBefore: true,
-          }),
-          ...createUnitsSection(plan),
+// DOCX Branding Helpers
 
-          // Resources Section
-          new Paragraph({
-            text: '5. Resources & Facilities',
-            heading: HeadingLevel.HEADING_1,
-            pageBreakBefore: true,
-          }),
-          ...createResourcesSection(plan),
+/**
+ * Heading colours from the organisation's palette; Word's defaults otherwise
+ */
+function createBrandStyles(branding: OrganisationBranding): IStylesOptions | undefined {
+  const primary = normaliseColor(branding.primaryColor);
+  const accent = normaliseColor(branding.accentColor);
+  if (!primary && !accent) return undefined;
+
+  const headingColor = primary || DEFAULT_BRAND_COLORS.primary;
+  const subheadingColor = accent || headingColor;
+  return {
+    default: {
+      title: { run: { color: accent || headingColor } },
+      heading1: { run: { color: headingColor } },
+      heading2: { run: { color: subheadingColor } },
+      heading3: { run: { color: subheadingColor } },
+    },
+  };
+}
 
-          // Risks & Assumptions Section
-          new Paragraph({
-            text: '6. Risks & Assumptions',
-            heading: HeadingLevel.HEADING_1,
-            pageBreakBefore: true,
-          }),
-          ...createRisksAssumptionsSection(plan),
+/**
+ * Logo and "RTO name | RTO No. 12345" at the top right of every page
+ */
+function createPageHeader(branding: OrganisationBranding): Paragraph {
+  const rtoLine = [branding.rtoName, branding.rtoNumber ? `RTO No. ${branding.rtoNumber}` : '']
+    .filter(Boolean)
+    .join(' | ');
+
+  if (!rtoLine && !branding.logo) {
+    return new Paragraph({
+      text: 'TAS Unit Plan',
+      alignment: AlignmentType.RIGHT,
+      style: 'header',
+    });
+  }
 
-          // Compliance Notes
+  return new Paragraph({
+    alignment: AlignmentType.RIGHT,
+    children: [
+      ...(branding.logo ? [createLogoRun(branding.logo, 160, 40), new TextRun({ text: '  ' })] : []),
+      new TextRun({ text: rtoLine || 'TAS Unit Plan', size: 18 }),
+    ],
+  });
+}
+
+/**
+ * Document-control line (when set) above the page-numbered footer
+ */
+function createPageFooter(branding: OrganisationBranding): Paragraph[] {
+  const control = branding.documentControl || {};
+  const controlLine = [
+    control.documentNumber ? `Document: ${control.documentNumber}` : '',
+    control.version ? `Version: ${control.version}` : '',
+    control.approvalDate ? `Approved: ${control.approvalDate}` : '',
+    control.reviewDate ? `Review: ${control.reviewDate}` : '',
+  ]
+    .filter(Boolean)
+    .join(' | ');
+
+  return [
+    ...(controlLine
+      ? [
           new Paragraph({
-            text: '7. Compliance Notes',
-            heading: HeadingLevel.HEADING_1,
-            pageBreakBefore: true,
+            alignment: AlignmentType.CENTER,
+            children: [new TextRun({ text: controlLine, size: 16 })],
           }),
-          ...createComplianceSection(plan),
-        ],
-      },
-    ],
+        ]
+      : []),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [
+        new TextRun({
+          text: controlLine
+            ? 'Uncontrolled when printed | Page '
+            : 'Generated by TAS Assistant - Review and customize before use | Page ',
+          size: 18,
+        }),
+        new TextRun({
+          children: [PageNumber.CURRENT],
+          size: 18,
+        }),
+      ],
+    }),
+  ];
+}
+
+function createLogoRun(logo: BrandingLogo, maxWidth: number, maxHeight: number): ImageRun {
+  const { type, data } = decodeLogo(logo);
+  return new ImageRun({
+    type,
+    data,
+    transformation: fitLogo(logo, maxWidth, maxHeight),
+    altText: { name: 'Logo', description: 'Organisation logo', title: 'Logo' },
   });
+}
 
-  const blob = await Packer.toBlob(doc);
-  const fileName = filename || generateFilename(plan, 'docx');
-  saveAs(blob, fileName);
+/**
+ * Header row cell, shaded in the organisation's primary colour when set
+ */
+function createHeaderCell(text: string, widthPercent: number, branding: OrganisationBranding): TableCell {
+  const fill = normaliseColor(branding.primaryColor);
+  return new TableCell({
+    children: [
+      new Paragraph({
+        children: [new TextRun({ text, bold: true, ...(fill ? { color: 'FFFFFF' } : {}) })],
+      }),
+    ],
+    width: { size: widthPercent, type: WidthType.PERCENTAGE },
+    ...(fill ? { shading: { type: ShadingType.CLEAR, color: 'auto', fill } } : {}),
+  });
 }
 
-// DOCX Helper Functions
+const TABLE_BORDERS = {
+  top: { style: BorderStyle.SINGLE, size: 1 },
+  bottom: { style: BorderStyle.SINGLE, size: 1 },
+  left: { style: BorderStyle.SINGLE, size: 1 },
+  right: { style: BorderStyle.SINGLE, size: 1 },
+  insideHorizontal: { style: BorderStyle.SINGLE, size: 1 },
+  insideVertical: { style: BorderStyle.SINGLE, size: 1 },
+};
+
+/**
+ * Document-control table and version history (only when the organisation
+ * has filled them in)
+ */
+function createDocumentControlSection(branding: OrganisationBranding): FileChild[] {
+  const control = branding.documentControl || {};
+  const fields = (
+    [
+      ['Document Number', control.documentNumber],
+      ['Version', control.version],
+      ['Document Owner', control.owner],
+      ['Approved By', control.approvedBy],
+      ['Approval Date', control.approvalDate],
+      ['Next Review Date', control.reviewDate],
+    ] as const
+  ).filter(([, value]) => value);
+  const history = branding.versionHistory || [];
+
+  if (fields.length === 0 && history.length === 0) return [];
+
+  const cell = (text: string) => new TableCell({ children: [new Paragraph({ text })] });
 
-function createTitlePage(plan: GeneratedPlan): Paragraph[] {
   return [
     new Paragraph({
-      text: '',
-      spacing: { before: 400, after: 400 },
+      text: 'Document Control',
+      heading: HeadingLevel.HEADING_1,
+      pageBreakBefore: true,
     }),
+    ...(fields.length > 0
+      ? [
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: TABLE_BORDERS,
+            rows: fields.map(
+              ([label, value]) =>
+                new TableRow({
+                  children: [
+                    new TableCell({
+                      children: [new Paragraph({ children: [new TextRun({ text: label, bold: true })] })],
+                      width: { size: 30, type: WidthType.PERCENTAGE },
+                    }),
+                    cell(value as string),
+                  ],
+                })
+            ),
+          }),
+        ]
+      : []),
+    ...(history.length > 0
+      ? [
+          new Paragraph({
+            text: 'Version History',
+            heading: HeadingLevel.HEADING_2,
+            spacing: { before: 400, after: 100 },
+          }),
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: TABLE_BORDERS,
+            rows: [
+              new TableRow({
+                tableHeader: true,
+                children: [
+                  createHeaderCell('Version', 12, branding),
+                  createHeaderCell('Date', 18, branding),
+                  createHeaderCell('Author', 20, branding),
+                  createHeaderCell('Changes', 50, branding),
+                ],
+              }),
+              ...history.map(
+                (entry) =>
+                  new TableRow({
+                    children: [cell(entry.version), cell(entry.date), cell(entry.author || ''), cell(entry.changes)],
+                  })
+              ),
+            ],
+          }),
+        ]
+      : []),
+  ];
+}
+
+// DOCX Helper Functions
+
+function createTitlePage(plan: GeneratedPlan, branding: OrganisationBranding = {}): Paragraph[] {
+  return [
+    branding.logo
+      ? new Paragraph({
+          alignment: AlignmentType.CENTER,
+          children: [createLogoRun(branding.logo, 240, 120)],
+          spacing: { before: 400, after: 400 },
+        })
+      : new Paragraph({
+          text: '',
+          spacing: { before: 400, after: 400 },
+        }),
+    ...(branding.rtoName
+      ? [
+          new Paragraph({
+            children: [new TextRun({ text: branding.rtoName, bold: true, size: 28 })],
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 100 },
+          }),
+        ]
+      : []),
+    ...(branding.rtoNumber
+      ? [
+          new Paragraph({
+            text: `RTO No. ${branding.rtoNumber}`,
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 400 },
+          }),
+        ]
+      : []),
     new Paragraph({
       text: 'TAS UNIT PLAN',
       heading: HeadingLevel.TITLE,
@@ -215,13 +519,13 @@ function createTitlePage(plan: GeneratedPlan): Paragraph[] {
       spacing: { after: 200 },
     }),
     new Paragraph({
-      text: plan.meta.qualification,
+      text: plan.meta.qualification.title,
       heading: HeadingLevel.HEADING_1,
       alignment: AlignmentType.CENTER,
       spacing: { after: 400 },
     }),
     new Paragraph({
-      text: `Qualification Code: ${plan.meta.qualification_code || 'N/A'}`,
+      text: `Qualification Code: ${plan.meta.qualification.code || 'N/A'}`,
       alignment: AlignmentType.CENTER,
       spacing: { after: 100 },
     }),
@@ -236,12 +540,12 @@ function createTitlePage(plan: GeneratedPlan): Paragraph[] {
       spacing: { after: 100 },
     }),
     new Paragraph({
-      text: `Duration: ${plan.meta.duration_weeks} weeks, ${plan.meta.total_hours} hours`,
+      text: `Duration: ${plan.meta.duration.weeks} weeks, ${plan.meta.duration.total_hours} hours`,
       alignment: AlignmentType.CENTER,
       spacing: { after: 100 },
     }),
     new Paragraph({
-      text: `Confidence Score: ${(plan.confidence * 100).toFixed(0)}%`,
+      text: `Confidence Score: ${(plan.confidence_score * 100).toFixed(0)}%`,
       alignment: AlignmentType.CENTER,
       spacing: { after: 400 },
     }),
@@ -249,6 +553,18 @@ function createTitlePage(plan: GeneratedPlan): Paragraph[] {
 }
 
 function createOverviewSection(plan: GeneratedPlan): Paragraph[] {
+  const { meta } = plan;
+
+  const optionalDetails: [string, string | undefined][] = [
+    ['Level: ', meta.qualification.level || undefined],
+    ['Packaging Rules: ', meta.qualification.packaging_rules],
+    ['Start Date: ', meta.start_date ? formatDate(meta.start_date) : undefined],
+    ['End Date: ', meta.end_date ? formatDate(meta.end_date) : undefined],
+    ['Delivery Days: ', meta.delivery_schedule ? formatDeliverySchedule(meta.delivery_schedule) : undefined],
+    ['Venue: ', meta.venue],
+    ['Primary Trainer: ', meta.trainer_details?.primary_trainer],
+  ];
+
   return [
     new Paragraph({
       text: 'Plan Metadata',
@@ -279,7 +595,7 @@ function createOverviewSection(plan: GeneratedPlan): Paragraph[] {
     new Paragraph({
       children: [
         new TextRun({ text: 'Confidence Score: ', bold: true }),
-        new TextRun(`${(plan.confidence * 100).toFixed(1)}%`),
+        new TextRun(`${(plan.confidence_score * 100).toFixed(1)}%`),
       ],
       spacing: { after: 200 },
     }),
@@ -291,62 +607,79 @@ function createOverviewSection(plan: GeneratedPlan): Paragraph[] {
     new Paragraph({
       children: [
         new TextRun({ text: 'Qualification: ', bold: true }),
-        new TextRun(plan.meta.qualification),
+        new TextRun(meta.qualification.title),
       ],
       spacing: { after: 100 },
     }),
     new Paragraph({
       children: [
         new TextRun({ text: 'Code: ', bold: true }),
-        new TextRun(plan.meta.qualification_code || 'N/A'),
+        new TextRun(meta.qualification.code || 'N/A'),
       ],
       spacing: { after: 100 },
     }),
     new Paragraph({
       children: [
         new TextRun({ text: 'Delivery Mode: ', bold: true }),
-        new TextRun(formatDeliveryMode(plan.meta.delivery_mode)),
+        new TextRun(formatDeliveryMode(meta.delivery_mode)),
       ],
       spacing: { after: 100 },
     }),
     new Paragraph({
       children: [
         new TextRun({ text: 'Duration: ', bold: true }),
-        new TextRun(`${plan.meta.duration_weeks} weeks`),
+        new TextRun(`${meta.duration.weeks} weeks`),
       ],
       spacing: { after: 100 },
     }),
     new Paragraph({
       children: [
         new TextRun({ text: 'Total Hours: ', bold: true }),
-        new TextRun(`${plan.meta.total_hours} hours`),
+        new TextRun(`${meta.duration.total_hours} hours`),
       ],
       spacing: { after: 100 },
     }),
+    ...optionalDetails
+      .filter(([, value]) => value)
+      .map(
+        ([label, value]) =>
+          new Paragraph({
+            children: [new TextRun({ text: label, bold: true }), new TextRun(value as string)],
+            spacing: { after: 100 },
+          })
+      ),
   ];
 }
 
 function createCohortSection(plan: GeneratedPlan): Paragraph[] {
+  const classSize = plan.meta.class_size;
+
   return [
     new Paragraph({
       text: plan.meta.cohort_profile,
       spacing: { after: 200 },
     }),
-    ...(plan.meta.assessment_preferences && plan.meta.assessment_preferences.length > 0
+    ...(classSize && (classSize.min || classSize.max || classSize.target)
       ? [
           new Paragraph({
-            text: 'Assessment Preferences',
+            text: 'Class Size',
             heading: HeadingLevel.HEADING_2,
             spacing: { before: 200, after: 100 },
           }),
-          ...plan.meta.assessment_preferences.map(
-            (pref) =>
-              new Paragraph({
-                text: pref,
-                bullet: { level: 0 },
-                spacing: { after: 50 },
-              })
-          ),
+          ...([
+            ['Minimum', classSize.min],
+            ['Target', classSize.target],
+            ['Maximum', classSize.max],
+          ] as const)
+            .filter(([, value]) => value !== undefined)
+            .map(
+              ([label, value]) =>
+                new Paragraph({
+                  text: `${label}: ${value}`,
+                  bullet: { level: 0 },
+                  spacing: { after: 50 },
+                })
+            ),
         ]
       : []),
   ];
@@ -358,34 +691,52 @@ function createWeeklyPlanSection(plan: GeneratedPlan): Paragraph[] {
   plan.weekly_plan.forEach((week) => {
     paragraphs.push(
       new Paragraph({
-        text: `Week ${week.week}`,
+        text: `Week ${week.week_number}${week.week_theme ? `: ${week.week_theme}` : ''}`,
         heading: HeadingLevel.HEADING_2,
         spacing: { before: 200, after: 100 },
       }),
       new Paragraph({
         children: [
           new TextRun({ text: 'Hours: ', bold: true }),
-          new TextRun(`${week.hours}`),
+          new TextRun(`${getWeekHours(week)}`),
         ],
         spacing: { after: 100 },
       })
     );
 
-    if (week.topics && week.topics.length > 0) {
+    if (week.dates) {
       paragraphs.push(
         new Paragraph({
-          text: 'Topics',
-          heading: HeadingLevel.HEADING_3,
-          spacing: { before: 100, after: 50 },
-        }),
-        ...week.topics.map(
-          (topic) =>
-            new Paragraph({
-              text: topic,
-              bullet: { level: 0 },
-              spacing: { after: 50 },
-            })
-        )
+          children: [
+            new TextRun({ text: 'Sessions: ', bold: true }),
+            new TextRun(formatSessionDates(week.dates)),
+          ],
+          spacing: { after: 100 },
+        })
+      );
+    }
+
+    if (week.dates && isShortWeek(week.dates)) {
+      paragraphs.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: 'Short week: ', bold: true }),
+            new TextRun(formatClosures(week.dates)),
+          ],
+          spacing: { after: 100 },
+        })
+      );
+    }
+
+    if (week.units_covered && week.units_covered.length > 0) {
+      paragraphs.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: 'Units Covered: ', bold: true }),
+            new TextRun(week.units_covered.join(', ')),
+          ],
+          spacing: { after: 100 },
+        })
       );
     }
 
@@ -395,16 +746,43 @@ function createWeeklyPlanSection(plan: GeneratedPlan): Paragraph[] {
           text: 'Activities',
           heading: HeadingLevel.HEADING_3,
           spacing: { before: 100, after: 50 },
-        }),
-        ...week.activities.map(
-          (activity) =>
+        })
+      );
+
+      week.activities.forEach((activity) => {
+        paragraphs.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: activity.title, bold: true }),
+              new TextRun(
+                ` (${activity.duration_hours}h, ${formatLabel(activity.delivery_method)})`
+              ),
+            ],
+            bullet: { level: 0 },
+            spacing: { after: 50 },
+          })
+        );
+
+        if (activity.description) {
+          paragraphs.push(
             new Paragraph({
-              text: activity,
-              bullet: { level: 0 },
+              text: activity.description,
+              bullet: { level: 1 },
               spacing: { after: 50 },
             })
-        )
-      );
+          );
+        }
+
+        if (activity.resources && activity.resources.length > 0) {
+          paragraphs.push(
+            new Paragraph({
+              text: `Resources: ${activity.resources.join(', ')}`,
+              bullet: { level: 1 },
+              spacing: { after: 50 },
+            })
+          );
+        }
+      });
     }
 
     if (week.assessments && week.assessments.length > 0) {
@@ -417,19 +795,33 @@ function createWeeklyPlanSection(plan: GeneratedPlan): Paragraph[] {
         ...week.assessments.map(
           (assessment) =>
             new Paragraph({
-              text: `${assessment.title} (${assessment.type}) - Units: ${assessment.units.join(', ')}`,
+              text: `${assessment.title} (${formatLabel(assessment.type)}) - Units: ${assessment.units_assessed.join(', ')}${
+                assessment.due_date ? ` - Due: ${assessment.due_date}` : ''
+              }`,
               bullet: { level: 0 },
               spacing: { after: 50 },
             })
         )
       );
     }
+
+    if (week.notes) {
+      paragraphs.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: 'Notes: ', bold: true }),
+            new TextRun({ text: week.notes, italics: true }),
+          ],
+          spacing: { before: 100, after: 100 },
+        })
+      );
+    }
   });
 
   return paragraphs;
 }
 
-function createUnitsSection(plan: GeneratedPlan): (Paragraph | Table)[] {
+function createUnitsSection(plan: GeneratedPlan, branding: OrganisationBranding = {}): (Paragraph | Table)[] {
   const elements: (Paragraph | Table)[] = [];
 
   // Create units table
@@ -437,38 +829,10 @@ function createUnitsSection(plan: GeneratedPlan): (Paragraph | Table)[] {
     new TableRow({
       tableHeader: true,
       children: [
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [new TextRun({ text: 'Code', bold: true })],
-            }),
-          ],
-          width: { size: 20, type: WidthType.PERCENTAGE },
-        }),
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [new TextRun({ text: 'Title', bold: true })],
-            }),
-          ],
-          width: { size: 40, type: WidthType.PERCENTAGE },
-        }),
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [new TextRun({ text: 'Hours', bold: true })],
-            }),
-          ],
-          width: { size: 15, type: WidthType.PERCENTAGE },
-        }),
-        new TableCell({
-          children: [
-            new Paragraph({
-              children: [new TextRun({ text: 'Delivery', bold: true })],
-            }),
-          ],
-          width: { size: 25, type: WidthType.PERCENTAGE },
-        }),
+        createHeaderCell('Code', 20, branding),
+        createHeaderCell('Title', 40, branding),
+        createHeaderCell('Hours', 15, branding),
+        createHeaderCell('Delivery', 25, branding),
       ],
     }),
   ];
@@ -478,17 +842,19 @@ function createUnitsSection(plan: GeneratedPlan): (Paragraph | Table)[] {
       new TableRow({
         children: [
           new TableCell({
-            children: [new Paragraph({ text: unit.code })],
+            children: [new Paragraph({ text: unit.unit_code })],
           }),
           new TableCell({
-            children: [new Paragraph({ text: unit.title })],
+            children: [new Paragraph({ text: unit.unit_title })],
           }),
           new TableCell({
-            children: [new Paragraph({ text: unit.hours.toString() })],
+            children: [new Paragraph({ text: unit.nominal_hours.toString() })],
           }),
           new TableCell({
             children: [
-              new Paragraph({ text: formatDeliveryMode(unit.deliveryMethod) }),
+              new Paragraph({
+                text: (unit.delivery_methods || []).map(formatDeliveryMode).join(', ') || 'N/A',
+              }),
             ],
           }),
         ],
@@ -503,14 +869,7 @@ function createUnitsSection(plan: GeneratedPlan): (Paragraph | Table)[] {
         size: 100,
         type: WidthType.PERCENTAGE,
       },
-      borders: {
-        top: { style: BorderStyle.SINGLE, size: 1 },
-        bottom: { style: BorderStyle.SINGLE, size: 1 },
-        left: { style: BorderStyle.SINGLE, size: 1 },
-        right: { style: BorderStyle.SINGLE, size: 1 },
-        insideHorizontal: { style: BorderStyle.SINGLE, size: 1 },
-        insideVertical: { style: BorderStyle.SINGLE, size: 1 },
-      },
+      borders: TABLE_BORDERS,
     })
   );
 
@@ -526,48 +885,82 @@ function createUnitsSection(plan: GeneratedPlan): (Paragraph | Table)[] {
   plan.units.forEach((unit) => {
     elements.push(
       new Paragraph({
-        text: `${unit.code}: ${unit.title}`,
+        text: `${unit.unit_code}: ${unit.unit_title}`,
         heading: HeadingLevel.HEADING_3,
         spacing: { before: 200, after: 100 },
       }),
       new Paragraph({
         children: [
-          new TextRun({ text: 'Hours: ', bold: true }),
-          new TextRun(`${unit.hours}`),
-        ],
-        spacing: { after: 50 },
-      }),
-      new Paragraph({
-        children: [
-          new TextRun({ text: 'Delivery Method: ', bold: true }),
-          new TextRun(formatDeliveryMode(unit.deliveryMethod)),
+          new TextRun({ text: 'Nominal Hours: ', bold: true }),
+          new TextRun(`${unit.nominal_hours}`),
         ],
         spacing: { after: 50 },
       })
     );
 
-    if (unit.weekRange) {
+    if (unit.unit_type) {
       elements.push(
         new Paragraph({
           children: [
-            new TextRun({ text: 'Week Range: ', bold: true }),
-            new TextRun(`Weeks ${unit.weekRange[0]}-${unit.weekRange[1]}`),
+            new TextRun({ text: 'Unit Type: ', bold: true }),
+            new TextRun(formatLabel(unit.unit_type)),
           ],
           spacing: { after: 50 },
         })
       );
     }
 
-    if (unit.assessmentMethods && unit.assessmentMethods.length > 0) {
+    if (unit.delivery_methods && unit.delivery_methods.length > 0) {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: 'Delivery Methods: ', bold: true }),
+            new TextRun(unit.delivery_methods.map(formatDeliveryMode).join(', ')),
+          ],
+          spacing: { after: 50 },
+        })
+      );
+    }
+
+    if (unit.weeks_scheduled && unit.weeks_scheduled.length > 0) {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: 'Weeks Scheduled: ', bold: true }),
+            new TextRun(unit.weeks_scheduled.join(', ')),
+          ],
+          spacing: { after: 50 },
+        })
+      );
+    }
+
+    if (unit.assessment_methods && unit.assessment_methods.length > 0) {
       elements.push(
         new Paragraph({
           children: [new TextRun({ text: 'Assessment Methods', bold: true })],
           spacing: { before: 100, after: 50 },
         }),
-        ...unit.assessmentMethods.map(
+        ...unit.assessment_methods.map(
           (method) =>
             new Paragraph({
-              text: method,
+              text: formatLabel(method),
+              bullet: { level: 0 },
+              spacing: { after: 50 },
+            })
+        )
+      );
+    }
+
+    if (unit.assessment_tasks && unit.assessment_tasks.length > 0) {
+      elements.push(
+        new Paragraph({
+          children: [new TextRun({ text: 'Assessment Tasks', bold: true })],
+          spacing: { before: 100, after: 50 },
+        }),
+        ...unit.assessment_tasks.map(
+          (task) =>
+            new Paragraph({
+              text: `${task.task_name} (${task.method})${task.description ? ` - ${task.description}` : ''}`,
               bullet: { level: 0 },
               spacing: { after: 50 },
             })
@@ -597,7 +990,9 @@ function createUnitsSection(plan: GeneratedPlan): (Paragraph | Table)[] {
 }
 
 function createResourcesSection(plan: GeneratedPlan): Paragraph[] {
-  if (!plan.meta.resources || plan.meta.resources.length === 0) {
+  const groups = RESOURCE_GROUPS.filter(({ key }) => (plan.resources?.[key] || []).length > 0);
+
+  if (groups.length === 0) {
     return [
       new Paragraph({
         children: [
@@ -610,8 +1005,13 @@ function createResourcesSection(plan: GeneratedPlan): Paragraph[] {
     ];
   }
 
-  return [
-    ...plan.meta.resources.map(
+  return groups.flatMap(({ key, label }) => [
+    new Paragraph({
+      text: label,
+      heading: HeadingLevel.HEADING_2,
+      spacing: { before: 200, after: 100 },
+    }),
+    ...(plan.resources?.[key] || []).map(
       (resource) =>
         new Paragraph({
           text: resource,
@@ -619,7 +1019,7 @@ function createResourcesSection(plan: GeneratedPlan): Paragraph[] {
           spacing: { after: 50 },
         })
     ),
-  ];
+  ]);
 }
 
 function createRisksAssumptionsSection(plan: GeneratedPlan): Paragraph[] {
@@ -639,12 +1039,13 @@ function createRisksAssumptionsSection(plan: GeneratedPlan): Paragraph[] {
       paragraphs.push(
         new Paragraph({
           children: [
-            new TextRun({ text: `${risk.description}`, bold: true }),
-            ...(risk.impact
-              ? [
-                  new TextRun({ text: ` (Impact: ${risk.impact})`, italics: true }),
-                ]
-              : []),
+            new TextRun({ text: `${risk.risk_description}`, bold: true }),
+            new TextRun({
+              text: ` (Likelihood: ${risk.likelihood}, Impact: ${risk.impact}${
+                risk.category ? `, Category: ${formatLabel(risk.category)}` : ''
+              })`,
+              italics: true,
+            }),
           ],
           spacing: { before: 100, after: 50 },
         })
@@ -686,16 +1087,18 @@ function createRisksAssumptionsSection(plan: GeneratedPlan): Paragraph[] {
     plan.assumptions.forEach((assumption) => {
       paragraphs.push(
         new Paragraph({
-          text: assumption.description,
+          text: assumption.category
+            ? `${assumption.assumption} (${formatLabel(assumption.category)})`
+            : assumption.assumption,
           bullet: { level: 0 },
           spacing: { after: 50 },
         })
       );
 
-      if (assumption.mitigation) {
+      if (assumption.validation_required) {
         paragraphs.push(
           new Paragraph({
-            text: `Validation: ${assumption.mitigation}`,
+            text: 'Validation required before delivery',
             bullet: { level: 1 },
             spacing: { after: 100 },
           })
@@ -718,8 +1121,64 @@ function createRisksAssumptionsSection(plan: GeneratedPlan): Paragraph[] {
   return paragraphs;
 }
 
+function createVolumeOfLearningSection(plan: GeneratedPlan): Paragraph[] {
+  const analysis = analyzeVolumeOfLearning(plan);
+
+  const summary: [string, string][] = [
+    ['Qualification Level: ', analysis.level || 'Not specified'],
+    ['Planned Hours: ', `${analysis.planned_hours} over ${plan.meta.duration.weeks} weeks`],
+    ['Unit Nominal Hours: ', `${analysis.nominal_hours}`],
+    [
+      'AQF Volume of Learning: ',
+      analysis.range
+        ? `${analysis.range.min_years}-${analysis.range.max_years} years (${analysis.range.min_hours}-${analysis.range.max_hours} hours)`
+        : 'Not applicable',
+    ],
+    ['Overall Result: ', formatVolumeStatus(analysis.status)],
+  ];
+
+  return [
+    new Paragraph({
+      text: 'Volume of Learning Analysis',
+      heading: HeadingLevel.HEADING_2,
+      spacing: { before: 200, after: 100 },
+    }),
+    ...summary.map(
+      ([label, value]) =>
+        new Paragraph({
+          children: [new TextRun({ text: label, bold: true }), new TextRun(value)],
+          spacing: { after: 50 },
+        })
+    ),
+    ...analysis.checks.flatMap((check) => [
+      new Paragraph({
+        children: [new TextRun({ text: `${check.label}: ${formatVolumeStatus(check.status)}`, bold: true })],
+        spacing: { before: 150, after: 50 },
+      }),
+      new Paragraph({
+        text: check.explanation,
+        spacing: { after: 100 },
+      }),
+    ]),
+  ];
+}
+
 function createComplianceSection(plan: GeneratedPlan): Paragraph[] {
+  const notes = COMPLIANCE_FIELDS.filter(({ key }) => plan.compliance_notes?.[key]);
+
   return [
+    ...createVolumeOfLearningSection(plan),
+    ...notes.flatMap(({ key, label }) => [
+      new Paragraph({
+        text: label,
+        heading: HeadingLevel.HEADING_2,
+        spacing: { before: 200, after: 100 },
+      }),
+      new Paragraph({
+        text: plan.compliance_notes?.[key] as string,
+        spacing: { after: 100 },
+      }),
+    ]),
     new Paragraph({
       text: 'Australian RTO Requirements',
       heading: HeadingLevel.HEADING_2,
@@ -771,7 +1230,7 @@ function createComplianceSection(plan: GeneratedPlan): Paragraph[] {
       children: [
         new TextRun({ text: 'Confidence Score: ', bold: true }),
         new TextRun(
-          `${(plan.confidence * 100).toFixed(1)}% - This indicates the AI's confidence in the plan structure and content.`
+          `${(plan.confidence_score * 100).toFixed(1)}% - This indicates the AI's confidence in the plan structure and content.`
         ),
       ],
       spacing: { after: 100 },
@@ -787,25 +1246,88 @@ import { Packer } from 'docx';
 // ============================================================================
 
 /**
- * Triggers browser print dialog for PDF export
- * Applies print-optimized styles
+ * Exports plan as PDF file
+ * Rendered by POST /api/export so every trainer gets an identical document,
+ * then downloaded via file-saver
  */
-export function exportToPDF(): Promise<void> {
-  return new Promise((resolve) => {
-    // Apply print-friendly class to body if not already present
-    const printClass = 'tas-print-mode';
-    document.body.classList.add(printClass);
-
-    // Trigger print dialog
-    window.print();
-
-    // Clean up after print dialog closes
-    // Use setTimeout to allow print dialog to fully close
-    setTimeout(() => {
-      document.body.classList.remove(printClass);
-      resolve();
-    }, 1000);
-  });
+export async function exportToPDF(
+  plan: GeneratedPlan,
+  filename?: string
+): Promise<void> {
+  await downloadServerExport(plan, { format: 'pdf' }, filename);
+}
+
+/**
+ * POSTs the plan to /api/export and saves the file it returns, under the
+ * given filename or the one the server chose
+ */
+async function downloadServerExport(
+  plan: GeneratedPlan,
+  options: Pick<ExportOptions, 'format' | 'sheet'>,
+  filename?: string
+): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch('/api/export', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ plan, ...options }),
+    });
+  } catch (error) {
+    throw new Error(`Export server unreachable: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(
+      body?.details || body?.error || `${options.format.toUpperCase()} export failed (${response.status})`
+    );
+  }
+
+  const blob = await response.blob();
+  const serverName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1];
+  saveAs(blob, filename || serverName || generateFilename(plan, options.format));
+}
+
+// ============================================================================
+// Spreadsheet Export
+// ============================================================================
+
+/**
+ * Exports plan as an Excel workbook: summary, weekly plan, units,
+ * assessments, risks and the unit × assessment matrix
+ */
+export async function exportToXLSX(
+  plan: GeneratedPlan,
+  filename?: string
+): Promise<void> {
+  await downloadServerExport(plan, { format: 'xlsx' }, filename);
+}
+
+/**
+ * Exports one sheet of the workbook as CSV (the weekly plan by default)
+ */
+export async function exportToCSV(
+  plan: GeneratedPlan,
+  sheet: PlanSheetId = 'weekly_plan',
+  filename?: string
+): Promise<void> {
+  await downloadServerExport(plan, { format: 'csv', sheet }, filename);
+}
+
+// ============================================================================
+// Calendar Export
+// ============================================================================
+
+/**
+ * Exports the plan's sessions and assessment due dates as an iCalendar
+ * (.ics) file; the plan must have week dates
+ */
+export async function exportToICS(
+  plan: GeneratedPlan,
+  filename?: string
+): Promise<void> {
+  await downloadServerExport(plan, { format: 'ics' }, filename);
 }
 
 // ============================================================================
@@ -829,47 +1351,66 @@ export function exportToMarkdown(
 /**
  * Generates markdown content from plan
  */
-function generateMarkdown(plan: GeneratedPlan): string {
+export function generateMarkdown(plan: GeneratedPlan): string {
   const lines: string[] = [];
+  const { meta } = plan;
 
   // YAML frontmatter
   lines.push('---');
-  lines.push(`title: "TAS Unit Plan - ${plan.meta.qualification}"`);
-  lines.push(`qualification_code: "${plan.meta.qualification_code || 'N/A'}"`);
+  lines.push(`title: "TAS Unit Plan - ${meta.qualification.title}"`);
+  lines.push(`qualification_code: "${meta.qualification.code || 'N/A'}"`);
   lines.push(`generated: "${plan.metadata.generated_at}"`);
-  lines.push(`delivery_mode: "${plan.meta.delivery_mode}"`);
-  lines.push(`duration_weeks: ${plan.meta.duration_weeks}`);
-  lines.push(`total_hours: ${plan.meta.total_hours}`);
-  lines.push(`confidence: ${plan.confidence}`);
+  lines.push(`delivery_mode: "${meta.delivery_mode}"`);
+  lines.push(`duration_weeks: ${meta.duration.weeks}`);
+  lines.push(`total_hours: ${meta.duration.total_hours}`);
+  lines.push(`confidence_score: ${plan.confidence_score}`);
   lines.push('---');
   lines.push('');
 
   // Title
-  lines.push(`# TAS Unit Plan: ${plan.meta.qualification}`);
+  lines.push(`# TAS Unit Plan: ${meta.qualification.title}`);
   lines.push('');
 
   // Metadata
   lines.push('## Overview');
   lines.push('');
   lines.push(`**Generated:** ${formatDate(plan.metadata.generated_at)}`);
-  lines.push(`**Qualification Code:** ${plan.meta.qualification_code || 'N/A'}`);
-  lines.push(`**Delivery Mode:** ${formatDeliveryMode(plan.meta.delivery_mode)}`);
-  lines.push(`**Duration:** ${plan.meta.duration_weeks} weeks, ${plan.meta.total_hours} hours`);
-  lines.push(`**Confidence Score:** ${(plan.confidence * 100).toFixed(1)}%`);
+  lines.push(`**Qualification Code:** ${meta.qualification.code || 'N/A'}`);
+  if (meta.qualification.level) {
+    lines.push(`**Level:** ${meta.qualification.level}`);
+  }
+  lines.push(`**Delivery Mode:** ${formatDeliveryMode(meta.delivery_mode)}`);
+  lines.push(`**Duration:** ${meta.duration.weeks} weeks, ${meta.duration.total_hours} hours`);
+  if (meta.start_date) {
+    lines.push(`**Start Date:** ${formatDate(meta.start_date)}`);
+  }
+  if (meta.end_date) {
+    lines.push(`**End Date:** ${formatDate(meta.end_date)}`);
+  }
+  if (meta.delivery_schedule) {
+    lines.push(`**Delivery Days:** ${formatDeliverySchedule(meta.delivery_schedule)}`);
+  }
+  if (meta.venue) {
+    lines.push(`**Venue:** ${meta.venue}`);
+  }
+  if (meta.trainer_details?.primary_trainer) {
+    lines.push(`**Primary Trainer:** ${meta.trainer_details.primary_trainer}`);
+  }
+  lines.push(`**Confidence Score:** ${(plan.confidence_score * 100).toFixed(1)}%`);
   lines.push('');
 
   // Cohort Profile
   lines.push('## Cohort Profile');
   lines.push('');
-  lines.push(plan.meta.cohort_profile);
+  lines.push(meta.cohort_profile);
   lines.push('');
 
-  if (plan.meta.assessment_preferences && plan.meta.assessment_preferences.length > 0) {
-    lines.push('### Assessment Preferences');
+  if (meta.class_size && (meta.class_size.min || meta.class_size.max || meta.class_size.target)) {
+    lines.push('### Class Size');
     lines.push('');
-    plan.meta.assessment_preferences.forEach((pref) => {
-      lines.push(`- ${pref}`);
-    });
+    if (meta.class_size.min !== undefined) lines.push(`- Minimum: ${meta.class_size.min}`);
+    if (meta.class_size.target !== undefined) lines.push(`- Target: ${meta.class_size.target}`);
+    if (meta.class_size.max !== undefined) lines.push(`- Maximum: ${meta.class_size.max}`);
     lines.push('');
   }
 
@@ -878,23 +1419,32 @@ function generateMarkdown(plan: GeneratedPlan): string {
   lines.push('');
 
   plan.weekly_plan.forEach((week) => {
-    lines.push(`### Week ${week.week}`);
+    lines.push(`### Week ${week.week_number}${week.week_theme ? `: ${week.week_theme}` : ''}`);
     lines.push('');
-    lines.push(`**Hours:** ${week.hours}`);
-    lines.push('');
-
-    if (week.topics && week.topics.length > 0) {
-      lines.push('**Topics:**');
-      week.topics.forEach((topic) => {
-        lines.push(`- ${topic}`);
-      });
-      lines.push('');
+    lines.push(`**Hours:** ${getWeekHours(week)}`);
+    if (week.dates) {
+      lines.push(`**Sessions:** ${formatSessionDates(week.dates)}`);
+      if (isShortWeek(week.dates)) {
+        lines.push(`**Short week:** ${formatClosures(week.dates)}`);
+      }
     }
+    if (week.units_covered && week.units_covered.length > 0) {
+      lines.push(`**Units Covered:** ${week.units_covered.join(', ')}`);
+    }
+    lines.push('');
 
     if (week.activities && week.activities.length > 0) {
       lines.push('**Activities:**');
       week.activities.forEach((activity) => {
-        lines.push(`- ${activity}`);
+        lines.push(
+          `- **${activity.title}** (${activity.duration_hours}h, ${formatLabel(activity.delivery_method)})`
+        );
+        if (activity.description) {
+          lines.push(`  - ${activity.description}`);
+        }
+        if (activity.resources && activity.resources.length > 0) {
+          lines.push(`  - Resources: ${activity.resources.join(', ')}`);
+        }
       });
       lines.push('');
     }
@@ -902,30 +1452,38 @@ function generateMarkdown(plan: GeneratedPlan): string {
     if (week.assessments && week.assessments.length > 0) {
       lines.push('**Assessments:**');
       week.assessments.forEach((assessment) => {
-        lines.push(`- **${assessment.title}** (${assessment.type})`);
-        lines.push(`  - Units: ${assessment.units.join(', ')}`);
-        if (assessment.notes) {
-          lines.push(`  - Notes: ${assessment.notes}`);
+        lines.push(`- **${assessment.title}** (${formatLabel(assessment.type)})`);
+        lines.push(`  - Units: ${assessment.units_assessed.join(', ')}`);
+        if (assessment.due_date) {
+          lines.push(`  - Due: ${assessment.due_date}`);
+        }
+        if (assessment.weighting) {
+          lines.push(`  - Weighting: ${assessment.weighting}`);
+        }
+        if (assessment.description) {
+          lines.push(`  - Notes: ${assessment.description}`);
         }
       });
       lines.push('');
     }
+
+    if (week.notes) {
+      lines.push(`*Notes: ${week.notes}*`);
+      lines.push('');
+    }
   });
 
   // Units
   lines.push('## Units of Competency');
   lines.push('');
-  lines.push('| Code | Title | Hours | Delivery | Week Range |');
-  lines.push('|------|-------|-------|----------|------------|');
+  lines.push('| Code | Title | Hours | Delivery | Weeks |');
+  lines.push('|------|-------|-------|----------|-------|');
 
   plan.units.forEach((unit) => {
-    const weekRange = unit.weekRange
-      ? `${unit.weekRange[0]}-${unit.weekRange[1]}`
-      : 'N/A';
+    const weeks = unit.weeks_scheduled?.length ? unit.weeks_scheduled.join(', ') : 'N/A';
+    const delivery = (unit.delivery_methods || []).map(formatDeliveryMode).join(', ') || 'N/A';
     lines.push(
-      `| ${unit.code} | ${unit.title} | ${unit.hours} | ${formatDeliveryMode(
-        unit.deliveryMethod
-      )} | ${weekRange} |`
+      `| ${unit.unit_code} | ${unit.unit_title} | ${unit.nominal_hours} | ${delivery} | ${weeks} |`
     );
   });
   lines.push('');
@@ -935,19 +1493,33 @@ function generateMarkdown(plan: GeneratedPlan): string {
   lines.push('');
 
   plan.units.forEach((unit) => {
-    lines.push(`#### ${unit.code}: ${unit.title}`);
+    lines.push(`#### ${unit.unit_code}: ${unit.unit_title}`);
     lines.push('');
-    lines.push(`- **Hours:** ${unit.hours}`);
-    lines.push(`- **Delivery Method:** ${formatDeliveryMode(unit.deliveryMethod)}`);
+    lines.push(`- **Nominal Hours:** ${unit.nominal_hours}`);
 
-    if (unit.weekRange) {
-      lines.push(`- **Week Range:** Weeks ${unit.weekRange[0]}-${unit.weekRange[1]}`);
+    if (unit.unit_type) {
+      lines.push(`- **Unit Type:** ${formatLabel(unit.unit_type)}`);
     }
 
-    if (unit.assessmentMethods && unit.assessmentMethods.length > 0) {
+    if (unit.delivery_methods && unit.delivery_methods.length > 0) {
+      lines.push(`- **Delivery Methods:** ${unit.delivery_methods.map(formatDeliveryMode).join(', ')}`);
+    }
+
+    if (unit.weeks_scheduled && unit.weeks_scheduled.length > 0) {
+      lines.push(`- **Weeks Scheduled:** ${unit.weeks_scheduled.join(', ')}`);
+    }
+
+    if (unit.assessment_methods && unit.assessment_methods.length > 0) {
       lines.push('- **Assessment Methods:**');
-      unit.assessmentMethods.forEach((method) => {
-        lines.push(`  - ${method}`);
+      unit.assessment_methods.forEach((method) => {
+        lines.push(`  - ${formatLabel(method)}`);
+      });
+    }
+
+    if (unit.assessment_tasks && unit.assessment_tasks.length > 0) {
+      lines.push('- **Assessment Tasks:**');
+      unit.assessment_tasks.forEach((task) => {
+        lines.push(`  - ${task.task_name} (${task.method})${task.description ? ` - ${task.description}` : ''}`);
       });
     }
 
@@ -965,14 +1537,20 @@ function generateMarkdown(plan: GeneratedPlan): string {
   lines.push('## Resources & Facilities');
   lines.push('');
 
-  if (plan.meta.resources && plan.meta.resources.length > 0) {
-    plan.meta.resources.forEach((resource) => {
-      lines.push(`- ${resource}`);
+  const resourceGroups = RESOURCE_GROUPS.filter(({ key }) => (plan.resources?.[key] || []).length > 0);
+  if (resourceGroups.length > 0) {
+    resourceGroups.forEach(({ key, label }) => {
+      lines.push(`### ${label}`);
+      lines.push('');
+      (plan.resources?.[key] || []).forEach((resource) => {
+        lines.push(`- ${resource}`);
+      });
+      lines.push('');
     });
   } else {
     lines.push('*No specific resources documented.*');
+    lines.push('');
   }
-  lines.push('');
 
   // Risks
   lines.push('## Risks');
@@ -980,8 +1558,12 @@ function generateMarkdown(plan: GeneratedPlan): string {
 
   if (plan.risks && plan.risks.length > 0) {
     plan.risks.forEach((risk) => {
-      const impact = risk.impact ? ` (Impact: **${risk.impact}**)` : '';
-      lines.push(`- **${risk.description}**${impact}`);
+      lines.push(
+        `- **${risk.risk_description}** (Likelihood: **${risk.likelihood}**, Impact: **${risk.impact}**)`
+      );
+      if (risk.category) {
+        lines.push(`  - Category: ${formatLabel(risk.category)}`);
+      }
       if (risk.mitigation) {
         lines.push(`  - Mitigation: ${risk.mitigation}`);
       }
@@ -997,9 +1579,10 @@ function generateMarkdown(plan: GeneratedPlan): string {
 
   if (plan.assumptions && plan.assumptions.length > 0) {
     plan.assumptions.forEach((assumption) => {
-      lines.push(`- ${assumption.description}`);
-      if (assumption.mitigation) {
-        lines.push(`  - Validation: ${assumption.mitigation}`);
+      const category = assumption.category ? ` (${formatLabel(assumption.category)})` : '';
+      lines.push(`- ${assumption.assumption}${category}`);
+      if (assumption.validation_required) {
+        lines.push('  - Validation required before delivery');
       }
     });
   } else {
@@ -1010,6 +1593,33 @@ function generateMarkdown(plan: GeneratedPlan): string {
   // Compliance Notes
   lines.push('## Compliance Notes');
   lines.push('');
+
+  const volume = analyzeVolumeOfLearning(plan);
+  lines.push('### Volume of Learning Analysis');
+  lines.push('');
+  lines.push(`**Qualification Level:** ${volume.level || 'Not specified'}`);
+  lines.push(`**Planned Hours:** ${volume.planned_hours} over ${plan.meta.duration.weeks} weeks`);
+  lines.push(`**Unit Nominal Hours:** ${volume.nominal_hours}`);
+  lines.push(
+    `**AQF Volume of Learning:** ${
+      volume.range
+        ? `${volume.range.min_years}-${volume.range.max_years} years (${volume.range.min_hours}-${volume.range.max_hours} hours)`
+        : 'Not applicable'
+    }`
+  );
+  lines.push('');
+  volume.checks.forEach((check) => {
+    lines.push(`- **${check.label}: ${formatVolumeStatus(check.status)}** - ${check.explanation}`);
+  });
+  lines.push('');
+
+  COMPLIANCE_FIELDS.filter(({ key }) => plan.compliance_notes?.[key]).forEach(({ key, label }) => {
+    lines.push(`### ${label}`);
+    lines.push('');
+    lines.push(plan.compliance_notes?.[key] as string);
+    lines.push('');
+  });
+
   lines.push('### Australian RTO Requirements');
   lines.push('');
   lines.push(
@@ -1030,7 +1640,7 @@ function generateMarkdown(plan: GeneratedPlan): string {
   );
   lines.push('');
   lines.push(
-    `**Confidence Score:** ${(plan.confidence * 100).toFixed(
+    `**Confidence Score:** ${(plan.confidence_score * 100).toFixed(
       1
     )}% - This indicates the AI's confidence in the plan structure and content.`
   );
@@ -0,0 +1,117 @@
+/**
+ * Server-side Export Rendering
+ *
+ * Builds export files without a browser for POST /api/export, using the
+ * same builders as the in-browser downloads in lib/export-handlers.ts
+ * (renderDOCX, generateMarkdown), the PDF renderer in lib/pdf-export.ts
+ * the spreadsheet sheets in lib/plan-sheets.ts and the calendar in
+ * lib/ical-export.ts. Server only: the PDF
+ * and XLSX renderers are kept out of the client bundle.
+ */
+
+import { ExportFormat, ExportOptions, GeneratedPlan } from '@/types/unit-plan';
+import { generateFilename, generateMarkdown, renderDOCX } from '@/lib/export-handlers';
+import { createPlanPDF } from '@/lib/pdf-export';
+import { buildPlanSheet, sheetToCSV } from '@/lib/plan-sheets';
+import { renderPlanXLSX } from '@/lib/xlsx-export';
+import { generateICS, hasCalendarDates } from '@/lib/ical-export';
+
+/**
+ * Raised when a format cannot be rendered on the server
+ */
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+/**
+ * An export file ready to send as a response body
+ */
+export interface RenderedExport {
+  filename: string;
+  contentType: string;
+  body: Uint8Array<ArrayBuffer> | string;
+}
+
+/** Formats renderPlanExport can produce */
+export const SERVER_EXPORT_FORMATS: ExportFormat[] = ['docx', 'pdf', 'markdown', 'json', 'xlsx', 'csv', 'ics'];
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  docx: 'docx',
+  pdf: 'pdf',
+  markdown: 'md',
+  json: 'json',
+  xlsx: 'xlsx',
+  csv: 'csv',
+  ics: 'ics',
+};
+
+/**
+ * Custom filenames keep letters, digits, ".", "_" and "-" so they are safe
+ * in a Content-Disposition header and on any file system. Default CSV
+ * names end with the sheet, e.g. "TAS-Plan-TAE40122-2026-01-15-units.csv".
+ */
+function exportFilename(plan: GeneratedPlan, options: ExportOptions): string {
+  const extension = EXPORT_EXTENSIONS[options.format];
+  const base = options.filename?.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^[.-]+|[.-]+$/g, '');
+  if (base) return `${base}.${extension}`;
+  const filename = generateFilename(plan, extension);
+  return options.format === 'csv'
+    ? filename.replace(/\.csv$/, `-${(options.sheet || 'weekly_plan').replace(/_/g, '-')}.csv`)
+    : filename;
+}
+
+/**
+ * Renders a plan in the requested format
+ *
+ * Branding applies to DOCX only, and the sheet to CSV only (the weekly
+ * plan by default; XLSX has every sheet). JSON is the bare GeneratedPlan,
+ * the shape the plan import accepts.
+ *
+ * @throws ExportError if the format is not one of SERVER_EXPORT_FORMATS,
+ * or for ICS when no week has session dates
+ * @throws BrandingError if the DOCX template cannot be filled
+ */
+export async function renderPlanExport(plan: GeneratedPlan, options: ExportOptions): Promise<RenderedExport> {
+  const filename = exportFilename(plan, options);
+
+  switch (options.format) {
+    case 'docx':
+      return {
+        filename,
+        contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        body: new Uint8Array(await renderDOCX(plan, options.branding, 'uint8array')),
+      };
+    case 'pdf':
+      return {
+        filename,
+        contentType: 'application/pdf',
+        body: new Uint8Array(createPlanPDF(plan).output('arraybuffer')),
+      };
+    case 'markdown':
+      return { filename, contentType: 'text/markdown; charset=utf-8', body: generateMarkdown(plan) };
+    case 'json':
+      return { filename, contentType: 'application/json; charset=utf-8', body: JSON.stringify(plan, null, 2) };
+    case 'xlsx':
+      return {
+        filename,
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        body: await renderPlanXLSX(plan),
+      };
+    case 'csv':
+      return {
+        filename,
+        contentType: 'text/csv; charset=utf-8',
+        body: sheetToCSV(buildPlanSheet(plan, options.sheet || 'weekly_plan')),
+      };
+    case 'ics':
+      if (!hasCalendarDates(plan)) {
+        throw new ExportError('Plan has no session dates; generate it with a start date to export a calendar');
+      }
+      return { filename, contentType: 'text/calendar; charset=utf-8', body: generateICS(plan) };
+    default:
+      throw new ExportError(`Unsupported export format; use one of ${SERVER_EXPORT_FORMATS.join(', ')}`);
+  }
+}
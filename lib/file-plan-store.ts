@@ -0,0 +1,102 @@
+/**
+ * File-backed Plan Store (server only)
+ *
+ * Backs the /api/plans routes. Each saved plan is one JSON file named by its
+ * id in PLAN_STORE_DIR (default data/plans). Writes go to a temporary file
+ * that is renamed into place, so a crash never leaves a half-written plan.
+ * Each write has its own temporary file, so concurrent writes to one plan
+ * cannot rename each other's partial output; the last rename wins.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+import { config } from '@/config/env';
+import type { StoredPlan } from '@/lib/storage';
+import { PlanStore, PlanStoreError, isValidPlanId, sortNewestFirst } from '@/lib/plan-store';
+
+export class FilePlanStore implements PlanStore {
+  readonly kind = 'file' as const;
+
+  private readonly dir: string;
+
+  constructor(dir: string = config.planStoreDir) {
+    this.dir = isAbsolute(dir) ? dir : join(process.cwd(), dir);
+  }
+
+  async list(): Promise<StoredPlan[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const plans = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.get(file.slice(0, -'.json'.length)))
+    );
+
+    return sortNewestFirst(plans.filter((plan): plan is StoredPlan => plan !== null));
+  }
+
+  async get(id: string): Promise<StoredPlan | null> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(id), 'utf-8')) as StoredPlan;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      if (error instanceof SyntaxError) {
+        console.error(`[STORE] Ignoring unreadable plan file for ${id}:`, error.message);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async put(plan: StoredPlan): Promise<StoredPlan> {
+    const path = this.pathFor(plan.id);
+    const temp = `${path}.${randomUUID()}.tmp`;
+
+    await mkdir(this.dir, { recursive: true });
+    try {
+      await writeFile(temp, JSON.stringify(plan, null, 2) + '\n');
+      await rename(temp, path);
+    } catch (error) {
+      await unlink(temp).catch(() => {});
+      throw error;
+    }
+
+    return plan;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await unlink(this.pathFor(id));
+      return true;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private pathFor(id: string): string {
+    if (!isValidPlanId(id)) {
+      throw new PlanStoreError(`Invalid plan id: ${id}`, 400);
+    }
+    return join(this.dir, `${id}.json`);
+  }
+}
+
+let serverStore: FilePlanStore | null = null;
+
+/**
+ * The store used by the /api/plans routes
+ */
+export function getServerPlanStore(): FilePlanStore {
+  if (!serverStore) {
+    serverStore = new FilePlanStore();
+  }
+  return serverStore;
+}
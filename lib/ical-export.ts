@@ -0,0 +1,315 @@
+/**
+ * iCalendar Export
+ *
+ * Turns a dated plan into an .ics calendar (RFC 5545):
+ * - Sessions: one event per date in weekly_plan[].dates.sessions. The
+ *   week's activities are shared across its sessions in order, so each
+ *   event lists the activities for that day. With session times in
+ *   meta.delivery_schedule the events are timed in the time zone of the
+ *   delivery state's capital (TZID plus a VTIMEZONE, so a trainer in
+ *   another state sees the right local time); with no state they use
+ *   floating local time. Without session times they are all-day.
+ * - Assessments: an all-day event for each WeeklyAssessment on its
+ *   due_date, or on the week's last session when due_date is not a date
+ *   ("End of Week 3"). The description lists the units assessed.
+ *
+ * Event UIDs come from the plan and its week, session and assessment
+ * numbers, so importing the file again updates the same events. Only
+ * weeks with dates (a start date on the intake) produce events.
+ */
+
+import type { AustralianState, GeneratedPlan, WeeklyAssessment, WeeklyPlanItem } from '@/types/unit-plan';
+import { isCalendarDate } from '@/lib/delivery-calendar';
+import { formatDeliveryMode, formatLabel } from '@/lib/export-handlers';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:MM; all-day when omitted */
+  start?: string;
+  end?: string;
+  location?: string;
+  category: 'Session' | 'Assessment';
+}
+
+const PRODUCT_ID = '-//TAS Assistant//Unit Plan//EN';
+
+/** Longest content line in octets before folding */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * UTC offset ("+1000") and abbreviation of a standard or daylight period
+ */
+interface ZoneOffset {
+  offset: string;
+  name: string;
+}
+
+/**
+ * A state capital's IANA zone; `daylight` where daylight saving is observed
+ */
+interface StateTimeZone {
+  tzid: string;
+  standard: ZoneOffset;
+  daylight?: ZoneOffset;
+}
+
+const EASTERN: Pick<StateTimeZone, 'standard' | 'daylight'> = {
+  standard: { offset: '+1000', name: 'AEST' },
+  daylight: { offset: '+1100', name: 'AEDT' },
+};
+
+/** Time zone of each state's capital, where its sessions are assumed to run */
+const STATE_TIME_ZONES: Record<AustralianState, StateTimeZone> = {
+  ACT: { tzid: 'Australia/Sydney', ...EASTERN },
+  NSW: { tzid: 'Australia/Sydney', ...EASTERN },
+  NT: { tzid: 'Australia/Darwin', standard: { offset: '+0930', name: 'ACST' } },
+  QLD: { tzid: 'Australia/Brisbane', standard: { offset: '+1000', name: 'AEST' } },
+  SA: {
+    tzid: 'Australia/Adelaide',
+    standard: { offset: '+0930', name: 'ACST' },
+    daylight: { offset: '+1030', name: 'ACDT' },
+  },
+  TAS: { tzid: 'Australia/Hobart', ...EASTERN },
+  VIC: { tzid: 'Australia/Melbourne', ...EASTERN },
+  WA: { tzid: 'Australia/Perth', standard: { offset: '+0800', name: 'AWST' } },
+};
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Whether any week has session dates to export
+ */
+export function hasCalendarDates(plan: GeneratedPlan): boolean {
+  return plan.weekly_plan.some((week) => (week.dates?.sessions.length || 0) > 0);
+}
+
+/**
+ * "TAE40122-20251101T000000Z", the stem of every event UID in the plan
+ */
+function planUid(plan: GeneratedPlan): string {
+  const code = (plan.meta.qualification.code || 'PLAN').replace(/[^A-Za-z0-9]+/g, '');
+  return `${code}-${toUTCStamp(plan.metadata.generated_at)}`;
+}
+
+/**
+ * The week's activities split into one run per session, in order
+ */
+function splitActivities(week: WeeklyPlanItem, sessions: number): WeeklyPlanItem['activities'][] {
+  return Array.from({ length: sessions }, (_, idx) =>
+    week.activities.slice(
+      Math.floor((idx * week.activities.length) / sessions),
+      Math.floor(((idx + 1) * week.activities.length) / sessions)
+    )
+  );
+}
+
+function sessionEvents(plan: GeneratedPlan, week: WeeklyPlanItem): CalendarEvent[] {
+  const sessions = week.dates?.sessions || [];
+  const times = plan.meta.delivery_schedule?.session_times;
+  const runs = splitActivities(week, sessions.length);
+
+  return sessions.map((date, idx) => {
+    const activities = runs[idx];
+    const lines = [
+      week.week_theme ? `Theme: ${week.week_theme}` : '',
+      week.units_covered?.length ? `Units: ${week.units_covered.join(', ')}` : '',
+    ].filter(Boolean);
+    if (activities.length > 0) {
+      lines.push('', 'Activities:');
+      activities.forEach((activity) => {
+        const method = formatDeliveryMode(activity.delivery_method);
+        lines.push(`- ${activity.title} (${method}, ${activity.duration_hours} h)`);
+        if (activity.description) lines.push(`  ${activity.description}`);
+        if (activity.resources?.length) lines.push(`  Resources: ${activity.resources.join(', ')}`);
+      });
+    }
+
+    return {
+      uid: `${planUid(plan)}-w${week.week_number}-s${idx + 1}@tas-assistant`,
+      summary: `Week ${week.week_number}: ${
+        activities.length > 0 ? activities.map((activity) => activity.title).join(', ') : week.week_theme || 'Session'
+      }`,
+      description: lines.join('\n'),
+      date,
+      ...(times ? { start: times.start, end: times.end } : {}),
+      location: plan.meta.venue,
+      category: 'Session',
+    };
+  });
+}
+
+/**
+ * The due date if it is a date, else the week's last session or last day
+ */
+function dueDate(assessment: WeeklyAssessment, week: WeeklyPlanItem): string | undefined {
+  if (assessment.due_date && isCalendarDate(assessment.due_date)) return assessment.due_date;
+  const sessions = week.dates?.sessions || [];
+  return sessions[sessions.length - 1] || week.dates?.end;
+}
+
+function assessmentEvents(plan: GeneratedPlan, week: WeeklyPlanItem): CalendarEvent[] {
+  return (week.assessments || []).flatMap((assessment, idx) => {
+    const date = dueDate(assessment, week);
+    if (!date) return [];
+
+    const lines = [
+      `Units: ${assessment.units_assessed.join(', ') || 'N/A'}`,
+      `Type: ${formatLabel(assessment.type)}`,
+      assessment.weighting ? `Weighting: ${assessment.weighting}` : '',
+      assessment.due_date && !isCalendarDate(assessment.due_date) ? `Due: ${assessment.due_date}` : '',
+      assessment.description || '',
+    ].filter(Boolean);
+
+    return [
+      {
+        uid: `${planUid(plan)}-w${week.week_number}-a${idx + 1}@tas-assistant`,
+        summary: `Assessment due: ${assessment.title}`,
+        description: lines.join('\n'),
+        date,
+        location: plan.meta.venue,
+        category: 'Assessment' as const,
+      },
+    ];
+  });
+}
+
+/**
+ * Session and assessment events for every dated week, in date order
+ */
+export function buildCalendarEvents(plan: GeneratedPlan): CalendarEvent[] {
+  return plan.weekly_plan
+    .flatMap((week) => [...sessionEvents(plan, week), ...assessmentEvents(plan, week)])
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.start || '').localeCompare(b.start || ''));
+}
+
+// ============================================================================
+// iCalendar Text
+// ============================================================================
+
+/**
+ * "2025-11-01T00:00:00.000Z" → "20251101T000000Z"
+ */
+function toUTCStamp(value: string): string {
+  const date = new Date(value);
+  const iso = Number.isNaN(date.getTime()) ? new Date(0).toISOString() : date.toISOString();
+  return `${iso.slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
+
+function compactDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets; continuation lines start with a space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+}
+
+/**
+ * VTIMEZONE for a state's zone. Daylight saving, where observed, runs from
+ * the first Sunday in October to the first Sunday in April (the rule in
+ * force since 2008).
+ */
+function timeZoneLines({ tzid, standard, daylight }: StateTimeZone): string[] {
+  const period = (kind: 'STANDARD' | 'DAYLIGHT', start: string, from: ZoneOffset, to: ZoneOffset, rule?: string) => [
+    `BEGIN:${kind}`,
+    `DTSTART:${start}`,
+    ...(rule ? [`RRULE:${rule}`] : []),
+    `TZOFFSETFROM:${from.offset}`,
+    `TZOFFSETTO:${to.offset}`,
+    `TZNAME:${to.name}`,
+    `END:${kind}`,
+  ];
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${tzid}`,
+    ...(daylight
+      ? [
+          ...period('STANDARD', '20080406T030000', daylight, standard, 'FREQ=YEARLY;BYMONTH=4;BYDAY=1SU'),
+          ...period('DAYLIGHT', '20081005T020000', standard, daylight, 'FREQ=YEARLY;BYMONTH=10;BYDAY=1SU'),
+        ]
+      : period('STANDARD', '19700101T000000', standard, standard)),
+    'END:VTIMEZONE',
+  ];
+}
+
+function eventLines(event: CalendarEvent, stamp: string, tzid?: string): string[] {
+  const day = compactDate(event.date);
+  // Floating local time when no zone is known
+  const zone = tzid ? `;TZID=${tzid}` : '';
+  // All-day events without DTEND last the one day
+  const timing =
+    event.start && event.end
+      ? [
+          `DTSTART${zone}:${day}T${event.start.replace(':', '')}00`,
+          `DTEND${zone}:${day}T${event.end.replace(':', '')}00`,
+        ]
+      : [`DTSTART;VALUE=DATE:${day}`];
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    ...timing,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    `CATEGORIES:${event.category}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * The plan as an iCalendar file (CRLF line endings)
+ */
+export function generateICS(plan: GeneratedPlan): string {
+  const stamp = toUTCStamp(plan.metadata.generated_at);
+  const events = buildCalendarEvents(plan);
+  const state = plan.meta.delivery_schedule?.state;
+  const zone = state && events.some((event) => event.start) ? STATE_TIME_ZONES[state] : undefined;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`TAS: ${plan.meta.qualification.title}`)}`,
+    ...(zone ? timeZoneLines(zone) : []),
+    ...events.flatMap((event) => eventLines(event, stamp, zone?.tzid)),
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
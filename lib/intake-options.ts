@@ -0,0 +1,51 @@
+/**
+ * Intake form option lists
+ *
+ * Shared by the intake form (checkbox values/labels) and the intake adapter
+ * (which expands the stored values into prompt-friendly labels).
+ */
+
+import type { QualificationLevel } from '@/types/schema-types';
+
+export interface ResourceOption {
+  value: string;
+  label: string;
+  /** Which APRVIntake.resources group the option belongs to */
+  kind: 'facilities' | 'equipment' | 'materials' | 'technology';
+}
+
+export interface AssessmentOption {
+  value: string;
+  label: string;
+}
+
+/** AQF levels and course types, in the plan schema's spelling */
+export const QUALIFICATION_LEVEL_OPTIONS: QualificationLevel[] = [
+  'Certificate I',
+  'Certificate II',
+  'Certificate III',
+  'Certificate IV',
+  'Diploma',
+  'Advanced Diploma',
+  'Short Course',
+  'Skill Set',
+];
+
+export const RESOURCE_OPTIONS: ResourceOption[] = [
+  { value: 'classroom', label: 'Classroom/Training Room', kind: 'facilities' },
+  { value: 'computers', label: 'Computer Lab', kind: 'facilities' },
+  { value: 'workshop', label: 'Workshop/Practical Space', kind: 'facilities' },
+  { value: 'online_platform', label: 'Online Learning Platform (LMS)', kind: 'technology' },
+  { value: 'library', label: 'Library/Resource Centre', kind: 'materials' },
+  { value: 'other', label: 'Other Specialized Equipment', kind: 'equipment' },
+];
+
+export const ASSESSMENT_OPTIONS: AssessmentOption[] = [
+  { value: 'written_tests', label: 'Written Tests/Exams' },
+  { value: 'practical_demos', label: 'Practical Demonstrations' },
+  { value: 'projects', label: 'Projects/Case Studies' },
+  { value: 'portfolios', label: 'Portfolio Assessment' },
+  { value: 'workplace_obs', label: 'Workplace Observation' },
+  { value: 'presentations', label: 'Presentations/Role Plays' },
+  { value: 'online_quizzes', label: 'Online Quizzes' },
+];
@@ -0,0 +1,198 @@
+/**
+ * JSON Schema Validation for Generated Plans
+ *
+ * Validates raw model output against the full draft-07 schema in
+ * prompts/schema.json (enums, patterns, formats, additionalProperties) and
+ * reports each failure with a JSON Pointer path (RFC 6901) so the APRV repair
+ * prompt can quote exactly what is wrong and where.
+ */
+
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+
+/**
+ * A single schema violation
+ */
+export interface SchemaError {
+  /** JSON Pointer to the offending value, e.g. "/weekly_plan/3/activities/0/delivery_method" */
+  pointer: string;
+
+  /** Schema keyword that failed (required, enum, type, additionalProperties, ...) */
+  keyword: string;
+
+  /** Human-readable description */
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: SchemaError[];
+}
+
+/** Maximum characters of an offending fragment quoted back to the model */
+const MAX_FRAGMENT_CHARS = 600;
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+addFormats(ajv);
+
+// Compiled validators, keyed by schema object so each schema compiles once
+const compiled = new WeakMap<object, ValidateFunction>();
+
+/**
+ * The validator for a schema, compiling it on first use
+ *
+ * The routes parse prompts/schema.json on every request, so a schema with an
+ * $id is looked up by that id: Ajv refuses to compile a second schema with
+ * the same $id.
+ */
+function getValidator(schema: object): ValidateFunction {
+  let validate = compiled.get(schema);
+  if (!validate) {
+    const id = (schema as { $id?: unknown }).$id;
+    validate = (typeof id === 'string' && ajv.getSchema(id)) || ajv.compile(schema);
+    compiled.set(schema, validate);
+  }
+  return validate;
+}
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * @param data - Parsed plan JSON
+ * @param schema - Draft-07 JSON Schema (e.g. prompts/schema.json)
+ * @returns Validity and pointer-addressed errors
+ */
+export function validateJSONSchema(data: unknown, schema: object): SchemaValidationResult {
+  const validate = getValidator(schema);
+
+  if (validate(data)) {
+    return { valid: true, errors: [] };
+  }
+
+  return {
+    valid: false,
+    errors: dedupeErrors((validate.errors || []).map(toSchemaError)),
+  };
+}
+
+/**
+ * Resolve a JSON Pointer against a document
+ *
+ * @returns The referenced value, or undefined when the path does not exist
+ */
+export function getAtPointer(document: unknown, pointer: string): unknown {
+  return parsePointer(pointer).reduce<unknown>((node, token) => {
+    if (node && typeof node === 'object') {
+      return (node as Record<string, unknown>)[token];
+    }
+    return undefined;
+  }, document);
+}
+
+/**
+ * Return a copy of a document with the value at a pointer replaced
+ *
+ * Intermediate objects are created as needed; the original is not modified.
+ */
+export function setAtPointer<T>(document: T, pointer: string, value: unknown): T {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return value as T;
+
+  const copy = JSON.parse(JSON.stringify(document));
+  let node = copy;
+  tokens.slice(0, -1).forEach((token) => {
+    if (!node[token] || typeof node[token] !== 'object') {
+      node[token] = {};
+    }
+    node = node[token];
+  });
+  node[tokens[tokens.length - 1]] = value;
+
+  return copy;
+}
+
+/**
+ * Resolve the sub-schema that describes the value at a pointer
+ *
+ * Follows `properties` for object keys and `items` for array indices.
+ */
+export function getSchemaAtPointer(schema: any, pointer: string): any {
+  return parsePointer(pointer).reduce((node, token) => {
+    if (!node) return undefined;
+    if (node.type === 'array') return node.items;
+    return node.properties?.[token];
+  }, schema);
+}
+
+/**
+ * Render the offending fragment at a pointer as compact JSON for a prompt
+ *
+ * Missing properties are reported against their parent object so the model
+ * can see where the field belongs.
+ */
+export function formatFragment(document: unknown, error: SchemaError): string {
+  const pointer =
+    error.keyword === 'required' ? parentPointer(error.pointer) : error.pointer;
+  const value = getAtPointer(document, pointer);
+
+  if (value === undefined) return '(missing)';
+
+  const json = JSON.stringify(value);
+  return json.length > MAX_FRAGMENT_CHARS ? `${json.slice(0, MAX_FRAGMENT_CHARS)}...` : json;
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+function toSchemaError(error: ErrorObject): SchemaError {
+  const params = error.params as Record<string, any>;
+  let pointer = error.instancePath || '';
+  let message = error.message || 'is invalid';
+
+  switch (error.keyword) {
+    case 'required':
+      pointer = `${pointer}/${escapeToken(params.missingProperty)}`;
+      message = 'is required but missing';
+      break;
+    case 'additionalProperties':
+      pointer = `${pointer}/${escapeToken(params.additionalProperty)}`;
+      message = 'is not allowed by the schema (additionalProperties: false)';
+      break;
+    case 'enum':
+      message = `must be one of: ${(params.allowedValues as unknown[])
+        .map((value) => JSON.stringify(value))
+        .join(', ')}`;
+      break;
+  }
+
+  return { pointer: pointer || '/', keyword: error.keyword, message };
+}
+
+function dedupeErrors(errors: SchemaError[]): SchemaError[] {
+  const seen = new Set<string>();
+  return errors.filter((error) => {
+    const key = `${error.pointer}|${error.keyword}|${error.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '' || pointer === '/') return [];
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function parentPointer(pointer: string): string {
+  const index = pointer.lastIndexOf('/');
+  return index <= 0 ? '' : pointer.slice(0, index);
+}
+
+function escapeToken(token: string): string {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,172 @@
+/**
+ * LLM Provider Abstraction
+ *
+ * Every model call in the app (APRV loop, ClaudeClient, API routes) goes
+ * through the LLMProvider interface so the backing model can be swapped:
+ * - AnthropicProvider: Claude via the Anthropic SDK (default)
+ * - StubProvider: deterministic fixture replay for CI and offline dev (see stub-provider.ts)
+ *
+ * Select the provider with the LLM_PROVIDER environment variable.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { config } from '@/config/env';
+import { StubProvider } from '@/lib/stub-provider';
+
+/**
+ * A single completion request
+ */
+export interface LLMRequest {
+  /** System prompt */
+  system: string;
+
+  /** User prompt */
+  prompt: string;
+
+  /** Maximum tokens to generate */
+  maxTokens: number;
+
+  /** Sampling temperature */
+  temperature?: number;
+
+  /** Top-p sampling parameter */
+  topP?: number;
+
+  /** Top-k sampling parameter */
+  topK?: number;
+
+  /** Stop sequences */
+  stopSequences?: string[];
+
+  /** Model override (defaults to the provider's model) */
+  model?: string;
+
+  /**
+   * What the call is for (e.g. 'plan', 'reflect'). Real providers ignore it;
+   * the stub provider uses it to pick which recorded responses to replay.
+   */
+  purpose?: string;
+}
+
+/**
+ * A completed response
+ */
+export interface LLMResponse {
+  /** Concatenated text output */
+  text: string;
+
+  /** Why generation stopped ('end_turn', 'max_tokens', ...) */
+  stopReason?: string | null;
+
+  /** Token usage, when the provider reports it */
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * Common interface for model backends
+ */
+export interface LLMProvider {
+  /** Provider identifier for logging */
+  readonly name: string;
+
+  /** Run a request and return the full response */
+  complete(request: LLMRequest): Promise<LLMResponse>;
+
+  /** Run a request, calling onText for each text delta as it arrives */
+  stream(request: LLMRequest, onText?: (delta: string) => void): Promise<LLMResponse>;
+}
+
+export type LLMProviderName = 'anthropic' | 'stub';
+
+/**
+ * Anthropic Claude provider
+ *
+ * Thin adapter over the SDK. Errors are passed through untouched so callers
+ * (e.g. ClaudeClient's retry logic) can inspect Anthropic.APIError.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+  private model: string;
+
+  constructor(apiKey: string, model?: string) {
+    this.client = new Anthropic({ apiKey });
+    this.model = model || config.model;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const message = await this.client.messages.create(this.toParams(request));
+
+    return {
+      text: message.content
+        .filter((block) => block.type === 'text')
+        .map((block) => ('text' in block ? block.text : ''))
+        .join('\n'),
+      stopReason: message.stop_reason,
+      usage: {
+        input_tokens: message.usage.input_tokens,
+        output_tokens: message.usage.output_tokens,
+      },
+    };
+  }
+
+  async stream(request: LLMRequest, onText?: (delta: string) => void): Promise<LLMResponse> {
+    const stream = this.client.messages.stream(this.toParams(request));
+
+    let text = '';
+    let stopReason: string | null = null;
+    let usage: LLMResponse['usage'];
+
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        text += event.delta.text;
+        onText?.(event.delta.text);
+      } else if (event.type === 'message_delta') {
+        stopReason = event.delta.stop_reason;
+        usage = {
+          input_tokens: event.usage.input_tokens ?? 0,
+          output_tokens: event.usage.output_tokens,
+        };
+      }
+    }
+
+    return { text, stopReason, usage };
+  }
+
+  private toParams(request: LLMRequest) {
+    return {
+      model: request.model || this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP,
+      top_k: request.topK,
+      stop_sequences: request.stopSequences,
+      system: request.system,
+      messages: [
+        {
+          role: 'user' as const,
+          content: request.prompt,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Create the provider selected by environment configuration
+ *
+ * @param name - Override for LLM_PROVIDER
+ * @returns Configured provider instance
+ */
+export function createProvider(name: LLMProviderName = config.llmProvider): LLMProvider {
+  switch (name) {
+    case 'stub':
+      return new StubProvider({ scenario: config.stubScenario });
+    case 'anthropic':
+    default:
+      return new AnthropicProvider(config.anthropicApiKey, config.model);
+  }
+}
@@ -0,0 +1,663 @@
+/**
+ * PDF Export
+ *
+ * Renders a plan as an A4 PDF with the same section structure as the DOCX
+ * export: title page, table of contents, overview, cohort profile, weekly
+ * plan tables, unit tables, resources, risk register and compliance notes.
+ * Every page carries the header and a "Page N of M" footer; the contents
+ * page links to each section and the sections are also PDF bookmarks.
+ *
+ * Uses jsPDF's built-in fonts, so no external service or font files are
+ * needed. The output is deterministic: the creation date and file id come
+ * from the plan, so the same plan always renders the same bytes.
+ */
+
+import { createHash } from 'crypto';
+import { jsPDF } from 'jspdf';
+import autoTable, { RowInput, Styles } from 'jspdf-autotable';
+import { GeneratedPlan } from '@/types/unit-plan';
+import { getWeekHours } from '@/types/schema-types';
+import { formatClosures, formatSessionDates, isShortWeek } from '@/lib/delivery-calendar';
+import { analyzeVolumeOfLearning, formatVolumeStatus } from '@/lib/aqf-compliance';
+import {
+  COMPLIANCE_FIELDS,
+  RESOURCE_GROUPS,
+  formatDate,
+  formatDeliveryMode,
+  formatDeliverySchedule,
+  formatLabel,
+} from '@/lib/export-handlers';
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+/** Page geometry in millimetres (A4 portrait) */
+const PAGE = {
+  margin: 20,
+  contentTop: 25,
+  headerY: 12,
+  footerOffset: 10,
+  bottomMargin: 20,
+};
+
+const FONT_SIZES = { title: 24, h1: 16, h2: 13, h3: 11, body: 10, table: 9, small: 8 };
+
+const HEADING_COLOR: [number, number, number] = [31, 56, 100];
+const MUTED_COLOR: [number, number, number] = [100, 100, 100];
+
+const PT_TO_MM = 0.3528;
+const LINE_HEIGHT_FACTOR = 1.25;
+
+/**
+ * Characters outside the built-in fonts' WinAnsi encoding, with plain
+ * replacements; anything else unsupported becomes "?"
+ */
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  '→': '->',
+  '←': '<-',
+  '≥': '>=',
+  '≤': '<=',
+  '≠': '!=',
+  '×': 'x',
+  '✓': '*',
+  '✔': '*',
+  ' ': ' ',
+};
+
+/** The non-Latin-1 characters WinAnsi does support */
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+function toPdfText(value: string): string {
+  return Array.from(value)
+    .map((char) => {
+      if (CHARACTER_REPLACEMENTS[char] !== undefined) return CHARACTER_REPLACEMENTS[char];
+      return char.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRAS.has(char) ? char : '?';
+    })
+    .join('');
+}
+
+function lineHeight(fontSize: number): number {
+  return fontSize * PT_TO_MM * LINE_HEIGHT_FACTOR;
+}
+
+interface TocEntry {
+  title: string;
+  level: 1 | 2;
+  page: number;
+}
+
+interface TextOptions {
+  size?: number;
+  style?: 'normal' | 'bold' | 'italic';
+  indent?: number;
+  color?: [number, number, number];
+}
+
+/**
+ * Cursor-based writer: tracks the vertical position, breaks pages before
+ * content would run into the footer, and records headings for the contents
+ */
+class PdfWriter {
+  readonly toc: TocEntry[] = [];
+  private y = PAGE.contentTop;
+
+  constructor(readonly doc: jsPDF) {}
+
+  private get pageHeight(): number {
+    return this.doc.internal.pageSize.getHeight();
+  }
+
+  private get contentWidth(): number {
+    return this.doc.internal.pageSize.getWidth() - PAGE.margin * 2;
+  }
+
+  private get bottom(): number {
+    return this.pageHeight - PAGE.bottomMargin;
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = PAGE.contentTop;
+  }
+
+  space(height: number) {
+    this.y += height;
+  }
+
+  /** Start a new page unless `height` still fits on this one */
+  ensureSpace(height: number) {
+    if (this.y + height > this.bottom) this.newPage();
+  }
+
+  private setFont({ size = FONT_SIZES.body, style = 'normal', color = [0, 0, 0] }: TextOptions) {
+    this.doc.setFont('helvetica', style);
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...color);
+  }
+
+  /**
+   * Level 1 headings start a new page (as in the DOCX export); levels 1 and 2
+   * appear in the contents
+   */
+  heading(text: string, level: 1 | 2 | 3) {
+    const size = level === 1 ? FONT_SIZES.h1 : level === 2 ? FONT_SIZES.h2 : FONT_SIZES.h3;
+    if (level === 1) {
+      this.newPage();
+    } else {
+      this.space(level === 2 ? 4 : 2);
+      // Keep the heading with at least a few lines of what follows
+      this.ensureSpace(lineHeight(size) + lineHeight(FONT_SIZES.body) * 3);
+    }
+
+    if (level < 3) {
+      this.toc.push({ title: toPdfText(text), level: level as 1 | 2, page: this.doc.getCurrentPageInfo().pageNumber });
+    }
+    this.paragraph(text, { size, style: 'bold', color: HEADING_COLOR });
+    this.space(level === 1 ? 3 : 1);
+  }
+
+  /** Wrapped text; `indent` also sets the hanging indent of continuation lines */
+  paragraph(text: string, options: TextOptions = {}) {
+    const size = options.size || FONT_SIZES.body;
+    const indent = options.indent || 0;
+    this.setFont(options);
+    const lines: string[] = this.doc.splitTextToSize(toPdfText(text), this.contentWidth - indent);
+    for (const line of lines) {
+      this.ensureSpace(lineHeight(size));
+      this.setFont(options);
+      this.doc.text(line, PAGE.margin + indent, this.y, { baseline: 'top' });
+      this.y += lineHeight(size);
+    }
+    this.space(1);
+  }
+
+  /** "Label: value" with the value wrapped beside the bold label */
+  field(label: string, value: string, options: TextOptions = {}) {
+    const size = FONT_SIZES.body;
+    const labelText = toPdfText(`${label}: `);
+    this.setFont({ size, style: 'bold' });
+    const labelWidth = this.doc.getTextWidth(labelText);
+
+    this.setFont({ size, style: options.style });
+    const lines: string[] = this.doc.splitTextToSize(toPdfText(value), this.contentWidth - labelWidth);
+    this.ensureSpace(lineHeight(size));
+    this.setFont({ size, style: 'bold' });
+    this.doc.text(labelText, PAGE.margin, this.y, { baseline: 'top' });
+    lines.forEach((line, idx) => {
+      if (idx > 0) this.ensureSpace(lineHeight(size));
+      this.setFont({ size, style: options.style });
+      this.doc.text(line, PAGE.margin + labelWidth, this.y, { baseline: 'top' });
+      this.y += lineHeight(size);
+    });
+    this.space(1);
+  }
+
+  bullet(text: string, level: 0 | 1 = 0) {
+    const indent = 4 + level * 6;
+    this.setFont({});
+    this.ensureSpace(lineHeight(FONT_SIZES.body));
+    this.doc.text(level === 0 ? '•' : '-', PAGE.margin + indent, this.y, { baseline: 'top' });
+    this.paragraph(text, { indent: indent + 4 });
+  }
+
+  table(head: string[], body: RowInput[], columnStyles: Record<number, Partial<Styles>> = {}) {
+    autoTable(this.doc, {
+      startY: this.y,
+      head: [head.map(toPdfText)],
+      body: body.map((row) =>
+        (row as unknown[]).map((cell) => (typeof cell === 'string' ? toPdfText(cell) : cell))
+      ) as RowInput[],
+      theme: 'grid',
+      margin: { top: PAGE.contentTop, bottom: PAGE.bottomMargin, left: PAGE.margin, right: PAGE.margin },
+      styles: { font: 'helvetica', fontSize: FONT_SIZES.table, cellPadding: 1.5, valign: 'top' },
+      headStyles: { fillColor: HEADING_COLOR, textColor: 255, fontStyle: 'bold' },
+      columnStyles,
+    });
+    this.y = (this.doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 4;
+  }
+
+  /** Two-column label/value table without a header row */
+  keyValueTable(rows: [string, string][]) {
+    autoTable(this.doc, {
+      startY: this.y,
+      body: rows.map(([label, value]) => [toPdfText(label), toPdfText(value)]),
+      theme: 'plain',
+      margin: { top: PAGE.contentTop, bottom: PAGE.bottomMargin, left: PAGE.margin, right: PAGE.margin },
+      styles: { font: 'helvetica', fontSize: FONT_SIZES.body, cellPadding: 1 },
+      columnStyles: { 0: { fontStyle: 'bold', cellWidth: 50 } },
+    });
+    this.y = (this.doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 3;
+  }
+}
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+function writeTitlePage(writer: PdfWriter, plan: GeneratedPlan) {
+  const { doc } = writer;
+  const centre = doc.internal.pageSize.getWidth() / 2;
+  const maxWidth = doc.internal.pageSize.getWidth() - PAGE.margin * 2;
+  let y = 80;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(FONT_SIZES.title);
+  doc.setTextColor(...HEADING_COLOR);
+  doc.text('TAS UNIT PLAN', centre, y, { align: 'center', baseline: 'top' });
+  y += 18;
+
+  doc.setFontSize(FONT_SIZES.h1);
+  const titleLines: string[] = doc.splitTextToSize(toPdfText(plan.meta.qualification.title), maxWidth);
+  doc.text(titleLines, centre, y, { align: 'center', baseline: 'top', lineHeightFactor: LINE_HEIGHT_FACTOR });
+  y += titleLines.length * lineHeight(FONT_SIZES.h1) + 14;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(FONT_SIZES.h3);
+  doc.setTextColor(0, 0, 0);
+  [
+    `Qualification Code: ${plan.meta.qualification.code || 'N/A'}`,
+    `Generated: ${formatDate(plan.metadata.generated_at)}`,
+    `Delivery Mode: ${formatDeliveryMode(plan.meta.delivery_mode)}`,
+    `Duration: ${plan.meta.duration.weeks} weeks, ${plan.meta.duration.total_hours} hours`,
+    `Confidence Score: ${(plan.confidence_score * 100).toFixed(0)}%`,
+  ].forEach((line) => {
+    doc.text(toPdfText(line), centre, y, { align: 'center', baseline: 'top' });
+    y += 8;
+  });
+}
+
+function writeOverviewSection(writer: PdfWriter, plan: GeneratedPlan) {
+  const { meta } = plan;
+
+  writer.heading('Plan Metadata', 2);
+  writer.keyValueTable([
+    ['Schema Version', plan.metadata.schema_version],
+    ['Project Type', plan.metadata.project_type],
+    ['Generated', formatDate(plan.metadata.generated_at)],
+    ['Confidence Score', `${(plan.confidence_score * 100).toFixed(1)}%`],
+  ]);
+
+  const optionalDetails: [string, string | undefined][] = [
+    ['Level', meta.qualification.level || undefined],
+    ['Packaging Rules', meta.qualification.packaging_rules],
+    ['Start Date', meta.start_date ? formatDate(meta.start_date) : undefined],
+    ['End Date', meta.end_date ? formatDate(meta.end_date) : undefined],
+    ['Delivery Days', meta.delivery_schedule ? formatDeliverySchedule(meta.delivery_schedule) : undefined],
+    ['Venue', meta.venue],
+    ['Primary Trainer', meta.trainer_details?.primary_trainer],
+  ];
+
+  writer.heading('Qualification Details', 2);
+  writer.keyValueTable([
+    ['Qualification', meta.qualification.title],
+    ['Code', meta.qualification.code || 'N/A'],
+    ['Delivery Mode', formatDeliveryMode(meta.delivery_mode)],
+    ['Duration', `${meta.duration.weeks} weeks`],
+    ['Total Hours', `${meta.duration.total_hours} hours`],
+    ...(optionalDetails.filter(([, value]) => value) as [string, string][]),
+  ]);
+}
+
+function writeCohortSection(writer: PdfWriter, plan: GeneratedPlan) {
+  const classSize = plan.meta.class_size;
+
+  writer.paragraph(plan.meta.cohort_profile);
+
+  if (classSize && (classSize.min || classSize.max || classSize.target)) {
+    writer.heading('Class Size', 2);
+    (
+      [
+        ['Minimum', classSize.min],
+        ['Target', classSize.target],
+        ['Maximum', classSize.max],
+      ] as const
+    )
+      .filter(([, value]) => value !== undefined)
+      .forEach(([label, value]) => writer.bullet(`${label}: ${value}`));
+  }
+}
+
+function writeWeeklyPlanSection(writer: PdfWriter, plan: GeneratedPlan) {
+  writer.heading('Delivery Summary', 2);
+  writer.table(
+    ['Week', 'Theme', 'Hours', 'Sessions', 'Units', 'Assessments'],
+    plan.weekly_plan.map((week) => [
+      `${week.week_number}`,
+      week.week_theme || '',
+      `${getWeekHours(week)}`,
+      week.dates ? formatSessionDates(week.dates) : '',
+      (week.units_covered || []).join(', '),
+      (week.assessments || []).map((assessment) => assessment.title).join(', '),
+    ]),
+    { 0: { cellWidth: 12, halign: 'center' }, 2: { cellWidth: 14, halign: 'right' } }
+  );
+
+  plan.weekly_plan.forEach((week) => {
+    writer.heading(`Week ${week.week_number}${week.week_theme ? `: ${week.week_theme}` : ''}`, 2);
+    writer.field('Hours', `${getWeekHours(week)}`);
+
+    if (week.dates) {
+      writer.field('Sessions', formatSessionDates(week.dates));
+      if (isShortWeek(week.dates)) {
+        writer.field('Short week', formatClosures(week.dates));
+      }
+    }
+
+    if (week.units_covered && week.units_covered.length > 0) {
+      writer.field('Units Covered', week.units_covered.join(', '));
+    }
+
+    if (week.activities && week.activities.length > 0) {
+      writer.heading('Activities', 3);
+      writer.table(
+        ['Activity', 'Method', 'Hours', 'Details'],
+        week.activities.map((activity) => [
+          activity.title,
+          formatLabel(activity.delivery_method),
+          `${activity.duration_hours}`,
+          [activity.description, activity.resources?.length ? `Resources: ${activity.resources.join(', ')}` : '']
+            .filter(Boolean)
+            .join('\n'),
+        ]),
+        { 0: { cellWidth: 45, fontStyle: 'bold' }, 1: { cellWidth: 28 }, 2: { cellWidth: 14, halign: 'right' } }
+      );
+    }
+
+    if (week.assessments && week.assessments.length > 0) {
+      writer.heading('Assessments', 3);
+      writer.table(
+        ['Assessment', 'Type', 'Units', 'Due'],
+        week.assessments.map((assessment) => [
+          assessment.title,
+          formatLabel(assessment.type),
+          assessment.units_assessed.join(', '),
+          assessment.due_date || '',
+        ]),
+        { 1: { cellWidth: 30 }, 3: { cellWidth: 24 } }
+      );
+    }
+
+    if (week.notes) {
+      writer.field('Notes', week.notes, { style: 'italic' });
+    }
+  });
+}
+
+function writeUnitsSection(writer: PdfWriter, plan: GeneratedPlan) {
+  writer.table(
+    ['Code', 'Title', 'Hours', 'Delivery'],
+    plan.units.map((unit) => [
+      unit.unit_code,
+      unit.unit_title,
+      `${unit.nominal_hours}`,
+      (unit.delivery_methods || []).map(formatDeliveryMode).join(', ') || 'N/A',
+    ]),
+    { 0: { cellWidth: 30 }, 2: { cellWidth: 16, halign: 'right' }, 3: { cellWidth: 40 } }
+  );
+
+  writer.heading('Unit Details', 2);
+
+  plan.units.forEach((unit) => {
+    writer.heading(`${unit.unit_code}: ${unit.unit_title}`, 3);
+    writer.field('Nominal Hours', `${unit.nominal_hours}`);
+
+    if (unit.unit_type) {
+      writer.field('Unit Type', formatLabel(unit.unit_type));
+    }
+    if (unit.delivery_methods && unit.delivery_methods.length > 0) {
+      writer.field('Delivery Methods', unit.delivery_methods.map(formatDeliveryMode).join(', '));
+    }
+    if (unit.weeks_scheduled && unit.weeks_scheduled.length > 0) {
+      writer.field('Weeks Scheduled', unit.weeks_scheduled.join(', '));
+    }
+    if (unit.assessment_methods && unit.assessment_methods.length > 0) {
+      writer.field('Assessment Methods', unit.assessment_methods.map(formatLabel).join(', '));
+    }
+    if (unit.assessment_tasks && unit.assessment_tasks.length > 0) {
+      writer.table(
+        ['Assessment Task', 'Method', 'Description'],
+        unit.assessment_tasks.map((task) => [task.task_name, task.method, task.description || '']),
+        { 0: { cellWidth: 50 }, 1: { cellWidth: 30 } }
+      );
+    }
+    if (unit.prerequisites && unit.prerequisites.length > 0) {
+      writer.field('Prerequisites', unit.prerequisites.join(', '));
+    }
+  });
+}
+
+function writeResourcesSection(writer: PdfWriter, plan: GeneratedPlan) {
+  const groups = RESOURCE_GROUPS.filter(({ key }) => (plan.resources?.[key] || []).length > 0);
+
+  if (groups.length === 0) {
+    writer.paragraph('No specific resources documented.', { style: 'italic' });
+    return;
+  }
+
+  groups.forEach(({ key, label }) => {
+    writer.heading(label, 2);
+    (plan.resources?.[key] || []).forEach((resource) => writer.bullet(resource));
+  });
+}
+
+function writeRisksAssumptionsSection(writer: PdfWriter, plan: GeneratedPlan) {
+  writer.heading('Risk Register', 2);
+  if (plan.risks && plan.risks.length > 0) {
+    writer.table(
+      ['#', 'Risk', 'Category', 'Likelihood', 'Impact', 'Mitigation'],
+      plan.risks.map((risk, idx) => [
+        `${idx + 1}`,
+        risk.risk_description,
+        risk.category ? formatLabel(risk.category) : '',
+        formatLabel(risk.likelihood),
+        formatLabel(risk.impact),
+        risk.mitigation || '',
+      ]),
+      {
+        0: { cellWidth: 8, halign: 'center' },
+        2: { cellWidth: 24 },
+        3: { cellWidth: 20 },
+        4: { cellWidth: 18 },
+      }
+    );
+  } else {
+    writer.paragraph('No significant risks identified.', { style: 'italic' });
+  }
+
+  writer.heading('Assumptions', 2);
+  if (plan.assumptions && plan.assumptions.length > 0) {
+    plan.assumptions.forEach((assumption) => {
+      writer.bullet(
+        assumption.category
+          ? `${assumption.assumption} (${formatLabel(assumption.category)})`
+          : assumption.assumption
+      );
+      if (assumption.validation_required) {
+        writer.bullet('Validation required before delivery', 1);
+      }
+    });
+  } else {
+    writer.paragraph('No specific assumptions documented.', { style: 'italic' });
+  }
+}
+
+function writeComplianceSection(writer: PdfWriter, plan: GeneratedPlan) {
+  const analysis = analyzeVolumeOfLearning(plan);
+
+  writer.heading('Volume of Learning Analysis', 2);
+  writer.keyValueTable([
+    ['Qualification Level', analysis.level || 'Not specified'],
+    ['Planned Hours', `${analysis.planned_hours} over ${plan.meta.duration.weeks} weeks`],
+    ['Unit Nominal Hours', `${analysis.nominal_hours}`],
+    [
+      'AQF Volume of Learning',
+      analysis.range
+        ? `${analysis.range.min_years}-${analysis.range.max_years} years (${analysis.range.min_hours}-${analysis.range.max_hours} hours)`
+        : 'Not applicable',
+    ],
+    ['Overall Result', formatVolumeStatus(analysis.status)],
+  ]);
+  if (analysis.checks.length > 0) {
+    writer.table(
+      ['Check', 'Result', 'Explanation'],
+      analysis.checks.map((check) => [check.label, formatVolumeStatus(check.status), check.explanation]),
+      { 0: { cellWidth: 40, fontStyle: 'bold' }, 1: { cellWidth: 25 } }
+    );
+  }
+
+  COMPLIANCE_FIELDS.filter(({ key }) => plan.compliance_notes?.[key]).forEach(({ key, label }) => {
+    writer.heading(label, 2);
+    writer.paragraph(plan.compliance_notes?.[key] as string);
+  });
+
+  writer.heading('Australian RTO Requirements', 2);
+  writer.paragraph(
+    'This plan has been generated to align with Australian RTO standards. Please ensure the following before use:'
+  );
+  [
+    'All units are from current training packages',
+    'Delivery hours meet nominal hours requirements',
+    'Assessment methods align with assessment requirements',
+    'Resources and facilities are adequate for delivery',
+    'LLN requirements are addressed in cohort profile',
+  ].forEach((item) => writer.bullet(item));
+
+  writer.heading('Important Notes', 2);
+  writer.paragraph(
+    'This plan is AI-generated and should be reviewed by qualified trainers before use. Customize sections to match your specific cohort, resources, and organizational requirements.'
+  );
+  writer.field(
+    'Confidence Score',
+    `${(plan.confidence_score * 100).toFixed(1)}% - This indicates the AI's confidence in the plan structure and content.`
+  );
+}
+
+// ============================================================================
+// Contents, Headers and Footers
+// ============================================================================
+
+const TOC_ROW_HEIGHT = 7;
+
+/**
+ * Insert the contents page(s) after the title page, now that every heading's
+ * page is known, and add matching bookmarks
+ */
+function insertTableOfContents(doc: jsPDF, toc: TocEntry[]) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const firstRowY = PAGE.contentTop + 14;
+  const rowsPerPage = Math.floor((pageHeight - PAGE.bottomMargin - firstRowY) / TOC_ROW_HEIGHT);
+  const tocPages = Math.max(1, Math.ceil(toc.length / rowsPerPage));
+
+  for (let i = 0; i < tocPages; i++) {
+    doc.insertPage(2 + i);
+  }
+  const entries = toc.map((entry) => ({ ...entry, page: entry.page + tocPages }));
+
+  doc.setPage(2);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(FONT_SIZES.h1);
+  doc.setTextColor(...HEADING_COLOR);
+  doc.text('TABLE OF CONTENTS', PAGE.margin, PAGE.contentTop, { baseline: 'top' });
+
+  entries.forEach((entry, idx) => {
+    const page = 2 + Math.floor(idx / rowsPerPage);
+    const y = firstRowY + (idx % rowsPerPage) * TOC_ROW_HEIGHT;
+    const x = PAGE.margin + (entry.level === 2 ? 6 : 0);
+    const pageLabel = `${entry.page}`;
+
+    doc.setPage(page);
+    doc.setFont('helvetica', entry.level === 1 ? 'bold' : 'normal');
+    doc.setFontSize(entry.level === 1 ? FONT_SIZES.body + 1 : FONT_SIZES.body);
+    doc.setTextColor(0, 0, 0);
+
+    const numberX = pageWidth - PAGE.margin;
+    const numberWidth = doc.getTextWidth(pageLabel);
+    const maxTitleWidth = numberX - numberWidth - x - 8;
+    const title = (doc.splitTextToSize(entry.title, maxTitleWidth) as string[])[0];
+    const titleWidth = doc.getTextWidth(title);
+    const dotWidth = doc.getTextWidth('.');
+    const leader = '.'.repeat(Math.max(0, Math.floor((numberX - numberWidth - x - titleWidth - 4) / dotWidth)));
+
+    doc.text(title, x, y, { baseline: 'top' });
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(leader, x + titleWidth + 2, y, { baseline: 'top' });
+    doc.setTextColor(0, 0, 0);
+    doc.text(pageLabel, numberX, y, { align: 'right', baseline: 'top' });
+    doc.link(x, y - 1, numberX - x, TOC_ROW_HEIGHT - 1, { pageNumber: entry.page });
+  });
+
+  let section: ReturnType<jsPDF['outline']['add']> | null = null;
+  entries.forEach((entry) => {
+    if (entry.level === 1) {
+      section = doc.outline.add(null, entry.title, { pageNumber: entry.page });
+    } else {
+      doc.outline.add(section, entry.title, { pageNumber: entry.page });
+    }
+  });
+}
+
+/**
+ * Header and "Page N of M" footer on every page, matching the DOCX export
+ */
+function addHeadersAndFooters(doc: jsPDF) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const total = doc.getNumberOfPages();
+
+  for (let page = 1; page <= total; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(FONT_SIZES.small);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text('TAS Unit Plan', pageWidth - PAGE.margin, PAGE.headerY, { align: 'right' });
+    doc.text(
+      `Generated by TAS Assistant - Review and customize before use | Page ${page} of ${total}`,
+      pageWidth / 2,
+      pageHeight - PAGE.footerOffset,
+      { align: 'center' }
+    );
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Builds the PDF for a plan; call `.output('arraybuffer')` for the bytes
+ */
+export function createPlanPDF(plan: GeneratedPlan): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+  const generatedAt = new Date(plan.metadata.generated_at);
+
+  doc.setProperties({
+    title: toPdfText(`TAS Unit Plan - ${plan.meta.qualification.title}`),
+    subject: toPdfText(plan.meta.qualification.code || plan.meta.qualification.title),
+    creator: 'TAS Assistant',
+  });
+  doc.setCreationDate(isNaN(generatedAt.getTime()) ? new Date(0) : generatedAt);
+  doc.setFileId(createHash('md5').update(JSON.stringify(plan)).digest('hex').toUpperCase());
+
+  const writer = new PdfWriter(doc);
+  writeTitlePage(writer, plan);
+
+  const sections: [string, (writer: PdfWriter, plan: GeneratedPlan) => void][] = [
+    ['1. Overview', writeOverviewSection],
+    ['2. Cohort Profile', writeCohortSection],
+    ['3. Weekly Delivery Plan', writeWeeklyPlanSection],
+    ['4. Units of Competency', writeUnitsSection],
+    ['5. Resources & Facilities', writeResourcesSection],
+    ['6. Risks & Assumptions', writeRisksAssumptionsSection],
+    ['7. Compliance Notes', writeComplianceSection],
+  ];
+  sections.forEach(([title, write]) => {
+    writer.heading(title, 1);
+    write(writer, plan);
+  });
+
+  insertTableOfContents(doc, writer.toc);
+  addHeadersAndFooters(doc);
+  return doc;
+}
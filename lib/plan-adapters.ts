@@ -0,0 +1,332 @@
+/**
+ * Plan Adapters
+ *
+ * Converts between the app's data shapes so every consumer compiles against
+ * the canonical plan model in types/schema-types.ts:
+ * - toAPRVIntake: intake form data → APRV generation input
+ * - applyOrganisationDefaults: fill APRV input gaps from the organisation defaults
+ * - intakeFromPlan: a plan's meta → APRV input (refining without the original intake)
+ * - intakeFormFromPlan: a plan's meta → intake form data (importing a bare plan)
+ * - applyIntakeToMeta: stamp the intake's level, start date, venue, class size and trainers onto a plan
+ * - toGeneratedPlan: raw generated/stored JSON → canonical GeneratedPlan
+ */
+
+import type {
+  IntakeFormData,
+  APRVIntake,
+  GeneratedPlan,
+  OrganisationDefaults,
+  ClassSize,
+  AustralianState,
+} from '@/types/unit-plan';
+import { RESOURCE_OPTIONS, ASSESSMENT_OPTIONS } from '@/lib/intake-options';
+import { AUSTRALIAN_STATES } from '@/lib/delivery-calendar';
+
+/** Schema version of plans produced by this build (see lib/plan-migrations.ts) */
+export const CURRENT_SCHEMA_VERSION = '1.2.0';
+
+// ============================================================================
+// Intake → APRV input
+// ============================================================================
+
+/**
+ * Adapt intake form data to the APRV input format
+ *
+ * Checkbox values are expanded to their labels and resources are grouped by
+ * kind so the prompt reads naturally.
+ */
+export function toAPRVIntake(data: IntakeFormData): APRVIntake {
+  return {
+    qualification: {
+      title: data.qualification,
+      code: data.qualificationCode || undefined,
+      level: data.qualificationLevel || undefined,
+    },
+    duration: {
+      weeks: data.durationWeeks,
+      total_hours: data.totalHours,
+    },
+    delivery_mode: data.deliveryMode,
+    cohort_profile: data.cohortProfile,
+    resources: data.resources?.length ? groupResources(data.resources) : undefined,
+    assessment_preferences: data.assessmentPreferences?.map(
+      (value) => ASSESSMENT_OPTIONS.find((option) => option.value === value)?.label || value
+    ),
+    unit_list: data.unitList || undefined,
+    trainer_details: toTrainerDetails(data.primaryTrainer, data.additionalTrainers),
+    start_date: data.startDate || undefined,
+    venue: data.venue?.trim() || undefined,
+    class_size: toClassSize(data.classSize),
+    delivery_schedule:
+      data.state || data.deliveryDays?.length || data.sessionTimes?.start
+        ? {
+            ...(data.state ? { state: data.state } : {}),
+            ...(data.deliveryDays?.length ? { delivery_days: data.deliveryDays } : {}),
+            ...(data.sessionTimes?.start && data.sessionTimes.end
+              ? { session_times: { start: data.sessionTimes.start, end: data.sessionTimes.end } }
+              : {}),
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Trainer names as plan trainer details, or undefined if none were given
+ */
+function toTrainerDetails(
+  primary: string | undefined,
+  additional: string[] | undefined
+): APRVIntake['trainer_details'] {
+  const primaryTrainer = primary?.trim();
+  const additionalTrainers = (additional || []).map((name) => name.trim()).filter(Boolean);
+  if (!primaryTrainer && additionalTrainers.length === 0) return undefined;
+
+  return {
+    ...(primaryTrainer ? { primary_trainer: primaryTrainer } : {}),
+    ...(additionalTrainers.length > 0 ? { additional_trainers: additionalTrainers } : {}),
+  };
+}
+
+/**
+ * Class size without unset bounds, or undefined if none were given
+ */
+function toClassSize(size: ClassSize | undefined): ClassSize | undefined {
+  if (!size) return undefined;
+  const entries = Object.entries({ min: size.min, max: size.max, target: size.target }).filter(
+    ([, value]) => typeof value === 'number' && value > 0
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Merge organisation defaults into APRV input
+ *
+ * State, venue, trainers and class size are used only where the intake has none;
+ * standard resources are added to the intake's resources. `defaults` comes
+ * from the client, so malformed fields are ignored.
+ */
+export function applyOrganisationDefaults(intake: APRVIntake, defaults: unknown): APRVIntake {
+  if (!defaults || typeof defaults !== 'object') return intake;
+  const org = defaults as OrganisationDefaults;
+
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((item): item is string => !!text(item)).map((item) => item.trim()) : [];
+  const count = (value: unknown) => (typeof value === 'number' && value > 0 ? Math.round(value) : undefined);
+
+  const merged: APRVIntake = { ...intake };
+
+  const state = text(org.state);
+  if (!merged.delivery_schedule?.state && state && state in AUSTRALIAN_STATES) {
+    merged.delivery_schedule = { ...merged.delivery_schedule, state: state as AustralianState };
+  }
+
+  const venue = text(org.venue);
+  if (!merged.venue && venue) merged.venue = venue;
+
+  const primaryTrainer = text(org.primaryTrainer);
+  const additionalTrainers = strings(org.additionalTrainers);
+  const hasTrainers = !!merged.trainer_details?.primary_trainer || !!merged.trainer_details?.additional_trainers?.length;
+  if (!hasTrainers && (primaryTrainer || additionalTrainers.length > 0)) {
+    merged.trainer_details = {
+      ...(primaryTrainer ? { primary_trainer: primaryTrainer } : {}),
+      ...(additionalTrainers.length > 0 ? { additional_trainers: additionalTrainers } : {}),
+    };
+  }
+
+  const classSize = org.classSize && typeof org.classSize === 'object' ? org.classSize : {};
+  const size = { min: count(classSize.min), max: count(classSize.max), target: count(classSize.target) };
+  if (!merged.class_size && (size.min || size.max || size.target)) {
+    merged.class_size = Object.fromEntries(Object.entries(size).filter(([, value]) => value !== undefined));
+  }
+
+  const standard = strings(org.resources);
+  if (standard.length > 0) {
+    const grouped = groupResources(standard);
+    const resources: NonNullable<APRVIntake['resources']> = { ...merged.resources };
+    (Object.keys(grouped) as (keyof typeof grouped)[]).forEach((kind) => {
+      resources[kind] = Array.from(new Set([...(resources[kind] || []), ...(grouped[kind] || [])]));
+    });
+    merged.resources = resources;
+  }
+
+  return merged;
+}
+
+/**
+ * Reconstruct APRV input from a generated plan
+ *
+ * Used when a plan is refined without its original intake; resources and
+ * assessment preferences are not recorded in the plan and are left out.
+ */
+export function intakeFromPlan(plan: GeneratedPlan): APRVIntake {
+  const { meta } = plan;
+
+  return {
+    qualification: {
+      title: meta.qualification.title,
+      code: meta.qualification.code,
+      level: meta.qualification.level,
+    },
+    duration: {
+      weeks: meta.duration.weeks,
+      total_hours: meta.duration.total_hours,
+    },
+    delivery_mode: meta.delivery_mode,
+    cohort_profile: meta.cohort_profile,
+    unit_list: plan.units.map((unit) => `${unit.unit_code} ${unit.unit_title}`).join('\n') || undefined,
+    trainer_details: toTrainerDetails(
+      meta.trainer_details?.primary_trainer,
+      meta.trainer_details?.additional_trainers
+    ),
+    start_date: meta.start_date,
+    venue: meta.venue,
+    class_size: meta.class_size,
+    delivery_schedule: meta.delivery_schedule,
+  };
+}
+
+/**
+ * Reconstruct intake form data from a generated plan
+ *
+ * Used when a plan file is imported without the intake it was generated
+ * from. Delivery modes the form does not offer are recorded as blended.
+ */
+export function intakeFormFromPlan(plan: GeneratedPlan): IntakeFormData {
+  const { meta } = plan;
+  const deliveryMode = meta.delivery_mode;
+
+  return {
+    qualification: meta.qualification.title,
+    qualificationCode: meta.qualification.code,
+    deliveryMode: deliveryMode === 'face_to_face' || deliveryMode === 'online' ? deliveryMode : 'blended',
+    durationWeeks: meta.duration.weeks,
+    totalHours: meta.duration.total_hours,
+    cohortProfile: meta.cohort_profile,
+    unitList: plan.units.map((unit) => `${unit.unit_code} ${unit.unit_title}`).join('\n') || undefined,
+    qualificationLevel: meta.qualification.level || undefined,
+    startDate: meta.start_date,
+    venue: meta.venue,
+    classSize: toClassSize(meta.class_size),
+    primaryTrainer: meta.trainer_details?.primary_trainer,
+    additionalTrainers: meta.trainer_details?.additional_trainers,
+    state: meta.delivery_schedule?.state,
+    deliveryDays: meta.delivery_schedule?.delivery_days,
+    sessionTimes: meta.delivery_schedule?.session_times,
+  };
+}
+
+/**
+ * Record the intake's level, start date, venue, class size and trainers in a plan's meta
+ *
+ * The model is asked to copy these through, but may reword or invent them;
+ * values the intake supplies always win. Week dates and the end date come
+ * from the delivery calendar (lib/delivery-calendar.ts applyCalendar).
+ */
+export function applyIntakeToMeta(plan: GeneratedPlan, intake: APRVIntake): GeneratedPlan {
+  const meta = { ...plan.meta, qualification: { ...plan.meta.qualification } };
+
+  if (intake.qualification.level) meta.qualification.level = intake.qualification.level;
+  if (intake.start_date) meta.start_date = intake.start_date;
+  if (intake.venue) meta.venue = intake.venue;
+  if (intake.class_size) meta.class_size = { ...intake.class_size };
+  if (intake.trainer_details) {
+    meta.trainer_details = {
+      ...(meta.trainer_details?.qualifications_required
+        ? { qualifications_required: meta.trainer_details.qualifications_required }
+        : {}),
+      ...intake.trainer_details,
+    };
+  }
+
+  return { ...plan, meta };
+}
+
+/**
+ * Group selected resource values into facilities/equipment/materials/technology
+ */
+function groupResources(values: string[]): NonNullable<APRVIntake['resources']> {
+  const grouped: NonNullable<APRVIntake['resources']> = {};
+
+  values.forEach((value) => {
+    const option = RESOURCE_OPTIONS.find((o) => o.value === value);
+    const kind = option?.kind || 'equipment';
+    grouped[kind] = [...(grouped[kind] || []), option?.label || value];
+  });
+
+  return grouped;
+}
+
+// ============================================================================
+// Generated JSON → canonical plan
+// ============================================================================
+
+/**
+ * Normalise a generated (or stored) plan into the canonical GeneratedPlan
+ *
+ * Accepts the field variants models occasionally emit and older builds
+ * stored: `confidence` for `confidence_score`, `meta.qualification` as a
+ * string with `meta.qualification_code`, and flat `meta.duration_weeks` /
+ * `meta.total_hours`. Canonical plans pass through unchanged.
+ */
+export function toGeneratedPlan(raw: unknown): GeneratedPlan {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, any>;
+  const meta = (source.meta && typeof source.meta === 'object' ? source.meta : {}) as Record<string, any>;
+
+  const {
+    qualification_code,
+    duration_weeks,
+    total_hours,
+    hours_per_week,
+    ...restMeta
+  } = meta;
+
+  const qualification =
+    typeof meta.qualification === 'string'
+      ? { title: meta.qualification, ...(qualification_code ? { code: qualification_code } : {}) }
+      : meta.qualification || { title: '' };
+
+  const duration = meta.duration || {
+    weeks: Number(duration_weeks) || 0,
+    total_hours: Number(total_hours) || 0,
+    ...(hours_per_week !== undefined ? { hours_per_week } : {}),
+  };
+
+  const { confidence, ...rest } = source;
+
+  return {
+    ...rest,
+    metadata: {
+      schema_version: CURRENT_SCHEMA_VERSION,
+      project_type: 'unit_plan',
+      generated_at: new Date().toISOString(),
+      ...source.metadata,
+    },
+    meta: {
+      ...restMeta,
+      qualification,
+      duration,
+    },
+    weekly_plan: Array.isArray(source.weekly_plan) ? source.weekly_plan : [],
+    units: Array.isArray(source.units) ? source.units : [],
+    confidence_score:
+      typeof source.confidence_score === 'number'
+        ? source.confidence_score
+        : typeof confidence === 'number'
+        ? confidence
+        : 0,
+  } as GeneratedPlan;
+}
+
+/**
+ * Normalise a plan the model has just written
+ *
+ * The plan is produced by this build, so it is labelled with
+ * CURRENT_SCHEMA_VERSION whatever version the model wrote: an older label
+ * would be migrated on every read, and a newer one would be refused as
+ * written by a newer app.
+ */
+export function fromModelOutput(raw: unknown): GeneratedPlan {
+  const plan = toGeneratedPlan(raw);
+  return { ...plan, metadata: { ...plan.metadata, schema_version: CURRENT_SCHEMA_VERSION } };
+}
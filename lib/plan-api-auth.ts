@@ -0,0 +1,41 @@
+/**
+ * Plan API Access Check (server only)
+ *
+ * Saved plans on the server belong to every trainer who uses it, so the
+ * routes that read or change them (/api/plans, and /api/export with a
+ * planId) require `Authorization: Bearer <PLAN_API_TOKEN>`. Without a
+ * configured token those routes are disabled rather than open.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/config/env';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check a request's bearer token against PLAN_API_TOKEN
+ *
+ * @returns An error response to send back, or null if the request may proceed
+ */
+export function authorizePlanRequest(request: NextRequest, token: string = config.planApiToken): NextResponse | null {
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Plan storage API is disabled', details: 'Set PLAN_API_TOKEN on the server to enable it' },
+      { status: 503 }
+    );
+  }
+
+  const match = (request.headers.get('authorization') || '').match(/^Bearer\s+(.+)$/i);
+  // Compare digests so the check takes the same time for any wrong token
+  if (!match || !timingSafeEqual(digest(match[1].trim()), digest(token))) {
+    return NextResponse.json(
+      { error: 'Unauthorized', details: 'A valid plan server access token is required' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,372 @@
+/**
+ * Structural Plan Diff
+ *
+ * Compares two plans by meaning rather than by JSON text, so a version
+ * history can answer "why did this TAS change":
+ * - weeks are matched by week_number (added, removed, theme or hours changed)
+ * - activities and assessments are matched by title within a week
+ * - units are matched by unit_code, so a swapped unit shows as one removed
+ *   and one added
+ * - total scheduled hours and key meta fields (duration, delivery mode,
+ *   qualification) are compared directly
+ * - remaining sections (risks, assumptions, resources, compliance notes...)
+ *   are reported as changed when their content differs
+ */
+
+import type {
+  GeneratedPlan,
+  WeeklyPlanItem,
+  WeeklyActivityItem,
+  WeeklyAssessment,
+  UnitDetail,
+} from '@/types/schema-types';
+import { getWeekHours } from '@/types/schema-types';
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export type DiffCategory = 'meta' | 'hours' | 'week' | 'activity' | 'assessment' | 'unit' | 'section';
+
+export interface PlanDiffEntry {
+  kind: DiffKind;
+  category: DiffCategory;
+
+  /** JSON Pointer into the newer plan (the older one for removals) */
+  pointer: string;
+
+  /** Human-readable subject, e.g. "Week 3 · CPR Training" */
+  label: string;
+
+  /** Summary of the old value (absent for additions) */
+  before?: string;
+
+  /** Summary of the new value (absent for removals) */
+  after?: string;
+}
+
+export interface PlanDiff {
+  /** True when no structural differences were found */
+  identical: boolean;
+  entries: PlanDiffEntry[];
+  summary: {
+    weeks_added: number;
+    weeks_removed: number;
+    activities_changed: number;
+    units_added: number;
+    units_removed: number;
+    hours_before: number;
+    hours_after: number;
+  };
+}
+
+/** Sections compared by the dedicated rules above */
+const STRUCTURED_KEYS = ['metadata', 'meta', 'weekly_plan', 'units'];
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Structural differences from `before` to `after`
+ */
+export function diffPlans(before: GeneratedPlan, after: GeneratedPlan): PlanDiff {
+  const entries: PlanDiffEntry[] = [
+    ...diffMeta(before, after),
+    ...diffWeeks(before.weekly_plan, after.weekly_plan),
+    ...diffUnits(before.units, after.units),
+    ...diffOtherSections(before, after),
+  ];
+
+  const hoursBefore = totalHours(before);
+  const hoursAfter = totalHours(after);
+  if (!sameNumber(hoursBefore, hoursAfter)) {
+    entries.unshift({
+      kind: 'changed',
+      category: 'hours',
+      pointer: '/weekly_plan',
+      label: 'Total scheduled hours',
+      before: formatHours(hoursBefore),
+      after: formatHours(hoursAfter),
+    });
+  }
+
+  const count = (category: DiffCategory, kind?: DiffKind) =>
+    entries.filter((entry) => entry.category === category && (!kind || entry.kind === kind)).length;
+
+  return {
+    identical: entries.length === 0,
+    entries,
+    summary: {
+      weeks_added: count('week', 'added'),
+      weeks_removed: count('week', 'removed'),
+      activities_changed: count('activity'),
+      units_added: count('unit', 'added'),
+      units_removed: count('unit', 'removed'),
+      hours_before: hoursBefore,
+      hours_after: hoursAfter,
+    },
+  };
+}
+
+// ============================================================================
+// Meta
+// ============================================================================
+
+function diffMeta(before: GeneratedPlan, after: GeneratedPlan): PlanDiffEntry[] {
+  const fields: Array<[string, string, (plan: GeneratedPlan) => unknown]> = [
+    ['/meta/qualification', 'Qualification', (plan) =>
+      [plan.meta.qualification.code, plan.meta.qualification.title].filter(Boolean).join(' ')],
+    ['/meta/duration/weeks', 'Duration (weeks)', (plan) => plan.meta.duration.weeks],
+    ['/meta/duration/total_hours', 'Total hours', (plan) => plan.meta.duration.total_hours],
+    ['/meta/duration/hours_per_week', 'Hours per week', (plan) => plan.meta.duration.hours_per_week],
+    ['/meta/delivery_mode', 'Delivery mode', (plan) => plan.meta.delivery_mode],
+    ['/meta/start_date', 'Start date', (plan) => plan.meta.start_date],
+    ['/meta/venue', 'Venue', (plan) => plan.meta.venue],
+    ['/meta/cohort_profile', 'Cohort profile', (plan) => plan.meta.cohort_profile],
+  ];
+
+  return fields
+    .filter(([, , read]) => !sameValue(read(before), read(after)))
+    .map(([pointer, label, read]) => ({
+      kind: 'changed' as const,
+      category: 'meta' as const,
+      pointer,
+      label,
+      before: formatValue(read(before)),
+      after: formatValue(read(after)),
+    }));
+}
+
+// ============================================================================
+// Weeks, activities and assessments
+// ============================================================================
+
+function diffWeeks(before: WeeklyPlanItem[], after: WeeklyPlanItem[]): PlanDiffEntry[] {
+  const entries: PlanDiffEntry[] = [];
+  const previous = new Map(before.map((week, idx) => [week.week_number, { week, idx }]));
+  const next = new Map(after.map((week, idx) => [week.week_number, { week, idx }]));
+
+  for (const [number, { week, idx }] of previous) {
+    if (!next.has(number)) {
+      entries.push({
+        kind: 'removed',
+        category: 'week',
+        pointer: `/weekly_plan/${idx}`,
+        label: `Week ${number}`,
+        before: describeWeek(week),
+      });
+    }
+  }
+
+  for (const [number, { week, idx }] of next) {
+    const old = previous.get(number);
+    const pointer = `/weekly_plan/${idx}`;
+
+    if (!old) {
+      entries.push({ kind: 'added', category: 'week', pointer, label: `Week ${number}`, after: describeWeek(week) });
+      continue;
+    }
+
+    if ((old.week.week_theme || '') !== (week.week_theme || '')) {
+      entries.push({
+        kind: 'changed',
+        category: 'week',
+        pointer: `${pointer}/week_theme`,
+        label: `Week ${number} theme`,
+        before: formatValue(old.week.week_theme),
+        after: formatValue(week.week_theme),
+      });
+    }
+
+    const hoursBefore = getWeekHours(old.week);
+    const hoursAfter = getWeekHours(week);
+    if (!sameNumber(hoursBefore, hoursAfter)) {
+      entries.push({
+        kind: 'changed',
+        category: 'hours',
+        pointer,
+        label: `Week ${number} hours`,
+        before: formatHours(hoursBefore),
+        after: formatHours(hoursAfter),
+      });
+    }
+
+    entries.push(
+      ...diffByTitle(old.week.activities, week.activities, `${pointer}/activities`, `Week ${number}`, 'activity', describeActivity),
+      ...diffByTitle(
+        old.week.assessments || [],
+        week.assessments || [],
+        `${pointer}/assessments`,
+        `Week ${number}`,
+        'assessment',
+        describeAssessment
+      )
+    );
+  }
+
+  return entries;
+}
+
+/**
+ * Match items by title (case-insensitive); unmatched items are added/removed
+ */
+function diffByTitle<T extends { title: string }>(
+  before: T[],
+  after: T[],
+  basePointer: string,
+  weekLabel: string,
+  category: 'activity' | 'assessment',
+  describe: (item: T) => string
+): PlanDiffEntry[] {
+  const entries: PlanDiffEntry[] = [];
+  const key = (item: T) => item.title.trim().toLowerCase();
+  const previous = new Map(before.map((item, idx) => [key(item), { item, idx }]));
+  const next = new Map(after.map((item, idx) => [key(item), { item, idx }]));
+
+  for (const [title, { item, idx }] of previous) {
+    if (!next.has(title)) {
+      entries.push({
+        kind: 'removed',
+        category,
+        pointer: `${basePointer}/${idx}`,
+        label: `${weekLabel} · ${item.title}`,
+        before: describe(item),
+      });
+    }
+  }
+
+  for (const [title, { item, idx }] of next) {
+    const old = previous.get(title);
+    const pointer = `${basePointer}/${idx}`;
+    const label = `${weekLabel} · ${item.title}`;
+
+    if (!old) {
+      entries.push({ kind: 'added', category, pointer, label, after: describe(item) });
+    } else if (!sameValue(old.item, item)) {
+      entries.push({ kind: 'changed', category, pointer, label, before: describe(old.item), after: describe(item) });
+    }
+  }
+
+  return entries;
+}
+
+function describeWeek(week: WeeklyPlanItem): string {
+  const titles = week.activities.map((activity) => activity.title).join(', ');
+  return `${week.week_theme ? `${week.week_theme}: ` : ''}${titles} (${formatHours(getWeekHours(week))})`;
+}
+
+function describeActivity(activity: WeeklyActivityItem): string {
+  return `${formatValue(activity.delivery_method)}, ${formatHours(activity.duration_hours)}${
+    activity.description ? ` - ${truncate(activity.description)}` : ''
+  }`;
+}
+
+function describeAssessment(assessment: WeeklyAssessment): string {
+  return `${formatValue(assessment.type)} assessing ${assessment.units_assessed.join(', ') || 'no units'}${
+    assessment.due_date ? `, due ${assessment.due_date}` : ''
+  }${assessment.duration_hours ? `, ${formatHours(assessment.duration_hours)}` : ''}`;
+}
+
+// ============================================================================
+// Units
+// ============================================================================
+
+function diffUnits(before: UnitDetail[], after: UnitDetail[]): PlanDiffEntry[] {
+  const entries: PlanDiffEntry[] = [];
+  const previous = new Map(before.map((unit, idx) => [unit.unit_code, { unit, idx }]));
+  const next = new Map(after.map((unit, idx) => [unit.unit_code, { unit, idx }]));
+
+  for (const [code, { unit, idx }] of previous) {
+    if (!next.has(code)) {
+      entries.push({ kind: 'removed', category: 'unit', pointer: `/units/${idx}`, label: code, before: describeUnit(unit) });
+    }
+  }
+
+  for (const [code, { unit, idx }] of next) {
+    const old = previous.get(code);
+    const pointer = `/units/${idx}`;
+
+    if (!old) {
+      entries.push({ kind: 'added', category: 'unit', pointer, label: code, after: describeUnit(unit) });
+    } else if (!sameValue(old.unit, unit)) {
+      entries.push({
+        kind: 'changed',
+        category: 'unit',
+        pointer,
+        label: code,
+        before: describeUnit(old.unit),
+        after: describeUnit(unit),
+      });
+    }
+  }
+
+  return entries;
+}
+
+function describeUnit(unit: UnitDetail): string {
+  return `${unit.unit_title} (${formatHours(unit.nominal_hours)}${unit.unit_type ? `, ${unit.unit_type}` : ''})`;
+}
+
+// ============================================================================
+// Other sections
+// ============================================================================
+
+function diffOtherSections(before: GeneratedPlan, after: GeneratedPlan): PlanDiffEntry[] {
+  // Shallow copies: the GeneratedPlan interface has no index signature
+  const beforeSections: Record<string, unknown> = { ...before };
+  const afterSections: Record<string, unknown> = { ...after };
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(
+    (key) => !STRUCTURED_KEYS.includes(key)
+  );
+
+  return keys
+    .filter((key) => !sameValue(beforeSections[key], afterSections[key]))
+    .map((key): PlanDiffEntry => {
+      const previous = beforeSections[key];
+      const next = afterSections[key];
+      const entry: PlanDiffEntry = {
+        kind: previous === undefined ? 'added' : next === undefined ? 'removed' : 'changed',
+        category: 'section',
+        pointer: `/${key}`,
+        label: formatValue(key).replace(/^\w/, (c) => c.toUpperCase()),
+      };
+      if (previous !== undefined) entry.before = describeSection(previous);
+      if (next !== undefined) entry.after = describeSection(next);
+      return entry;
+    });
+}
+
+function describeSection(value: unknown): string {
+  if (Array.isArray(value)) return `${value.length} item(s)`;
+  if (typeof value === 'object' && value !== null) return `${Object.keys(value).length} field(s)`;
+  return truncate(String(value));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function totalHours(plan: GeneratedPlan): number {
+  return plan.weekly_plan.reduce((sum, week) => sum + getWeekHours(week), 0);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sameNumber(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.01;
+}
+
+function formatHours(hours: number): string {
+  return `${Math.round(hours * 10) / 10}h`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(none)';
+  if (typeof value === 'string') return truncate(value.replace(/_/g, ' '));
+  return String(value);
+}
+
+function truncate(text: string, length = 120): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
@@ -0,0 +1,146 @@
+/**
+ * Compact Version History
+ *
+ * Every version of a saved plan is a full GeneratedPlan in memory, but most
+ * versions differ from the next by a week or two. To keep localStorage from
+ * filling up, LocalPlanStore writes entries in compact form: the latest plan
+ * in full, and each version as the section changes that turn the version
+ * after it (or the latest plan) back into that version.
+ *
+ * A change replaces or removes one top-level section, or one week or unit by
+ * index. Entries written before compaction (every version a full plan) are
+ * read unchanged.
+ */
+
+import type { GeneratedPlan } from '@/types/unit-plan';
+import type { PlanVersion, StoredPlan } from '@/lib/storage';
+
+/**
+ * Replace the value at `pointer` (/risks, /weekly_plan/3), or remove it when
+ * `value` is absent
+ */
+export interface PlanSectionChange {
+  pointer: string;
+  value?: unknown;
+}
+
+/**
+ * A version as written to storage: a full plan (entries from older builds)
+ * or the changes from the following version
+ */
+export type CompactPlanVersion = Omit<PlanVersion, 'plan'> & {
+  plan?: GeneratedPlan;
+  changes?: PlanSectionChange[];
+};
+
+export type CompactStoredPlan = Omit<StoredPlan, 'versions'> & { versions: CompactPlanVersion[] };
+
+/** Sections compared item by item; the rest are replaced whole */
+const ITEMIZED_SECTIONS = ['weekly_plan', 'units'];
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Changes that turn `from` into `to`
+ */
+export function diffPlanSections(from: GeneratedPlan, to: GeneratedPlan): PlanSectionChange[] {
+  // Shallow copies: the GeneratedPlan interface has no index signature
+  const fromSections: Record<string, unknown> = { ...from };
+  const toSections: Record<string, unknown> = { ...to };
+  const changes: PlanSectionChange[] = [];
+
+  for (const key of Array.from(new Set([...Object.keys(fromSections), ...Object.keys(toSections)]))) {
+    const previous = fromSections[key];
+    const next = toSections[key];
+
+    if (ITEMIZED_SECTIONS.includes(key) && Array.isArray(previous) && Array.isArray(next)) {
+      for (let idx = 0; idx < Math.max(previous.length, next.length); idx++) {
+        if (idx >= next.length) {
+          changes.push({ pointer: `/${key}/${idx}` });
+        } else if (!same(previous[idx], next[idx])) {
+          changes.push({ pointer: `/${key}/${idx}`, value: next[idx] });
+        }
+      }
+    } else if (next === undefined) {
+      if (previous !== undefined) changes.push({ pointer: `/${key}` });
+    } else if (!same(previous, next)) {
+      changes.push({ pointer: `/${key}`, value: next });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Apply changes from diffPlanSections to a copy of `plan`
+ */
+export function applyPlanSections(plan: GeneratedPlan, changes: PlanSectionChange[]): GeneratedPlan {
+  const sections: Record<string, unknown> = { ...plan };
+  // Removed items are always at the end of their array
+  const lengths: Record<string, number> = {};
+
+  changes.forEach(({ pointer, value }) => {
+    const [, key, index] = pointer.split('/');
+    if (index === undefined) {
+      if (value === undefined) delete sections[key];
+      else sections[key] = value;
+      return;
+    }
+
+    const items = Array.isArray(sections[key]) ? [...(sections[key] as unknown[])] : [];
+    if (value === undefined) {
+      lengths[key] = Math.min(lengths[key] ?? Infinity, Number(index));
+    } else {
+      items[Number(index)] = value;
+    }
+    sections[key] = items;
+  });
+
+  Object.entries(lengths).forEach(([key, length]) => {
+    sections[key] = (sections[key] as unknown[]).slice(0, length);
+  });
+
+  return sections as unknown as GeneratedPlan;
+}
+
+/**
+ * The entry as written to storage: versions become changes from the next one
+ */
+export function compactStoredPlan(stored: StoredPlan): CompactStoredPlan {
+  let reference = stored.plan;
+  const versions: CompactPlanVersion[] = [];
+
+  for (let idx = stored.versions.length - 1; idx >= 0; idx--) {
+    const { plan, ...version } = stored.versions[idx];
+    versions.unshift({ ...version, changes: diffPlanSections(reference, plan) });
+    reference = plan;
+  }
+
+  return { ...stored, versions };
+}
+
+/**
+ * The entry with every version rebuilt as a full plan
+ *
+ * Versions that already hold a plan are kept as they are. Entries without a
+ * plan are returned unchanged for migration to report.
+ */
+export function expandStoredPlan(stored: CompactStoredPlan): StoredPlan {
+  const readable =
+    stored?.plan && Array.isArray(stored.versions) && stored.versions.every((v) => v && typeof v === 'object');
+  if (!readable) return stored as StoredPlan;
+
+  let reference = stored.plan;
+  const versions: PlanVersion[] = [];
+
+  for (let idx = stored.versions.length - 1; idx >= 0; idx--) {
+    const { changes, plan, ...version } = stored.versions[idx];
+    const rebuilt = plan || applyPlanSections(reference, changes || []);
+    versions.unshift({ ...version, plan: rebuilt });
+    reference = rebuilt;
+  }
+
+  return { ...stored, versions };
+}
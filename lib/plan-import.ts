@@ -0,0 +1,175 @@
+/**
+ * Plan Import
+ *
+ * Reads a user-chosen JSON file and works out what importing it would do,
+ * before anything is written. Accepted files:
+ * - a full backup from exportAllData ({ plans, currentPlan, settings, ... })
+ * - a single saved plan entry ({ id, plan, intake, versions, ... })
+ * - a plan in the JSON export format (a bare GeneratedPlan)
+ *
+ * Every plan is migrated and validated against the plan schema; the preview
+ * lists which plans are new, which collide with a saved plan of the same id,
+ * and which could not be read. lib/storage.ts `importData` performs the write.
+ */
+
+import type { GeneratedPlan } from '@/types/unit-plan';
+import type { BackupData, ImportMode, StoredPlan } from '@/lib/storage';
+import { generatePlanId } from '@/lib/storage';
+import { intakeFormFromPlan } from '@/lib/plan-adapters';
+import { diffPlans } from '@/lib/plan-diff';
+import { migratePlan, migrateStoredPlan } from '@/lib/plan-migrations';
+import type { PlanMigrationFailure } from '@/lib/plan-migrations';
+
+export type ImportFileKind = 'backup' | 'stored-plan' | 'plan';
+
+/**
+ * Raised when a file is not JSON or not one of the accepted shapes
+ */
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+export interface ImportPreviewItem {
+  /** The plan as it will be saved (migrated to the current schema) */
+  entry: StoredPlan;
+  /** 'conflict' if a saved plan already has this id */
+  status: 'new' | 'conflict';
+  /** The saved plan with the same id */
+  existing?: StoredPlan;
+  /** Whether the conflicting plans have the same content */
+  identical?: boolean;
+  /** Upgraded from an older schema version */
+  migrated: boolean;
+}
+
+export interface ImportPreview {
+  kind: ImportFileKind;
+  /** Normalised contents to pass to importData */
+  data: BackupData;
+  items: ImportPreviewItem[];
+  failed: PlanMigrationFailure[];
+  /**
+   * Saved plans that replace mode would delete: those whose id is not in the
+   * file (an imported id overwrites; an id whose copy in the file cannot be
+   * read keeps the saved plan)
+   */
+  removed: StoredPlan[];
+  /** Whether the file carries settings, templates or a last intake (restored in replace mode) */
+  hasSettings: boolean;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Identify the file and normalise it to backup form
+ *
+ * A bare plan gets a new id and an intake reconstructed from its meta.
+ *
+ * @throws ImportFileError if the text is not JSON or not a recognised shape
+ */
+export function readImportFile(text: string): { kind: ImportFileKind; data: BackupData } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new ImportFileError(`Not a JSON file: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!isObject(parsed)) {
+    throw new ImportFileError('Expected a JSON object (a backup, saved plan or exported plan)');
+  }
+
+  const exportedAt = new Date().toISOString();
+
+  if (Array.isArray(parsed.plans)) {
+    return { kind: 'backup', data: parsed as BackupData };
+  }
+
+  if (isObject(parsed.plan) && typeof parsed.id === 'string') {
+    return {
+      kind: 'stored-plan',
+      data: { plans: [parsed as StoredPlan], exportedAt },
+    };
+  }
+
+  if (isObject(parsed.meta) || Array.isArray(parsed.weekly_plan)) {
+    const migrated = migratePlan(parsed);
+    if (!migrated.ok) throw new ImportFileError(migrated.error);
+
+    const createdAt = migrated.plan.metadata.generated_at || exportedAt;
+    const entry: StoredPlan = {
+      id: generatePlanId(),
+      plan: migrated.plan,
+      versions: [{ version: 1, plan: migrated.plan, source: 'generation', createdAt }],
+      intake: intakeFormFromPlan(migrated.plan),
+      createdAt,
+      updatedAt: exportedAt,
+    };
+    return { kind: 'plan', data: { plans: [entry], exportedAt } };
+  }
+
+  throw new ImportFileError('Unrecognised file: expected a backup, a saved plan or an exported plan');
+}
+
+// ============================================================================
+// Preview
+// ============================================================================
+
+/**
+ * Compare a file's plans with the saved plans
+ */
+export function previewImport(kind: ImportFileKind, data: BackupData, saved: StoredPlan[]): ImportPreview {
+  const savedById = new Map(saved.map((stored) => [stored.id, stored]));
+  const items: ImportPreviewItem[] = [];
+  const failed: PlanMigrationFailure[] = [];
+
+  for (const raw of data.plans) {
+    const result = migrateStoredPlan(raw);
+    if (!result.ok) {
+      failed.push({ id: result.id, error: result.error });
+      continue;
+    }
+
+    const existing = savedById.get(result.entry.id);
+    items.push({
+      entry: result.entry,
+      status: existing ? 'conflict' : 'new',
+      ...(existing ? { existing, identical: diffPlans(existing.plan, result.entry.plan).identical } : {}),
+      migrated: result.migrated,
+    });
+  }
+
+  return {
+    kind,
+    data,
+    items,
+    failed,
+    removed: saved.filter(
+      (stored) => !items.some((item) => item.entry.id === stored.id) && !failed.some((f) => f.id === stored.id)
+    ),
+    hasSettings: kind === 'backup' && (!!data.settings || !!data.templates?.length || !!data.lastIntake),
+  };
+}
+
+/**
+ * Modes that make sense for a file: only a full backup can replace everything
+ */
+export function importModesFor(kind: ImportFileKind): ImportMode[] {
+  return kind === 'backup' ? ['merge', 'replace'] : ['merge'];
+}
+
+/**
+ * Short label for a plan in the preview
+ */
+export function describePlan(plan: GeneratedPlan): string {
+  const { qualification, duration } = plan.meta;
+  return `${qualification.code ? `${qualification.code} ` : ''}${qualification.title} · ${duration.weeks} weeks`;
+}
@@ -0,0 +1,143 @@
+/**
+ * Plan Library
+ *
+ * Search and filtering for the saved plan list on the library page. Kept free
+ * of React and storage so the rules are easy to follow in one place.
+ */
+
+import type { PlanDeliveryMode } from '@/types/unit-plan';
+import { getConfidenceIndicator } from '@/types/schema-types';
+import type { StoredPlan } from '@/lib/storage';
+
+export type DurationBand = 'short' | 'medium' | 'long';
+export type ConfidenceBand = 'high' | 'medium' | 'low';
+export type LibrarySort = 'updated' | 'created' | 'title';
+
+export interface LibraryFilters {
+  /** Matches qualification title or code, unit codes/titles and tags */
+  query: string;
+  deliveryMode: PlanDeliveryMode | 'any';
+  duration: DurationBand | 'any';
+  confidence: ConfidenceBand | 'any';
+  /** Plans must carry every selected tag */
+  tags: string[];
+}
+
+export const DEFAULT_LIBRARY_FILTERS: LibraryFilters = {
+  query: '',
+  deliveryMode: 'any',
+  duration: 'any',
+  confidence: 'any',
+  tags: [],
+};
+
+export const DELIVERY_MODE_LABELS: Record<PlanDeliveryMode, string> = {
+  face_to_face: 'Face-to-Face',
+  online: 'Online',
+  blended: 'Blended',
+  workplace: 'Workplace',
+  mixed: 'Mixed Mode',
+};
+
+export const DURATION_BANDS: Record<DurationBand, { label: string; maxWeeks: number }> = {
+  short: { label: 'Short course (up to 4 weeks)', maxWeeks: 4 },
+  medium: { label: '5–20 weeks', maxWeeks: 20 },
+  long: { label: 'Over 20 weeks', maxWeeks: Infinity },
+};
+
+/** Same thresholds as the confidence display on the results page */
+export const CONFIDENCE_BANDS: Record<ConfidenceBand, string> = {
+  high: 'High (80%+)',
+  medium: 'Medium (60–79%)',
+  low: 'Low (under 60%)',
+};
+
+export function durationBand(weeks: number): DurationBand {
+  if (weeks <= DURATION_BANDS.short.maxWeeks) return 'short';
+  if (weeks <= DURATION_BANDS.medium.maxWeeks) return 'medium';
+  return 'long';
+}
+
+export function confidenceBand(score: number): ConfidenceBand {
+  const { color } = getConfidenceIndicator(score);
+  return color === 'green' ? 'high' : color === 'yellow' ? 'medium' : 'low';
+}
+
+// ============================================================================
+// Tags
+// ============================================================================
+
+/**
+ * Trim, drop empties and de-duplicate tags (case-insensitively, first spelling wins)
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags) {
+    const trimmed = tag.trim().replace(/\s+/g, ' ');
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+    seen.add(trimmed.toLowerCase());
+    result.push(trimmed);
+  }
+  return result;
+}
+
+/**
+ * Every tag in use, alphabetically
+ */
+export function collectTags(plans: StoredPlan[]): string[] {
+  return normalizeTags(plans.flatMap((stored) => stored.tags || [])).sort((a, b) => a.localeCompare(b));
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+function searchText(stored: StoredPlan): string {
+  const { qualification } = stored.plan.meta;
+  return [
+    qualification.title,
+    qualification.code,
+    ...stored.plan.units.flatMap((unit) => [unit.unit_code, unit.unit_title]),
+    ...(stored.tags || []),
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+}
+
+/**
+ * Plans matching every active filter, sorted
+ */
+export function filterPlans(plans: StoredPlan[], filters: LibraryFilters, sort: LibrarySort = 'updated'): StoredPlan[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const tags = filters.tags.map((tag) => tag.toLowerCase());
+
+  const matches = plans.filter((stored) => {
+    const { meta, confidence_score } = stored.plan;
+
+    if (filters.deliveryMode !== 'any' && meta.delivery_mode !== filters.deliveryMode) return false;
+    if (filters.duration !== 'any' && durationBand(meta.duration.weeks) !== filters.duration) return false;
+    if (filters.confidence !== 'any' && confidenceBand(confidence_score) !== filters.confidence) return false;
+
+    const planTags = (stored.tags || []).map((tag) => tag.toLowerCase());
+    if (!tags.every((tag) => planTags.includes(tag))) return false;
+
+    if (terms.length > 0) {
+      const text = searchText(stored);
+      if (!terms.every((term) => text.includes(term))) return false;
+    }
+    return true;
+  });
+
+  return matches.sort((a, b) => {
+    switch (sort) {
+      case 'title':
+        return a.plan.meta.qualification.title.localeCompare(b.plan.meta.qualification.title);
+      case 'created':
+        return (b.createdAt || '').localeCompare(a.createdAt || '');
+      default:
+        return (b.updatedAt || '').localeCompare(a.updatedAt || '');
+    }
+  });
+}
@@ -0,0 +1,194 @@
+/**
+ * Plan Schema Migrations
+ *
+ * Saved plans record the schema they were written against in
+ * `metadata.schema_version`. When a plan is read from storage or imported from
+ * a backup it is upgraded one step at a time through PLAN_MIGRATIONS until it
+ * reaches CURRENT_SCHEMA_VERSION, then validated. Plans that cannot be
+ * upgraded are reported rather than stored half-converted.
+ *
+ * To change the schema: bump CURRENT_SCHEMA_VERSION (lib/plan-adapters.ts) and
+ * add an entry keyed by the previous version that rewrites a plan into the new
+ * shape.
+ */
+
+import type { GeneratedPlan } from '@/types/unit-plan';
+import type { PlanVersion, StoredPlan } from '@/lib/storage';
+import { CURRENT_SCHEMA_VERSION, toGeneratedPlan } from '@/lib/plan-adapters';
+import { validatePlan } from '@/lib/schema-validator';
+
+export { CURRENT_SCHEMA_VERSION };
+
+/** Version assumed for plans saved before schema_version was recorded */
+export const LEGACY_SCHEMA_VERSION = '0.0.0';
+
+const SCHEMA_VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export interface PlanMigration {
+  /** Version the migrated plan conforms to */
+  to: string;
+  description: string;
+  /** Rewrite a plan at the source version into the `to` shape */
+  migrate: (plan: Record<string, any>) => Record<string, any>;
+}
+
+/**
+ * Migrations keyed by the schema version they upgrade from
+ */
+export const PLAN_MIGRATIONS: Record<string, PlanMigration> = {
+  [LEGACY_SCHEMA_VERSION]: {
+    to: '1.0.0',
+    description: 'Pre-1.0 builds: flat meta fields, string qualification, `confidence`',
+    migrate: (plan) => {
+      const upgraded = toGeneratedPlan(plan);
+      return { ...upgraded, metadata: { ...upgraded.metadata, schema_version: '1.0.0' } };
+    },
+  },
+  '1.0.0': {
+    to: '1.1.0',
+    description: 'Adds optional meta.delivery_schedule and weekly_plan[].dates; existing plans are unchanged',
+    migrate: (plan) => ({ ...plan, metadata: { ...plan.metadata, schema_version: '1.1.0' } }),
+  },
+  '1.1.0': {
+    to: '1.2.0',
+    description: 'Adds optional meta.delivery_schedule.session_times; existing plans are unchanged',
+    migrate: (plan) => ({ ...plan, metadata: { ...plan.metadata, schema_version: '1.2.0' } }),
+  },
+};
+
+// ============================================================================
+// Plans
+// ============================================================================
+
+export type PlanMigrationResult =
+  | { ok: true; plan: GeneratedPlan; migratedFrom?: string }
+  | { ok: false; error: string };
+
+/**
+ * Compare two MAJOR.MINOR.PATCH versions
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+/**
+ * The schema version a raw plan was saved with
+ */
+export function getSchemaVersion(raw: unknown): string {
+  const version = (raw as { metadata?: { schema_version?: unknown } } | null)?.metadata?.schema_version;
+  return typeof version === 'string' ? version : LEGACY_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a raw plan to the current schema and validate it
+ */
+export function migratePlan(raw: unknown): PlanMigrationResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, error: 'Expected a plan object' };
+  }
+
+  const from = getSchemaVersion(raw);
+  if (!SCHEMA_VERSION_PATTERN.test(from)) {
+    return { ok: false, error: `Unrecognised schema_version "${from}"` };
+  }
+  if (compareVersions(from, CURRENT_SCHEMA_VERSION) > 0) {
+    return {
+      ok: false,
+      error: `Plan uses schema ${from}, newer than this app (${CURRENT_SCHEMA_VERSION}); update the app to open it`,
+    };
+  }
+
+  let plan = raw as Record<string, any>;
+  let version = from;
+  while (version !== CURRENT_SCHEMA_VERSION) {
+    const migration = PLAN_MIGRATIONS[version];
+    if (!migration) {
+      return { ok: false, error: `No migration from schema ${version} to ${CURRENT_SCHEMA_VERSION}` };
+    }
+    try {
+      plan = migration.migrate(plan);
+    } catch (error) {
+      return {
+        ok: false,
+        error: `Migration ${version} → ${migration.to} failed: ${error instanceof Error ? error.message : error}`,
+      };
+    }
+    version = migration.to;
+  }
+
+  // Current plans still go through the adapter for field variants the model emits
+  const validation = validatePlan(toGeneratedPlan(plan));
+  if (!validation.success || !validation.data) {
+    return {
+      ok: false,
+      error: `Plan failed validation after migration: ${(validation.errors || []).slice(0, 5).join('; ')}`,
+    };
+  }
+
+  return {
+    ok: true,
+    plan: validation.data,
+    ...(from !== CURRENT_SCHEMA_VERSION ? { migratedFrom: from } : {}),
+  };
+}
+
+// ============================================================================
+// Stored plans
+// ============================================================================
+
+export interface PlanMigrationFailure {
+  /** Entry id, if it had one */
+  id?: string;
+  error: string;
+}
+
+export type StoredPlanMigrationResult =
+  | { ok: true; entry: StoredPlan; migrated: boolean }
+  | ({ ok: false } & PlanMigrationFailure);
+
+/**
+ * Upgrade a stored entry: its plan and every version in its history
+ *
+ * Entries saved before version history get a single generated version. The
+ * entry fails if any version cannot be migrated, so history is never lost
+ * silently.
+ */
+export function migrateStoredPlan(raw: unknown): StoredPlanMigrationResult {
+  if (!raw || typeof raw !== 'object') {
+    return { ok: false, error: 'Expected a stored plan object' };
+  }
+
+  const stored = raw as StoredPlan;
+  const id = typeof stored.id === 'string' ? stored.id : undefined;
+  if (!id) return { ok: false, error: 'Stored plan has no id' };
+
+  const current = migratePlan(stored.plan);
+  if (!current.ok) return { ok: false, id, error: current.error };
+
+  let migrated = !!current.migratedFrom;
+  let versions: PlanVersion[];
+
+  if (Array.isArray(stored.versions) && stored.versions.length > 0) {
+    versions = [];
+    for (const version of stored.versions) {
+      const result = migratePlan(version?.plan);
+      if (!result.ok) return { ok: false, id, error: `Version ${version?.version}: ${result.error}` };
+      migrated = migrated || !!result.migratedFrom;
+      versions.push({ ...version, plan: result.plan });
+    }
+  } else {
+    migrated = true;
+    versions = [{ version: 1, plan: current.plan, source: 'generation', createdAt: stored.createdAt }];
+  }
+
+  return { ok: true, entry: { ...stored, plan: current.plan, versions }, migrated };
+}
@@ -0,0 +1,132 @@
+/**
+ * GENERATED FILE - DO NOT EDIT
+ *
+ * Zod schema derived from prompts/schema.json by scripts/generate-plan-schema.ts.
+ * Run `npm run schema:generate` after changing the JSON schema.
+ */
+
+import { z } from 'zod';
+
+export const GeneratedPlanSchema = z.strictObject({
+  metadata: z.strictObject({
+    schema_version: z.string().regex(/^\d+\.\d+\.\d+$/),
+    project_type: z.enum(['unit_plan', 'session_plan', 'assessment_plan']),
+    generated_at: z.iso.datetime({ offset: true }),
+    generator_model: z.string().optional(),
+    reserved: z.record(z.string(), z.unknown()).optional(),
+  }),
+  meta: z.strictObject({
+    qualification: z.strictObject({
+      code: z.string().regex(/^[A-Z]{3}[0-9]{5}$|^$/).optional(),
+      title: z.string().min(5).max(200),
+      level: z.enum(['Certificate I', 'Certificate II', 'Certificate III', 'Certificate IV', 'Diploma', 'Advanced Diploma', 'Short Course', 'Skill Set', '']).optional(),
+      packaging_rules: z.string().optional(),
+    }),
+    duration: z.strictObject({
+      weeks: z.number().int().min(1).max(208),
+      total_hours: z.number().min(1).max(10000),
+      hours_per_week: z.number().min(0).optional(),
+      study_mode: z.enum(['full_time', 'part_time', 'flexible', '']).optional(),
+    }),
+    delivery_mode: z.enum(['face_to_face', 'online', 'blended', 'workplace', 'mixed']),
+    cohort_profile: z.string().min(10).max(1000),
+    trainer_details: z.strictObject({
+      primary_trainer: z.string().optional(),
+      additional_trainers: z.array(z.string()).optional(),
+      qualifications_required: z.array(z.string()).optional(),
+    }).optional(),
+    start_date: z.iso.date().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    end_date: z.iso.date().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    venue: z.string().optional(),
+    class_size: z.strictObject({
+      min: z.number().int().min(1).optional(),
+      max: z.number().int().min(1).optional(),
+      target: z.number().int().min(1).optional(),
+    }).optional(),
+    delivery_schedule: z.strictObject({
+      state: z.enum(['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA']).optional(),
+      delivery_days: z.array(z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'])).min(1).max(7),
+      session_times: z.strictObject({
+        start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+        end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+      }).optional(),
+    }).optional(),
+  }),
+  weekly_plan: z.array(z.strictObject({
+    week_number: z.number().int().min(1),
+    week_theme: z.string().max(200).optional(),
+    units_covered: z.array(z.string().regex(/^[A-Z]{3}[A-Z0-9]{6,10}$/)).optional(),
+    activities: z.array(z.strictObject({
+      title: z.string().min(3).max(200),
+      description: z.string().max(1000).optional(),
+      duration_hours: z.number().min(0.25).max(40),
+      delivery_method: z.enum(['lecture', 'workshop', 'tutorial', 'practical', 'online_module', 'simulation', 'workplace_visit', 'guest_speaker', 'group_work', 'self_paced', 'project', 'other']),
+      resources: z.array(z.string()).optional(),
+      learning_outcomes: z.array(z.string()).optional(),
+    })),
+    assessments: z.array(z.strictObject({
+      title: z.string().min(3).max(200),
+      type: z.enum(['written', 'practical', 'project', 'portfolio', 'observation', 'presentation', 'roleplay', 'case_study', 'exam', 'interview', 'recognition', 'other']),
+      units_assessed: z.array(z.string().regex(/^[A-Z]{3}[A-Z0-9]{6,10}$/)).min(1),
+      due_date: z.string().optional(),
+      weighting: z.string().optional(),
+      duration_hours: z.number().min(0).optional(),
+      description: z.string().max(500).optional(),
+    })).optional(),
+    notes: z.string().max(1000).optional(),
+    dates: z.strictObject({
+      start: z.iso.date().regex(/^\d{4}-\d{2}-\d{2}$/),
+      end: z.iso.date().regex(/^\d{4}-\d{2}-\d{2}$/),
+      sessions: z.array(z.iso.date().regex(/^\d{4}-\d{2}-\d{2}$/)),
+      closures: z.array(z.strictObject({
+        date: z.iso.date().regex(/^\d{4}-\d{2}-\d{2}$/),
+        name: z.string().max(200),
+      })).optional(),
+    }).optional(),
+  })).min(1).max(208),
+  units: z.array(z.strictObject({
+    unit_code: z.string().regex(/^[A-Z]{3}[A-Z0-9]{6,10}$/),
+    unit_title: z.string().min(5).max(300),
+    nominal_hours: z.number().min(1).max(1000),
+    unit_type: z.enum(['core', 'elective', 'prerequisite', '']).optional(),
+    delivery_methods: z.array(z.enum(['face_to_face', 'online', 'workplace', 'simulation', 'blended', 'self_paced'])).optional(),
+    assessment_methods: z.array(z.enum(['written', 'practical', 'project', 'portfolio', 'observation', 'presentation', 'roleplay', 'case_study', 'exam', 'interview', 'recognition', 'third_party_report', 'logbook'])).optional(),
+    assessment_tasks: z.array(z.object({
+      task_name: z.string(),
+      method: z.string(),
+      description: z.string().max(500).optional(),
+    })).optional(),
+    prerequisites: z.array(z.string().regex(/^[A-Z]{3}[A-Z0-9]{6,10}$/)).optional(),
+    weeks_scheduled: z.array(z.number().int().min(1)).optional(),
+    learning_resources: z.array(z.string()).optional(),
+  })).min(1),
+  resources: z.strictObject({
+    facilities: z.array(z.string()).optional(),
+    equipment: z.array(z.string()).optional(),
+    materials: z.array(z.string()).optional(),
+    technology: z.array(z.string()).optional(),
+    external: z.array(z.string()).optional(),
+  }).optional(),
+  risks: z.array(z.strictObject({
+    risk_description: z.string().min(10).max(500),
+    category: z.enum(['learner', 'trainer', 'resource', 'compliance', 'scheduling', 'assessment', 'external', 'other']).optional(),
+    likelihood: z.enum(['low', 'medium', 'high']),
+    impact: z.enum(['low', 'medium', 'high']),
+    mitigation: z.string().max(500).optional(),
+  })).optional(),
+  assumptions: z.array(z.strictObject({
+    assumption: z.string().min(10).max(500),
+    category: z.enum(['learner_capability', 'resource_availability', 'trainer_qualification', 'scheduling', 'compliance', 'other']).optional(),
+    validation_required: z.boolean().optional(),
+  })).optional(),
+  compliance_notes: z.strictObject({
+    volume_of_learning: z.string().max(500).optional(),
+    training_packaging_compliance: z.string().max(500).optional(),
+    assessment_validation: z.string().max(500).optional(),
+    trainer_assessor_requirements: z.string().max(500).optional(),
+  }).optional(),
+  confidence_score: z.number().min(0).max(1),
+  generation_notes: z.string().max(2000).optional(),
+});
+
+export type GeneratedPlanSchemaOutput = z.infer<typeof GeneratedPlanSchema>;
@@ -0,0 +1,264 @@
+/**
+ * Spreadsheet Views of a Plan
+ *
+ * Builds the tabular sheets behind the XLSX and CSV exports: the weekly
+ * plan (one row per activity), units, assessments, the risk register and
+ * a unit × assessment mapping matrix. Rows hold plain values; dates are
+ * ISO YYYY-MM-DD strings so the sheets sort and filter in any spreadsheet.
+ *
+ * lib/xlsx-export.ts writes every sheet to one workbook; sheetToCSV writes
+ * a single sheet.
+ */
+
+import { GeneratedPlan, PlanSheetId } from '@/types/unit-plan';
+import { formatDeliveryMode, formatLabel } from '@/lib/export-handlers';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SheetCell = string | number;
+
+export interface SheetColumn {
+  header: string;
+  /** Width in characters (XLSX) */
+  width: number;
+  /** 'date' cells are YYYY-MM-DD strings, written as real dates in XLSX */
+  type?: 'text' | 'number' | 'date';
+}
+
+export interface PlanSheet {
+  id: PlanSheetId;
+  /** Worksheet tab name (at most 31 characters) */
+  name: string;
+  columns: SheetColumn[];
+  rows: SheetCell[][];
+}
+
+type SheetContent = Pick<PlanSheet, 'columns' | 'rows'>;
+
+/** Sheets in workbook order, with their tab names */
+export const PLAN_SHEETS: { id: PlanSheetId; name: string }[] = [
+  { id: 'weekly_plan', name: 'Weekly Plan' },
+  { id: 'units', name: 'Units' },
+  { id: 'assessments', name: 'Assessments' },
+  { id: 'risks', name: 'Risks' },
+  { id: 'assessment_matrix', name: 'Assessment Matrix' },
+];
+
+/** Mark in the assessment matrix where an assessment covers a unit */
+export const MATRIX_MARK = '✓';
+
+// ============================================================================
+// Sheet Builders
+// ============================================================================
+
+function list(values: (string | number)[] | undefined): string {
+  return (values || []).join(', ');
+}
+
+function createWeeklyPlanSheet(plan: GeneratedPlan): SheetContent {
+  const rows: SheetCell[][] = [];
+  plan.weekly_plan.forEach((week) => {
+    const weekCells = [
+      week.week_number,
+      week.dates?.start || '',
+      week.dates?.end || '',
+      list(week.dates?.sessions),
+      week.week_theme || '',
+      list(week.units_covered),
+    ];
+    if (week.activities.length === 0) {
+      rows.push([...weekCells, '', '', '', '']);
+    }
+    week.activities.forEach((activity) => {
+      rows.push([
+        ...weekCells,
+        activity.title,
+        formatDeliveryMode(activity.delivery_method),
+        activity.duration_hours,
+        list(activity.resources),
+      ]);
+    });
+  });
+
+  return {
+    columns: [
+      { header: 'Week', width: 7, type: 'number' },
+      { header: 'Week Start', width: 12, type: 'date' },
+      { header: 'Week End', width: 12, type: 'date' },
+      { header: 'Sessions', width: 24 },
+      { header: 'Theme', width: 30 },
+      { header: 'Units', width: 24 },
+      { header: 'Activity', width: 40 },
+      { header: 'Method', width: 16 },
+      { header: 'Hours', width: 8, type: 'number' },
+      { header: 'Resources', width: 40 },
+    ],
+    rows,
+  };
+}
+
+function createUnitsSheet(plan: GeneratedPlan): SheetContent {
+  return {
+    columns: [
+      { header: 'Unit Code', width: 14 },
+      { header: 'Unit Title', width: 45 },
+      { header: 'Type', width: 12 },
+      { header: 'Nominal Hours', width: 10, type: 'number' },
+      { header: 'Weeks Scheduled', width: 16 },
+      { header: 'Delivery Methods', width: 28 },
+      { header: 'Assessment Methods', width: 28 },
+      { header: 'Prerequisites', width: 20 },
+      { header: 'Learning Resources', width: 40 },
+    ],
+    rows: plan.units.map((unit) => [
+      unit.unit_code,
+      unit.unit_title,
+      unit.unit_type ? formatLabel(unit.unit_type) : '',
+      unit.nominal_hours,
+      list(unit.weeks_scheduled),
+      (unit.delivery_methods || []).map(formatDeliveryMode).join(', '),
+      (unit.assessment_methods || []).map(formatLabel).join(', '),
+      list(unit.prerequisites),
+      list(unit.learning_resources),
+    ]),
+  };
+}
+
+function createAssessmentsSheet(plan: GeneratedPlan): SheetContent {
+  return {
+    columns: [
+      { header: 'Week', width: 7, type: 'number' },
+      { header: 'Assessment', width: 40 },
+      { header: 'Type', width: 14 },
+      { header: 'Units Assessed', width: 28 },
+      { header: 'Due', width: 14 },
+      { header: 'Weighting', width: 12 },
+      { header: 'Hours', width: 8, type: 'number' },
+      { header: 'Description', width: 50 },
+    ],
+    rows: plan.weekly_plan.flatMap((week) =>
+      (week.assessments || []).map((assessment) => [
+        week.week_number,
+        assessment.title,
+        formatLabel(assessment.type),
+        list(assessment.units_assessed),
+        assessment.due_date || '',
+        assessment.weighting || '',
+        assessment.duration_hours ?? '',
+        assessment.description || '',
+      ])
+    ),
+  };
+}
+
+function createRisksSheet(plan: GeneratedPlan): SheetContent {
+  return {
+    columns: [
+      { header: '#', width: 5, type: 'number' },
+      { header: 'Risk', width: 50 },
+      { header: 'Category', width: 14 },
+      { header: 'Likelihood', width: 11 },
+      { header: 'Impact', width: 9 },
+      { header: 'Mitigation', width: 50 },
+    ],
+    rows: (plan.risks || []).map((risk, idx) => [
+      idx + 1,
+      risk.risk_description,
+      risk.category ? formatLabel(risk.category) : '',
+      formatLabel(risk.likelihood),
+      formatLabel(risk.impact),
+      risk.mitigation || '',
+    ]),
+  };
+}
+
+/**
+ * One row per unit and one column per assessment (headed "Wk N: Title"),
+ * marked where the assessment lists the unit in units_assessed. The last
+ * column counts the assessments for each unit, so a 0 shows a unit no
+ * assessment covers. Unit codes assessed but not in plan.units get their
+ * own rows.
+ */
+function createAssessmentMatrixSheet(plan: GeneratedPlan): SheetContent {
+  const assessments = plan.weekly_plan.flatMap((week) =>
+    (week.assessments || []).map((assessment) => ({ week: week.week_number, assessment }))
+  );
+  const units: { code: string; title: string }[] = plan.units.map((unit) => ({
+    code: unit.unit_code,
+    title: unit.unit_title,
+  }));
+  assessments.forEach(({ assessment }) => {
+    assessment.units_assessed.forEach((code) => {
+      if (!units.some((unit) => unit.code === code)) units.push({ code, title: '' });
+    });
+  });
+
+  return {
+    columns: [
+      { header: 'Unit Code', width: 14 },
+      { header: 'Unit Title', width: 40 },
+      ...assessments.map(({ week, assessment }) => ({ header: `Wk ${week}: ${assessment.title}`, width: 14 })),
+      { header: 'Assessments', width: 12, type: 'number' as const },
+    ],
+    rows: units.map((unit) => {
+      const marks = assessments.map(({ assessment }) =>
+        assessment.units_assessed.includes(unit.code) ? MATRIX_MARK : ''
+      );
+      return [unit.code, unit.title, ...marks, marks.filter(Boolean).length];
+    }),
+  };
+}
+
+const SHEET_BUILDERS: Record<PlanSheetId, (plan: GeneratedPlan) => SheetContent> = {
+  weekly_plan: createWeeklyPlanSheet,
+  units: createUnitsSheet,
+  assessments: createAssessmentsSheet,
+  risks: createRisksSheet,
+  assessment_matrix: createAssessmentMatrixSheet,
+};
+
+export function isPlanSheetId(value: unknown): value is PlanSheetId {
+  return PLAN_SHEETS.some(({ id }) => id === value);
+}
+
+export function buildPlanSheet(plan: GeneratedPlan, id: PlanSheetId): PlanSheet {
+  const { name } = PLAN_SHEETS.find((sheet) => sheet.id === id)!;
+  return { id, name, ...SHEET_BUILDERS[id](plan) };
+}
+
+/**
+ * Every sheet, in PLAN_SHEETS order
+ */
+export function buildPlanSheets(plan: GeneratedPlan): PlanSheet[] {
+  return PLAN_SHEETS.map(({ id }) => buildPlanSheet(plan, id));
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Text that a spreadsheet would run as a formula is prefixed with "'" so
+ * plan content cannot inject formulas
+ */
+export function escapeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function csvCell(cell: SheetCell): string {
+  const text = typeof cell === 'number' ? `${cell}` : escapeFormula(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV (CRLF line endings) with a UTF-8 byte order mark, so Excel
+ * reads non-ASCII text correctly
+ */
+export function sheetToCSV(sheet: PlanSheet): string {
+  const lines = [sheet.columns.map((column) => column.header), ...sheet.rows].map((row) =>
+    row.map(csvCell).join(',')
+  );
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,241 @@
+/**
+ * Plan Store Adapters
+ *
+ * lib/storage.ts keeps saved plans in a PlanStore so the backend can be
+ * chosen by configuration (NEXT_PUBLIC_STORAGE_BACKEND):
+ * - LocalPlanStore: this browser's localStorage (default, no server state)
+ * - RemotePlanStore: the server's /api/plans routes, so plans follow the
+ *   trainer across browsers and devices. The routes require the server's
+ *   access token (PLAN_API_TOKEN), entered once per browser
+ *
+ * The server side of /api/plans uses FilePlanStore (lib/file-plan-store.ts),
+ * which implements the same interface.
+ */
+
+import type { StoredPlan } from '@/lib/storage';
+import { migrateStoredPlan } from '@/lib/plan-migrations';
+import { CompactStoredPlan, compactStoredPlan, expandStoredPlan } from '@/lib/plan-history';
+
+export type PlanStoreKind = 'local' | 'server' | 'file';
+
+/**
+ * Persistence backend for saved plans
+ *
+ * `put` creates or replaces an entry by id. Lists are newest first.
+ */
+export interface PlanStore {
+  readonly kind: PlanStoreKind;
+  list(): Promise<StoredPlan[]>;
+  get(id: string): Promise<StoredPlan | null>;
+  put(plan: StoredPlan): Promise<StoredPlan>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Raised when a store cannot read or write (network, quota, bad response)
+ */
+export class PlanStoreError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'PlanStoreError';
+  }
+}
+
+/** Plan ids double as file names on the server, so they are restricted */
+const PLAN_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+export function isValidPlanId(id: unknown): id is string {
+  return typeof id === 'string' && PLAN_ID_PATTERN.test(id);
+}
+
+/**
+ * Check an entry received by the server before it is stored
+ *
+ * Plans (and every version) are migrated to the current schema and must pass
+ * schema validation.
+ *
+ * @returns The entry to store, or an error message
+ */
+export function validateStoredPlan(value: unknown): { entry: StoredPlan } | { error: string } {
+  if (!value || typeof value !== 'object') return { error: 'Expected a stored plan object' };
+
+  const entry = value as StoredPlan;
+  if (!isValidPlanId(entry.id)) return { error: 'id must be 1-100 letters, digits, "_" or "-"' };
+  if (!entry.intake || typeof entry.intake !== 'object') return { error: 'intake is required' };
+  if (typeof entry.createdAt !== 'string' || typeof entry.updatedAt !== 'string') {
+    return { error: 'createdAt and updatedAt are required' };
+  }
+  if (entry.versions !== undefined && !Array.isArray(entry.versions)) {
+    return { error: 'versions must be an array' };
+  }
+  if (entry.tags !== undefined && (!Array.isArray(entry.tags) || entry.tags.some((tag) => typeof tag !== 'string'))) {
+    return { error: 'tags must be an array of strings' };
+  }
+
+  const migrated = migrateStoredPlan(entry);
+  return migrated.ok ? { entry: migrated.entry } : { error: migrated.error };
+}
+
+/**
+ * Sort entries newest first by creation time
+ */
+export function sortNewestFirst(plans: StoredPlan[]): StoredPlan[] {
+  return [...plans].sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+}
+
+// ============================================================================
+// localStorage
+// ============================================================================
+
+/**
+ * Write a localStorage key, reporting a full store in words a trainer can act on
+ *
+ * @throws {PlanStoreError} If the browser refuses the write
+ */
+export function writeLocalStorage(key: string, value: string): void {
+  try {
+    localStorage.setItem(key, value);
+  } catch (error) {
+    const full = error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+    throw new PlanStoreError(
+      full
+        ? 'Browser storage is full. Delete or export older plans from the Plan Library to free space.'
+        : `Failed to write to localStorage: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Plans kept in this browser's localStorage under a single key
+ *
+ * New entries are added at the front and nothing is dropped: when the
+ * browser's quota is reached, put() throws rather than evicting a saved plan.
+ * Version history is written in compact form (lib/plan-history.ts).
+ */
+export class LocalPlanStore implements PlanStore {
+  readonly kind = 'local' as const;
+
+  constructor(private readonly key: string) {}
+
+  async list(): Promise<StoredPlan[]> {
+    return this.read();
+  }
+
+  async get(id: string): Promise<StoredPlan | null> {
+    return this.read().find((p) => p.id === id) || null;
+  }
+
+  async put(plan: StoredPlan): Promise<StoredPlan> {
+    const plans = this.read();
+    const index = plans.findIndex((p) => p.id === plan.id);
+
+    if (index >= 0) {
+      plans[index] = plan;
+      this.write(plans);
+    } else {
+      this.write([plan, ...plans]);
+    }
+
+    return plan;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const plans = this.read();
+    const filtered = plans.filter((p) => p.id !== id);
+    this.write(filtered);
+    return filtered.length !== plans.length;
+  }
+
+  private read(): StoredPlan[] {
+    const stored = localStorage.getItem(this.key);
+    return stored ? (JSON.parse(stored) as CompactStoredPlan[]).map(expandStoredPlan) : [];
+  }
+
+  private write(plans: StoredPlan[]): void {
+    writeLocalStorage(this.key, JSON.stringify(plans.map(compactStoredPlan)));
+  }
+}
+
+// ============================================================================
+// Server (/api/plans)
+// ============================================================================
+
+/**
+ * Plans kept on the server and accessed through the /api/plans routes
+ */
+export class RemotePlanStore implements PlanStore {
+  readonly kind = 'server' as const;
+
+  /**
+   * @param baseUrl - Route serving the plans
+   * @param getToken - Access token sent as `Authorization: Bearer` (the server's PLAN_API_TOKEN)
+   */
+  constructor(
+    private readonly baseUrl: string = '/api/plans',
+    private readonly getToken: () => string = () => ''
+  ) {}
+
+  async list(): Promise<StoredPlan[]> {
+    const body = await this.request<{ plans: StoredPlan[] }>('');
+    return body.plans;
+  }
+
+  async get(id: string): Promise<StoredPlan | null> {
+    try {
+      const body = await this.request<{ plan: StoredPlan }>(`/${encodeURIComponent(id)}`);
+      return body.plan;
+    } catch (error) {
+      if (error instanceof PlanStoreError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async put(plan: StoredPlan): Promise<StoredPlan> {
+    const body = await this.request<{ plan: StoredPlan }>(`/${encodeURIComponent(plan.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(plan),
+    });
+    return body.plan;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.request(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      return true;
+    } catch (error) {
+      if (error instanceof PlanStoreError && error.status === 404) return false;
+      throw error;
+    }
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const token = this.getToken();
+    const headers = new Headers(init?.headers);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, { ...init, headers });
+    } catch (error) {
+      throw new PlanStoreError(`Plan server unreachable: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const body = await response.json().catch(() => null);
+    if (response.status === 401) {
+      throw new PlanStoreError(
+        token
+          ? 'The plan server rejected the access token. Check it in the Plan Library.'
+          : 'The plan server needs an access token. Enter it in the Plan Library.',
+        401
+      );
+    }
+    if (!response.ok) {
+      throw new PlanStoreError(body?.error || `Plan request failed (${response.status})`, response.status);
+    }
+    return body as T;
+  }
+}
@@ -1,35 +1,105 @@
 /**
- * LocalStorage persistence utilities for TAS Assistant
- * Stage 0 MVP: Client-side storage only, no server-side persistence
+ * Persistence utilities for TAS Assistant
+ *
+ * Saved plans live in a PlanStore chosen by NEXT_PUBLIC_STORAGE_BACKEND:
+ * this browser's localStorage (default) or the server via /api/plans. The
+ * plan on screen, the last intake and settings always stay in localStorage;
+ * the branding logo and template are kept in IndexedDB (lib/branding-assets.ts).
+ *
+ * Plans are upgraded to the current schema (lib/plan-migrations.ts) whenever
+ * they are read or imported; entries that cannot be upgraded are reported and
+ * left untouched in storage.
  */
 
-import { GeneratedPlan, IntakeFormData } from '@/types/unit-plan';
+import {
+  GeneratedPlan,
+  IntakeFormData,
+  OrganisationBranding,
+  OrganisationDefaults,
+  ReflectionFinding,
+} from '@/types/unit-plan';
+import { config } from '@/config/env';
+import { LocalPlanStore, PlanStore, PlanStoreError, RemotePlanStore, writeLocalStorage } from '@/lib/plan-store';
+import { CompactStoredPlan, compactStoredPlan, expandStoredPlan } from '@/lib/plan-history';
+import { CURRENT_SCHEMA_VERSION, migrateStoredPlan } from '@/lib/plan-migrations';
+import type { PlanMigrationFailure } from '@/lib/plan-migrations';
+import { normalizeTags } from '@/lib/plan-library';
+import { BrandingAssets, readBrandingAssets, splitBrandingAssets, writeBrandingAssets } from '@/lib/branding-assets';
 
 const STORAGE_KEYS = {
   PLANS: 'tas_assistant_plans',
   CURRENT_PLAN: 'tas_assistant_current_plan',
   LAST_INTAKE: 'tas_assistant_last_intake',
   SETTINGS: 'tas_assistant_settings',
+  TEMPLATES: 'tas_assistant_intake_templates',
+  PLAN_SERVER_TOKEN: 'tas_assistant_plan_server_token',
 } as const;
 
+/**
+ * What produced a plan version
+ */
+export type PlanVersionSource = 'generation' | 'refinement' | 'edit' | 'rollback';
+
+/**
+ * One saved state of a plan, kept so changes between versions can be shown
+ * (and undone) when an auditor asks why a TAS changed
+ */
+export interface PlanVersion {
+  /** 1 for the generated plan, incremented on every change */
+  version: number;
+  plan: GeneratedPlan;
+  source: PlanVersionSource;
+  /** What was asked for, e.g. the refinement instruction */
+  note?: string;
+  createdAt: string;
+}
+
 export interface StoredPlan {
   id: string;
+  /** Latest version of the plan */
   plan: GeneratedPlan;
+  /** Every version, oldest first (the last entry matches `plan`) */
+  versions: PlanVersion[];
   intake: IntakeFormData;
+  /** Non-blocking reflection findings from generation */
+  reviewNotes?: ReflectionFinding[];
+  /** User-defined labels for finding the plan in the library */
+  tags?: string[];
   createdAt: string;
   updatedAt: string;
 }
 
 export interface AppSettings {
   autoSave: boolean;
+  /** Add generated plans to the saved plans (the library is not capped) */
   keepHistory: boolean;
-  maxHistoryItems: number;
+  /** Venue, trainers, class size and resources merged into every intake */
+  organisationDefaults: OrganisationDefaults;
+  /**
+   * RTO details, colours, document control and section order for DOCX
+   * exports. The logo and template are stored separately; read the full
+   * branding with getOrganisationBranding.
+   */
+  organisationBranding: Omit<OrganisationBranding, keyof BrandingAssets>;
+}
+
+/**
+ * A named, reusable starting point for the intake form
+ */
+export interface IntakeTemplate {
+  id: string;
+  /** e.g. "Cert IV TAE evening cohort" */
+  name: string;
+  intake: Partial<IntakeFormData>;
+  createdAt: string;
+  updatedAt: string;
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
   autoSave: true,
   keepHistory: true,
-  maxHistoryItems: 10,
+  organisationDefaults: {},
+  organisationBranding: {},
 };
 
 /**
@@ -46,55 +116,263 @@ function isStorageAvailable(): boolean {
   }
 }
 
+let planStore: PlanStore | null = null;
+
+/**
+ * The configured store for saved plans
+ */
+export function getPlanStore(): PlanStore {
+  if (!planStore) {
+    planStore =
+      config.storageBackend === 'server'
+        ? new RemotePlanStore('/api/plans', getPlanServerToken)
+        : new LocalPlanStore(STORAGE_KEYS.PLANS);
+  }
+  return planStore;
+}
+
+/**
+ * Access token for the server backend's /api/plans routes
+ *
+ * Kept under its own key so it is never included in exported backups.
+ */
+export function getPlanServerToken(): string {
+  if (!isStorageAvailable()) return '';
+  return localStorage.getItem(STORAGE_KEYS.PLAN_SERVER_TOKEN) || '';
+}
+
+/**
+ * Save (or clear, with an empty string) the plan server access token
+ */
+export function setPlanServerToken(token: string): boolean {
+  if (!isStorageAvailable()) return false;
+
+  try {
+    if (token.trim()) {
+      localStorage.setItem(STORAGE_KEYS.PLAN_SERVER_TOKEN, token.trim());
+    } else {
+      localStorage.removeItem(STORAGE_KEYS.PLAN_SERVER_TOKEN);
+    }
+    return true;
+  } catch (error) {
+    console.error('Failed to save plan server token:', error);
+    return false;
+  }
+}
+
+/**
+ * Whether saved plans can be read and written in this environment
+ */
+function isPlanStoreAvailable(): boolean {
+  return getPlanStore().kind !== 'local' || isStorageAvailable();
+}
+
+/**
+ * Remember the plan on screen in this browser (ignored if localStorage is unavailable)
+ *
+ * @throws {PlanStoreError} If localStorage is full
+ */
+function setCurrentPlan(stored: StoredPlan): void {
+  if (!isStorageAvailable()) return;
+  writeLocalStorage(STORAGE_KEYS.CURRENT_PLAN, JSON.stringify(compactStoredPlan(stored)));
+}
+
 /**
  * Generate a unique ID for a plan
  */
-function generatePlanId(): string {
+export function generatePlanId(): string {
   return `plan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
 /**
- * Save a generated plan to localStorage
+ * Upgrade an entry read from storage, logging (not throwing) if it cannot be
  */
-export function savePlan(plan: GeneratedPlan, intake: IntakeFormData): string | null {
-  if (!isStorageAvailable()) {
+function readStoredPlan(raw: unknown, where: string): StoredPlan | null {
+  const result = migrateStoredPlan(raw);
+  if (!result.ok) {
+    console.warn(`[MIGRATE] Skipping ${where} ${result.id || '(no id)'}: ${result.error}`);
+    return null;
+  }
+  return result.entry;
+}
+
+/**
+ * Append a version; every earlier version is kept so any of them can be
+ * compared or restored (lib/plan-history.ts keeps them small in storage)
+ */
+function appendVersion(
+  stored: StoredPlan,
+  plan: GeneratedPlan,
+  source: PlanVersionSource,
+  note: string | undefined,
+  createdAt: string
+): StoredPlan {
+  const last = stored.versions[stored.versions.length - 1];
+  const versions = [
+    ...stored.versions,
+    { version: (last?.version || 0) + 1, plan, source, ...(note ? { note } : {}), createdAt },
+  ];
+
+  return { ...stored, plan, versions, updatedAt: createdAt };
+}
+
+/**
+ * Save a generated plan as the current plan and (if history is kept) to the plan store
+ *
+ * @returns The new plan's ID, or null if storage is unavailable
+ * @throws {PlanStoreError} If the plan could not be written (e.g. storage is full)
+ */
+export async function savePlan(
+  plan: GeneratedPlan,
+  intake: IntakeFormData,
+  reviewNotes?: ReflectionFinding[]
+): Promise<string | null> {
+  if (!isPlanStoreAvailable()) {
     console.warn('localStorage not available');
     return null;
   }
 
-  try {
-    const id = generatePlanId();
-    const storedPlan: StoredPlan = {
-      id,
-      plan,
-      intake,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+  const id = generatePlanId();
+  const createdAt = new Date().toISOString();
+  const storedPlan: StoredPlan = {
+    id,
+    plan,
+    versions: [{ version: 1, plan, source: 'generation', createdAt }],
+    intake,
+    reviewNotes,
+    createdAt,
+    updatedAt: createdAt,
+  };
+
+  // Save as current plan
+  setCurrentPlan(storedPlan);
 
-    // Save as current plan
-    localStorage.setItem(STORAGE_KEYS.CURRENT_PLAN, JSON.stringify(storedPlan));
+  // Add to history if enabled
+  if (getSettings().keepHistory) {
+    await getPlanStore().put(storedPlan);
+  }
+
+  return id;
+}
 
-    // Add to history if enabled
-    const settings = getSettings();
-    if (settings.keepHistory) {
-      const plans = getAllPlans();
-      plans.unshift(storedPlan);
+/**
+ * Save a new version of a saved entry (after an edit or accepted refinement)
+ *
+ * Updates both the current plan and its stored entry and bumps updatedAt.
+ *
+ * @param note - What was asked for, shown in the version history
+ * @returns The updated entry, or null if no saved plan has this ID
+ * @throws {PlanStoreError} If the new version could not be written (e.g. storage is full)
+ */
+export async function updatePlan(
+  id: string,
+  plan: GeneratedPlan,
+  source: Exclude<PlanVersionSource, 'generation'> = 'edit',
+  note?: string
+): Promise<StoredPlan | null> {
+  if (!isPlanStoreAvailable()) return null;
+
+  const current = getCurrentPlan();
+  const saved = await getPlanById(id);
+
+  const base = saved || (current && current.id === id ? current : null);
+  if (!base) return null;
+
+  const updated = appendVersion(base, plan, source, note, new Date().toISOString());
+
+  // The store first, so a failed write leaves the current plan matching it
+  if (saved) {
+    await getPlanStore().put(updated);
+  }
+  if (current && current.id === id) {
+    setCurrentPlan(updated);
+  }
 
-      // Limit history size
-      const trimmedPlans = plans.slice(0, settings.maxHistoryItems);
-      localStorage.setItem(STORAGE_KEYS.PLANS, JSON.stringify(trimmedPlans));
+  return updated;
+}
+
+/**
+ * Restore an earlier version as the latest one
+ *
+ * The restored plan is appended as a new "rollback" version, so the history
+ * still shows what was undone.
+ *
+ * @returns The updated entry, or null if the plan or version does not exist
+ * @throws {PlanStoreError} If the restored version could not be written
+ */
+export async function rollbackPlan(id: string, version: number): Promise<StoredPlan | null> {
+  const stored = (await getPlanById(id)) || getCurrentPlan();
+  if (!stored || stored.id !== id) return null;
+
+  const target = stored.versions.find((v) => v.version === version);
+  if (!target) return null;
+
+  return updatePlan(id, target.plan, 'rollback', `Restored version ${version}`);
+}
+
+/**
+ * Set a saved plan's library tags (tags are not plan content, so no version is added)
+ *
+ * @returns The updated entry, or null if no saved plan has this ID
+ */
+export async function setPlanTags(id: string, tags: string[]): Promise<StoredPlan | null> {
+  const stored = await getPlanById(id);
+  if (!stored) return null;
+
+  try {
+    const updated = { ...stored, tags: normalizeTags(tags) };
+    await getPlanStore().put(updated);
+
+    const current = getCurrentPlan();
+    if (current && current.id === id) {
+      setCurrentPlan({ ...current, tags: updated.tags });
     }
+    return updated;
+  } catch (error) {
+    console.error('Failed to update tags:', error);
+    return null;
+  }
+}
+
+/**
+ * Copy a saved plan as the starting point for a new one
+ *
+ * The copy gets a new ID and a fresh history whose first version notes
+ * where it came from; intake, review notes and tags are carried over.
+ *
+ * @returns The new entry, or null if no saved plan has this ID
+ */
+export async function duplicatePlan(id: string): Promise<StoredPlan | null> {
+  const source = await getPlanById(id);
+  if (!source) return null;
 
-    return id;
+  try {
+    const now = new Date().toISOString();
+    const { qualification } = source.plan.meta;
+    const copy: StoredPlan = {
+      ...source,
+      id: generatePlanId(),
+      versions: [
+        {
+          version: 1,
+          plan: source.plan,
+          source: 'generation',
+          note: `Duplicated from ${qualification.code || qualification.title} (${source.id})`,
+          createdAt: now,
+        },
+      ],
+      createdAt: now,
+      updatedAt: now,
+    };
+    return await getPlanStore().put(copy);
   } catch (error) {
-    console.error('Failed to save plan:', error);
+    console.error('Failed to duplicate plan:', error);
     return null;
   }
 }
 
 /**
- * Get the current/last generated plan
+ * Get the current/last generated plan (kept in this browser)
  */
 export function getCurrentPlan(): StoredPlan | null {
   if (!isStorageAvailable()) return null;
@@ -103,7 +381,7 @@ export function getCurrentPlan(): StoredPlan | null {
     const stored = localStorage.getItem(STORAGE_KEYS.CURRENT_PLAN);
     if (!stored) return null;
 
-    return JSON.parse(stored) as StoredPlan;
+    return readStoredPlan(expandStoredPlan(JSON.parse(stored) as CompactStoredPlan), 'current plan');
   } catch (error) {
     console.error('Failed to get current plan:', error);
     return null;
@@ -111,40 +389,85 @@ export function getCurrentPlan(): StoredPlan | null {
 }
 
 /**
- * Get all saved plans from history
+ * Saved plans, plus entries that could not be upgraded to the current schema
  */
-export function getAllPlans(): StoredPlan[] {
-  if (!isStorageAvailable()) return [];
+export interface PlanLoadResult {
+  plans: StoredPlan[];
+  failed: PlanMigrationFailure[];
+  /** Why the store could not be read (e.g. a missing plan server token) */
+  error?: string;
+}
 
-  try {
-    const stored = localStorage.getItem(STORAGE_KEYS.PLANS);
-    if (!stored) return [];
+/**
+ * Load all saved plans from the plan store, newest first, reporting entries
+ * that could not be migrated (they stay in storage unchanged)
+ */
+export async function loadAllPlans(): Promise<PlanLoadResult> {
+  if (!isPlanStoreAvailable()) return { plans: [], failed: [] };
 
-    return JSON.parse(stored) as StoredPlan[];
+  try {
+    const result: PlanLoadResult = { plans: [], failed: [] };
+    for (const raw of await getPlanStore().list()) {
+      const migrated = migrateStoredPlan(raw);
+      if (migrated.ok) {
+        result.plans.push(migrated.entry);
+      } else {
+        console.warn(`[MIGRATE] Skipping saved plan ${migrated.id || '(no id)'}: ${migrated.error}`);
+        result.failed.push({ id: migrated.id, error: migrated.error });
+      }
+    }
+    return result;
   } catch (error) {
     console.error('Failed to get plans:', error);
-    return [];
+    return {
+      plans: [],
+      failed: [],
+      error: error instanceof PlanStoreError ? error.message : 'Saved plans could not be loaded.',
+    };
   }
 }
 
+/**
+ * Make a saved plan the current plan in this browser
+ *
+ * @returns The plan, or null if no saved plan has this ID
+ */
+export async function openSavedPlan(id: string): Promise<StoredPlan | null> {
+  const stored = await getPlanById(id);
+  if (stored) setCurrentPlan(stored);
+  return stored;
+}
+
+/**
+ * Get all saved plans from the plan store, newest first
+ */
+export async function getAllPlans(): Promise<StoredPlan[]> {
+  return (await loadAllPlans()).plans;
+}
+
 /**
  * Get a specific plan by ID
  */
-export function getPlanById(id: string): StoredPlan | null {
-  const plans = getAllPlans();
-  return plans.find((p) => p.id === id) || null;
+export async function getPlanById(id: string): Promise<StoredPlan | null> {
+  if (!isPlanStoreAvailable()) return null;
+
+  try {
+    const stored = await getPlanStore().get(id);
+    return stored ? readStoredPlan(stored, 'saved plan') : null;
+  } catch (error) {
+    console.error('Failed to get plan:', error);
+    return null;
+  }
 }
 
 /**
- * Delete a plan from history
+ * Delete a plan from the plan store
  */
-export function deletePlan(id: string): boolean {
-  if (!isStorageAvailable()) return false;
+export async function deletePlan(id: string): Promise<boolean> {
+  if (!isPlanStoreAvailable()) return false;
 
   try {
-    const plans = getAllPlans();
-    const filtered = plans.filter((p) => p.id !== id);
-    localStorage.setItem(STORAGE_KEYS.PLANS, JSON.stringify(filtered));
+    await getPlanStore().delete(id);
 
     // Clear current plan if it's the one being deleted
     const current = getCurrentPlan();
@@ -162,12 +485,17 @@ export function deletePlan(id: string): boolean {
 /**
  * Clear all saved plans
  */
-export function clearAllPlans(): boolean {
-  if (!isStorageAvailable()) return false;
+export async function clearAllPlans(): Promise<boolean> {
+  if (!isPlanStoreAvailable()) return false;
 
   try {
-    localStorage.removeItem(STORAGE_KEYS.PLANS);
-    localStorage.removeItem(STORAGE_KEYS.CURRENT_PLAN);
+    const store = getPlanStore();
+    for (const stored of await store.list()) {
+      await store.delete(stored.id);
+    }
+    if (isStorageAvailable()) {
+      localStorage.removeItem(STORAGE_KEYS.CURRENT_PLAN);
+    }
     return true;
   } catch (error) {
     console.error('Failed to clear plans:', error);
@@ -222,6 +550,66 @@ export function clearLastIntake(): boolean {
   }
 }
 
+/**
+ * Get intake templates, by name
+ */
+export function getIntakeTemplates(): IntakeTemplate[] {
+  if (!isStorageAvailable()) return [];
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.TEMPLATES);
+    if (!stored) return [];
+
+    return (JSON.parse(stored) as IntakeTemplate[]).sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Failed to get intake templates:', error);
+    return [];
+  }
+}
+
+/**
+ * Save the intake as a named template, replacing any template with the same name
+ *
+ * @returns The saved template, or null if it could not be saved
+ */
+export function saveIntakeTemplate(name: string, intake: Partial<IntakeFormData>): IntakeTemplate | null {
+  const trimmed = name.trim();
+  if (!trimmed || !isStorageAvailable()) return null;
+
+  try {
+    const templates = getIntakeTemplates();
+    const now = new Date().toISOString();
+    const existing = templates.find((t) => t.name.toLowerCase() === trimmed.toLowerCase());
+
+    const template: IntakeTemplate = existing
+      ? { ...existing, name: trimmed, intake, updatedAt: now }
+      : { id: `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, name: trimmed, intake, createdAt: now, updatedAt: now };
+
+    const updated = [...templates.filter((t) => t.id !== template.id), template];
+    localStorage.setItem(STORAGE_KEYS.TEMPLATES, JSON.stringify(updated));
+    return template;
+  } catch (error) {
+    console.error('Failed to save intake template:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete an intake template
+ */
+export function deleteIntakeTemplate(id: string): boolean {
+  if (!isStorageAvailable()) return false;
+
+  try {
+    const templates = getIntakeTemplates().filter((t) => t.id !== id);
+    localStorage.setItem(STORAGE_KEYS.TEMPLATES, JSON.stringify(templates));
+    return true;
+  } catch (error) {
+    console.error('Failed to delete intake template:', error);
+    return false;
+  }
+}
+
 /**
  * Get app settings
  */
@@ -256,16 +644,63 @@ export function saveSettings(settings: Partial<AppSettings>): boolean {
   }
 }
 
+/**
+ * Organisation branding for DOCX exports: the settings plus the logo and
+ * template from IndexedDB
+ *
+ * Settings saved by older builds hold the logo and template inline; they are
+ * moved to IndexedDB on first read.
+ */
+export async function getOrganisationBranding(): Promise<OrganisationBranding> {
+  const stored: OrganisationBranding = getSettings().organisationBranding;
+  const { settings, assets } = splitBrandingAssets(stored);
+
+  if (assets.logo || assets.template) {
+    await saveOrganisationBranding(stored);
+    return stored;
+  }
+
+  try {
+    return { ...settings, ...(await readBrandingAssets()) };
+  } catch (error) {
+    console.error('Failed to read branding assets:', error);
+    return settings;
+  }
+}
+
+/**
+ * Save organisation branding: the logo and template to IndexedDB, the rest
+ * to settings
+ *
+ * @returns false if either could not be stored
+ */
+export async function saveOrganisationBranding(branding: OrganisationBranding): Promise<boolean> {
+  const { settings, assets } = splitBrandingAssets(branding);
+
+  try {
+    await writeBrandingAssets(assets);
+  } catch (error) {
+    console.error('Failed to save branding assets:', error);
+    return false;
+  }
+  return saveSettings({ organisationBranding: settings });
+}
+
 /**
  * Get storage usage information
+ *
+ * `used`/`total` describe this browser's localStorage; with the server
+ * backend, saved plans do not count towards it.
  */
-export function getStorageInfo() {
+export async function getStorageInfo() {
+  const backend = getPlanStore().kind;
+
   if (!isStorageAvailable()) {
-    return { available: false, used: 0, total: 0, planCount: 0 };
+    return { available: false, backend, used: 0, total: 0, planCount: 0 };
   }
 
   try {
-    const plans = getAllPlans();
+    const plans = await getAllPlans();
     let used = 0;
 
     // Calculate approximate storage used
@@ -280,6 +715,7 @@ export function getStorageInfo() {
 
     return {
       available: true,
+      backend,
       used,
       total,
       usedKB: Math.round(used / 1024),
@@ -288,45 +724,193 @@ export function getStorageInfo() {
     };
   } catch (error) {
     console.error('Failed to get storage info:', error);
-    return { available: false, used: 0, total: 0, planCount: 0 };
+    return { available: false, backend, used: 0, total: 0, planCount: 0 };
   }
 }
 
+/**
+ * Settings as written to a backup: the branding includes the logo and template
+ */
+export type BackupSettings = Omit<AppSettings, 'organisationBranding'> & {
+  organisationBranding?: OrganisationBranding;
+};
+
+/**
+ * Backup file contents produced by exportAllData
+ */
+export interface BackupData {
+  /** Plan schema version at export time (absent in backups from older builds) */
+  schemaVersion?: string;
+  plans: StoredPlan[];
+  currentPlan?: StoredPlan | null;
+  lastIntake?: IntakeFormData | null;
+  settings?: BackupSettings;
+  templates?: IntakeTemplate[];
+  exportedAt: string;
+}
+
 /**
  * Export all data as JSON (for backup)
  */
-export function exportAllData() {
+export async function exportAllData(): Promise<BackupData> {
   return {
-    plans: getAllPlans(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    plans: await getAllPlans(),
     currentPlan: getCurrentPlan(),
     lastIntake: getLastIntake(),
-    settings: getSettings(),
+    settings: { ...getSettings(), organisationBranding: await getOrganisationBranding() },
+    templates: getIntakeTemplates(),
+    exportedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * How an import treats saved plans that are not in the file
+ * - merge: keep them; plans with the same id are resolved per ImportConflictResolution
+ * - replace: delete them (and restore settings, templates, last intake and current plan from the backup)
+ */
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * What a merge does with an imported plan whose id is already saved
+ */
+export type ImportConflictResolution = 'overwrite' | 'skip' | 'keep-both';
+
+export interface ImportOptions {
+  mode?: ImportMode;
+  /** Per plan id; conflicts not listed are kept both ways */
+  conflicts?: Record<string, ImportConflictResolution>;
+}
+
+/**
+ * Outcome of importing a backup
+ */
+export interface ImportResult {
+  success: boolean;
+  /** Saved plans written to the plan store */
+  imported: number;
+  /** Ids the imported plans were saved under (new ids for plans kept both ways) */
+  importedIds: string[];
+  /** How many of those were upgraded from an older schema */
+  migrated: number;
+  /** Existing plans replaced by an imported plan with the same id (merge) */
+  overwritten: number;
+  /** Imported plans left out because a plan with the same id was kept (merge) */
+  skipped: number;
+  /** Plans (and the current plan) that could not be migrated and were not written */
+  failed: PlanMigrationFailure[];
+  error?: string;
+}
+
+/**
+ * Export selected saved plans in backup form (importable with merge)
+ */
+export async function exportPlans(ids: string[]): Promise<BackupData> {
+  const plans = await getAllPlans();
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    plans: plans.filter((stored) => ids.includes(stored.id)),
     exportedAt: new Date().toISOString(),
   };
 }
 
 /**
  * Import data from JSON backup
+ *
+ * Every plan is migrated and validated before anything is written; plans that
+ * fail are reported and skipped. By default saved plans are replaced by the
+ * backup's plans; in merge mode they are kept and id conflicts are resolved
+ * per `options.conflicts`.
+ *
+ * In replace mode the backup's plans are written before the saved plans it
+ * does not contain are deleted, and settings are restored last, so a failed
+ * write (e.g. storage full) leaves every saved plan in place. A saved plan
+ * whose copy in the backup cannot be migrated is kept, not deleted.
  */
-export function importData(data: ReturnType<typeof exportAllData>): boolean {
-  if (!isStorageAvailable()) return false;
+export async function importData(data: BackupData, options: ImportOptions = {}): Promise<ImportResult> {
+  const mode = options.mode || 'replace';
+  const result: ImportResult = { success: false, imported: 0, importedIds: [], migrated: 0, overwritten: 0, skipped: 0, failed: [] };
+
+  if (!isStorageAvailable()) return { ...result, error: 'localStorage not available' };
+  if (!data || typeof data !== 'object' || (data.plans !== undefined && !Array.isArray(data.plans))) {
+    return { ...result, error: 'Not a TAS Assistant backup' };
+  }
+
+  const plans: StoredPlan[] = [];
+  for (const raw of data.plans || []) {
+    const migrated = migrateStoredPlan(raw);
+    if (migrated.ok) {
+      plans.push(migrated.entry);
+      if (migrated.migrated) result.migrated++;
+    } else {
+      result.failed.push({ id: migrated.id, error: migrated.error });
+    }
+  }
+
+  let currentPlan: StoredPlan | null = null;
+  if (mode === 'replace' && data.currentPlan) {
+    const migrated = migrateStoredPlan(data.currentPlan);
+    if (migrated.ok) {
+      currentPlan = migrated.entry;
+    } else {
+      result.failed.push({ id: migrated.id, error: `Current plan: ${migrated.error}` });
+    }
+  }
 
   try {
-    if (data.plans) {
-      localStorage.setItem(STORAGE_KEYS.PLANS, JSON.stringify(data.plans));
+    const store = getPlanStore();
+
+    // Oldest first, so the local store keeps the newest-first order
+    for (const stored of [...plans].reverse()) {
+      let entry = stored;
+
+      if (mode === 'merge' && (await store.get(stored.id))) {
+        const resolution = options.conflicts?.[stored.id] || 'keep-both';
+        if (resolution === 'skip') {
+          result.skipped++;
+          continue;
+        }
+        if (resolution === 'overwrite') {
+          result.overwritten++;
+        } else {
+          entry = { ...stored, id: generatePlanId() };
+        }
+      }
+
+      await store.put(entry);
+      result.imported++;
+      result.importedIds.push(entry.id);
+    }
+
+    if (mode === 'replace') {
+      if (data.plans) {
+        // Ids in the backup, including copies that failed migration
+        const kept = new Set([...result.importedIds, ...result.failed.map((failure) => failure.id)]);
+        for (const stored of await store.list()) {
+          if (!kept.has(stored.id)) await store.delete(stored.id);
+        }
+      }
+      if (data.settings) {
+        const { organisationBranding, ...settings } = data.settings;
+        localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify({ ...DEFAULT_SETTINGS, ...settings }));
+        if (!(await saveOrganisationBranding(organisationBranding || {}))) {
+          throw new Error('The branding logo and template could not be restored');
+        }
+      }
+      if (Array.isArray(data.templates)) {
+        localStorage.setItem(STORAGE_KEYS.TEMPLATES, JSON.stringify(data.templates));
+      }
     }
-    if (data.currentPlan) {
-      localStorage.setItem(STORAGE_KEYS.CURRENT_PLAN, JSON.stringify(data.currentPlan));
+
+    if (currentPlan) {
+      setCurrentPlan(currentPlan);
     }
-    if (data.lastIntake) {
+    if (mode === 'replace' && data.lastIntake) {
       localStorage.setItem(STORAGE_KEYS.LAST_INTAKE, JSON.stringify(data.lastIntake));
     }
-    if (data.settings) {
-      localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(data.settings));
-    }
-    return true;
+    return { ...result, success: true };
   } catch (error) {
     console.error('Failed to import data:', error);
-    return false;
+    return { ...result, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
@@ -0,0 +1,196 @@
+/**
+ * Deterministic Stub LLM Provider
+ *
+ * Replays recorded responses from fixtures/llm/<scenario>.json so the APRV
+ * loop (including its repair paths) can run in CI and local dev without an
+ * API key or network access.
+ *
+ * Scenario file format:
+ * {
+ *   "description": "...",
+ *   "expected": { "success": true, "attempts": 1, "calls": ["plan", "reflect"] },
+ *   "responses": {
+ *     "plan":    [ "raw text", { "file": "plans/first-aid.json", "truncateAt": 1500 } ],
+ *     "reflect": [ "No issues found." ],
+ *     "default": [ ... ]
+ *   }
+ * }
+ *
+ * Responses are keyed by LLMRequest.purpose (falling back to "default") and
+ * replayed in order; once a queue is exhausted its last entry repeats.
+ *
+ * `expected` records the outcome of replaying the scenario through the APRV
+ * loop; `npm run aprv:check` (scripts/check-aprv-fixtures.ts) asserts it.
+ * Scenarios with a `refinement` are replayed through refineWithAPRV.
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type { LLMProvider, LLMRequest, LLMResponse } from '@/lib/llm-provider';
+
+/**
+ * A recorded response: raw text, or text loaded from a fixture file
+ */
+export type StubResponse =
+  | string
+  | {
+      /** Inline response text */
+      text?: string;
+
+      /** Fixture file (relative to the fixtures directory) whose contents are the response */
+      file?: string;
+
+      /** Cut the text at this many characters to simulate truncated output */
+      truncateAt?: number;
+
+      /** Reported stop reason (defaults to 'max_tokens' when truncated, else 'end_turn') */
+      stopReason?: string;
+    };
+
+/**
+ * Outcome of replaying a scenario, checked by scripts/check-aprv-fixtures.ts
+ */
+export interface StubExpectation {
+  success: boolean;
+  attempts: number;
+  /** LLMRequest.purpose of every call, in order */
+  calls?: string[];
+  /** metadata.schema_version of the resulting plan */
+  schemaVersion?: string;
+}
+
+export interface StubScenario {
+  description?: string;
+  /** Refine this plan fixture instead of generating a plan */
+  refinement?: { plan: string; instruction: string };
+  expected?: StubExpectation;
+  responses: Record<string, StubResponse[]>;
+}
+
+export interface StubProviderOptions {
+  /** Scenario name (loaded from fixturesDir) or an inline scenario */
+  scenario: string | StubScenario;
+
+  /** Directory holding scenario and plan fixtures */
+  fixturesDir?: string;
+
+  /** Characters per streamed delta */
+  chunkSize?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 500;
+
+/**
+ * Error raised when a scenario or fixture cannot be resolved
+ */
+export class StubProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StubProviderError';
+  }
+}
+
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub';
+
+  /** Every request received, in order (useful for assertions) */
+  readonly calls: LLMRequest[] = [];
+
+  private options: StubProviderOptions;
+  private fixturesDir: string;
+  private scenario: StubScenario | null;
+  private cursors: Record<string, number> = {};
+
+  constructor(options: StubProviderOptions) {
+    this.options = options;
+    this.fixturesDir = options.fixturesDir || join(process.cwd(), 'fixtures', 'llm');
+    this.scenario = typeof options.scenario === 'string' ? null : options.scenario;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.calls.push(request);
+    return this.nextResponse(request);
+  }
+
+  async stream(request: LLMRequest, onText?: (delta: string) => void): Promise<LLMResponse> {
+    this.calls.push(request);
+    const response = await this.nextResponse(request);
+
+    if (onText) {
+      const chunkSize = this.options.chunkSize || DEFAULT_CHUNK_SIZE;
+      for (let i = 0; i < response.text.length; i += chunkSize) {
+        onText(response.text.slice(i, i + chunkSize));
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Rewind every response queue to the start
+   */
+  reset(): void {
+    this.cursors = {};
+    this.calls.length = 0;
+  }
+
+  private async nextResponse(request: LLMRequest): Promise<LLMResponse> {
+    const scenario = await this.loadScenario();
+
+    const key = request.purpose && scenario.responses[request.purpose] ? request.purpose : 'default';
+    const queue = scenario.responses[key];
+
+    if (!queue || queue.length === 0) {
+      throw new StubProviderError(
+        `Stub scenario has no responses for purpose '${request.purpose || 'default'}'`
+      );
+    }
+
+    const index = Math.min(this.cursors[key] || 0, queue.length - 1);
+    this.cursors[key] = index + 1;
+
+    return this.resolve(queue[index], request);
+  }
+
+  private async resolve(entry: StubResponse, request: LLMRequest): Promise<LLMResponse> {
+    const spec = typeof entry === 'string' ? { text: entry } : entry;
+
+    let text = spec.text ?? '';
+    if (spec.file) {
+      try {
+        text = await readFile(join(this.fixturesDir, spec.file), 'utf-8');
+      } catch {
+        throw new StubProviderError(`Stub fixture file not found: ${spec.file}`);
+      }
+    }
+
+    const truncated = spec.truncateAt !== undefined && spec.truncateAt < text.length;
+    if (truncated) {
+      text = text.slice(0, spec.truncateAt);
+    }
+
+    return {
+      text,
+      stopReason: spec.stopReason || (truncated ? 'max_tokens' : 'end_turn'),
+      usage: {
+        input_tokens: Math.round((request.system.length + request.prompt.length) / 4),
+        output_tokens: Math.round(text.length / 4),
+      },
+    };
+  }
+
+  private async loadScenario(): Promise<StubScenario> {
+    if (this.scenario) return this.scenario;
+
+    const name = this.options.scenario as string;
+    try {
+      const content = await readFile(join(this.fixturesDir, `${name}.json`), 'utf-8');
+      this.scenario = JSON.parse(content) as StubScenario;
+      return this.scenario;
+    } catch {
+      throw new StubProviderError(
+        `Failed to load stub scenario '${name}'. Ensure fixtures/llm/${name}.json exists.`
+      );
+    }
+  }
+}
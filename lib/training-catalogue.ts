@@ -0,0 +1,341 @@
+/**
+ * Training Package Catalogue
+ *
+ * A local, importable index of qualifications and units of competency
+ * (code, title, nominal hours, core/elective, prerequisites) taken from a
+ * training.gov.au export. It backs intake autocomplete, injects authoritative
+ * unit data into the generation prompt and lets the verifier catch invented
+ * unit codes and titles.
+ *
+ * This module is pure (no file access) so it can run in the browser; the
+ * server loads the catalogue file with lib/catalogue-loader.ts.
+ *
+ * JSON format:
+ * {
+ *   "source": "training.gov.au export, 2025-10",
+ *   "sample": false,
+ *   "qualifications": [{ "code": "BSB40120", "title": "...", "level": "Certificate IV",
+ *                        "core_units": ["..."], "elective_units": ["..."] }],
+ *   "units": [{ "code": "BSBOPS402", "title": "...", "nominal_hours": 40, "prerequisites": [] }]
+ * }
+ *
+ * CSV format (one row per unit, or per unit per qualification):
+ *   qualification_code,qualification_title,qualification_level,unit_code,unit_title,nominal_hours,usage,prerequisites
+ * where usage is "core" or "elective" and prerequisites are separated by ";".
+ */
+
+import type { QualificationLevel } from '@/types/schema-types';
+
+export interface CatalogueUnit {
+  code: string;
+  title: string;
+  nominal_hours?: number;
+
+  /** Unit codes that must be completed first */
+  prerequisites?: string[];
+}
+
+export interface CatalogueQualification {
+  code: string;
+  title: string;
+  level?: QualificationLevel;
+  core_units: string[];
+  elective_units: string[];
+}
+
+export interface CatalogueData {
+  /** Where the data came from (export name and date) */
+  source?: string;
+  /**
+   * Incomplete sample data (like the bundled file): mismatches are reported
+   * as warnings and the prompt does not present it as authoritative
+   */
+  sample?: boolean;
+  qualifications: CatalogueQualification[];
+  units: CatalogueUnit[];
+}
+
+/** A unit as it applies to a particular qualification */
+export interface QualificationUnit extends CatalogueUnit {
+  usage: 'core' | 'elective';
+}
+
+export interface CatalogueSearchResult {
+  kind: 'qualification' | 'unit';
+  code: string;
+  title: string;
+}
+
+/**
+ * Raised when a catalogue file cannot be parsed
+ */
+export class CatalogueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogueError';
+  }
+}
+
+const CSV_COLUMNS = [
+  'qualification_code',
+  'qualification_title',
+  'qualification_level',
+  'unit_code',
+  'unit_title',
+  'nominal_hours',
+  'usage',
+  'prerequisites',
+] as const;
+
+/** Unit codes: 3-letter package prefix followed by 6-10 letters/digits */
+const UNIT_CODE_PATTERN = /\b[A-Z]{3}[A-Z0-9]{6,10}\b/g;
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/**
+ * Indexed, read-only view of catalogue data
+ */
+export class TrainingCatalogue {
+  private readonly qualifications = new Map<string, CatalogueQualification>();
+  private readonly units = new Map<string, CatalogueUnit>();
+
+  constructor(public readonly data: CatalogueData = { qualifications: [], units: [] }) {
+    data.qualifications.forEach((qualification) =>
+      this.qualifications.set(qualification.code.toUpperCase(), qualification)
+    );
+    data.units.forEach((unit) => this.units.set(unit.code.toUpperCase(), unit));
+  }
+
+  get size(): number {
+    return this.qualifications.size + this.units.size;
+  }
+
+  /** Whether the data is a sample that unit checks should not rely on */
+  get isSample(): boolean {
+    return this.data.sample === true;
+  }
+
+  findQualification(code: string | undefined): CatalogueQualification | undefined {
+    return code ? this.qualifications.get(code.trim().toUpperCase()) : undefined;
+  }
+
+  findUnit(code: string | undefined): CatalogueUnit | undefined {
+    return code ? this.units.get(code.trim().toUpperCase()) : undefined;
+  }
+
+  /**
+   * Units packaged in a qualification, core first
+   *
+   * Units referenced by the qualification but missing from the unit list are
+   * returned with their code as the title.
+   */
+  unitsForQualification(code: string | undefined): QualificationUnit[] {
+    const qualification = this.findQualification(code);
+    if (!qualification) return [];
+
+    const resolve = (unitCode: string, usage: QualificationUnit['usage']): QualificationUnit => ({
+      ...(this.findUnit(unitCode) || { code: unitCode, title: unitCode }),
+      usage,
+    });
+
+    return [
+      ...qualification.core_units.map((unitCode) => resolve(unitCode, 'core')),
+      ...qualification.elective_units.map((unitCode) => resolve(unitCode, 'elective')),
+    ];
+  }
+
+  /**
+   * Prefix search on code, substring search on title
+   */
+  search(
+    query: string,
+    kind: CatalogueSearchResult['kind'],
+    limit: number = DEFAULT_SEARCH_LIMIT
+  ): CatalogueSearchResult[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+
+    const entries: { code: string; title: string }[] =
+      kind === 'qualification' ? this.data.qualifications : this.data.units;
+
+    const codeMatches = entries.filter((entry) => entry.code.toLowerCase().startsWith(needle));
+    const titleMatches = entries.filter(
+      (entry) => !entry.code.toLowerCase().startsWith(needle) && entry.title.toLowerCase().includes(needle)
+    );
+
+    return [...codeMatches, ...titleMatches]
+      .slice(0, limit)
+      .map(({ code, title }) => ({ kind, code, title }));
+  }
+}
+
+/**
+ * Parse a JSON catalogue export
+ *
+ * @throws {CatalogueError} If the JSON is malformed or missing required fields
+ */
+export function parseCatalogueJSON(text: string): CatalogueData {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (error: any) {
+    throw new CatalogueError(`Catalogue is not valid JSON: ${error.message}`);
+  }
+
+  if (!raw || !Array.isArray(raw.qualifications) || !Array.isArray(raw.units)) {
+    throw new CatalogueError('Catalogue JSON must contain "qualifications" and "units" arrays');
+  }
+
+  raw.units.forEach((unit: any, idx: number) => {
+    if (typeof unit?.code !== 'string' || typeof unit?.title !== 'string') {
+      throw new CatalogueError(`Catalogue unit ${idx} is missing a code or title`);
+    }
+  });
+
+  return {
+    source: typeof raw.source === 'string' ? raw.source : undefined,
+    ...(raw.sample === true ? { sample: true } : {}),
+    qualifications: raw.qualifications.map((qualification: any, idx: number) => {
+      if (typeof qualification?.code !== 'string' || typeof qualification?.title !== 'string') {
+        throw new CatalogueError(`Catalogue qualification ${idx} is missing a code or title`);
+      }
+      return {
+        ...qualification,
+        core_units: Array.isArray(qualification.core_units) ? qualification.core_units : [],
+        elective_units: Array.isArray(qualification.elective_units) ? qualification.elective_units : [],
+      };
+    }),
+    units: raw.units,
+  };
+}
+
+/**
+ * Parse a CSV catalogue export (see module header for the columns)
+ *
+ * @throws {CatalogueError} If the header row is missing required columns
+ */
+export function parseCatalogueCSV(text: string): CatalogueData {
+  const rows = parseCSVRows(text).filter((row) => row.some((cell) => cell.trim()));
+  if (rows.length === 0) {
+    return { qualifications: [], units: [] };
+  }
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const column = Object.fromEntries(CSV_COLUMNS.map((name) => [name, header.indexOf(name)])) as Record<
+    (typeof CSV_COLUMNS)[number],
+    number
+  >;
+
+  if (column.unit_code < 0 || column.unit_title < 0) {
+    throw new CatalogueError('Catalogue CSV must have unit_code and unit_title columns');
+  }
+
+  const qualifications = new Map<string, CatalogueQualification>();
+  const units = new Map<string, CatalogueUnit>();
+  const cell = (row: string[], name: (typeof CSV_COLUMNS)[number]) =>
+    column[name] >= 0 ? (row[column[name]] || '').trim() : '';
+
+  rows.slice(1).forEach((row) => {
+    const unitCode = cell(row, 'unit_code').toUpperCase();
+    if (!unitCode) return;
+
+    const nominalHours = Number(cell(row, 'nominal_hours'));
+    const prerequisites = cell(row, 'prerequisites')
+      .split(';')
+      .map((code) => code.trim().toUpperCase())
+      .filter(Boolean);
+
+    units.set(unitCode, {
+      code: unitCode,
+      title: cell(row, 'unit_title'),
+      ...(cell(row, 'nominal_hours') && !Number.isNaN(nominalHours) ? { nominal_hours: nominalHours } : {}),
+      ...(prerequisites.length ? { prerequisites } : {}),
+    });
+
+    const qualificationCode = cell(row, 'qualification_code').toUpperCase();
+    if (!qualificationCode) return;
+
+    const qualification = qualifications.get(qualificationCode) || {
+      code: qualificationCode,
+      title: cell(row, 'qualification_title'),
+      ...(cell(row, 'qualification_level')
+        ? { level: cell(row, 'qualification_level') as QualificationLevel }
+        : {}),
+      core_units: [],
+      elective_units: [],
+    };
+    const list = cell(row, 'usage').toLowerCase() === 'core' ? qualification.core_units : qualification.elective_units;
+    if (!list.includes(unitCode)) list.push(unitCode);
+    qualifications.set(qualificationCode, qualification);
+  });
+
+  return {
+    qualifications: Array.from(qualifications.values()),
+    units: Array.from(units.values()),
+  };
+}
+
+/**
+ * Unit codes mentioned in free text (e.g. the intake unit list), in order, without duplicates
+ */
+export function extractUnitCodes(text: string | undefined): string[] {
+  const matches = (text || '').toUpperCase().match(UNIT_CODE_PATTERN) || [];
+  return Array.from(new Set(matches));
+}
+
+/**
+ * Compare unit titles ignoring case, punctuation and spacing
+ */
+export function titlesMatch(a: string, b: string): boolean {
+  const normalise = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  return normalise(a) === normalise(b);
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Minimal RFC 4180 CSV reader (quoted fields, escaped quotes, CRLF)
+ */
+function parseCSVRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -0,0 +1,126 @@
+/**
+ * XLSX Export
+ *
+ * Writes the plan's spreadsheet views (lib/plan-sheets.ts) to an Excel
+ * workbook: one worksheet per sheet, with a bold frozen header row,
+ * filters, column widths, numeric hours and real date cells. A summary
+ * sheet comes first with the qualification and delivery details.
+ *
+ * Server only, like the PDF renderer: exceljs is kept out of the client
+ * bundle.
+ */
+
+import ExcelJS from 'exceljs';
+import { GeneratedPlan } from '@/types/unit-plan';
+import { buildPlanSheets, escapeFormula, PlanSheet } from '@/lib/plan-sheets';
+import { formatDeliveryMode, formatDeliverySchedule } from '@/lib/export-handlers';
+
+const HEADER_FILL: ExcelJS.Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF1F3864' } };
+const HEADER_FONT: Partial<ExcelJS.Font> = { bold: true, color: { argb: 'FFFFFFFF' } };
+const DATE_FORMAT = 'dd/mm/yyyy';
+
+/**
+ * "2026-02-02" → a Date at UTC midnight, which Excel shows as that day
+ */
+function toExcelDate(value: string): Date | string {
+  const date = new Date(`${value}T00:00:00Z`);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(date.getTime()) ? date : value;
+}
+
+function addSummarySheet(workbook: ExcelJS.Workbook, plan: GeneratedPlan) {
+  const { meta } = plan;
+  const sheet = workbook.addWorksheet('Summary');
+  sheet.columns = [{ width: 22 }, { width: 70 }];
+
+  const rows: [string, string | number][] = [
+    ['Qualification', meta.qualification.title],
+    ['Code', meta.qualification.code || 'N/A'],
+    ['Delivery Mode', formatDeliveryMode(meta.delivery_mode)],
+    ['Duration (weeks)', meta.duration.weeks],
+    ['Total Hours', meta.duration.total_hours],
+  ];
+  if (meta.start_date) rows.push(['Start Date', meta.start_date]);
+  if (meta.delivery_schedule) rows.push(['Schedule', formatDeliverySchedule(meta.delivery_schedule)]);
+  if (meta.venue) rows.push(['Venue', meta.venue]);
+  rows.push(['Units', plan.units.length], ['Generated', plan.metadata.generated_at.split('T')[0]]);
+
+  sheet.addRow(['TAS Unit Plan']).font = { bold: true, size: 14, color: { argb: 'FF1F3864' } };
+  sheet.addRow([]);
+  rows.forEach(([label, value]) => {
+    const row = sheet.addRow([label, typeof value === 'string' ? escapeFormula(value) : value]);
+    row.getCell(1).font = { bold: true };
+    row.getCell(2).alignment = { horizontal: 'left' };
+  });
+}
+
+function addPlanSheet(workbook: ExcelJS.Workbook, planSheet: PlanSheet) {
+  const sheet = workbook.addWorksheet(planSheet.name, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = planSheet.columns.map((column) => ({
+    header: column.header,
+    width: column.width,
+    ...(column.type === 'date' ? { style: { numFmt: DATE_FORMAT } } : {}),
+  }));
+
+  planSheet.rows.forEach((cells) => {
+    sheet.addRow(
+      cells.map((cell, idx) => {
+        if (typeof cell === 'number') return cell;
+        if (planSheet.columns[idx].type === 'date' && cell) return toExcelDate(cell);
+        return escapeFormula(cell);
+      })
+    );
+  });
+
+  const header = sheet.getRow(1);
+  header.font = HEADER_FONT;
+  header.fill = HEADER_FILL;
+  header.alignment = { vertical: 'middle', wrapText: true };
+
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    row.alignment = { vertical: 'top', wrapText: true };
+  });
+
+  if (planSheet.id === 'assessment_matrix') {
+    // Assessment columns sit between the unit columns and the count
+    for (let col = 3; col < planSheet.columns.length; col++) {
+      sheet.getColumn(col).alignment = { horizontal: 'center', vertical: 'top', wrapText: true };
+    }
+    header.height = 60;
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber > 1 && row.getCell(planSheet.columns.length).value === 0) {
+        row.getCell(planSheet.columns.length).font = { bold: true, color: { argb: 'FFC00000' } };
+      }
+    });
+    sheet.views = [{ state: 'frozen', xSplit: 2, ySplit: 1 }];
+  }
+
+  if (planSheet.rows.length > 0) {
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: planSheet.columns.length } };
+  }
+}
+
+/**
+ * Builds the workbook: Summary, then every sheet from buildPlanSheets. In
+ * the assessment matrix, units with no assessment are flagged red.
+ */
+export function createPlanWorkbook(plan: GeneratedPlan): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+  const generatedAt = new Date(plan.metadata.generated_at);
+  workbook.creator = 'TAS Assistant';
+  workbook.title = `TAS Unit Plan - ${plan.meta.qualification.title}`;
+  workbook.created = isNaN(generatedAt.getTime()) ? new Date(0) : generatedAt;
+  workbook.modified = workbook.created;
+
+  addSummarySheet(workbook, plan);
+  buildPlanSheets(plan).forEach((sheet) => addPlanSheet(workbook, sheet));
+  return workbook;
+}
+
+/**
+ * Renders the workbook as .xlsx bytes
+ */
+export async function renderPlanXLSX(plan: GeneratedPlan): Promise<Uint8Array<ArrayBuffer>> {
+  const buffer = await createPlanWorkbook(plan).xlsx.writeBuffer();
+  return new Uint8Array(buffer as ArrayBuffer);
+}
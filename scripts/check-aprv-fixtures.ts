@@ -0,0 +1,124 @@
+/**
+ * APRV Fixture Check
+ *
+ * Replays every stub scenario in fixtures/llm through the APRV loop with
+ * StubProvider and checks the outcome against the scenario's `expected`
+ * block: success, number of attempts and the sequence of LLM calls (which
+ * shows whether the repair, section repair or regeneration path ran), and
+ * where recorded, the schema version the resulting plan is labelled with.
+ *
+ * Scenarios with a `refinement` are replayed through refineWithAPRV on the
+ * named plan fixture; the rest through generateWithAPRV. Every scenario
+ * uses an intake derived from the first aid sample plan.
+ *
+ * Usage: npm run aprv:check
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { generateWithAPRV, refineWithAPRV } from '../lib/aprv';
+import { StubProvider, StubScenario } from '../lib/stub-provider';
+import { intakeFromPlan, toGeneratedPlan } from '../lib/plan-adapters';
+
+const ROOT_DIR = join(__dirname, '..');
+const FIXTURES_DIR = join(ROOT_DIR, 'fixtures', 'llm');
+const SCHEMA_PATH = join(ROOT_DIR, 'prompts', 'schema.json');
+const SAMPLE_PLAN = 'plans/first-aid-short-course.json';
+
+function readFixture(file: string): any {
+  return JSON.parse(readFileSync(join(FIXTURES_DIR, file), 'utf-8'));
+}
+
+function loadScenarios(): Record<string, StubScenario> {
+  const scenarios: Record<string, StubScenario> = {};
+  readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .forEach((file) => {
+      scenarios[file.slice(0, -'.json'.length)] = readFixture(file);
+    });
+  return scenarios;
+}
+
+/**
+ * Run with the APRV phase logging silenced, so only the check results print
+ */
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+  const { log, warn, error } = console;
+  console.log = console.warn = console.error = () => {};
+  try {
+    return await run();
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+}
+
+async function replay(name: string, scenario: StubScenario): Promise<string[]> {
+  const expected = scenario.expected!;
+  const schema = JSON.parse(readFileSync(SCHEMA_PATH, 'utf-8'));
+  const intake = intakeFromPlan(toGeneratedPlan(readFixture(SAMPLE_PLAN)));
+  const provider = new StubProvider({ scenario, fixturesDir: FIXTURES_DIR });
+
+  const result = await quietly(() =>
+    scenario.refinement
+      ? refineWithAPRV(
+          toGeneratedPlan(readFixture(scenario.refinement.plan)),
+          scenario.refinement.instruction,
+          intake,
+          provider,
+          schema
+        )
+      : generateWithAPRV(intake, provider, schema)
+  );
+
+  const failures: string[] = [];
+  if (result.success !== expected.success) {
+    failures.push(`${name}: expected success ${expected.success}, got ${result.success} (${result.error || 'no error'})`);
+  }
+  if (result.attempts !== expected.attempts) {
+    failures.push(`${name}: expected ${expected.attempts} attempt(s), got ${result.attempts}`);
+  }
+
+  const calls = provider.calls.map((call) => call.purpose || 'default');
+  if (expected.calls && calls.join(',') !== expected.calls.join(',')) {
+    failures.push(`${name}: expected calls [${expected.calls.join(', ')}], got [${calls.join(', ')}]`);
+  }
+  const version = result.plan?.metadata.schema_version;
+  if (expected.schemaVersion && version !== expected.schemaVersion) {
+    failures.push(`${name}: expected schema_version ${expected.schemaVersion}, got ${version}`);
+  }
+  return failures;
+}
+
+async function main(): Promise<void> {
+  // The system prompt is loaded relative to the working directory
+  process.chdir(ROOT_DIR);
+
+  const failures: string[] = [];
+  let checks = 0;
+
+  for (const [name, scenario] of Object.entries(loadScenarios())) {
+    if (!scenario.expected) {
+      failures.push(`${name}: no "expected" outcome recorded`);
+      continue;
+    }
+    checks++;
+    const scenarioFailures = await replay(name, scenario);
+    failures.push(...scenarioFailures);
+    if (scenarioFailures.length === 0) {
+      console.log(`  ✓ ${name} (${scenario.expected.success ? 'success' : 'failure'} after ${scenario.expected.attempts} attempt(s))`);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error(`[APRV] ${failures.length} fixture check(s) failed:`);
+    failures.forEach((failure) => console.error(`  ✗ ${failure}`));
+    process.exit(1);
+  }
+
+  console.log(`[APRV] All ${checks} fixture scenarios replayed as expected`);
+}
+
+main().catch((error) => {
+  console.error('[APRV] Fixture check crashed:', error);
+  process.exit(1);
+});
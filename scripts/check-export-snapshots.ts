@@ -0,0 +1,146 @@
+/**
+ * Export Snapshot Check
+ *
+ * Renders every mock plan (components/mock-data.ts) in every format of
+ * SERVER_EXPORT_FORMATS through renderPlanExport, the renderer behind
+ * POST /api/export. The text formats (Markdown, JSON, every CSV sheet and
+ * iCalendar) are compared byte for byte with the snapshots committed in
+ * fixtures/exports; the binary formats (DOCX, PDF, XLSX) are checked for a
+ * valid file signature. A plan without session dates must refuse ICS.
+ * The short course is also rendered with session times, which makes its
+ * calendar events timed in the delivery state's time zone.
+ *
+ * Dates are formatted in UTC so the snapshots do not depend on the
+ * machine's time zone.
+ *
+ * Usage: npm run export:check [-- --update]
+ *   --update  Rewrite the snapshots from the current renderers
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ExportError, renderPlanExport, SERVER_EXPORT_FORMATS } from '../lib/export-renderer';
+import { hasCalendarDates } from '../lib/ical-export';
+import { PLAN_SHEETS } from '../lib/plan-sheets';
+import { mockPlans } from '../components/mock-data';
+import type { ExportOptions, GeneratedPlan } from '../types/unit-plan';
+
+// Node applies a TZ change to every later date conversion
+process.env.TZ = 'UTC';
+
+const SNAPSHOT_DIR = join(__dirname, '..', 'fixtures', 'exports');
+const UPDATE = process.argv.includes('--update');
+
+/** The plans to render, keyed by snapshot name prefix */
+const PLANS: Record<string, GeneratedPlan> = {
+  ...mockPlans,
+  shortCourseTimed: {
+    ...mockPlans.shortCourse,
+    meta: {
+      ...mockPlans.shortCourse.meta,
+      delivery_schedule: {
+        delivery_days: ['tuesday', 'thursday'],
+        ...mockPlans.shortCourse.meta.delivery_schedule,
+        session_times: { start: '09:00', end: '16:30' },
+      },
+    },
+  },
+};
+
+/** File signatures of the binary formats: ZIP (Office Open XML) and PDF */
+const SIGNATURES: Record<string, string> = {
+  docx: 'PK\x03\x04',
+  xlsx: 'PK\x03\x04',
+  pdf: '%PDF-',
+};
+
+const SNAPSHOT_EXTENSIONS: Record<string, string> = {
+  markdown: 'md',
+  json: 'json',
+  csv: 'csv',
+  ics: 'ics',
+};
+
+/**
+ * One render to check: the snapshot file name and the export options
+ */
+interface ExportCase {
+  name: string;
+  options: ExportOptions;
+}
+
+function exportCases(planName: string): ExportCase[] {
+  return SERVER_EXPORT_FORMATS.flatMap((format): ExportCase[] => {
+    if (format === 'csv') {
+      return PLAN_SHEETS.map(({ id }) => ({
+        name: `${planName}.${id.replace(/_/g, '-')}.csv`,
+        options: { format, sheet: id },
+      }));
+    }
+    return [{ name: `${planName}.${SNAPSHOT_EXTENSIONS[format] || format}`, options: { format } }];
+  });
+}
+
+/**
+ * Render one case and compare it; returns failure messages (empty when it passes)
+ */
+async function check(plan: GeneratedPlan, { name, options }: ExportCase): Promise<string[]> {
+  if (options.format === 'ics' && !hasCalendarDates(plan)) {
+    try {
+      await renderPlanExport(plan, options);
+      return [`${name}: expected ExportError for a plan without session dates`];
+    } catch (error) {
+      return error instanceof ExportError ? [] : [`${name}: ${error}`];
+    }
+  }
+
+  const rendered = await renderPlanExport(plan, options);
+
+  const signature = SIGNATURES[options.format];
+  if (signature) {
+    const head = Buffer.from(rendered.body).subarray(0, signature.length).toString('latin1');
+    return head === signature ? [] : [`${name}: does not start with the ${options.format.toUpperCase()} signature`];
+  }
+
+  const path = join(SNAPSHOT_DIR, name);
+  const text = String(rendered.body);
+  if (UPDATE) {
+    writeFileSync(path, text);
+    return [];
+  }
+  if (!existsSync(path)) {
+    return [`${name}: no snapshot (run with --update to create it)`];
+  }
+  return readFileSync(path, 'utf-8') === text ? [] : [`${name}: differs from fixtures/exports/${name}`];
+}
+
+async function main(): Promise<void> {
+  if (UPDATE) mkdirSync(SNAPSHOT_DIR, { recursive: true });
+
+  const failures: string[] = [];
+  let checks = 0;
+
+  for (const [planName, plan] of Object.entries(PLANS)) {
+    for (const exportCase of exportCases(planName)) {
+      checks++;
+      const caseFailures = await check(plan, exportCase);
+      failures.push(...caseFailures);
+      if (caseFailures.length === 0) {
+        console.log(`  ✓ ${exportCase.name}`);
+      }
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error(`[EXPORT] ${failures.length} export check(s) failed:`);
+    failures.forEach((failure) => console.error(`  ✗ ${failure}`));
+    process.exit(1);
+  }
+
+  console.log(`[EXPORT] All ${checks} export checks passed${UPDATE ? ' (snapshots updated)' : ''}`);
+}
+
+main().catch((error) => {
+  console.error('[EXPORT] Export check crashed:', error);
+  process.exit(1);
+});
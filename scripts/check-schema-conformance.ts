@@ -0,0 +1,133 @@
+/**
+ * Schema Conformance Check
+ *
+ * Proves the generated Zod schema and prompts/schema.json agree:
+ * 1. lib/plan-schema.generated.ts is up to date with the JSON schema
+ * 2. Every sample plan is accepted by both validators
+ * 3. Targeted mutations of each sample (bad enum, missing required field,
+ *    unknown property, pattern/range violations, wrong type) are rejected
+ *    by both validators
+ *
+ * Usage: npm run schema:check
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { validateJSONSchema } from '../lib/json-schema-validator';
+import { GeneratedPlanSchema } from '../lib/plan-schema.generated';
+import { mockPlans } from '../components/mock-data';
+import { SCHEMA_PATH, OUTPUT_PATH, generateFromDisk } from './generate-plan-schema';
+
+const PLAN_FIXTURES_DIR = join(__dirname, '..', 'fixtures', 'llm', 'plans');
+
+type Mutation = {
+  name: string;
+  apply: (plan: any) => void;
+};
+
+const MUTATIONS: Mutation[] = [
+  { name: 'unknown top-level property', apply: (p) => (p.extra = true) },
+  { name: 'missing confidence_score', apply: (p) => delete p.confidence_score },
+  { name: 'confidence_score above 1', apply: (p) => (p.confidence_score = 1.5) },
+  { name: 'bad schema_version pattern', apply: (p) => (p.metadata.schema_version = 'v1') },
+  { name: 'bad generated_at format', apply: (p) => (p.metadata.generated_at = 'yesterday') },
+  { name: 'legacy qualification level', apply: (p) => (p.meta.qualification.level = 'IV') },
+  { name: 'bad qualification code', apply: (p) => (p.meta.qualification.code = 'bsb50120') },
+  { name: 'unsupported delivery mode', apply: (p) => (p.meta.delivery_mode = 'hybrid') },
+  { name: 'non-integer weeks', apply: (p) => (p.meta.duration.weeks = 2.5) },
+  { name: 'legacy trainer_details.trainers', apply: (p) => (p.meta.trainer_details = { trainers: ['Jo'] }) },
+  { name: 'invalid start_date', apply: (p) => (p.meta.start_date = '2025-13-40') },
+  { name: 'unknown delivery day', apply: (p) => (p.meta.delivery_schedule = { delivery_days: ['funday'] }) },
+  {
+    name: 'invalid session time',
+    apply: (p) => (p.meta.delivery_schedule = { delivery_days: ['monday'], session_times: { start: '9am', end: '15:30' } }),
+  },
+  { name: 'empty weekly_plan', apply: (p) => (p.weekly_plan = []) },
+  {
+    name: 'invalid session date',
+    apply: (p) => (p.weekly_plan[0].dates = { start: '2026-02-02', end: '2026-02-08', sessions: ['2026-02-30'] }),
+  },
+  {
+    name: 'legacy assessment type',
+    apply: (p) =>
+      (p.weekly_plan[0].assessments = [
+        { title: 'Knowledge test', type: 'written_test', units_assessed: [p.units[0].unit_code] },
+      ]),
+  },
+  { name: 'activity without duration', apply: (p) => delete p.weekly_plan[0].activities[0].duration_hours },
+  { name: 'activity delivery_method string', apply: (p) => (p.weekly_plan[0].activities[0].delivery_method = 'lab') },
+  { name: 'unit nominal_hours as string', apply: (p) => (p.units[0].nominal_hours = '40') },
+  { name: 'lowercase unit code', apply: (p) => (p.units[0].unit_code = 'hltaid009') },
+  { name: 'legacy compliance_notes key', apply: (p) => (p.compliance_notes = { packaging_rules_compliance: 'OK' }) },
+  { name: 'risk missing likelihood', apply: (p) => (p.risks = [{ risk_description: 'Learners may not attend', impact: 'low' }]) },
+  { name: 'validation_required as string', apply: (p) => (p.assumptions = [{ assumption: 'Learners have laptops', validation_required: 'yes' }]) },
+];
+
+function loadSamples(): Record<string, unknown> {
+  const samples: Record<string, unknown> = {};
+
+  readdirSync(PLAN_FIXTURES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .forEach((file) => {
+      samples[`fixtures/llm/plans/${file}`] = JSON.parse(readFileSync(join(PLAN_FIXTURES_DIR, file), 'utf-8'));
+    });
+
+  Object.entries(mockPlans).forEach(([name, plan]) => {
+    samples[`components/mock-data:${name}`] = plan;
+  });
+
+  return samples;
+}
+
+function main(): void {
+  const failures: string[] = [];
+  let checks = 0;
+
+  // 1. Generated file is current
+  checks++;
+  if (readFileSync(OUTPUT_PATH, 'utf-8') !== generateFromDisk()) {
+    failures.push('lib/plan-schema.generated.ts is stale - run `npm run schema:generate`');
+  }
+
+  const schema = JSON.parse(readFileSync(SCHEMA_PATH, 'utf-8'));
+
+  Object.entries(loadSamples()).forEach(([name, sample]) => {
+    // 2. Samples pass both validators
+    checks++;
+    const json = validateJSONSchema(sample, schema);
+    const zod = GeneratedPlanSchema.safeParse(sample);
+
+    if (!json.valid) {
+      failures.push(`${name}: rejected by JSON Schema (${json.errors.map((e) => `${e.pointer} ${e.message}`).join('; ')})`);
+    }
+    if (!zod.success) {
+      failures.push(`${name}: rejected by Zod (${zod.error.issues.map((i) => `${i.path.join('.')} ${i.message}`).join('; ')})`);
+    }
+
+    // 3. Mutations fail both validators
+    MUTATIONS.forEach((mutation) => {
+      checks++;
+      const mutated = JSON.parse(JSON.stringify(sample));
+      mutation.apply(mutated);
+
+      const jsonValid = validateJSONSchema(mutated, schema).valid;
+      const zodValid = GeneratedPlanSchema.safeParse(mutated).success;
+
+      if (jsonValid || zodValid) {
+        failures.push(
+          `${name} [${mutation.name}]: expected both to reject (JSON Schema ${jsonValid ? 'accepted' : 'rejected'}, Zod ${zodValid ? 'accepted' : 'rejected'})`
+        );
+      }
+    });
+  });
+
+  if (failures.length > 0) {
+    console.error(`[SCHEMA] ${failures.length} of ${checks} conformance checks failed:`);
+    failures.forEach((failure) => console.error(`  ✗ ${failure}`));
+    process.exit(1);
+  }
+
+  console.log(`[SCHEMA] All ${checks} conformance checks passed`);
+}
+
+main();
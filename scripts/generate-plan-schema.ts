@@ -0,0 +1,156 @@
+/**
+ * Plan Schema Codegen
+ *
+ * Derives the Zod GeneratedPlanSchema (and its inferred TypeScript type) from
+ * prompts/schema.json so the runtime validator can never drift from the JSON
+ * schema the model is prompted with.
+ *
+ * Usage:
+ *   npm run schema:generate          # write lib/plan-schema.generated.ts
+ *   npm run schema:generate -- --check  # exit 1 if the generated file is stale
+ *
+ * Supported keywords (everything prompts/schema.json uses): type, properties,
+ * required, additionalProperties, items, enum, pattern, format (date,
+ * date-time), minLength/maxLength, minimum/maximum, minItems/maxItems.
+ * Annotations (description, examples, default) are ignored.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+export const SCHEMA_PATH = join(__dirname, '..', 'prompts', 'schema.json');
+export const OUTPUT_PATH = join(__dirname, '..', 'lib', 'plan-schema.generated.ts');
+
+interface JSONSchemaNode {
+  type?: string;
+  properties?: Record<string, JSONSchemaNode>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchemaNode;
+  enum?: unknown[];
+  pattern?: string;
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+const INDENT = '  ';
+
+/**
+ * Render the generated module source for a JSON schema
+ */
+export function renderPlanSchema(schema: JSONSchemaNode): string {
+  return `/**
+ * GENERATED FILE - DO NOT EDIT
+ *
+ * Zod schema derived from prompts/schema.json by scripts/generate-plan-schema.ts.
+ * Run \`npm run schema:generate\` after changing the JSON schema.
+ */
+
+import { z } from 'zod';
+
+export const GeneratedPlanSchema = ${toZod(schema, 0)};
+
+export type GeneratedPlanSchemaOutput = z.infer<typeof GeneratedPlanSchema>;
+`;
+}
+
+function toZod(node: JSONSchemaNode, depth: number): string {
+  if (node.enum) {
+    return `z.enum([${node.enum.map((value) => quote(String(value))).join(', ')}])`;
+  }
+
+  switch (node.type) {
+    case 'object':
+      return objectToZod(node, depth);
+    case 'array':
+      return (
+        `z.array(${toZod(node.items || {}, depth)})` +
+        (node.minItems ? `.min(${node.minItems})` : '') +
+        (node.maxItems !== undefined ? `.max(${node.maxItems})` : '')
+      );
+    case 'string':
+      return (
+        stringBase(node.format) +
+        (node.minLength !== undefined ? `.min(${node.minLength})` : '') +
+        (node.maxLength !== undefined ? `.max(${node.maxLength})` : '') +
+        (node.pattern ? `.regex(/${node.pattern.replace(/\//g, '\\/')}/)` : '')
+      );
+    case 'integer':
+    case 'number':
+      return (
+        'z.number()' +
+        (node.type === 'integer' ? '.int()' : '') +
+        (node.minimum !== undefined ? `.min(${node.minimum})` : '') +
+        (node.maximum !== undefined ? `.max(${node.maximum})` : '')
+      );
+    case 'boolean':
+      return 'z.boolean()';
+    default:
+      throw new Error(`Unsupported schema type: ${JSON.stringify(node.type)}`);
+  }
+}
+
+function objectToZod(node: JSONSchemaNode, depth: number): string {
+  const properties = Object.entries(node.properties || {});
+
+  // Free-form object (e.g. metadata.reserved)
+  if (properties.length === 0) {
+    return 'z.record(z.string(), z.unknown())';
+  }
+
+  const required = new Set(node.required || []);
+  const pad = INDENT.repeat(depth + 1);
+  const fields = properties.map(
+    ([key, child]) =>
+      `${pad}${key}: ${toZod(child, depth + 1)}${required.has(key) ? '' : '.optional()'},`
+  );
+
+  // additionalProperties: false rejects unknown keys; otherwise they are allowed (and stripped)
+  const factory = node.additionalProperties === false ? 'z.strictObject' : 'z.object';
+  return `${factory}({\n${fields.join('\n')}\n${INDENT.repeat(depth)}})`;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function stringBase(format?: string): string {
+  switch (format) {
+    case 'date':
+      return 'z.iso.date()';
+    case 'date-time':
+      return 'z.iso.datetime({ offset: true })';
+    case undefined:
+      return 'z.string()';
+    default:
+      throw new Error(`Unsupported string format: ${format}`);
+  }
+}
+
+/**
+ * Render the module from prompts/schema.json
+ */
+export function generateFromDisk(): string {
+  return renderPlanSchema(JSON.parse(readFileSync(SCHEMA_PATH, 'utf-8')));
+}
+
+if (require.main === module) {
+  const source = generateFromDisk();
+
+  if (process.argv.includes('--check')) {
+    const current = readFileSync(OUTPUT_PATH, 'utf-8');
+    if (current !== source) {
+      console.error('[SCHEMA] lib/plan-schema.generated.ts is stale. Run `npm run schema:generate`.');
+      process.exit(1);
+    }
+    console.log('[SCHEMA] lib/plan-schema.generated.ts is up to date');
+  } else {
+    writeFileSync(OUTPUT_PATH, source);
+    console.log('[SCHEMA] Wrote lib/plan-schema.generated.ts');
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Training Catalogue Import
+ *
+ * Converts a training.gov.au CSV or JSON export into the catalogue file read
+ * by the server (data/training-catalogue.json, or TRAINING_CATALOGUE_FILE).
+ * Entries are merged into the existing catalogue by code unless --replace
+ * is given.
+ *
+ * Usage:
+ *   npm run catalogue:import -- export.csv
+ *   npm run catalogue:import -- export.json --replace
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname, extname, isAbsolute, join } from 'path';
+import {
+  CatalogueData,
+  CatalogueError,
+  parseCatalogueCSV,
+  parseCatalogueJSON,
+} from '../lib/training-catalogue';
+
+const OUTPUT_FILE = process.env.TRAINING_CATALOGUE_FILE || join('data', 'training-catalogue.json');
+
+function readCatalogue(path: string): CatalogueData {
+  const text = readFileSync(path, 'utf-8');
+  return extname(path).toLowerCase() === '.csv' ? parseCatalogueCSV(text) : parseCatalogueJSON(text);
+}
+
+/**
+ * Merge two catalogues; entries in `incoming` win on matching codes
+ *
+ * Merging into a sample catalogue keeps the sample flag, since its entries
+ * are still there; import with --replace to drop them.
+ */
+function mergeCatalogues(existing: CatalogueData, incoming: CatalogueData, source: string): CatalogueData {
+  const byCode = <T extends { code: string }>(a: T[], b: T[]) =>
+    Array.from(new Map([...a, ...b].map((entry) => [entry.code, entry])).values()).sort((x, y) =>
+      x.code.localeCompare(y.code)
+    );
+
+  return {
+    source,
+    ...(existing.sample ? { sample: true } : {}),
+    qualifications: byCode(existing.qualifications, incoming.qualifications),
+    units: byCode(existing.units, incoming.units),
+  };
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const input = args.find((arg) => !arg.startsWith('--'));
+  const replace = args.includes('--replace');
+
+  if (!input) {
+    console.error('[CATALOGUE] Usage: npm run catalogue:import -- <export.csv|export.json> [--replace]');
+    process.exit(1);
+  }
+
+  const output = isAbsolute(OUTPUT_FILE) ? OUTPUT_FILE : join(process.cwd(), OUTPUT_FILE);
+
+  try {
+    const incoming = readCatalogue(input);
+    const existing: CatalogueData =
+      !replace && existsSync(output) ? readCatalogue(output) : { qualifications: [], units: [] };
+    const source = `Imported from ${input} on ${new Date().toISOString().slice(0, 10)}`;
+    const merged = mergeCatalogues(existing, incoming, source);
+
+    mkdirSync(dirname(output), { recursive: true });
+    writeFileSync(output, JSON.stringify(merged, null, 2) + '\n');
+
+    console.log(
+      `[CATALOGUE] Wrote ${merged.qualifications.length} qualifications and ${merged.units.length} units to ${OUTPUT_FILE}` +
+        ` (${incoming.qualifications.length} qualifications and ${incoming.units.length} units from ${input})`
+    );
+    if (merged.sample) {
+      console.warn('[CATALOGUE] Merged into the sample catalogue; run with --replace to drop the sample entries');
+    }
+  } catch (error) {
+    if (error instanceof CatalogueError) {
+      console.error(`[CATALOGUE] ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+main();
@@ -4,6 +4,6 @@ import type { GeneratedPlan } from './types/unit-plan';
 // This file tests that imports resolve correctly
 const test = async (plan: GeneratedPlan) => {
   await exportToDOCX(plan);
-  await exportToPDF();
+  await exportToPDF(plan);
   exportToMarkdown(plan);
 };
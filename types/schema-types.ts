@@ -2,7 +2,11 @@
  * Schema-aligned TypeScript types for TAS Assistant
  *
  * These types match the JSON schema at /prompts/schema.json exactly.
- * Generated from schema version 1.0.0
+ * Generated from schema version 1.2.0
+ *
+ * This is the canonical plan model: APRV output, the results view, exports
+ * and storage all use these types. Raw model output is normalised into this
+ * shape by lib/plan-adapters.ts.
  */
 
 // ============================================================================
@@ -21,10 +25,21 @@ export interface SchemaMetadata {
 // Qualification Types
 // ============================================================================
 
+export type QualificationLevel =
+  | 'Certificate I'
+  | 'Certificate II'
+  | 'Certificate III'
+  | 'Certificate IV'
+  | 'Diploma'
+  | 'Advanced Diploma'
+  | 'Short Course'
+  | 'Skill Set'
+  | '';
+
 export interface Qualification {
   code?: string;
   title: string;
-  level?: 'Certificate I' | 'Certificate II' | 'Certificate III' | 'Certificate IV' | 'Diploma' | 'Advanced Diploma' | 'Short Course' | 'Skill Set' | '';
+  level?: QualificationLevel;
   packaging_rules?: string;
 }
 
@@ -59,20 +74,55 @@ export interface ClassSize {
   target?: number;
 }
 
+// ============================================================================
+// Delivery Schedule Types
+// ============================================================================
+
+export type AustralianState = 'ACT' | 'NSW' | 'NT' | 'QLD' | 'SA' | 'TAS' | 'VIC' | 'WA';
+
+export type DeliveryDay = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+/** Local session times, 24-hour HH:MM */
+export interface SessionTimes {
+  start: string;
+  end: string;
+}
+
+export interface DeliverySchedule {
+  state?: AustralianState;
+  delivery_days: DeliveryDay[];
+  session_times?: SessionTimes;
+}
+
+export interface WeekClosure {
+  date: string;
+  name: string;
+}
+
+export interface WeekDates {
+  start: string;
+  end: string;
+  sessions: string[];
+  closures?: WeekClosure[];
+}
+
 // ============================================================================
 // Meta Types
 // ============================================================================
 
+export type PlanDeliveryMode = 'face_to_face' | 'online' | 'blended' | 'workplace' | 'mixed';
+
 export interface PlanMeta {
   qualification: Qualification;
   duration: Duration;
-  delivery_mode: 'face_to_face' | 'online' | 'blended' | 'workplace' | 'mixed';
+  delivery_mode: PlanDeliveryMode;
   cohort_profile: string;
   trainer_details?: TrainerDetails;
   start_date?: string;
   end_date?: string;
   venue?: string;
   class_size?: ClassSize;
+  delivery_schedule?: DeliverySchedule;
 }
 
 // ============================================================================
@@ -141,6 +191,7 @@ export interface WeeklyPlanItem {
   activities: WeeklyActivityItem[];
   assessments?: WeeklyAssessment[];
   notes?: string;
+  dates?: WeekDates;
 }
 
 // ============================================================================
@@ -322,3 +373,15 @@ export function getHoursPerWeek(plan: GeneratedPlan): number {
   const { total_hours, weeks } = plan.meta.duration;
   return Math.round((total_hours / weeks) * 10) / 10;
 }
+
+/**
+ * Total scheduled hours for a week: activities plus timed assessments
+ */
+export function getWeekHours(week: WeeklyPlanItem): number {
+  const activityHours = week.activities.reduce((sum, activity) => sum + activity.duration_hours, 0);
+  const assessmentHours = (week.assessments || []).reduce(
+    (sum, assessment) => sum + (assessment.duration_hours || 0),
+    0
+  );
+  return activityHours + assessmentHours;
+}
@@ -5,8 +5,22 @@
  * and related data structures used throughout the application.
  */
 
+import type {
+  PlanMeta,
+  Qualification,
+  QualificationLevel,
+  TrainerDetails,
+  ClassSize,
+  GeneratedPlan,
+  AustralianState,
+  DeliveryDay,
+  DeliverySchedule,
+  SessionTimes,
+} from './schema-types';
+
 /**
- * Delivery mode options for training programs
+ * Delivery mode options offered on the intake form
+ * (a subset of the plan's PlanDeliveryMode)
  */
 export type DeliveryMode = 'face_to_face' | 'online' | 'blended';
 
@@ -40,165 +54,248 @@ export interface IntakeFormData {
 
   /** Optional paste-in unit list (plain text) */
   unitList?: string;
-}
 
-/**
- * Weekly activity in the delivery plan
- */
-export interface WeeklyActivity {
-  /** Week number (1-indexed) */
-  week: number;
+  /** AQF level or course type */
+  qualificationLevel?: QualificationLevel;
 
-  /** Focus topics for this week */
-  topics: string[];
+  /** Planned start date (YYYY-MM-DD) */
+  startDate?: string;
 
-  /** Planned activities */
-  activities: string[];
+  /** Primary training location */
+  venue?: string;
 
-  /** Assessment items due this week */
-  assessments?: Assessment[];
+  /** Cohort size constraints */
+  classSize?: ClassSize;
 
-  /** Estimated hours for this week */
-  hours: number;
-}
+  /** Trainer/assessor delivering the program */
+  primaryTrainer?: string;
 
-/**
- * Assessment item structure
- */
-export interface Assessment {
-  /** Assessment identifier */
-  id: string;
+  /** Other trainers/assessors */
+  additionalTrainers?: string[];
 
-  /** Assessment title/description */
-  title: string;
+  /** State or territory whose public holidays apply to the schedule */
+  state?: AustralianState;
 
-  /** Type of assessment */
-  type: 'formative' | 'summative' | 'practical' | 'project' | 'exam' | 'other';
+  /** Days of the week with sessions (Monday to Friday if not given) */
+  deliveryDays?: DeliveryDay[];
 
-  /** Units this assessment covers */
-  units: string[];
-
-  /** Week when assessment is due */
-  dueWeek?: number;
-
-  /** Additional notes */
-  notes?: string;
+  /** Start and end time of each session, used by the calendar export */
+  sessionTimes?: SessionTimes;
 }
 
 /**
- * Unit of competency details
+ * Organisation-wide intake defaults (set once in settings)
+ *
+ * Merged into every intake before the generation prompt is built; values
+ * entered on the intake form win, and standard resources are added to the
+ * ones selected.
  */
-export interface Unit {
-  /** Unit code (e.g., "TAEDES401") */
-  code: string;
+export interface OrganisationDefaults {
+  /** State or territory the organisation delivers in */
+  state?: AustralianState;
 
-  /** Unit title */
-  title: string;
+  /** Usual training location */
+  venue?: string;
 
-  /** Nominal hours for this unit */
-  hours: number;
+  /** Trainer/assessor who usually delivers */
+  primaryTrainer?: string;
 
-  /** Delivery method for this unit */
-  deliveryMethod: DeliveryMode;
+  /** Other trainers/assessors */
+  additionalTrainers?: string[];
 
-  /** Assessment methods for this unit */
-  assessmentMethods?: string[];
+  /** Usual class size */
+  classSize?: ClassSize;
 
-  /** Prerequisites (if any) */
-  prerequisites?: string[];
-
-  /** Week range when this unit is delivered (e.g., [1, 4]) */
-  weekRange?: [number, number];
+  /** Resource option values (see lib/intake-options.ts) available on every course */
+  resources?: string[];
 }
 
 /**
- * Risk or assumption item
+ * DOCX sections whose order the organisation can change; the title page,
+ * document control and contents always come first
  */
-export interface RiskAssumption {
-  /** Category of the item */
-  category: 'risk' | 'assumption';
-
-  /** Description of the risk or assumption */
-  description: string;
+export type DocxSectionId = 'overview' | 'cohort' | 'weekly_plan' | 'units' | 'resources' | 'risks' | 'compliance';
 
-  /** Mitigation strategy (for risks) or validation notes (for assumptions) */
-  mitigation?: string;
-
-  /** Impact level (high, medium, low) */
-  impact?: 'high' | 'medium' | 'low';
+/**
+ * Document-control fields printed in the DOCX footer and control table
+ */
+export interface DocumentControl {
+  documentNumber?: string;
+  version?: string;
+  /** Person or role responsible for the document */
+  owner?: string;
+  approvedBy?: string;
+  /** YYYY-MM-DD */
+  approvalDate?: string;
+  /** YYYY-MM-DD */
+  reviewDate?: string;
 }
 
 /**
- * Metadata about the generated plan
+ * One row of the DOCX version-control table
  */
-export interface PlanMetadata {
-  /** Schema version used */
-  schema_version: string;
-
-  /** Project type identifier */
-  project_type: string;
-
-  /** Generation timestamp */
-  generated_at: string;
+export interface VersionHistoryEntry {
+  version: string;
+  /** YYYY-MM-DD */
+  date: string;
+  author?: string;
+  changes: string;
+}
 
-  /** Reserved fields for future use */
-  reserved?: Record<string, unknown>;
+/**
+ * Logo image, kept in settings as a data: URL
+ */
+export interface BrandingLogo {
+  /** data:image/png or data:image/jpeg URL */
+  dataUrl: string;
+  /** Natural size in pixels, used to keep the aspect ratio */
+  width: number;
+  height: number;
 }
 
 /**
- * Meta information about the qualification and delivery
+ * An uploaded .docx template containing {{placeholders}}
  */
-export interface PlanMeta {
-  /** Qualification name */
-  qualification: string;
+export interface DocxTemplateFile {
+  name: string;
+  /** Base64-encoded .docx */
+  data: string;
+  /** Placeholders found in the template when it was uploaded */
+  placeholders: string[];
+}
 
-  /** Qualification code */
-  qualification_code?: string;
+/**
+ * Organisation branding applied to DOCX exports
+ *
+ * Without a template the DOCX is built with the RTO's logo, name, number,
+ * colours and document-control footer. With a template, the plan is
+ * rendered into the template's {{tas_content}} placeholder and its other
+ * placeholders are filled from these fields (see lib/branding.ts).
+ */
+export interface OrganisationBranding {
+  rtoName?: string;
+  rtoNumber?: string;
+  logo?: BrandingLogo;
+  /** Heading and table header colour, 6-digit hex without "#" */
+  primaryColor?: string;
+  /** Title page and subheading colour, 6-digit hex without "#" */
+  accentColor?: string;
+  documentControl?: DocumentControl;
+  versionHistory?: VersionHistoryEntry[];
+  sectionOrder?: DocxSectionId[];
+  template?: DocxTemplateFile;
+}
 
-  /** Program duration in weeks */
-  duration_weeks: number;
+/**
+ * Canonical plan model
+ *
+ * The generated plan shape is defined once, in schema-types.ts, from
+ * prompts/schema.json. It is re-exported here so consumers can keep
+ * importing plan and intake types from a single module.
+ */
+export type {
+  GeneratedPlan,
+  SchemaMetadata,
+  PlanMeta,
+  PlanDeliveryMode,
+  Qualification,
+  QualificationLevel,
+  Duration,
+  TrainerDetails,
+  ClassSize,
+  AustralianState,
+  DeliveryDay,
+  DeliverySchedule,
+  SessionTimes,
+  WeekDates,
+  WeekClosure,
+  WeeklyPlanItem,
+  WeeklyActivityItem,
+  WeeklyAssessment,
+  UnitDetail,
+  Resources,
+  Risk,
+  Assumption,
+  ComplianceNotes,
+} from './schema-types';
 
-  /** Total delivery hours */
-  total_hours: number;
+/**
+ * Input to the APRV generation loop
+ *
+ * Built from IntakeFormData by lib/plan-adapters.ts. Field names follow the
+ * plan's `meta` block so prompt values map 1:1 onto generated output.
+ */
+export interface APRVIntake {
+  /** Qualification title, code and AQF level */
+  qualification: Pick<Qualification, 'title' | 'code' | 'level'>;
+
+  /** Program duration */
+  duration: {
+    weeks: number;
+    total_hours: number;
+  };
 
-  /** Delivery mode */
-  delivery_mode: DeliveryMode;
+  /** Primary delivery modality */
+  delivery_mode: PlanMeta['delivery_mode'];
 
-  /** Cohort profile description */
+  /** Cohort/learner profile description */
   cohort_profile: string;
 
-  /** Resources available */
-  resources?: string[];
+  /** Available resources grouped by kind */
+  resources?: {
+    facilities?: string[];
+    equipment?: string[];
+    materials?: string[];
+    technology?: string[];
+  };
 
-  /** Assessment preferences */
+  /** Preferred assessment methods */
   assessment_preferences?: string[];
+
+  /** Paste-in unit list (plain text) */
+  unit_list?: string;
+
+  /** Trainer/assessor details */
+  trainer_details?: Pick<TrainerDetails, 'primary_trainer' | 'additional_trainers'>;
+
+  /** Planned start date (YYYY-MM-DD) */
+  start_date?: string;
+
+  /** Primary training location */
+  venue?: string;
+
+  /** Cohort size constraints */
+  class_size?: ClassSize;
+
+  /** State and delivery days used to date the weeks (see lib/delivery-calendar.ts) */
+  delivery_schedule?: Partial<DeliverySchedule>;
 }
 
 /**
- * Complete generated unit plan structure
- * This matches the JSON schema output from Claude
+ * Severity of a reflection finding
+ * - blocking: the plan must be regenerated before use
+ * - warning: usable, but a reviewer should check it
+ * - info: suggestion only
  */
-export interface GeneratedPlan {
-  /** Metadata about this plan */
-  metadata: PlanMetadata;
+export type FindingSeverity = 'blocking' | 'warning' | 'info';
 
-  /** Meta information about qualification and delivery */
-  meta: PlanMeta;
+export type FindingCategory = 'completeness' | 'consistency' | 'practicality' | 'compliance' | 'other';
 
-  /** Week-by-week delivery plan */
-  weekly_plan: WeeklyActivity[];
-
-  /** Units of competency included */
-  units: Unit[];
+/**
+ * A machine-readable finding from the APRV reflection review
+ */
+export interface ReflectionFinding {
+  severity: FindingSeverity;
+  category: FindingCategory;
 
-  /** Identified risks */
-  risks: RiskAssumption[];
+  /** JSON Pointer to the part of the plan the finding refers to ('' for the whole plan) */
+  path: string;
 
-  /** Documented assumptions */
-  assumptions: RiskAssumption[];
+  /** What is wrong */
+  message: string;
 
-  /** Confidence score (0-1) indicating generation quality */
-  confidence: number;
+  /** How to fix it */
+  suggested_fix?: string;
 }
 
 /**
@@ -227,6 +324,9 @@ export interface GenerationResponse {
 
     /** Tokens used */
     tokens_used?: number;
+
+    /** Non-blocking reflection findings for the reviewer */
+    review_notes?: ReflectionFinding[];
   };
 }
 
@@ -250,7 +350,13 @@ export interface GenerationOptions {
 /**
  * Export format types
  */
-export type ExportFormat = 'docx' | 'pdf' | 'markdown' | 'json';
+export type ExportFormat = 'docx' | 'pdf' | 'markdown' | 'json' | 'xlsx' | 'csv' | 'ics';
+
+/**
+ * Spreadsheet sheets: one worksheet each in XLSX, one file each in CSV
+ * (see lib/plan-sheets.ts)
+ */
+export type PlanSheetId = 'weekly_plan' | 'units' | 'assessments' | 'risks' | 'assessment_matrix';
 
 /**
  * Export options
@@ -265,6 +371,12 @@ export interface ExportOptions {
   /** Custom filename (without extension) */
   filename?: string;
 
+  /** Organisation branding (DOCX only) */
+  branding?: OrganisationBranding;
+
+  /** Sheet to export (CSV only; defaults to the weekly plan) */
+  sheet?: PlanSheetId;
+
   /** Additional format-specific options */
   formatOptions?: Record<string, unknown>;
 }